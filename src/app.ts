@@ -3,6 +3,8 @@ import cors from 'cors';
 import { appConfig } from './config/app.config';
 import { database } from './config/database.init';
 import { AutoSyncInitializer } from './config/auto-sync.init';
+import { JobWorkerInitializer } from './config/job-worker.init';
+import { MailboxWatchInitializer } from './config/mailbox-watch.init';
 import { ControllerFactory } from './factories/controller.factory';
 import { logger } from '@/utils'
 import { requireInternalAuth } from "@/middleware/internal-auth.middleware.ts";
@@ -10,6 +12,10 @@ import { requireInternalAuth } from "@/middleware/internal-auth.middleware.ts";
 database.initialize().then(() => {
     logger.info('Database initialized successfully');
 
+    JobWorkerInitializer.start().catch((error) => {
+        logger.error('Failed to start job worker:', error);
+    });
+
     setTimeout(() => {
         try {
             AutoSyncInitializer.startAutoSync('08:00');
@@ -17,6 +23,11 @@ database.initialize().then(() => {
         } catch (error) {
             logger.error('Failed to start auto sync:', error);
         }
+
+        // Ежедневная синхронизация остается страховкой на случай пропущенных событий IDLE
+        MailboxWatchInitializer.start().catch((error) => {
+            logger.error('Failed to start mailbox watchers:', error);
+        });
     }, 10000);
 
 }).catch((error) => {
@@ -64,7 +75,7 @@ app.use(cors({
         }
     },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'X-Requested-With'],
     exposedHeaders: ['Content-Length', 'Content-Type']
 }));
@@ -79,19 +90,35 @@ app.get('/api/health', (_req, res) => {
         database: database.getIsInitialized() ? 'connected' : 'disconnected',
         port: appConfig.port,
         autoSync: autoSyncService?.isAutoSyncRunning() ? 'running' : 'stopped',
+        jobWorker: JobWorkerInitializer.getWorker()?.isWorkerRunning() ? 'running' : 'stopped',
+        mailboxWatchers: MailboxWatchInitializer.getWatcher()?.isWatcherRunning() ? 'running' : 'stopped',
         timestamp: new Date().toISOString()
     });
 });
 
 const oauthController = ControllerFactory.createOAuthController();
+const imapAuthController = ControllerFactory.createImapAuthController();
 const emailController = ControllerFactory.createEmailController();
 const emailGroupController = ControllerFactory.createEmailGroupController();
 const autoSyncController = ControllerFactory.createAutoSyncController();
+const promptTemplateController = ControllerFactory.createPromptTemplateController();
+const jobController = ControllerFactory.createJobController();
+const vocabularyController = ControllerFactory.createVocabularyController();
+const extractionExampleController = ControllerFactory.createExtractionExampleController();
+const summaryController = ControllerFactory.createSummaryController();
+const mailboxFolderController = ControllerFactory.createMailboxFolderController();
 
 app.use('/api/oauth', oauthController.getRoutes());
+app.use('/api/imap-auth', imapAuthController.getRoutes());
 app.use('/api/email', emailController.getRoutes());
 app.use('/api/email-groups', emailGroupController.getRoutes());
 app.use('/api/auto-sync', autoSyncController.getRoutes());
+app.use('/api/admin/prompt-templates', promptTemplateController.getRoutes());
+app.use('/api/jobs', jobController.getRoutes());
+app.use('/api/admin/vocabulary', vocabularyController.getRoutes());
+app.use('/api/admin/extraction-examples', extractionExampleController.getRoutes());
+app.use('/api/summaries', summaryController.getRoutes());
+app.use('/api/mailbox-folders', mailboxFolderController.getRoutes());
 app.get('/api/internal/email-groups/approved', requireInternalAuth, emailGroupController.getApprovedEmailGroups);
 app.get('/api/internal/health', requireInternalAuth, (_req, res) => {
     res.json({
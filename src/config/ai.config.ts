@@ -0,0 +1,58 @@
+export type ExtractionProviderName = 'gemini' | 'openai' | 'mock';
+
+export const aiConfig = {
+    provider: (process.env.AI_PROVIDER || 'gemini').toLowerCase() as ExtractionProviderName,
+    temperature: parseFloat(process.env.AI_TEMPERATURE || '0.1'),
+    maxOutputTokens: parseInt(process.env.AI_MAX_OUTPUT_TOKENS || '8192', 10),
+    requestTimeout: parseInt(process.env.AI_REQUEST_TIMEOUT || '120000', 10),
+    maxRepairAttempts: parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS || '2', 10),
+    ruleBased: {
+        fallbackEnabled: process.env.AI_RULE_FALLBACK_ENABLED !== 'false',
+        crossCheck: process.env.AI_RULE_CROSS_CHECK === 'true'
+    },
+    // Горизонт правдоподобных дат относительно последнего письма группы
+    dateChecks: {
+        maxPastDays: parseInt(process.env.AI_DATE_MAX_PAST_DAYS || '30', 10),
+        maxFutureDays: parseInt(process.env.AI_DATE_MAX_FUTURE_DAYS || '365', 10)
+    },
+    cache: {
+        enabled: process.env.AI_CACHE_ENABLED !== 'false',
+        ttlDays: parseInt(process.env.AI_CACHE_TTL_DAYS || '30', 10)
+    },
+    // Проверенные примеры того же отправителя в промпте; бюджет - грубая оценка, 4 символа на токен
+    fewShot: {
+        enabled: process.env.AI_FEW_SHOT_ENABLED !== 'false',
+        maxExamples: parseInt(process.env.AI_FEW_SHOT_MAX_EXAMPLES || '3', 10),
+        maxTokens: parseInt(process.env.AI_FEW_SHOT_MAX_TOKENS || '2000', 10),
+        maxExcerptChars: parseInt(process.env.AI_FEW_SHOT_EXCERPT_MAX_CHARS || '1200', 10)
+    },
+    // Замена персональных данных метками перед отправкой во внешнюю модель; домены вида "acme.pl,client.ru=phone|name" или "*"
+    redaction: {
+        enabled: process.env.AI_REDACTION_ENABLED === 'true',
+        domains: (process.env.AI_REDACTION_DOMAINS || '').split(',').map(domain => domain.trim()).filter(Boolean),
+        kinds: (process.env.AI_REDACTION_KINDS || 'email,phone,iban,name').split(',').map(kind => kind.trim().toLowerCase()).filter(Boolean)
+    },
+    attachments: {
+        enabled: process.env.AI_ATTACHMENTS_ENABLED !== 'false',
+        maxCharsPerDocument: parseInt(process.env.AI_ATTACHMENT_MAX_CHARS || '4000', 10),
+        maxTotalChars: parseInt(process.env.AI_ATTACHMENTS_TOTAL_MAX_CHARS || '12000', 10),
+        maxFileSize: parseInt(process.env.AI_ATTACHMENT_MAX_FILE_SIZE || String(10 * 1024 * 1024), 10),
+        // Неудачное извлечение текста хранится как отметка об ошибке и повторяется не раньше этого срока
+        extractionRetryAfterMs: parseInt(process.env.AI_ATTACHMENT_RETRY_AFTER_MS || String(6 * 60 * 60 * 1000), 10)
+    },
+    gemini: {
+        apiKey: process.env.GEMINI_API_KEY || '',
+        model: process.env.AI_MODEL || process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+        baseUrl: process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com/v1beta'
+    },
+    openai: {
+        apiKey: process.env.OPENAI_API_KEY || '',
+        model: process.env.AI_MODEL || process.env.OPENAI_MODEL || 'llama3.1',
+        // Ollama и llama.cpp server отдают OpenAI-совместимый API по /v1
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1'
+    },
+    mock: {
+        model: process.env.AI_MODEL || 'mock-extractor',
+        responseFile: process.env.AI_MOCK_RESPONSE_FILE || ''
+    }
+};
\ No newline at end of file
@@ -1,5 +1,9 @@
 export const appConfig = {
     port: parseInt(process.env.PORT || '3001'),
     env: process.env.NODE_ENV || 'development',
-    apiToken: process.env.INTERNAL_API_TOKEN || 'default-internal-token'
+    apiToken: process.env.INTERNAL_API_TOKEN || 'default-internal-token',
+    adminEmails: (process.env.ADMIN_EMAILS || '')
+        .split(',')
+        .map(email => email.trim().toLowerCase())
+        .filter(Boolean)
 };
\ No newline at end of file
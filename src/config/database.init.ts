@@ -1,6 +1,7 @@
 import { Sequelize } from 'sequelize';
 import { databaseConfig } from './database.config';
 import { initModels } from '@/models';
+import { MIGRATIONS } from '@/migrations';
 import { logger } from '@/utils';
 
 class Database {
@@ -62,6 +63,8 @@ class Database {
             await this.sequelize.sync({ force: false, alter: false });
             logger.info('All models synchronized with database');
 
+            await this.runMigrations();
+
             this.isInitialized = true;
             logger.info('Database initialization completed');
         } catch (error) {
@@ -70,6 +73,32 @@ class Database {
         }
     }
 
+    // sync() без alter создает только новые таблицы; колонки в существующих добавляют миграции из src/migrations
+    private async runMigrations(): Promise<void> {
+        const queryInterface = this.sequelize.getQueryInterface();
+
+        await this.sequelize.query(
+            'CREATE TABLE IF NOT EXISTS "schema_migrations" ("name" VARCHAR(255) PRIMARY KEY, "appliedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW())'
+        );
+        const [rows] = await this.sequelize.query('SELECT "name" FROM "schema_migrations"');
+        const applied = new Set((rows as Array<{ name: string }>).map(row => row.name));
+
+        for (const migration of MIGRATIONS) {
+            if (applied.has(migration.name)) {
+                continue;
+            }
+
+            await this.sequelize.transaction(async (transaction) => {
+                await migration.up(queryInterface, transaction);
+                await this.sequelize.query(
+                    'INSERT INTO "schema_migrations" ("name") VALUES (:name) ON CONFLICT DO NOTHING',
+                    { replacements: { name: migration.name }, transaction }
+                );
+            });
+            logger.info(`Applied migration ${migration.name}`);
+        }
+    }
+
     public getIsInitialized(): boolean {
         return this.isInitialized;
     }
@@ -0,0 +1,8 @@
+export const gmailApiConfig = {
+    // Ящики провайдеров с mailApi: 'gmail' читаются через REST API вместо IMAP
+    enabled: process.env.GMAIL_API_ENABLED === 'true',
+    // Можно направить на локальную заглушку с теми же путями, что у Gmail API
+    baseUrl: process.env.GMAIL_API_BASE_URL || 'https://gmail.googleapis.com/gmail/v1',
+    requestTimeout: parseInt(process.env.GMAIL_API_REQUEST_TIMEOUT_MS || '30000', 10),
+    pageSize: parseInt(process.env.GMAIL_API_PAGE_SIZE || '100', 10)
+};
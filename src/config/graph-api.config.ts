@@ -0,0 +1,8 @@
+export const graphApiConfig = {
+    // Можно направить на локальную заглушку с теми же путями, что у Microsoft Graph
+    baseUrl: process.env.GRAPH_API_BASE_URL || 'https://graph.microsoft.com/v1.0',
+    requestTimeout: parseInt(process.env.GRAPH_API_REQUEST_TIMEOUT_MS || '30000', 10),
+    pageSize: parseInt(process.env.GRAPH_API_PAGE_SIZE || '100', 10),
+    // Позиция в папке - время получения; запас покрывает письма, записанные в ящик с опозданием
+    overlapSeconds: parseInt(process.env.GRAPH_API_OVERLAP_SECONDS || '300', 10)
+};
@@ -0,0 +1,88 @@
+import { ImapLoginConfig, ImapLoginSettings, ImapSecurityMode } from '@/models/imap-account';
+
+type ImapServerPreset = {
+    host: string;
+    port: number;
+    security: ImapSecurityMode;
+};
+
+// Сервера популярных ящиков без OAuth - пользователю достаточно адреса и пароля приложения
+const imapServerPresets: Record<string, ImapServerPreset> = {
+    'yandex.ru': { host: 'imap.yandex.ru', port: 993, security: 'tls' },
+    'ya.ru': { host: 'imap.yandex.ru', port: 993, security: 'tls' },
+    'yandex.com': { host: 'imap.yandex.com', port: 993, security: 'tls' },
+    'narod.ru': { host: 'imap.yandex.ru', port: 993, security: 'tls' },
+    'rambler.ru': { host: 'imap.rambler.ru', port: 993, security: 'tls' }
+};
+
+// Сервера корпоративных доменов: "acme.com:mail.acme.com,acme.de:imap.acme.de"
+const parseDomainHosts = (value: string | undefined): Map<string, string[]> => {
+    const mapping = new Map<string, string[]>();
+
+    for (const entry of (value || '').split(',')) {
+        const [domain, host] = entry.split(':').map(part => part?.trim().toLowerCase());
+        if (!domain || !host) continue;
+
+        mapping.set(domain, [...(mapping.get(domain) || []), host]);
+    }
+
+    return mapping;
+};
+
+export const imapLoginConfig = {
+    // Без шифрования пароль можно отправлять только на локальный сервер, если это не разрешено явно
+    allowPlaintext: process.env.IMAP_ALLOW_PLAINTEXT === 'true',
+    // false - принимать самоподписанные сертификаты своих серверов
+    tlsRejectUnauthorized: process.env.IMAP_TLS_REJECT_UNAUTHORIZED !== 'false',
+    connectionTimeout: parseInt(process.env.IMAP_CONNECTION_TIMEOUT_MS || '15000', 10),
+    // Подключения к локальным, частным и link-local адресам запрещены, иначе через проверку соединения можно сканировать внутреннюю сеть
+    allowPrivateHosts: process.env.IMAP_ALLOW_PRIVATE_HOSTS === 'true',
+    domainHosts: parseDomainHosts(process.env.IMAP_DOMAIN_HOSTS),
+    rateLimit: {
+        windowMs: parseInt(process.env.IMAP_AUTH_RATE_LIMIT_WINDOW_MS || String(15 * 60 * 1000), 10),
+        maxRequests: parseInt(process.env.IMAP_AUTH_RATE_LIMIT_MAX || '10', 10)
+    }
+};
+
+export class ImapLoginProviderService {
+    public getPreset(email: string): ImapServerPreset | null {
+        const domain = email.split('@')[1]?.trim().toLowerCase();
+        return domain ? imapServerPresets[domain] || null : null;
+    }
+
+    // Адрес не подтверждается ничем, кроме входа на сервер, поэтому сервер должен принадлежать домену адреса:
+    // пресет публичного провайдера или сервер, настроенный администратором в IMAP_DOMAIN_HOSTS
+    public getTrustedHost(email: string, host: string): { configured: boolean } | null {
+        const domain = email.split('@')[1]?.trim().toLowerCase();
+        if (!domain) {
+            return null;
+        }
+
+        if (imapLoginConfig.domainHosts.get(domain)?.includes(host)) {
+            return { configured: true };
+        }
+        return imapServerPresets[domain]?.host === host ? { configured: false } : null;
+    }
+
+    public getConfiguredHost(email: string): string | null {
+        const domain = email.split('@')[1]?.trim().toLowerCase();
+        return domain ? imapLoginConfig.domainHosts.get(domain)?.[0] || null : null;
+    }
+
+    public createConnectionConfig(settings: ImapLoginSettings): ImapLoginConfig {
+        return {
+            id: 'imap',
+            displayName: settings.host,
+            imapHost: settings.host,
+            imapPort: settings.port,
+            imapSecurity: settings.security,
+            imapUser: settings.username,
+            imapPassword: settings.password,
+            imapAuthMethod: 'LOGIN',
+            imapTlsRejectUnauthorized: imapLoginConfig.tlsRejectUnauthorized,
+            connectionTimeout: imapLoginConfig.connectionTimeout
+        };
+    }
+}
+
+export const imapLoginProviderService = new ImapLoginProviderService();
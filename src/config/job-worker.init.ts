@@ -0,0 +1,27 @@
+import { JobWorkerService } from '@/services/jobs/job-worker.service';
+import { JobFactory } from '@/factories/job.factory';
+import { AutoSyncInitializer } from './auto-sync.init';
+import { jobConfig } from './job.config';
+import { logger } from '@/utils';
+
+export class JobWorkerInitializer {
+    private static worker: JobWorkerService;
+
+    public static async start(): Promise<void> {
+        if (!jobConfig.workerEnabled) {
+            logger.info('Job worker disabled by JOB_WORKER_ENABLED=false');
+            return;
+        }
+
+        if (!this.worker) {
+            const autoSyncService = AutoSyncInitializer.getAutoSyncService() || AutoSyncInitializer.initialize();
+            this.worker = JobFactory.createJobWorker(autoSyncService);
+        }
+
+        await this.worker.start();
+    }
+
+    public static getWorker(): JobWorkerService | null {
+        return this.worker;
+    }
+}
@@ -0,0 +1,16 @@
+export const jobConfig = {
+    workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+    pollInterval: parseInt(process.env.JOB_POLL_INTERVAL || '2000', 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+    backoffBaseMs: parseInt(process.env.JOB_BACKOFF_BASE_MS || '30000', 10),
+    backoffMaxMs: parseInt(process.env.JOB_BACKOFF_MAX_MS || String(30 * 60 * 1000), 10),
+    // Задачи в running дольше этого срока считаются брошенными (упавший процесс) и возвращаются в очередь
+    staleAfterMs: parseInt(process.env.JOB_STALE_AFTER_MS || String(30 * 60 * 1000), 10),
+    // Как часто искать брошенные задачи и продлевать блокировку своих; должно быть заметно меньше staleAfterMs
+    staleCheckIntervalMs: parseInt(process.env.JOB_STALE_CHECK_INTERVAL_MS || '60000', 10),
+    concurrency: {
+        analyze_group: parseInt(process.env.JOB_CONCURRENCY_ANALYZE || '2', 10),
+        sync_user: parseInt(process.env.JOB_CONCURRENCY_SYNC || '1', 10),
+        backfill: 1
+    }
+};
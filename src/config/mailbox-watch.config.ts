@@ -0,0 +1,16 @@
+export const mailboxWatchConfig = {
+    enabled: process.env.MAILBOX_WATCH_ENABLED !== 'false',
+    // Сверх лимита ящики опрашиваются по таймеру, а не держат IDLE-соединение
+    maxWatchers: parseInt(process.env.MAILBOX_WATCH_MAX_WATCHERS || '20', 10),
+    pollIntervalMs: parseInt(process.env.MAILBOX_WATCH_POLL_INTERVAL_MS || String(2 * 60 * 1000), 10),
+    // Пачка писем приходит несколькими событиями EXISTS - синхронизируем один раз после затишья
+    debounceMs: parseInt(process.env.MAILBOX_WATCH_DEBOUNCE_MS || '3000', 10),
+    backoffBaseMs: parseInt(process.env.MAILBOX_WATCH_BACKOFF_BASE_MS || '5000', 10),
+    backoffMaxMs: parseInt(process.env.MAILBOX_WATCH_BACKOFF_MAX_MS || String(5 * 60 * 1000), 10),
+    // Соединение пересоздается, чтобы авторизоваться актуальным access token
+    maxConnectionAgeMs: parseInt(process.env.MAILBOX_WATCH_MAX_CONNECTION_AGE_MS || String(45 * 60 * 1000), 10),
+    // IDLE следит только за INBOX - остальные наблюдаемые папки догоняются по этому таймеру
+    folderSyncIntervalMs: parseInt(process.env.MAILBOX_WATCH_FOLDER_SYNC_INTERVAL_MS || String(10 * 60 * 1000), 10),
+    // Как часто сверять список ящиков с активными учетными данными
+    refreshIntervalMs: parseInt(process.env.MAILBOX_WATCH_REFRESH_INTERVAL_MS || String(5 * 60 * 1000), 10)
+};
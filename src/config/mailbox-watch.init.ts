@@ -0,0 +1,27 @@
+import { MailboxWatcherService } from '@/services/email/mailbox-watcher.service';
+import { AutoSyncFactory } from '@/factories/auto-sync.factory';
+import { AutoSyncInitializer } from './auto-sync.init';
+import { mailboxWatchConfig } from './mailbox-watch.config';
+import { logger } from '@/utils';
+
+export class MailboxWatchInitializer {
+    private static watcher: MailboxWatcherService;
+
+    public static async start(): Promise<void> {
+        if (!mailboxWatchConfig.enabled) {
+            logger.info('Mailbox watchers disabled by MAILBOX_WATCH_ENABLED=false');
+            return;
+        }
+
+        if (!this.watcher) {
+            const autoSyncService = AutoSyncInitializer.getAutoSyncService() || AutoSyncInitializer.initialize();
+            this.watcher = AutoSyncFactory.createMailboxWatcherService(autoSyncService);
+        }
+
+        await this.watcher.start();
+    }
+
+    public static getWatcher(): MailboxWatcherService | null {
+        return this.watcher;
+    }
+}
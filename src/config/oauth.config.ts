@@ -1,62 +1,171 @@
-import { OAuthProviderConfig } from '@/models/auth';
+import { OAuthProviderConfig, OAuthProviderId, OAUTH_PROVIDER_IDS } from '@/models/auth';
 import { logger } from '@/utils';
 
 const commonRedirectUri = process.env.REDIRECT_URI || 'http://localhost:3000/auth/callback';
 
-const oauthProvidersConfig: { [key: string]: OAuthProviderConfig } = {
-    'gmail.com': {
+// common - рабочие и личные учетные записи Microsoft; для одного клиента можно указать его tenant
+const microsoftTenant = process.env.MICROSOFT_TENANT_ID || 'common';
+const microsoftMailAccess = process.env.MICROSOFT_MAIL_ACCESS === 'graph' ? 'graph' : 'imap';
+
+const oauthProvidersConfig: Record<OAuthProviderId, OAuthProviderConfig> = {
+    google: {
+        id: 'google',
+        displayName: 'Google',
+        domains: ['gmail.com', 'googlemail.com'],
         clientId: process.env.GOOGLE_CLIENT_ID || '',
         clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
         redirectUri: commonRedirectUri,
         authUrl: 'https://accounts.google.com/o/oauth2/auth',
         tokenUrl: 'https://oauth2.googleapis.com/token',
         userInfoUrl: 'https://www.googleapis.com/oauth2/v3/userinfo',
+        userInfoSource: 'endpoint',
         scope: [
             'https://mail.google.com/',
             'https://www.googleapis.com/auth/gmail.readonly',
             'https://www.googleapis.com/auth/userinfo.email',
             'openid'
         ],
+        authParams: {
+            access_type: 'offline',
+            prompt: 'consent'
+        },
         imapHost: 'imap.gmail.com',
         imapPort: 993,
-        imapAuthMethod: 'XOAUTH2'
+        imapAuthMethod: 'XOAUTH2',
+        mailApi: 'gmail'
     },
-    'mail.ru': {
+    mailru: {
+        id: 'mailru',
+        displayName: 'Mail.ru',
+        domains: ['mail.ru', 'inbox.ru', 'list.ru', 'bk.ru'],
         clientId: process.env.MAILRU_CLIENT_ID || '',
         clientSecret: process.env.MAILRU_CLIENT_SECRET || '',
         redirectUri: commonRedirectUri,
         authUrl: 'https://oauth.mail.ru/login',
         tokenUrl: 'https://oauth.mail.ru/token',
         userInfoUrl: 'https://oauth.mail.ru/userinfo',
+        userInfoSource: 'endpoint',
         scope: ['userinfo', 'mail.imap'],
         imapHost: 'imap.mail.ru',
         imapPort: 993,
         imapAuthMethod: 'XOAUTH2'
+    },
+    microsoft: {
+        id: 'microsoft',
+        displayName: 'Microsoft 365 / Outlook.com',
+        domains: ['outlook.com', 'hotmail.com', 'live.com', 'msn.com'],
+        clientId: process.env.MICROSOFT_CLIENT_ID || '',
+        clientSecret: process.env.MICROSOFT_CLIENT_SECRET || '',
+        redirectUri: commonRedirectUri,
+        authUrl: `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/authorize`,
+        tokenUrl: `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/token`,
+        // Токен выдается на один ресурс - почту Outlook или Graph, поэтому адрес берем из id_token
+        userInfoSource: 'id_token',
+        scope: [
+            microsoftMailAccess === 'graph'
+                ? 'https://graph.microsoft.com/Mail.Read'
+                : 'https://outlook.office.com/IMAP.AccessAsUser.All',
+            'offline_access',
+            'openid',
+            'email'
+        ],
+        authParams: {
+            response_mode: 'query',
+            prompt: 'select_account'
+        },
+        imapHost: 'outlook.office365.com',
+        imapPort: 993,
+        imapAuthMethod: 'XOAUTH2',
+        ...(microsoftMailAccess === 'graph' ? { mailApi: 'graph' as const } : {})
+    }
+};
+
+// Домены компаний на чужой почте: "acme.com:microsoft,acme.de:google"
+const parseDomainProviders = (value: string | undefined): Map<string, OAuthProviderId> => {
+    const mapping = new Map<string, OAuthProviderId>();
+
+    for (const entry of (value || '').split(',')) {
+        const [domain, providerId] = entry.split(':').map(part => part?.trim().toLowerCase());
+        if (!domain || !providerId) continue;
+
+        if (!OAUTH_PROVIDER_IDS.includes(providerId as OAuthProviderId)) {
+            logger.warn(`OAUTH_DOMAIN_PROVIDERS: unknown provider "${providerId}" for ${domain}, skipped`);
+            continue;
+        }
+        mapping.set(domain, providerId as OAuthProviderId);
     }
+
+    return mapping;
+};
+
+export type OAuthProviderSummary = {
+    id: OAuthProviderId;
+    displayName: string;
+    domains: string[];
+    configured: boolean;
 };
 
 export class OAuthProviderService {
+    private readonly domainProviders = parseDomainProviders(process.env.OAUTH_DOMAIN_PROVIDERS);
+
     private isConfigValid(config: OAuthProviderConfig): boolean {
         return !!(config.clientId && config.clientSecret);
     }
 
-    public getProviderConfig(email: string): OAuthProviderConfig | null {
-        const domain = email.split('@')[1]?.toLowerCase();
-
-        for (const [providerDomain, config] of Object.entries(oauthProvidersConfig)) {
-            if (domain?.includes(providerDomain)) {
-                if (!this.isConfigValid(config)) {
-                    logger.error(`OAuth not configured for ${providerDomain}. Check your .env file!`);
-                    logger.error(`Required: ${providerDomain.toUpperCase()}_CLIENT_ID and ${providerDomain.toUpperCase()}_CLIENT_SECRET`);
-                    return null;
-                }
-                logger.info(`OAuth config for ${providerDomain}: Ready to use`);
-                return config;
-            }
+    public isProviderId(value: unknown): value is OAuthProviderId {
+        return typeof value === 'string' && OAUTH_PROVIDER_IDS.includes(value as OAuthProviderId);
+    }
+
+    public listProviders(): OAuthProviderSummary[] {
+        return Object.values(oauthProvidersConfig).map(config => ({
+            id: config.id,
+            displayName: config.displayName,
+            domains: [
+                ...config.domains,
+                ...[...this.domainProviders].filter(([, providerId]) => providerId === config.id).map(([domain]) => domain)
+            ],
+            configured: this.isConfigValid(config)
+        }));
+    }
+
+    // Домен сравнивается целиком: "notgmail.com" не должен попадать к Google
+    public resolveProviderId(email: string): OAuthProviderId | null {
+        const domain = email.split('@')[1]?.trim().toLowerCase();
+        if (!domain) {
+            return null;
+        }
+
+        const mapped = this.domainProviders.get(domain);
+        if (mapped) {
+            return mapped;
+        }
+
+        const provider = Object.values(oauthProvidersConfig).find(config => config.domains.includes(domain));
+        return provider ? provider.id : null;
+    }
+
+    // Явно выбранный провайдер (при входе или сохраненный у пользователя) важнее сопоставления по домену
+    public getProviderConfig(email: string, providerId?: string | null): OAuthProviderConfig | null {
+        if (providerId && !this.isProviderId(providerId)) {
+            logger.error(`Unknown OAuth provider "${providerId}" for ${email}`);
+            return null;
+        }
+
+        const resolvedId = this.isProviderId(providerId) ? providerId : this.resolveProviderId(email);
+        if (!resolvedId) {
+            logger.error(`No OAuth provider mapped for domain: ${email.split('@')[1]?.toLowerCase()}`);
+            return null;
         }
 
-        logger.error(`No OAuth config found for domain: ${domain}`);
-        return null;
+        const config = oauthProvidersConfig[resolvedId];
+        if (!this.isConfigValid(config)) {
+            logger.error(`OAuth not configured for ${config.displayName}. Check your .env file!`);
+            logger.error(`Required: ${resolvedId.toUpperCase()}_CLIENT_ID and ${resolvedId.toUpperCase()}_CLIENT_SECRET`);
+            return null;
+        }
+
+        logger.info(`OAuth config for ${config.displayName}: Ready to use`);
+        return config;
     }
 
     public generateAuthUrl(email: string, providerConfig: OAuthProviderConfig): string {
@@ -65,21 +174,41 @@ export class OAuthProviderService {
         authUrl.searchParams.set('redirect_uri', providerConfig.redirectUri);
         authUrl.searchParams.set('response_type', 'code');
         authUrl.searchParams.set('scope', providerConfig.scope.join(' '));
+        authUrl.searchParams.set('state', this.encodeState(email, providerConfig.id));
 
-        const state = Buffer.from(email).toString('base64');
-        authUrl.searchParams.set('state', state);
-
-        this.addProviderSpecificParams(email, authUrl);
+        for (const [name, value] of Object.entries(providerConfig.authParams || {})) {
+            authUrl.searchParams.set(name, value);
+        }
+        if (providerConfig.id === 'microsoft') {
+            authUrl.searchParams.set('login_hint', email);
+        }
 
         return authUrl.toString();
     }
 
-    private addProviderSpecificParams(email: string, authUrl: URL): void {
-        if (email.includes('gmail.com')) {
-            authUrl.searchParams.set('access_type', 'offline');
-            authUrl.searchParams.set('prompt', 'consent');
+    // Провайдер передается в state, чтобы callback не угадывал его заново по домену
+    public encodeState(email: string, providerId: OAuthProviderId): string {
+        return Buffer.from(JSON.stringify({ email, provider: providerId })).toString('base64');
+    }
+
+    // Старые ссылки несут в state только адрес
+    public decodeState(state: string): { email: string; provider?: OAuthProviderId } | null {
+        const decoded = Buffer.from(state, 'base64').toString('utf-8');
+
+        try {
+            const parsed = JSON.parse(decoded);
+            if (parsed && typeof parsed.email === 'string') {
+                return {
+                    email: parsed.email,
+                    ...(this.isProviderId(parsed.provider) ? { provider: parsed.provider } : {})
+                };
+            }
+        } catch {
+            // не JSON - state в старом формате
         }
+
+        return decoded.includes('@') ? { email: decoded } : null;
     }
 }
 
-export const oauthProviderService = new OAuthProviderService();
\ No newline at end of file
+export const oauthProviderService = new OAuthProviderService();
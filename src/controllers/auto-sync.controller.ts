@@ -1,5 +1,6 @@
 import { Request, Response, Router } from 'express';
 import { AutoSyncInitializer } from '@/config/auto-sync.init';
+import { MailboxWatchInitializer } from '@/config/mailbox-watch.init';
 import { logger } from '@/utils';
 
 export class AutoSyncController {
@@ -7,6 +8,8 @@ export class AutoSyncController {
     public getAutoSyncStatus = async (req: Request, res: Response): Promise<Response> => {
         try {
             const autoSyncService = AutoSyncInitializer.getAutoSyncService();
+            // Маршрут без авторизации - адреса ящиков не раскрываются, только количество по режимам
+            const watchers = MailboxWatchInitializer.getWatcher()?.getStatus() || [];
 
             return res.json({
                 success: true,
@@ -15,7 +18,12 @@ export class AutoSyncController {
                     lastSyncTime: autoSyncService?.getLastSyncTime(),
                     formattedLastSyncTime: autoSyncService?.getFormattedLastSyncTime() || 'Never',
                     nextSyncTime: autoSyncService?.getNextSyncTime(),
-                    formattedNextSyncTime: autoSyncService?.getFormattedNextSyncTime() || '08:00'
+                    formattedNextSyncTime: autoSyncService?.getFormattedNextSyncTime() || '08:00',
+                    mailboxWatchers: {
+                        idle: watchers.filter(watcher => watcher.mode === 'idle' && watcher.connected).length,
+                        polling: watchers.filter(watcher => watcher.mode === 'polling').length,
+                        reconnecting: watchers.filter(watcher => watcher.mode === 'idle' && !watcher.connected).length
+                    }
                 }
             });
 
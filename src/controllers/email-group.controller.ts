@@ -4,6 +4,8 @@ import { AuthService } from '../services/auth/auth.service';
 import { EmailGroupManagementService } from '../services/email-group/email-group-management.service';
 import { AttachmentService } from '../services/email-group/attachment.service';
 import { AiAnalysisService } from '../services/ai/ai-analysis.service';
+import { JobQueueService } from '../services/jobs/job-queue.service';
+import { SummaryEditService } from '../services/summary/summary-edit.service';
 import { EmailGroupRepository } from '@/repositories';
 import { RequestLogger } from "@/utils/request-logger";
 import { logger } from '@/utils';
@@ -16,7 +18,9 @@ export class EmailGroupController {
         private attachmentService: AttachmentService,
         private aiAnalysisService: AiAnalysisService,
         private requestLogger: RequestLogger,
-        private emailGroupRepo: EmailGroupRepository
+        private emailGroupRepo: EmailGroupRepository,
+        private jobQueueService: JobQueueService,
+        private summaryEditService: SummaryEditService
     ) {}
 
     public regenerateEmailGroupAI = async (req: Request, res: Response): Promise<Response> => {
@@ -24,8 +28,9 @@ export class EmailGroupController {
             this.requestLogger.logRequest('regenerateEmailGroupAI', req);
 
             const { emailGroupId } = req.params;
+            const force = req.query.force === 'true' || req.body?.force === true;
 
-            const result = await this.aiAnalysisService.processSingleEmailGroup(emailGroupId);
+            const result = await this.aiAnalysisService.processSingleEmailGroup(emailGroupId, { force });
 
             return res.json({
                 success: true,
@@ -99,19 +104,20 @@ export class EmailGroupController {
         try {
             this.requestLogger.logRequest('generateAllSummaries', req);
     
-            const result = await this.aiAnalysisService.generateSummariesForNeedingGroups();
+            const force = req.query.force === 'true' || req.body?.force === true;
+            const job = await this.jobQueueService.enqueueBackfill('needing', req.user?.email || null, force);
     
-            return res.json({
+            return res.status(202).json({
                 success: true,
-                message: `AI summaries generation completed. Processed: ${result.processed}, Total: ${result.total}`,
-                data: result
+                message: `AI summaries generation queued as job ${job.id}`,
+                data: { jobId: job.id, status: job.status }
             });
     
         } catch (error) {
-            logger.error('Failed to generate AI summaries:', error);
+            logger.error('Failed to queue AI summaries generation:', error);
             return res.status(500).json({
                 success: false,
-                message: 'Failed to generate AI summaries',
+                message: 'Failed to queue AI summaries generation',
                 error: error instanceof Error ? error.message : 'Unknown error'
             });
         }
@@ -220,7 +226,8 @@ export class EmailGroupController {
             this.requestLogger.logRequest('approveEmailGroup', req);
 
             const { emailGroupId } = req.params;
-            const result = await this.emailGroupManagementService.approveEmailGroup(emailGroupId);
+            const force = req.query.force === 'true' || req.body?.force === true;
+            const result = await this.emailGroupManagementService.approveEmailGroup(emailGroupId, force);
 
             return res.json({
                 success: true,
@@ -232,7 +239,9 @@ export class EmailGroupController {
             logger.error('Failed to approve email group:', error);
             
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            const statusCode = errorMessage.includes('does not have AI analysis') ? 400 : 500;
+            const statusCode = errorMessage.includes('does not have AI analysis') ? 400
+                : errorMessage.includes('cannot be approved') ? 409
+                : 500;
 
             return res.status(statusCode).json({
                 success: false,
@@ -269,6 +278,63 @@ export class EmailGroupController {
         }
     };
 
+    public editSummary = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('editSummary', req);
+
+            const { emailGroupId } = req.params;
+            const result = await this.summaryEditService.editPendingSummary(emailGroupId, req.body, req.user?.email || null);
+
+            return res.json({
+                success: true,
+                message: result.edits.length > 0
+                    ? `Summary ${result.summary.summaryId} updated: ${result.edits.length} fields changed`
+                    : `Summary ${result.summary.summaryId} has no changes`,
+                data: result
+            });
+
+        } catch (error) {
+            logger.error('Failed to edit summary:', error);
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            let statusCode = 500;
+            if (errorMessage.includes('not found')) {
+                statusCode = 404;
+            } else if (errorMessage.startsWith('Invalid summary edit')) {
+                statusCode = 400;
+            }
+
+            return res.status(statusCode).json({
+                success: false,
+                message: 'Failed to edit summary',
+                error: errorMessage
+            });
+        }
+    };
+
+    public getSummaryEdits = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getSummaryEdits', req);
+
+            const { emailGroupId } = req.params;
+            const edits = await this.summaryEditService.getEditHistory(emailGroupId);
+
+            return res.json({
+                success: true,
+                message: `Found ${edits.length} summary edits`,
+                data: edits
+            });
+
+        } catch (error) {
+            logger.error('Failed to get summary edits:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to get summary edits',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    };
+
     public subscribeApprovedSummaries = (req: Request, res: Response): void => {
         this.requestLogger.logRequest('subscribeApprovedSummaries', req);
 
@@ -305,6 +371,8 @@ export class EmailGroupController {
         router.post('/generate-all-summaries', this.getAuthMiddleware(), this.generateAllSummaries);
         router.post('/:emailGroupId/regenerate-ai', this.getAuthMiddleware(), this.regenerateEmailGroupAI);
         router.delete('/:emailGroupId/summary', this.getAuthMiddleware(), this.deleteEmailGroupSummary);
+        router.patch('/:emailGroupId/summary', this.getAuthMiddleware(), this.editSummary);
+        router.get('/:emailGroupId/summary/edits', this.getAuthMiddleware(), this.getSummaryEdits);
         router.put('/:emailGroupId/approve', this.getAuthMiddleware(), this.approveEmailGroup);
         router.put('/:emailGroupId/reject', this.getAuthMiddleware(), this.rejectEmailGroup);
         router.get('/:emailGroupId/attachments', this.getAuthMiddleware(), this.getAttachmentInfo);
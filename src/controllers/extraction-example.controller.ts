@@ -0,0 +1,162 @@
+import { Request, Response, Router } from 'express';
+import { requireAdmin } from '../middleware/admin.middleware';
+import { AuthService } from '../services/auth/auth.service';
+import { FewShotExampleService } from '../services/ai/few-shot-example.service';
+import { ExtractionExampleStatus } from '@/models/extraction-example';
+import { RequestLogger } from '@/utils/request-logger';
+import { logger } from '@/utils';
+
+export class ExtractionExampleController {
+    constructor(
+        private readonly authService: AuthService,
+        private fewShotExampleService: FewShotExampleService,
+        private requestLogger: RequestLogger
+    ) {}
+
+    public getExamples = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getExtractionExamples', req);
+
+            const senderDomain = typeof req.query.senderDomain === 'string' ? req.query.senderDomain : undefined;
+            const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+            const examples = await this.fewShotExampleService.listExamples(senderDomain, status);
+
+            return res.json({
+                success: true,
+                message: `Found ${examples.length} extraction examples`,
+                data: examples
+            });
+
+        } catch (error) {
+            logger.error('Failed to get extraction examples:', error);
+            return this.sendError(res, 'Failed to get extraction examples', error);
+        }
+    };
+
+    public createExample = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('createExtractionExample', req);
+
+            const emailGroupId = typeof req.body?.emailGroupId === 'string' ? req.body.emailGroupId.trim() : '';
+            if (!emailGroupId) {
+                throw new Error('Invalid extraction example: emailGroupId is required');
+            }
+
+            const example = await this.fewShotExampleService.captureApprovedSummary(emailGroupId, req.user?.email || null);
+
+            return res.status(201).json({
+                success: true,
+                message: `Extraction example ${example.id} stored for ${example.senderDomain}`,
+                data: example
+            });
+
+        } catch (error) {
+            logger.error('Failed to create extraction example:', error);
+            return this.sendError(res, 'Failed to create extraction example', error);
+        }
+    };
+
+    public updateExample = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('updateExtractionExample', req);
+
+            const example = await this.fewShotExampleService.updateExample(this.parseId(req.params.id), req.body || {});
+
+            return res.json({
+                success: true,
+                message: `Extraction example ${example.id} updated`,
+                data: example
+            });
+
+        } catch (error) {
+            logger.error('Failed to update extraction example:', error);
+            return this.sendError(res, 'Failed to update extraction example', error);
+        }
+    };
+
+    public excludeExample = async (req: Request, res: Response): Promise<Response> => {
+        return this.changeStatus(req, res, 'excluded');
+    };
+
+    public includeExample = async (req: Request, res: Response): Promise<Response> => {
+        return this.changeStatus(req, res, 'active');
+    };
+
+    public deleteExample = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('deleteExtractionExample', req);
+
+            const id = this.parseId(req.params.id);
+            await this.fewShotExampleService.deleteExample(id);
+
+            return res.json({
+                success: true,
+                message: `Extraction example ${id} deleted`
+            });
+
+        } catch (error) {
+            logger.error('Failed to delete extraction example:', error);
+            return this.sendError(res, 'Failed to delete extraction example', error);
+        }
+    };
+
+    private async changeStatus(req: Request, res: Response, status: ExtractionExampleStatus): Promise<Response> {
+        try {
+            this.requestLogger.logRequest(status === 'excluded' ? 'excludeExtractionExample' : 'includeExtractionExample', req);
+
+            const example = await this.fewShotExampleService.setStatus(this.parseId(req.params.id), status);
+
+            return res.json({
+                success: true,
+                message: `Extraction example ${example.id} is ${status}`,
+                data: example
+            });
+
+        } catch (error) {
+            logger.error('Failed to change extraction example status:', error);
+            return this.sendError(res, 'Failed to change extraction example status', error);
+        }
+    }
+
+    private parseId(id: string): number {
+        const parsedId = Number(id);
+        if (!Number.isInteger(parsedId) || parsedId <= 0) {
+            throw new Error(`Invalid extraction example id: ${id}`);
+        }
+        return parsedId;
+    }
+
+    private sendError(res: Response, message: string, error: unknown): Response {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        let statusCode = 500;
+
+        if (errorMessage.includes('not found')) {
+            statusCode = 404;
+        } else if (errorMessage.startsWith('Invalid extraction example')) {
+            statusCode = 400;
+        }
+
+        return res.status(statusCode).json({
+            success: false,
+            message,
+            error: errorMessage
+        });
+    }
+
+    public getAdminMiddleware() {
+        return requireAdmin(this.authService);
+    }
+
+    public getRoutes(): Router {
+        const router = Router();
+
+        router.get('/', this.getAdminMiddleware(), this.getExamples);
+        router.post('/', this.getAdminMiddleware(), this.createExample);
+        router.patch('/:id', this.getAdminMiddleware(), this.updateExample);
+        router.post('/:id/exclude', this.getAdminMiddleware(), this.excludeExample);
+        router.post('/:id/include', this.getAdminMiddleware(), this.includeExample);
+        router.delete('/:id', this.getAdminMiddleware(), this.deleteExample);
+
+        return router;
+    }
+}
@@ -0,0 +1,103 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { AuthService } from '../services/auth/auth.service';
+import { ImapLoginService } from '../services/auth/imap-login.service';
+import { imapLoginConfig } from '@/config/imap-login.config';
+import { RequestLogger } from '@/utils/request-logger';
+import { logger } from '@/utils';
+
+// Вход по логину и паролю приложения для ящиков без OAuth
+export class ImapAuthController {
+    constructor(
+        private authService: AuthService,
+        private imapLoginService: ImapLoginService,
+        private requestLogger: RequestLogger
+    ) {}
+
+    public testConnection = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('testImapConnection', req);
+
+            const settings = await this.imapLoginService.parseSettings(req.body || {});
+            const result = await this.imapLoginService.testConnection(settings);
+
+            return res.json({
+                success: true,
+                message: 'IMAP connection successful',
+                data: result
+            });
+
+        } catch (error) {
+            logger.error('IMAP connection test failed:', error);
+            return this.sendError(res, 'IMAP connection failed', error);
+        }
+    };
+
+    public login = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('imapLogin', req);
+
+            const settings = await this.imapLoginService.parseSettings(req.body || {});
+            const result = await this.authService.handleImapLogin(settings);
+
+            if (!result.success) {
+                return this.sendError(res, 'Authentication failed', new Error(result.message));
+            }
+
+            return res.json({
+                success: true,
+                message: result.message,
+                data: {
+                    user: result.user,
+                    sessionId: result.sessionId
+                }
+            });
+
+        } catch (error) {
+            logger.error('IMAP login failed:', error);
+            return this.sendError(res, 'Authentication failed', error);
+        }
+    };
+
+    // Ошибки почтового сервера (недоступен, нет STARTTLS) отличаются от неверного пароля и неверных настроек
+    private sendError(res: Response, message: string, error: unknown): Response {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        let statusCode = 502;
+
+        if (errorMessage.startsWith('Invalid IMAP settings')) {
+            statusCode = 400;
+        } else if (errorMessage.startsWith('IMAP login failed')) {
+            statusCode = 401;
+        } else if (errorMessage.includes('already exists')) {
+            statusCode = 409;
+        } else if (errorMessage.includes('CREDENTIALS_ENCRYPTION_KEY')) {
+            statusCode = 500;
+        }
+
+        return res.status(statusCode).json({
+            success: false,
+            message,
+            error: errorMessage
+        });
+    }
+
+    public getAuthMiddleware() {
+        return requireAuth(this.authService);
+    }
+
+    public getRoutes(): Router {
+        const router = Router();
+
+        // Каждый запрос открывает соединение с чужим сервером - ограничиваем частоту
+        router.post(
+            '/test-connection',
+            this.getAuthMiddleware(),
+            rateLimit('imap-test-connection', { ...imapLoginConfig.rateLimit, keyGenerator: req => req.user?.email || req.ip || 'unknown' }),
+            this.testConnection
+        );
+        router.post('/login', rateLimit('imap-login', imapLoginConfig.rateLimit), this.login);
+
+        return router;
+    }
+}
@@ -0,0 +1,170 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { AuthService } from '../services/auth/auth.service';
+import { JobQueueService, JOB_TYPES } from '../services/jobs/job-queue.service';
+import { IJob, JobType, JobStatus } from '@/models/job';
+import { RequestLogger } from '@/utils/request-logger';
+import { appConfig } from '@/config/app.config';
+import { logger } from '@/utils';
+
+export class JobController {
+    constructor(
+        private readonly authService: AuthService,
+        private jobQueueService: JobQueueService,
+        private requestLogger: RequestLogger
+    ) {}
+
+    public getJobs = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getJobs', req);
+
+            const jobs = await this.jobQueueService.listJobs({
+                status: typeof req.query.status === 'string' ? req.query.status as JobStatus : undefined,
+                type: typeof req.query.type === 'string' ? req.query.type as JobType : undefined,
+                limit: typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : undefined
+            });
+
+            return res.json({
+                success: true,
+                message: `Found ${jobs.length} jobs`,
+                data: jobs
+            });
+
+        } catch (error) {
+            logger.error('Failed to get jobs:', error);
+            return this.sendError(res, 'Failed to get jobs', error);
+        }
+    };
+
+    public getJob = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getJob', req);
+
+            const job = await this.jobQueueService.getJob(this.parseJobId(req.params.id));
+
+            return res.json({
+                success: true,
+                message: 'Job retrieved',
+                data: job
+            });
+
+        } catch (error) {
+            logger.error('Failed to get job:', error);
+            return this.sendError(res, 'Failed to get job', error);
+        }
+    };
+
+    public createJob = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('createJob', req);
+
+            const { type, payload } = req.body || {};
+            const createdBy = req.user?.email || null;
+            let job: IJob;
+
+            if (!JOB_TYPES.includes(type)) {
+                throw new Error(`Invalid job: unknown type "${type}"`);
+            }
+
+            if (type === 'analyze_group') {
+                if (!payload?.emailGroupId || typeof payload.emailGroupId !== 'string') {
+                    throw new Error('Invalid job: analyze_group requires payload.emailGroupId');
+                }
+                job = await this.jobQueueService.enqueueAnalyzeGroup(payload.emailGroupId, createdBy, payload.force === true);
+            } else if (type === 'sync_user') {
+                const email = payload?.email || req.user?.email;
+                if (!email) {
+                    throw new Error('Invalid job: sync_user requires payload.email');
+                }
+                if (!this.canSyncMailbox(req, email)) {
+                    return res.status(403).json({
+                        success: false,
+                        message: 'Only admins can sync other mailboxes'
+                    });
+                }
+                job = await this.jobQueueService.enqueueSyncUser(email, createdBy);
+            } else {
+                const scope = payload?.scope || 'needing';
+                if (scope !== 'needing' && scope !== 'pending') {
+                    throw new Error(`Invalid job: unknown backfill scope "${scope}"`);
+                }
+                job = await this.jobQueueService.enqueueBackfill(scope, createdBy, payload?.force === true);
+            }
+
+            return res.status(202).json({
+                success: true,
+                message: `Job ${job.id} ${job.status}`,
+                data: job
+            });
+
+        } catch (error) {
+            logger.error('Failed to create job:', error);
+            return this.sendError(res, 'Failed to create job', error);
+        }
+    };
+
+    public cancelJob = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('cancelJob', req);
+
+            const job = await this.jobQueueService.cancelJob(this.parseJobId(req.params.id));
+
+            return res.json({
+                success: true,
+                message: `Job ${job.id} cancelled`,
+                data: job
+            });
+
+        } catch (error) {
+            logger.error('Failed to cancel job:', error);
+            return this.sendError(res, 'Failed to cancel job', error);
+        }
+    };
+
+    private parseJobId(value: string): number {
+        const id = parseInt(value, 10);
+        if (!Number.isInteger(id) || id <= 0 || String(id) !== value) {
+            throw new Error(`Invalid job id: ${value}`);
+        }
+        return id;
+    }
+
+    private canSyncMailbox(req: Request, email: string): boolean {
+        const userEmail = req.user?.email?.toLowerCase();
+        return userEmail === email.toLowerCase() || (!!userEmail && appConfig.adminEmails.includes(userEmail));
+    }
+
+    private sendError(res: Response, message: string, error: unknown): Response {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        let statusCode = 500;
+
+        if (errorMessage.includes('not found')) {
+            statusCode = 404;
+        } else if (errorMessage.includes('cannot be cancelled')) {
+            statusCode = 409;
+        } else if (errorMessage.startsWith('Invalid job')) {
+            statusCode = 400;
+        }
+
+        return res.status(statusCode).json({
+            success: false,
+            message,
+            error: errorMessage
+        });
+    }
+
+    public getAuthMiddleware() {
+        return requireAuth(this.authService);
+    }
+
+    public getRoutes(): Router {
+        const router = Router();
+
+        router.get('/', this.getAuthMiddleware(), this.getJobs);
+        router.post('/', this.getAuthMiddleware(), this.createJob);
+        router.get('/:id', this.getAuthMiddleware(), this.getJob);
+        router.post('/:id/cancel', this.getAuthMiddleware(), this.cancelJob);
+
+        return router;
+    }
+}
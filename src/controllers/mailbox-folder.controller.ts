@@ -0,0 +1,169 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { AuthService } from '../services/auth/auth.service';
+import { MonitoredFolderService } from '../services/email/monitored-folder.service';
+import { UserRepository } from '@/repositories';
+import { RequestLogger } from '@/utils/request-logger';
+import { logger } from '@/utils';
+
+export class MailboxFolderController {
+    constructor(
+        private readonly authService: AuthService,
+        private monitoredFolderService: MonitoredFolderService,
+        private userRepository: UserRepository,
+        private requestLogger: RequestLogger
+    ) {}
+
+    public getFolders = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getMonitoredFolders', req);
+
+            const userId = await this.getUserId(req);
+            const folders = await this.monitoredFolderService.listFolders(userId);
+
+            return res.json({
+                success: true,
+                message: 'Monitored folders retrieved',
+                data: folders
+            });
+
+        } catch (error) {
+            logger.error('Failed to get monitored folders:', error);
+            return this.sendError(res, 'Failed to get monitored folders', error);
+        }
+    };
+
+    // Папки и ярлыки, которые есть на почтовом сервере пользователя
+    public getAvailableFolders = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getAvailableMailboxFolders', req);
+
+            const userId = await this.getUserId(req);
+            const mailboxes = await this.monitoredFolderService.listAvailableMailboxes(req.emailService!, userId);
+
+            return res.json({
+                success: true,
+                message: 'Mailbox folders retrieved',
+                data: mailboxes
+            });
+
+        } catch (error) {
+            logger.error('Failed to get mailbox folders:', error);
+            return this.sendError(res, 'Failed to get mailbox folders', error);
+        }
+    };
+
+    public addFolder = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('addMonitoredFolder', req);
+
+            const userId = await this.getUserId(req);
+            const { mailbox, label } = req.body || {};
+            const folder = await this.monitoredFolderService.addFolder(req.emailService!, userId, mailbox, label);
+
+            return res.status(201).json({
+                success: true,
+                message: `Monitoring "${folder.mailbox}"`,
+                data: folder
+            });
+
+        } catch (error) {
+            logger.error('Failed to add monitored folder:', error);
+            return this.sendError(res, 'Failed to add monitored folder', error);
+        }
+    };
+
+    public updateFolder = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('updateMonitoredFolder', req);
+
+            const userId = await this.getUserId(req);
+            const { enabled, label } = req.body || {};
+            const folder = await this.monitoredFolderService.updateFolder(userId, this.parseId(req.params.id), { enabled, label });
+
+            return res.json({
+                success: true,
+                message: `Monitored folder "${folder.mailbox}" updated`,
+                data: folder
+            });
+
+        } catch (error) {
+            logger.error('Failed to update monitored folder:', error);
+            return this.sendError(res, 'Failed to update monitored folder', error);
+        }
+    };
+
+    public removeFolder = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('removeMonitoredFolder', req);
+
+            const userId = await this.getUserId(req);
+            const folder = await this.monitoredFolderService.removeFolder(userId, this.parseId(req.params.id));
+
+            return res.json({
+                success: true,
+                message: `Stopped monitoring "${folder.mailbox}"`,
+                data: folder
+            });
+
+        } catch (error) {
+            logger.error('Failed to remove monitored folder:', error);
+            return this.sendError(res, 'Failed to remove monitored folder', error);
+        }
+    };
+
+    private async getUserId(req: Request): Promise<number> {
+        if (!req.user || !req.user.email) {
+            throw new Error('User not authenticated');
+        }
+
+        const user = await this.userRepository.getUserByEmail(req.user.email);
+        if (!user || !user.id) {
+            throw new Error(`User ${req.user.email} not found`);
+        }
+        return user.id;
+    }
+
+    private parseId(id: string): number {
+        const parsedId = Number(id);
+        if (!Number.isInteger(parsedId) || parsedId <= 0) {
+            throw new Error(`Invalid monitored folder id: ${id}`);
+        }
+        return parsedId;
+    }
+
+    private sendError(res: Response, message: string, error: unknown): Response {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        let statusCode = 500;
+
+        if (errorMessage.includes('not found on the mail server') || errorMessage.startsWith('Invalid monitored folder')) {
+            statusCode = 400;
+        } else if (errorMessage.includes('not found')) {
+            statusCode = 404;
+        } else if (errorMessage.includes('already exists')) {
+            statusCode = 409;
+        }
+
+        return res.status(statusCode).json({
+            success: false,
+            message,
+            error: errorMessage
+        });
+    }
+
+    public getAuthMiddleware() {
+        return requireAuth(this.authService);
+    }
+
+    public getRoutes(): Router {
+        const router = Router();
+
+        router.get('/', this.getAuthMiddleware(), this.getFolders);
+        router.get('/available', this.getAuthMiddleware(), this.getAvailableFolders);
+        router.post('/', this.getAuthMiddleware(), this.addFolder);
+        router.patch('/:id', this.getAuthMiddleware(), this.updateFolder);
+        router.delete('/:id', this.getAuthMiddleware(), this.removeFolder);
+
+        return router;
+    }
+}
@@ -23,7 +23,7 @@ export class OAuthController {
                 return this.handleValidationError(res, 'Email parameter is required');
             }
 
-            const authUrl = this.authUrlService.generateAuthUrl(email);
+            const authUrl = this.authUrlService.generateAuthUrl(email, req.query.provider);
 
             return res.json({
                 success: true,
@@ -32,22 +32,46 @@ export class OAuthController {
             });
 
         } catch (error) {
+            if (error instanceof Error && error.message.startsWith('Invalid OAuth provider')) {
+                return this.handleValidationError(res, error.message);
+            }
             return this.handleError(res, 'Failed to generate authentication URL', error);
         }
     };
 
+    // Провайдеры, из которых пользователь выбирает при входе
+    public getProviders = (req: Request, res: Response): Response => {
+        try {
+            this.requestLogger.logRequest('getOAuthProviders', req);
+
+            const providers = oauthProviderService.listProviders()
+                .filter(provider => provider.configured)
+                .map(({ id, displayName, domains }) => ({ id, displayName, domains }));
+
+            return res.json({
+                success: true,
+                message: 'OAuth providers retrieved',
+                data: { providers }
+            });
+
+        } catch (error) {
+            return this.handleError(res, 'Failed to get OAuth providers', error);
+        }
+    };
+
     public handleCallback = async (req: Request, res: Response): Promise<Response> => {
         try {
             this.requestLogger.logRequest('handleCallback', req);
 
-            const { code, email, state } = req.body;
+            const { code, email, state, provider } = req.body;
 
             if (!this.authValidationService.isValidCode(code)) {
                 return this.handleValidationError(res, 'Invalid authorization code');
             }
 
-            const userEmail = this.authValidationService.resolveEmail(email, state);
-            const providerConfig = oauthProviderService.getProviderConfig(userEmail);
+            const login = this.authValidationService.resolveLogin(email, state, provider);
+            const userEmail = login.email;
+            const providerConfig = oauthProviderService.getProviderConfig(userEmail, login.provider);
 
             if (!providerConfig) {
                 return this.handleValidationError(res, `OAuth not configured for ${userEmail}`);
@@ -136,6 +160,7 @@ export class OAuthController {
     public getRoutes(): Router {
         const router = Router();
 
+        router.get('/providers', this.getProviders);
         router.get('/auth-url', this.getAuthUrl);
         router.post('/callback', this.handleCallback);
         router.get('/user', this.getAuthMiddleware(), this.getUser);
@@ -0,0 +1,123 @@
+import { Request, Response, Router } from 'express';
+import { requireAdmin } from '../middleware/admin.middleware';
+import { AuthService } from '../services/auth/auth.service';
+import { PromptTemplateService } from '../services/ai/prompt-template.service';
+import { RequestLogger } from '@/utils/request-logger';
+import { logger } from '@/utils';
+
+export class PromptTemplateController {
+    constructor(
+        private readonly authService: AuthService,
+        private promptTemplateService: PromptTemplateService,
+        private requestLogger: RequestLogger
+    ) {}
+
+    public getTemplates = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getPromptTemplates', req);
+
+            const name = typeof req.query.name === 'string' ? req.query.name : undefined;
+            const templates = await this.promptTemplateService.listTemplates(name);
+
+            return res.json({
+                success: true,
+                message: 'Prompt templates retrieved',
+                data: templates
+            });
+
+        } catch (error) {
+            logger.error('Failed to get prompt templates:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to get prompt templates',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    };
+
+    public getTemplate = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getPromptTemplate', req);
+
+            const template = await this.promptTemplateService.getTemplate(req.params.id);
+
+            return res.json({
+                success: true,
+                message: 'Prompt template retrieved',
+                data: template
+            });
+
+        } catch (error) {
+            logger.error('Failed to get prompt template:', error);
+            return this.sendError(res, 'Failed to get prompt template', error);
+        }
+    };
+
+    public createTemplate = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('createPromptTemplate', req);
+
+            const { name, template, schema, description, activate } = req.body || {};
+            const createdTemplate = await this.promptTemplateService.createTemplate(
+                { name, template, schema, description, activate: activate === true },
+                req.user?.email || null
+            );
+
+            return res.status(201).json({
+                success: true,
+                message: `Prompt template ${createdTemplate.id} created`,
+                data: createdTemplate
+            });
+
+        } catch (error) {
+            logger.error('Failed to create prompt template:', error);
+            return this.sendError(res, 'Failed to create prompt template', error);
+        }
+    };
+
+    public activateTemplate = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('activatePromptTemplate', req);
+
+            const template = await this.promptTemplateService.activateTemplate(req.params.id);
+
+            return res.json({
+                success: true,
+                message: `Prompt template ${template.id} activated`,
+                data: template
+            });
+
+        } catch (error) {
+            logger.error('Failed to activate prompt template:', error);
+            return this.sendError(res, 'Failed to activate prompt template', error);
+        }
+    };
+
+    private sendError(res: Response, message: string, error: unknown): Response {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const statusCode = errorMessage.includes('not found')
+            ? 404
+            : errorMessage.startsWith('Invalid prompt template') ? 400 : 500;
+
+        return res.status(statusCode).json({
+            success: false,
+            message,
+            error: errorMessage
+        });
+    }
+
+    public getAdminMiddleware() {
+        return requireAdmin(this.authService);
+    }
+
+    public getRoutes(): Router {
+        const router = Router();
+
+        router.get('/', this.getAdminMiddleware(), this.getTemplates);
+        router.get('/:id', this.getAdminMiddleware(), this.getTemplate);
+        router.post('/', this.getAdminMiddleware(), this.createTemplate);
+        router.put('/:id/activate', this.getAdminMiddleware(), this.activateTemplate);
+
+        return router;
+    }
+}
@@ -0,0 +1,81 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { AuthService } from '../services/auth/auth.service';
+import { SummaryService } from '../services/summary/summary.service';
+import { SummaryRenderService } from '../services/summary/summary-render.service';
+import { SummaryRenderFormat } from '@/models/summary';
+import { RequestLogger } from '@/utils/request-logger';
+import { logger } from '@/utils';
+
+const CONTENT_TYPES: Record<SummaryRenderFormat, string> = {
+    text: 'text/plain; charset=utf-8',
+    markdown: 'text/markdown; charset=utf-8',
+    html: 'text/html; charset=utf-8'
+};
+
+export class SummaryController {
+    constructor(
+        private readonly authService: AuthService,
+        private summaryService: SummaryService,
+        private summaryRenderService: SummaryRenderService,
+        private requestLogger: RequestLogger
+    ) {}
+
+    // Отдает сводку как есть, без JSON-обертки, чтобы ее можно было сразу вставить в письмо перевозчику
+    public renderSummary = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('renderSummary', req);
+
+            const { summaryId } = req.params;
+            const { locale, format } = this.summaryRenderService.resolveOptions(req.query.locale, req.query.format);
+
+            const summary = await this.summaryService.getSummaryById(summaryId);
+            if (!summary) {
+                throw new Error(`Summary ${summaryId} not found`);
+            }
+            if (!summary.shipment_data) {
+                throw new Error(`Summary ${summaryId} has no shipment data yet (status: ${summary.status})`);
+            }
+
+            const content = this.summaryRenderService.render(summary.shipment_data, locale, format);
+
+            res.setHeader('Content-Language', locale);
+            return res.type(CONTENT_TYPES[format]).send(content);
+
+        } catch (error) {
+            logger.error('Failed to render summary:', error);
+            return this.sendError(res, 'Failed to render summary', error);
+        }
+    };
+
+    private sendError(res: Response, message: string, error: unknown): Response {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        let statusCode = 500;
+
+        if (errorMessage.includes('not found')) {
+            statusCode = 404;
+        } else if (errorMessage.includes('has no shipment data')) {
+            statusCode = 409;
+        } else if (errorMessage.startsWith('Invalid render option')) {
+            statusCode = 400;
+        }
+
+        return res.status(statusCode).json({
+            success: false,
+            message,
+            error: errorMessage
+        });
+    }
+
+    public getAuthMiddleware() {
+        return requireAuth(this.authService);
+    }
+
+    public getRoutes(): Router {
+        const router = Router();
+
+        router.get('/:summaryId/render', this.getAuthMiddleware(), this.renderSummary);
+
+        return router;
+    }
+}
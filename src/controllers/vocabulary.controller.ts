@@ -0,0 +1,170 @@
+import { Request, Response, Router } from 'express';
+import { requireAdmin } from '../middleware/admin.middleware';
+import { AuthService } from '../services/auth/auth.service';
+import { VocabularyService } from '../services/vocabulary/vocabulary.service';
+import { RequestLogger } from '@/utils/request-logger';
+import { logger } from '@/utils';
+
+export class VocabularyController {
+    constructor(
+        private readonly authService: AuthService,
+        private vocabularyService: VocabularyService,
+        private requestLogger: RequestLogger
+    ) {}
+
+    public getTerms = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getVocabularyTerms', req);
+
+            const kind = typeof req.query.kind === 'string' ? req.query.kind : undefined;
+            const terms = await this.vocabularyService.getTerms(kind);
+
+            return res.json({
+                success: true,
+                message: 'Vocabulary terms retrieved',
+                data: terms
+            });
+
+        } catch (error) {
+            logger.error('Failed to get vocabulary terms:', error);
+            return this.sendError(res, 'Failed to get vocabulary terms', error);
+        }
+    };
+
+    public createTerm = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('createVocabularyTerm', req);
+
+            const { kind, code, label, synonyms } = req.body || {};
+            const term = await this.vocabularyService.createTerm({ kind, code, label, synonyms });
+
+            return res.status(201).json({
+                success: true,
+                message: `Vocabulary term ${term.kind}/${term.code} created`,
+                data: term
+            });
+
+        } catch (error) {
+            logger.error('Failed to create vocabulary term:', error);
+            return this.sendError(res, 'Failed to create vocabulary term', error);
+        }
+    };
+
+    public addSynonyms = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('addVocabularySynonyms', req);
+
+            const term = await this.vocabularyService.addSynonyms(this.parseId(req.params.id), req.body?.synonyms);
+
+            return res.json({
+                success: true,
+                message: `Synonyms added to ${term.kind}/${term.code}`,
+                data: term
+            });
+
+        } catch (error) {
+            logger.error('Failed to add vocabulary synonyms:', error);
+            return this.sendError(res, 'Failed to add vocabulary synonyms', error);
+        }
+    };
+
+    public getUnmapped = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('getUnmappedVocabularyValues', req);
+
+            const kind = typeof req.query.kind === 'string' ? req.query.kind : undefined;
+            const status = typeof req.query.status === 'string' ? req.query.status : 'open';
+            const values = await this.vocabularyService.listUnmapped(kind, status);
+
+            return res.json({
+                success: true,
+                message: 'Unmapped vocabulary values retrieved',
+                data: values
+            });
+
+        } catch (error) {
+            logger.error('Failed to get unmapped vocabulary values:', error);
+            return this.sendError(res, 'Failed to get unmapped vocabulary values', error);
+        }
+    };
+
+    public resolveUnmapped = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('resolveUnmappedVocabularyValue', req);
+
+            const value = await this.vocabularyService.resolveUnmapped(this.parseId(req.params.id), req.body?.code);
+
+            return res.json({
+                success: true,
+                message: `Value "${value.rawValue}" mapped to ${value.resolvedCode}`,
+                data: value
+            });
+
+        } catch (error) {
+            logger.error('Failed to resolve unmapped vocabulary value:', error);
+            return this.sendError(res, 'Failed to resolve unmapped vocabulary value', error);
+        }
+    };
+
+    public ignoreUnmapped = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            this.requestLogger.logRequest('ignoreUnmappedVocabularyValue', req);
+
+            const value = await this.vocabularyService.ignoreUnmapped(this.parseId(req.params.id));
+
+            return res.json({
+                success: true,
+                message: `Value "${value.rawValue}" ignored`,
+                data: value
+            });
+
+        } catch (error) {
+            logger.error('Failed to ignore unmapped vocabulary value:', error);
+            return this.sendError(res, 'Failed to ignore unmapped vocabulary value', error);
+        }
+    };
+
+    private parseId(id: string): number {
+        const parsedId = Number(id);
+        if (!Number.isInteger(parsedId) || parsedId <= 0) {
+            throw new Error(`Invalid vocabulary id: ${id}`);
+        }
+        return parsedId;
+    }
+
+    private sendError(res: Response, message: string, error: unknown): Response {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        let statusCode = 500;
+
+        if (errorMessage.includes('not found')) {
+            statusCode = 404;
+        } else if (errorMessage.includes('already exists')) {
+            statusCode = 409;
+        } else if (errorMessage.startsWith('Invalid vocabulary')) {
+            statusCode = 400;
+        }
+
+        return res.status(statusCode).json({
+            success: false,
+            message,
+            error: errorMessage
+        });
+    }
+
+    public getAdminMiddleware() {
+        return requireAdmin(this.authService);
+    }
+
+    public getRoutes(): Router {
+        const router = Router();
+
+        router.get('/terms', this.getAdminMiddleware(), this.getTerms);
+        router.post('/terms', this.getAdminMiddleware(), this.createTerm);
+        router.post('/terms/:id/synonyms', this.getAdminMiddleware(), this.addSynonyms);
+        router.get('/unmapped', this.getAdminMiddleware(), this.getUnmapped);
+        router.post('/unmapped/:id/resolve', this.getAdminMiddleware(), this.resolveUnmapped);
+        router.post('/unmapped/:id/ignore', this.getAdminMiddleware(), this.ignoreUnmapped);
+
+        return router;
+    }
+}
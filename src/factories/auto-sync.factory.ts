@@ -1,14 +1,22 @@
 import { CredentialsStorageService } from '@/services/auth/credentials-storage.service';
 import { EmailAutoSyncService } from '@/services/email/email-auto-sync.service';
+import { MailboxWatcherService } from '@/services/email/mailbox-watcher.service';
 import { EmailViewService } from '@/services/email/email-view.service';
 import { EmailBaseService } from '@/services/email/email-base.service';
 import { EmailFullSyncService } from '@/services/email/email-full-sync.service';
-import { EmailGroupRepository, EmailRepository, UserRepository, SummaryRepository } from '@/repositories';
+import { EmailIncrementalSyncService } from '@/services/email/email-incremental-sync.service';
+import { EmailGroupRepository, EmailRepository, UserRepository, SummaryRepository, AttachmentRepository, PromptTemplateRepository, JobRepository, ExtractionCacheRepository, VocabularyRepository, ExtractionExampleRepository, SummaryEditRepository, MailboxSyncStateRepository, MonitoredFolderRepository } from '@/repositories';
 import { database } from '@/config/database.init';
 import { logger } from '@/utils';
-import { GeminiService } from '@/services/ai/gemini.service';
+import { ShipmentExtractionService } from '@/services/ai/shipment-extraction.service';
 import { AiAnalysisService } from '@/services/ai/ai-analysis.service';
 import { SummaryService } from '@/services/summary/summary.service';
+import { AttachmentTextService } from '@/services/email-group/attachment-text.service';
+import { PromptTemplateService } from '@/services/ai/prompt-template.service';
+import { ExtractionCacheService } from '@/services/ai/extraction-cache.service';
+import { VocabularyService } from '@/services/vocabulary/vocabulary.service';
+import { FewShotExampleService } from '@/services/ai/few-shot-example.service';
+import { JobQueueService } from '@/services/jobs/job-queue.service';
 
 export class AutoSyncFactory {
     public static createEmailAutoSyncService(): EmailAutoSyncService {
@@ -20,25 +28,51 @@ export class AutoSyncFactory {
             const emailRepo = new EmailRepository(sequelize);
             const userRepo = new UserRepository(sequelize);
             const summaryRepo = new SummaryRepository(sequelize);
+            const attachmentRepo = new AttachmentRepository(sequelize);
+            const promptTemplateRepo = new PromptTemplateRepository(sequelize);
+            const jobRepo = new JobRepository(sequelize);
+            const summaryEditRepo = new SummaryEditRepository(sequelize);
+            const extractionCacheRepo = new ExtractionCacheRepository(sequelize);
+            const vocabularyRepo = new VocabularyRepository(sequelize);
 
             const emailBaseService = new EmailBaseService(emailGroupRepo, emailRepo, summaryRepo);
             const emailFullSyncService = new EmailFullSyncService(emailBaseService);
+            const emailIncrementalSyncService = new EmailIncrementalSyncService(
+                emailFullSyncService,
+                new MailboxSyncStateRepository(sequelize),
+                new MonitoredFolderRepository(sequelize)
+            );
             const emailViewService = new EmailViewService(emailRepo);
 
-            const geminiService = GeminiService.getInstance();
+            const extractionService = ShipmentExtractionService.getInstance();
             const summaryService = new SummaryService(summaryRepo);
+            const attachmentTextService = new AttachmentTextService(attachmentRepo);
+            const promptTemplateService = new PromptTemplateService(promptTemplateRepo);
+            const extractionCacheService = new ExtractionCacheService(extractionCacheRepo);
             const aiAnalysisService = new AiAnalysisService(
-                geminiService,
+                extractionService,
                 emailGroupRepo,
-                summaryService
+                summaryService,
+                attachmentTextService,
+                promptTemplateService,
+                extractionCacheService,
+                new VocabularyService(vocabularyRepo),
+                new FewShotExampleService(
+                    new ExtractionExampleRepository(sequelize),
+                    summaryEditRepo,
+                    emailGroupRepo,
+                    summaryRepo
+                ),
+                summaryEditRepo
             );
 
             const autoSyncService = new EmailAutoSyncService(
                 credentialsStorage,
-                emailFullSyncService,
+                emailIncrementalSyncService,
                 emailViewService,
                 userRepo,
-                aiAnalysisService
+                aiAnalysisService,
+                new JobQueueService(jobRepo)
             );
 
             logger.info('Auto sync service created successfully with AI summary generation');
@@ -49,4 +83,9 @@ export class AutoSyncFactory {
             throw error;
         }
     }
+
+    public static createMailboxWatcherService(autoSyncService: EmailAutoSyncService): MailboxWatcherService {
+        const credentialsStorage = CredentialsStorageService.getInstance(database.getSequelize());
+        return new MailboxWatcherService(credentialsStorage, autoSyncService);
+    }
 }
\ No newline at end of file
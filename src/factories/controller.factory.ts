@@ -3,23 +3,54 @@ import { OAuthTokenHandler, UserInfo, RequestLogger } from '@/utils';
 import { AuthService } from '@/services/auth/auth.service';
 import { AuthValidationService } from '@/services/auth/auth-validation.service';
 import { AuthUrlService } from '@/services/auth/auth-url.service';
-import { EmailGroupRepository, EmailRepository, AttachmentRepository, UserRepository, SummaryRepository } from '@/repositories';
-import { GeminiService } from '@/services/ai/gemini.service';
+import { ImapLoginService } from '@/services/auth/imap-login.service';
+import {
+    EmailGroupRepository,
+    EmailRepository,
+    AttachmentRepository,
+    UserRepository,
+    SummaryRepository,
+    PromptTemplateRepository,
+    JobRepository,
+    ExtractionCacheRepository,
+    VocabularyRepository,
+    SummaryEditRepository,
+    ExtractionExampleRepository,
+    MailboxSyncStateRepository,
+    MonitoredFolderRepository
+} from '@/repositories';
+import { ShipmentExtractionService } from '@/services/ai/shipment-extraction.service';
 
 import { OAuthController } from '@/controllers/oauth.controller';
 import { EmailController } from '@/controllers/email.controller';
 import { EmailGroupController } from '@/controllers/email-group.controller';
+import { PromptTemplateController } from '@/controllers/prompt-template.controller';
+import { JobController } from '@/controllers/job.controller';
+import { VocabularyController } from '@/controllers/vocabulary.controller';
+import { ExtractionExampleController } from '@/controllers/extraction-example.controller';
+import { SummaryController } from '@/controllers/summary.controller';
+import { MailboxFolderController } from '@/controllers/mailbox-folder.controller';
+import { ImapAuthController } from '@/controllers/imap-auth.controller';
 
 import { SummaryService } from '@/services/summary/summary.service';
+import { SummaryEditService } from '@/services/summary/summary-edit.service';
+import { SummaryRenderService } from '@/services/summary/summary-render.service';
 import { EmailAnalysisService } from '@/services/email/email-analysis.service';
 import { EmailGroupManagementService } from '@/services/email-group/email-group-management.service';
 import { AttachmentService } from '@/services/email-group/attachment.service';
+import { AttachmentTextService } from '@/services/email-group/attachment-text.service';
 import { AiAnalysisService } from '@/services/ai/ai-analysis.service';
+import { PromptTemplateService } from '@/services/ai/prompt-template.service';
+import { ExtractionCacheService } from '@/services/ai/extraction-cache.service';
+import { JobQueueService } from '@/services/jobs/job-queue.service';
+import { VocabularyService } from '@/services/vocabulary/vocabulary.service';
+import { FewShotExampleService } from '@/services/ai/few-shot-example.service';
 import { EmailViewService } from '@/services/email/email-view.service';
 import { CredentialsStorageService } from '@/services/auth/credentials-storage.service';
 import { EmailBaseService } from '@/services/email/email-base.service';
 import { EmailTargetedService } from '@/services/email/email-targeted.service';
 import { EmailFullSyncService } from '@/services/email/email-full-sync.service';
+import { MonitoredFolderService } from '@/services/email/monitored-folder.service';
 import { AutoSyncController } from "@/controllers/auto-sync.controller.ts";
 
 export class ControllerFactory {
@@ -28,7 +59,7 @@ export class ControllerFactory {
     private static userInfoService = new UserInfo();
     private static authValidationService = new AuthValidationService();
     private static authUrlService = new AuthUrlService();
-    private static geminiService = GeminiService.getInstance();
+    private static extractionService = ShipmentExtractionService.getInstance();
 
     private static requestLoggerService = new RequestLogger();
 
@@ -39,7 +70,15 @@ export class ControllerFactory {
             emailGroupRepo: new EmailGroupRepository(sequelize),
             emailRepo: new EmailRepository(sequelize),
             attachmentRepo: new AttachmentRepository(sequelize),
-            userRepo: new UserRepository(sequelize)
+            userRepo: new UserRepository(sequelize),
+            promptTemplateRepo: new PromptTemplateRepository(sequelize),
+            jobRepo: new JobRepository(sequelize),
+            extractionCacheRepo: new ExtractionCacheRepository(sequelize),
+            vocabularyRepo: new VocabularyRepository(sequelize),
+            summaryEditRepo: new SummaryEditRepository(sequelize),
+            extractionExampleRepo: new ExtractionExampleRepository(sequelize),
+            mailboxSyncStateRepo: new MailboxSyncStateRepository(sequelize),
+            monitoredFolderRepo: new MonitoredFolderRepository(sequelize)
         };
     }
 
@@ -83,6 +122,16 @@ export class ControllerFactory {
         );
     }
 
+    public static createImapAuthController(): ImapAuthController {
+        const authService = this.createAuthService();
+
+        return new ImapAuthController(
+            authService,
+            new ImapLoginService(),
+            this.requestLoggerService
+        );
+    }
+
     public static createEmailController(): EmailController {
         const authService = this.createAuthService();
         const { userRepo, emailRepo } = this.createRepositories();
@@ -104,17 +153,32 @@ export class ControllerFactory {
 
     public static createEmailGroupController(): EmailGroupController {
         const authService = this.createAuthService();
-        const { emailGroupRepo, emailRepo, attachmentRepo, summaryRepo } = this.createRepositories();
+        const { emailGroupRepo, emailRepo, attachmentRepo, summaryRepo, promptTemplateRepo, jobRepo, extractionCacheRepo, vocabularyRepo, summaryEditRepo, extractionExampleRepo } = this.createRepositories();
         const { summaryService } = this.createEmailServices();
 
+        const fewShotExampleService = new FewShotExampleService(extractionExampleRepo, summaryEditRepo, emailGroupRepo, summaryRepo);
         const emailGroupManagementService = new EmailGroupManagementService(
             emailGroupRepo,
             emailRepo,
             attachmentRepo,
-            summaryRepo
+            summaryRepo,
+            fewShotExampleService
         );
         const attachmentService = new AttachmentService(attachmentRepo);
-        const aiAnalysisService = new AiAnalysisService(this.geminiService, emailGroupRepo, summaryService);
+        const attachmentTextService = new AttachmentTextService(attachmentRepo);
+        const promptTemplateService = new PromptTemplateService(promptTemplateRepo);
+        const extractionCacheService = new ExtractionCacheService(extractionCacheRepo);
+        const aiAnalysisService = new AiAnalysisService(
+            this.extractionService,
+            emailGroupRepo,
+            summaryService,
+            attachmentTextService,
+            promptTemplateService,
+            extractionCacheService,
+            new VocabularyService(vocabularyRepo),
+            fewShotExampleService,
+            summaryEditRepo
+        );
 
         return new EmailGroupController(
             authService,
@@ -122,7 +186,77 @@ export class ControllerFactory {
             attachmentService,
             aiAnalysisService,
             this.requestLoggerService,
-            emailGroupRepo
+            emailGroupRepo,
+            new JobQueueService(jobRepo),
+            new SummaryEditService(summaryService, summaryEditRepo, emailGroupRepo, aiAnalysisService, this.extractionService)
+        );
+    }
+
+    public static createPromptTemplateController(): PromptTemplateController {
+        const authService = this.createAuthService();
+        const { promptTemplateRepo } = this.createRepositories();
+
+        return new PromptTemplateController(
+            authService,
+            new PromptTemplateService(promptTemplateRepo),
+            this.requestLoggerService
+        );
+    }
+
+    public static createJobController(): JobController {
+        const authService = this.createAuthService();
+        const { jobRepo } = this.createRepositories();
+
+        return new JobController(
+            authService,
+            new JobQueueService(jobRepo),
+            this.requestLoggerService
+        );
+    }
+
+    public static createVocabularyController(): VocabularyController {
+        const authService = this.createAuthService();
+        const { vocabularyRepo } = this.createRepositories();
+
+        return new VocabularyController(
+            authService,
+            new VocabularyService(vocabularyRepo),
+            this.requestLoggerService
+        );
+    }
+
+    public static createExtractionExampleController(): ExtractionExampleController {
+        const authService = this.createAuthService();
+        const { extractionExampleRepo, summaryEditRepo, emailGroupRepo, summaryRepo } = this.createRepositories();
+
+        return new ExtractionExampleController(
+            authService,
+            new FewShotExampleService(extractionExampleRepo, summaryEditRepo, emailGroupRepo, summaryRepo),
+            this.requestLoggerService
+        );
+    }
+
+    public static createSummaryController(): SummaryController {
+        const authService = this.createAuthService();
+        const { summaryService } = this.createEmailServices();
+
+        return new SummaryController(
+            authService,
+            summaryService,
+            new SummaryRenderService(),
+            this.requestLoggerService
+        );
+    }
+
+    public static createMailboxFolderController(): MailboxFolderController {
+        const authService = this.createAuthService();
+        const { userRepo, mailboxSyncStateRepo, monitoredFolderRepo } = this.createRepositories();
+
+        return new MailboxFolderController(
+            authService,
+            new MonitoredFolderService(monitoredFolderRepo, mailboxSyncStateRepo),
+            userRepo,
+            this.requestLoggerService
         );
     }
 
@@ -0,0 +1,22 @@
+import { aiConfig, ExtractionProviderName } from '@/config/ai.config';
+import { ExtractionProvider } from '@/services/ai/providers/extraction-provider';
+import { GeminiProvider } from '@/services/ai/providers/gemini.provider';
+import { OpenAICompatibleProvider } from '@/services/ai/providers/openai-compatible.provider';
+import { MockExtractionProvider } from '@/services/ai/providers/mock.provider';
+import { logger } from '@/utils';
+
+export class ExtractionProviderFactory {
+    public static create(providerName: ExtractionProviderName = aiConfig.provider): ExtractionProvider {
+        switch (providerName) {
+            case 'gemini':
+                return new GeminiProvider();
+            case 'openai':
+                return new OpenAICompatibleProvider();
+            case 'mock':
+                return new MockExtractionProvider();
+            default:
+                logger.error(`Unknown AI_PROVIDER "${providerName}", falling back to gemini`);
+                return new GeminiProvider();
+        }
+    }
+}
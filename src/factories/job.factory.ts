@@ -0,0 +1,64 @@
+import { database } from '@/config/database.init';
+import { EmailGroupRepository, SummaryRepository, AttachmentRepository, PromptTemplateRepository, JobRepository, ExtractionCacheRepository, VocabularyRepository, ExtractionExampleRepository, SummaryEditRepository } from '@/repositories';
+import { ShipmentExtractionService } from '@/services/ai/shipment-extraction.service';
+import { AiAnalysisService } from '@/services/ai/ai-analysis.service';
+import { PromptTemplateService } from '@/services/ai/prompt-template.service';
+import { ExtractionCacheService } from '@/services/ai/extraction-cache.service';
+import { VocabularyService } from '@/services/vocabulary/vocabulary.service';
+import { FewShotExampleService } from '@/services/ai/few-shot-example.service';
+import { SummaryService } from '@/services/summary/summary.service';
+import { AttachmentTextService } from '@/services/email-group/attachment-text.service';
+import { EmailAutoSyncService } from '@/services/email/email-auto-sync.service';
+import { JobQueueService } from '@/services/jobs/job-queue.service';
+import { JobWorkerService } from '@/services/jobs/job-worker.service';
+import { logger } from '@/utils';
+
+export class JobFactory {
+    public static createJobQueueService(): JobQueueService {
+        return new JobQueueService(new JobRepository(database.getSequelize()));
+    }
+
+    public static createJobWorker(autoSyncService: EmailAutoSyncService): JobWorkerService {
+        try {
+            const sequelize = database.getSequelize();
+
+            const emailGroupRepo = new EmailGroupRepository(sequelize);
+            const summaryRepo = new SummaryRepository(sequelize);
+            const attachmentRepo = new AttachmentRepository(sequelize);
+            const promptTemplateRepo = new PromptTemplateRepository(sequelize);
+            const jobRepo = new JobRepository(sequelize);
+            const summaryEditRepo = new SummaryEditRepository(sequelize);
+
+            const aiAnalysisService = new AiAnalysisService(
+                ShipmentExtractionService.getInstance(),
+                emailGroupRepo,
+                new SummaryService(summaryRepo),
+                new AttachmentTextService(attachmentRepo),
+                new PromptTemplateService(promptTemplateRepo),
+                new ExtractionCacheService(new ExtractionCacheRepository(sequelize)),
+                new VocabularyService(new VocabularyRepository(sequelize)),
+                new FewShotExampleService(
+                    new ExtractionExampleRepository(sequelize),
+                    summaryEditRepo,
+                    emailGroupRepo,
+                    summaryRepo
+                ),
+                summaryEditRepo
+            );
+
+            const worker = new JobWorkerService(
+                jobRepo,
+                new JobQueueService(jobRepo),
+                aiAnalysisService,
+                autoSyncService
+            );
+
+            logger.info('Job worker created successfully');
+            return worker;
+
+        } catch (error) {
+            logger.error('Failed to create job worker:', error);
+            throw error;
+        }
+    }
+}
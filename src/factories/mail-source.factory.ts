@@ -0,0 +1,27 @@
+import { gmailApiConfig } from '@/config/gmail-api.config';
+import { OAuthProviderConfig } from '@/models/auth';
+import { ImapLoginConfig } from '@/models/imap-account';
+import { MailSource } from '@/services/email/mail-source';
+import { EmailFetcherService } from '@/services/email/email-fetcher.service';
+import { GmailApiMailSource } from '@/services/email/gmail-api-mail-source';
+import { GraphMailSource } from '@/services/email/graph-mail-source';
+
+export class MailSourceFactory {
+    public static create(
+        credentials: { email: string; accessToken: string },
+        providerConfig: OAuthProviderConfig | ImapLoginConfig
+    ): MailSource {
+        // Вход по паролю приложения возможен только по IMAP
+        if (providerConfig.imapAuthMethod === 'LOGIN') {
+            return new EmailFetcherService(credentials, providerConfig);
+        }
+        if (providerConfig.mailApi === 'gmail' && gmailApiConfig.enabled) {
+            return new GmailApiMailSource(credentials);
+        }
+        // Токен, выданный для Graph, IMAP не примет - другого пути к почте у такого пользователя нет
+        if (providerConfig.mailApi === 'graph') {
+            return new GraphMailSource(credentials);
+        }
+        return new EmailFetcherService(credentials, providerConfig);
+    }
+}
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/auth/auth.service';
+import { appConfig } from '@/config/app.config';
+import { logger } from '@/utils';
+
+export const requireAdmin = (authService: AuthService) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const authHeader = req.headers.authorization;
+            const sessionId = authHeader?.replace('Bearer ', '');
+
+            if (!sessionId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+            }
+
+            const user = authService.validateSession(sessionId);
+            if (!user) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Invalid or expired session'
+                });
+            }
+
+            if (!appConfig.adminEmails.includes(user.email.toLowerCase())) {
+                logger.warn('Admin access denied', {
+                    email: user.email,
+                    path: req.path
+                });
+                return res.status(403).json({
+                    success: false,
+                    message: 'Admin access required'
+                });
+            }
+
+            req.user = user;
+            req.sessionId = sessionId;
+            next();
+
+        } catch (error) {
+            logger.error('Admin auth middleware error:', error);
+            return res.status(401).json({
+                success: false,
+                message: 'Authentication failed'
+            });
+        }
+    };
+};
@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '@/utils';
+
+type RateLimitOptions = {
+    windowMs: number;
+    maxRequests: number;
+    // По умолчанию лимит считается на IP; за авторизацией удобнее считать на пользователя
+    keyGenerator?: (req: Request) => string;
+};
+
+// Счетчики в памяти процесса: приложение работает одним экземпляром
+export const rateLimit = (name: string, options: RateLimitOptions) => {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        const now = Date.now();
+        const key = options.keyGenerator ? options.keyGenerator(req) : req.ip || 'unknown';
+
+        let window = windows.get(key);
+        if (!window || window.resetAt <= now) {
+            // Заодно выбрасываем истекшие окна, чтобы карта не росла
+            for (const [storedKey, stored] of windows) {
+                if (stored.resetAt <= now) windows.delete(storedKey);
+            }
+            window = { count: 0, resetAt: now + options.windowMs };
+            windows.set(key, window);
+        }
+
+        window.count++;
+        if (window.count > options.maxRequests) {
+            const retryAfterSeconds = Math.ceil((window.resetAt - now) / 1000);
+            logger.warn(`Rate limit ${name} exceeded`, { key, path: req.path });
+            res.setHeader('Retry-After', String(retryAfterSeconds));
+            return res.status(429).json({
+                success: false,
+                message: 'Too many requests, try again later'
+            });
+        }
+
+        next();
+    };
+};
@@ -0,0 +1,9 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from './migration';
+
+export const summaryProvenance: Migration = {
+    name: '001-summary-provenance',
+    up: async (queryInterface, transaction) => {
+        await addColumnIfMissing(queryInterface, transaction, 'summaries', 'provenance', { type: DataTypes.JSONB, allowNull: true });
+    }
+};
@@ -0,0 +1,9 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from './migration';
+
+export const summaryValidationErrors: Migration = {
+    name: '002-summary-validation-errors',
+    up: async (queryInterface, transaction) => {
+        await addColumnIfMissing(queryInterface, transaction, 'summaries', 'validation_errors', { type: DataTypes.JSONB, allowNull: true });
+    }
+};
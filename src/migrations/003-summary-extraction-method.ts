@@ -0,0 +1,10 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from './migration';
+
+export const summaryExtractionMethod: Migration = {
+    name: '003-summary-extraction-method',
+    up: async (queryInterface, transaction) => {
+        await addColumnIfMissing(queryInterface, transaction, 'summaries', 'extraction_method', { type: DataTypes.STRING(16), allowNull: true });
+        await addColumnIfMissing(queryInterface, transaction, 'summaries', 'disagreements', { type: DataTypes.JSONB, allowNull: true });
+    }
+};
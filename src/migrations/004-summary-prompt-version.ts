@@ -0,0 +1,9 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from './migration';
+
+export const summaryPromptVersion: Migration = {
+    name: '004-summary-prompt-version',
+    up: async (queryInterface, transaction) => {
+        await addColumnIfMissing(queryInterface, transaction, 'summaries', 'prompt_version', { type: DataTypes.STRING, allowNull: true });
+    }
+};
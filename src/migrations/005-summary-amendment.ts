@@ -0,0 +1,10 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from './migration';
+
+export const summaryAmendment: Migration = {
+    name: '005-summary-amendment',
+    up: async (queryInterface, transaction) => {
+        await addColumnIfMissing(queryInterface, transaction, 'summaries', 'amends_summary_id', { type: DataTypes.STRING, allowNull: true });
+        await addColumnIfMissing(queryInterface, transaction, 'summaries', 'amendment', { type: DataTypes.JSONB, allowNull: true });
+    }
+};
@@ -0,0 +1,10 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from './migration';
+
+export const emailGroupOrderStatus: Migration = {
+    name: '006-email-group-order-status',
+    up: async (queryInterface, transaction) => {
+        await addColumnIfMissing(queryInterface, transaction, 'email_groups', 'orderStatus', { type: DataTypes.STRING(16), allowNull: true });
+        await addColumnIfMissing(queryInterface, transaction, 'email_groups', 'orderStatusHistory', { type: DataTypes.JSONB, allowNull: true });
+    }
+};
@@ -0,0 +1,9 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from './migration';
+
+export const summaryWarnings: Migration = {
+    name: '007-summary-warnings',
+    up: async (queryInterface, transaction) => {
+        await addColumnIfMissing(queryInterface, transaction, 'summaries', 'warnings', { type: DataTypes.JSONB, allowNull: true });
+    }
+};
@@ -0,0 +1,9 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from './migration';
+
+export const userProvider: Migration = {
+    name: '008-user-provider',
+    up: async (queryInterface, transaction) => {
+        await addColumnIfMissing(queryInterface, transaction, 'users', 'provider', { type: DataTypes.STRING, allowNull: true });
+    }
+};
@@ -0,0 +1,21 @@
+import { Migration } from './migration';
+import { summaryProvenance } from './001-summary-provenance';
+import { summaryValidationErrors } from './002-summary-validation-errors';
+import { summaryExtractionMethod } from './003-summary-extraction-method';
+import { summaryPromptVersion } from './004-summary-prompt-version';
+import { summaryAmendment } from './005-summary-amendment';
+import { emailGroupOrderStatus } from './006-email-group-order-status';
+import { summaryWarnings } from './007-summary-warnings';
+import { userProvider } from './008-user-provider';
+
+// Применяются по порядку при запуске после sync(); новые миграции добавляются в конец
+export const MIGRATIONS: Migration[] = [
+    summaryProvenance,
+    summaryValidationErrors,
+    summaryExtractionMethod,
+    summaryPromptVersion,
+    summaryAmendment,
+    emailGroupOrderStatus,
+    summaryWarnings,
+    userProvider
+];
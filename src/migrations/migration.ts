@@ -0,0 +1,21 @@
+import { QueryInterface, ModelAttributeColumnOptions, Transaction } from 'sequelize';
+
+// Изменение схемы существующих таблиц. Имя записывается в schema_migrations, поэтому после выпуска его не меняют
+export type Migration = {
+    name: string;
+    up: (queryInterface: QueryInterface, transaction: Transaction) => Promise<void>;
+};
+
+// На новой базе sync() уже создал таблицу с этой колонкой
+export const addColumnIfMissing = async (
+    queryInterface: QueryInterface,
+    transaction: Transaction,
+    tableName: string,
+    columnName: string,
+    attribute: ModelAttributeColumnOptions
+): Promise<void> => {
+    const columns = await queryInterface.describeTable(tableName);
+    if (!columns[columnName]) {
+        await queryInterface.addColumn(tableName, columnName, attribute, { transaction });
+    }
+};
@@ -0,0 +1,18 @@
+export type AttachmentTextKind = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'text' | 'unsupported';
+
+export interface IAttachmentText {
+    attachmentId: string;
+    kind: AttachmentTextKind;
+    text: string;
+    error?: string | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface AttachmentDocument {
+    attachmentId: string;
+    emailId: string;
+    filename: string;
+    kind: AttachmentTextKind;
+    text: string;
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IAttachmentText, AttachmentTextKind } from './attachment-text.interface';
+
+interface AttachmentTextCreationAttributes extends Optional<IAttachmentText, 'error' | 'createdAt' | 'updatedAt'> {}
+
+export class AttachmentTextModel extends Model<IAttachmentText, AttachmentTextCreationAttributes> implements IAttachmentText {
+    public attachmentId!: string;
+    public kind!: AttachmentTextKind;
+    public text!: string;
+    public error?: string | null;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initAttachmentTextModel = (sequelize: Sequelize): typeof AttachmentTextModel => {
+    AttachmentTextModel.init({
+        attachmentId: {
+            type: DataTypes.STRING,
+            primaryKey: true,
+            allowNull: false,
+            references: {
+                model: 'attachments',
+                key: 'id'
+            },
+            onDelete: 'CASCADE'
+        },
+        kind: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        text: {
+            type: DataTypes.TEXT('long'),
+            allowNull: false,
+            defaultValue: ''
+        },
+        error: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+        }
+    }, {
+        sequelize,
+        tableName: 'attachment_texts',
+        timestamps: true,
+    });
+
+    return AttachmentTextModel;
+};
\ No newline at end of file
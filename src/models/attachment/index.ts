@@ -1,2 +1,4 @@
 export * from './attachment.interface';
-export * from './attachment.model';
\ No newline at end of file
+export * from './attachment.model';
+export * from './attachment-text.interface';
+export * from './attachment-text.model';
@@ -1,9 +1,9 @@
-import { EmailFetcherService } from '@/services/email/email-fetcher.service.ts';
+import { MailSource } from '@/services/email/mail-source';
 
 export interface SessionData {
     email: string;
     accessToken: string;
-    emailService: EmailFetcherService;
+    emailService: MailSource;
     expires: Date;
     lastActivity: Date;
 }
@@ -20,6 +20,7 @@ export interface User {
     email: string;
     accessToken: string;
     refreshToken?: string;
+    provider?: string | null;
     lastSync: Date;
     isActive: boolean;
     createdAt?: Date;
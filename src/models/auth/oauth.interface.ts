@@ -1,12 +1,25 @@
+export const OAUTH_PROVIDER_IDS = ['google', 'mailru', 'microsoft'] as const;
+export type OAuthProviderId = typeof OAUTH_PROVIDER_IDS[number];
+
 export interface OAuthProviderConfig {
+    id: OAuthProviderId;
+    displayName: string;
+    // Публичные домены провайдера; домены компаний сопоставляются через OAUTH_DOMAIN_PROVIDERS
+    domains: string[];
     clientId: string;
     clientSecret: string;
     redirectUri: string;
     authUrl: string;
     tokenUrl: string;
     scope: string[];
+    // Дополнительные параметры ссылки авторизации
+    authParams?: Record<string, string>;
     userInfoUrl?: string;
+    // id_token - адрес берется из утверждений токена: access token выдан для почты и к userinfo не подходит
+    userInfoSource: 'endpoint' | 'id_token';
     imapHost: string;
     imapPort: number;
     imapAuthMethod: 'XOAUTH2';
-}
\ No newline at end of file
+    // Провайдер с собственным API для чтения почты; используется вместо IMAP, если API включен
+    mailApi?: 'gmail' | 'graph';
+}
@@ -5,6 +5,8 @@ export interface IUser {
     email: string;
     accessToken: string;
     refreshToken?: string;
+    // Провайдер OAuth, выбранный при входе; null у пользователей, вошедших до появления выбора
+    provider?: string | null;
     lastSync: Date;
     isActive: boolean;
     createdAt?: Date;
@@ -16,6 +18,7 @@ export class UserModel extends Model<IUser> implements IUser {
     public email!: string;
     public accessToken!: string;
     public refreshToken?: string;
+    public provider?: string | null;
     public lastSync!: Date;
     public isActive!: boolean;
     public createdAt?: Date;
@@ -42,6 +45,10 @@ export const initUserModel = (sequelize: Sequelize): typeof UserModel => {
             type: DataTypes.TEXT,
             allowNull: true
         },
+        provider: {
+            type: DataTypes.STRING,
+            allowNull: true
+        },
         lastSync: {
             type: DataTypes.DATE,
             allowNull: false,
@@ -1,5 +1,5 @@
 import {IEmail} from "@/models/email";
-import {ISummary} from "@/models/summary";
+import {ISummary, OrderLifecycleStatus} from "@/models/summary";
 
 export interface IEmailGroup {
     emailGroupId: string;
@@ -9,4 +9,16 @@ export interface IEmailGroup {
     emails?: IEmail[];
     summary?: ISummary;
     summaries?: ISummary[];
-}
\ No newline at end of file
+    orderStatus?: OrderLifecycleStatus | null;
+    orderStatusHistory?: OrderStatusTransition[];
+}
+
+export type OrderStatusTransition = {
+    from: OrderLifecycleStatus | null;
+    to: OrderLifecycleStatus;
+    email_id: string | null;
+    source: 'rules' | 'ai';
+    // Фрагмент письма, на котором сработало правило
+    matched: string | null;
+    at: Date;
+};
\ No newline at end of file
@@ -1,11 +1,14 @@
 import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
-import { IEmailGroup } from './email-group.interface';
+import { IEmailGroup, OrderStatusTransition } from './email-group.interface';
+import { OrderLifecycleStatus } from '@/models/summary';
 
-interface EmailGroupCreationAttributes extends Optional<IEmailGroup, 'createdAt' | 'updatedAt' | 'userId'> {}
+interface EmailGroupCreationAttributes extends Optional<IEmailGroup, 'createdAt' | 'updatedAt' | 'userId' | 'orderStatus' | 'orderStatusHistory'> {}
 
 export class EmailGroupModel extends Model<IEmailGroup, EmailGroupCreationAttributes> implements IEmailGroup {
     public emailGroupId!: string;
     public userId?: number;
+    public orderStatus?: OrderLifecycleStatus | null;
+    public orderStatusHistory?: OrderStatusTransition[];
     public createdAt!: Date;
     public updatedAt!: Date;
 }
@@ -26,6 +29,14 @@ export const initEmailGroupModel = (sequelize: Sequelize): typeof EmailGroupMode
             },
             onDelete: 'SET NULL'
         },
+        orderStatus: {
+            type: DataTypes.STRING(16),
+            allowNull: true,
+        },
+        orderStatusHistory: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
         createdAt: {
             type: DataTypes.DATE,
             allowNull: false,
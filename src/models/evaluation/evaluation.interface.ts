@@ -0,0 +1,71 @@
+import { IEmail } from '@/models/email';
+import { ShipmentRequest, ShipmentValidationError, ShipmentWarning, ExtractionMethod } from '@/models/summary';
+
+export interface EvaluationCase {
+    name: string;
+    dir: string;
+    emails: IEmail[];
+    expected: ShipmentRequest;
+    // Ответы модели по порядку вызовов (основной запрос и повторные после ошибок валидации)
+    recordedResponses: string[] | null;
+}
+
+export type FieldMismatch = {
+    path: string;
+    expected: unknown;
+    actual: unknown;
+};
+
+export type DateNormalizationErrorReason = 'not_normalized' | 'wrong_value' | 'missing' | 'unexpected';
+
+export type DateNormalizationError = {
+    path: string;
+    expected: string | null;
+    actual: string | null;
+    reason: DateNormalizationErrorReason;
+};
+
+export type MatchCounts = {
+    tp: number;
+    fp: number;
+    fn: number;
+};
+
+export type FieldScore = MatchCounts & {
+    // Путь без индексов массивов, например "shipment_details[].address_dest.city"
+    field: string;
+    precision: number | null;
+    recall: number | null;
+};
+
+export interface CaseEvaluationResult {
+    name: string;
+    error: string | null;
+    // null - кейс упал до извлечения
+    extraction_method: ExtractionMethod | null;
+    documents: number;
+    meaningful: boolean;
+    expected_meaningful: boolean;
+    validation_errors: ShipmentValidationError[];
+    warnings: ShipmentWarning[];
+    mismatches: FieldMismatch[];
+    date_errors: DateNormalizationError[];
+    counts: MatchCounts;
+    field_counts: Record<string, MatchCounts>;
+    actual: ShipmentRequest | null;
+}
+
+export interface EvaluationReport {
+    provider: string;
+    model: string;
+    prompt_version: string;
+    cases: CaseEvaluationResult[];
+    fields: FieldScore[];
+    totals: MatchCounts & {
+        precision: number | null;
+        recall: number | null;
+        f1: number | null;
+    };
+    date_error_count: number;
+    failed_cases: number;
+}
@@ -0,0 +1 @@
+export * from './evaluation.interface';
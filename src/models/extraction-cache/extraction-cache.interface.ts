@@ -0,0 +1,12 @@
+import { ShipmentExtractionResult } from '@/models/summary';
+
+export interface IExtractionCacheEntry {
+    cacheKey: string;
+    promptVersion: string;
+    model: string;
+    result: ShipmentExtractionResult;
+    hitCount: number;
+    lastHitAt?: Date | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
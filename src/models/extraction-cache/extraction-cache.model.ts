@@ -0,0 +1,53 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IExtractionCacheEntry } from './extraction-cache.interface';
+import { ShipmentExtractionResult } from '@/models/summary';
+
+interface ExtractionCacheCreationAttributes extends Optional<IExtractionCacheEntry, 'hitCount' | 'lastHitAt' | 'createdAt' | 'updatedAt'> {}
+
+export class ExtractionCacheModel extends Model<IExtractionCacheEntry, ExtractionCacheCreationAttributes> implements IExtractionCacheEntry {
+    public cacheKey!: string;
+    public promptVersion!: string;
+    public model!: string;
+    public result!: ShipmentExtractionResult;
+    public hitCount!: number;
+    public lastHitAt?: Date | null;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initExtractionCacheModel = (sequelize: Sequelize): typeof ExtractionCacheModel => {
+    ExtractionCacheModel.init({
+        cacheKey: {
+            type: DataTypes.STRING(64),
+            primaryKey: true,
+            allowNull: false,
+        },
+        promptVersion: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        model: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        result: {
+            type: DataTypes.JSONB,
+            allowNull: false,
+        },
+        hitCount: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        lastHitAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+        }
+    }, {
+        sequelize,
+        tableName: 'extraction_cache',
+        timestamps: true
+    });
+
+    return ExtractionCacheModel;
+};
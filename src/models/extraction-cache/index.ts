@@ -0,0 +1,2 @@
+export * from './extraction-cache.interface';
+export * from './extraction-cache.model';
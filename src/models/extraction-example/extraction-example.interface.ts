@@ -0,0 +1,31 @@
+import { ShipmentRequest } from '@/models/summary';
+
+// approved - сводка утверждена без правок, corrected - утверждена после ручной правки полей
+export type ExtractionExampleSource = 'approved' | 'corrected';
+
+export type ExtractionExampleStatus = 'active' | 'excluded';
+
+export const EXTRACTION_EXAMPLE_STATUSES: ExtractionExampleStatus[] = ['active', 'excluded'];
+
+// Проверенный пример "фрагмент писем -> итоговый shipment_data" для few-shot подсказки модели
+export interface IExtractionExample {
+    id: number;
+    senderDomain: string;
+    emailGroupId?: string | null;
+    summaryId?: string | null;
+    excerpt: string;
+    shipmentData: ShipmentRequest;
+    source: ExtractionExampleSource;
+    status: ExtractionExampleStatus;
+    note?: string | null;
+    createdBy?: string | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface UpdateExtractionExampleInput {
+    excerpt?: string;
+    shipmentData?: ShipmentRequest;
+    status?: ExtractionExampleStatus;
+    note?: string | null;
+}
@@ -0,0 +1,83 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IExtractionExample, ExtractionExampleSource, ExtractionExampleStatus } from './extraction-example.interface';
+import { ShipmentRequest } from '@/models/summary';
+
+interface ExtractionExampleCreationAttributes extends Optional<IExtractionExample,
+    'id' | 'emailGroupId' | 'summaryId' | 'status' | 'note' | 'createdBy' | 'createdAt' | 'updatedAt'> {}
+
+export class ExtractionExampleModel extends Model<IExtractionExample, ExtractionExampleCreationAttributes> implements IExtractionExample {
+    public id!: number;
+    public senderDomain!: string;
+    public emailGroupId?: string | null;
+    public summaryId?: string | null;
+    public excerpt!: string;
+    public shipmentData!: ShipmentRequest;
+    public source!: ExtractionExampleSource;
+    public status!: ExtractionExampleStatus;
+    public note?: string | null;
+    public createdBy?: string | null;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initExtractionExampleModel = (sequelize: Sequelize): typeof ExtractionExampleModel => {
+    ExtractionExampleModel.init({
+        id: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        senderDomain: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        emailGroupId: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        },
+        summaryId: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        },
+        excerpt: {
+            type: DataTypes.TEXT,
+            allowNull: false,
+        },
+        shipmentData: {
+            type: DataTypes.JSONB,
+            allowNull: false,
+        },
+        source: {
+            type: DataTypes.STRING(16),
+            allowNull: false,
+        },
+        status: {
+            type: DataTypes.STRING(16),
+            allowNull: false,
+            defaultValue: 'active',
+        },
+        note: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+        },
+        createdBy: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        }
+    }, {
+        sequelize,
+        tableName: 'extraction_examples',
+        timestamps: true,
+        indexes: [
+            {
+                unique: true,
+                fields: ['emailGroupId']
+            },
+            {
+                fields: ['senderDomain', 'status']
+            }
+        ]
+    });
+
+    return ExtractionExampleModel;
+};
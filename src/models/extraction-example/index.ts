@@ -0,0 +1,2 @@
+export * from './extraction-example.interface';
+export * from './extraction-example.model';
@@ -0,0 +1,43 @@
+export const IMAP_SECURITY_MODES = ['tls', 'starttls', 'none'] as const;
+export type ImapSecurityMode = typeof IMAP_SECURITY_MODES[number];
+
+// Ящик без OAuth (Яндекс, корпоративный Exchange, свой Dovecot): вход по логину и паролю приложения
+export interface IImapAccount {
+    id: number;
+    userId: number;
+    host: string;
+    port: number;
+    // tls - шифрование с момента подключения (993), starttls - переход на TLS после приветствия (143), none - без шифрования
+    security: ImapSecurityMode;
+    username: string;
+    // Пароль хранится только в зашифрованном виде, см. CredentialsCipher
+    encryptedPassword: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export type SaveImapAccountInput = Pick<IImapAccount, 'userId' | 'host' | 'port' | 'security' | 'username' | 'encryptedPassword'>;
+
+// Параметры подключения, которые пользователь вводит при входе и проверке соединения
+export interface ImapLoginSettings {
+    email: string;
+    host: string;
+    port: number;
+    security: ImapSecurityMode;
+    username: string;
+    password: string;
+}
+
+// Передается в MailSourceFactory и EmailFetcherService вместо конфигурации OAuth-провайдера
+export interface ImapLoginConfig {
+    id: 'imap';
+    displayName: string;
+    imapHost: string;
+    imapPort: number;
+    imapSecurity: ImapSecurityMode;
+    imapUser: string;
+    imapPassword: string;
+    imapAuthMethod: 'LOGIN';
+    imapTlsRejectUnauthorized: boolean;
+    connectionTimeout: number;
+}
@@ -0,0 +1,63 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IImapAccount, ImapSecurityMode, IMAP_SECURITY_MODES } from './imap-account.interface';
+
+interface ImapAccountCreationAttributes extends Optional<IImapAccount, 'id' | 'createdAt' | 'updatedAt'> {}
+
+export class ImapAccountModel extends Model<IImapAccount, ImapAccountCreationAttributes> implements IImapAccount {
+    public id!: number;
+    public userId!: number;
+    public host!: string;
+    public port!: number;
+    public security!: ImapSecurityMode;
+    public username!: string;
+    public encryptedPassword!: string;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initImapAccountModel = (sequelize: Sequelize): typeof ImapAccountModel => {
+    ImapAccountModel.init({
+        id: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        userId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            unique: true,
+            references: {
+                model: 'users',
+                key: 'id'
+            },
+            onDelete: 'CASCADE'
+        },
+        host: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        port: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+        },
+        security: {
+            type: DataTypes.ENUM(...IMAP_SECURITY_MODES),
+            allowNull: false,
+            defaultValue: 'tls'
+        },
+        username: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        encryptedPassword: {
+            type: DataTypes.TEXT,
+            allowNull: false,
+        }
+    }, {
+        sequelize,
+        tableName: 'imap_accounts',
+        timestamps: true
+    });
+
+    return ImapAccountModel;
+};
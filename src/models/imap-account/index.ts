@@ -0,0 +1,2 @@
+export * from './imap-account.interface';
+export * from './imap-account.model';
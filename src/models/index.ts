@@ -1,9 +1,17 @@
 import { Sequelize } from 'sequelize';
 import { initUserModel } from './auth';
-import { initSummaryModel } from './summary';
+import { initSummaryModel, initSummaryEditModel } from './summary';
 import { initEmailGroupModel } from './email-group';
 import { initEmailModel } from './email';
-import { initAttachmentModel } from './attachment';
+import { initAttachmentModel, initAttachmentTextModel } from './attachment';
+import { initPromptTemplateModel } from './prompt-template';
+import { initJobModel } from './job';
+import { initExtractionCacheModel } from './extraction-cache';
+import { initVocabularyTermModel, initUnmappedValueModel } from './vocabulary';
+import { initExtractionExampleModel } from './extraction-example';
+import { initMailboxSyncStateModel } from './mailbox-sync-state';
+import { initMonitoredFolderModel } from './monitored-folder';
+import { initImapAccountModel } from './imap-account';
 
 export const initModels = (sequelize: Sequelize) => {
     const User = initUserModel(sequelize);
@@ -11,6 +19,17 @@ export const initModels = (sequelize: Sequelize) => {
     const EmailGroup = initEmailGroupModel(sequelize);
     const Email = initEmailModel(sequelize);
     const Attachment = initAttachmentModel(sequelize);
+    const AttachmentText = initAttachmentTextModel(sequelize);
+    const PromptTemplate = initPromptTemplateModel(sequelize);
+    const Job = initJobModel(sequelize);
+    const ExtractionCache = initExtractionCacheModel(sequelize);
+    const VocabularyTerm = initVocabularyTermModel(sequelize);
+    const UnmappedValue = initUnmappedValueModel(sequelize);
+    const SummaryEdit = initSummaryEditModel(sequelize);
+    const ExtractionExample = initExtractionExampleModel(sequelize);
+    const MailboxSyncState = initMailboxSyncStateModel(sequelize);
+    const MonitoredFolder = initMonitoredFolderModel(sequelize);
+    const ImapAccount = initImapAccountModel(sequelize);
 
     User.hasMany(EmailGroup, {
         foreignKey: 'userId',
@@ -60,7 +79,18 @@ export const initModels = (sequelize: Sequelize) => {
         as: 'email'
     });
 
-    return { User, Summary, EmailGroup, Email, Attachment };
+    Attachment.hasOne(AttachmentText, {
+        foreignKey: 'attachmentId',
+        as: 'extractedText',
+        onDelete: 'CASCADE'
+    });
+
+    AttachmentText.belongsTo(Attachment, {
+        foreignKey: 'attachmentId',
+        as: 'attachment'
+    });
+
+    return { User, Summary, EmailGroup, Email, Attachment, AttachmentText, PromptTemplate, Job, ExtractionCache, VocabularyTerm, UnmappedValue, SummaryEdit, ExtractionExample, MailboxSyncState, MonitoredFolder, ImapAccount };
 };
 
 export type Models = ReturnType<typeof initModels>;
\ No newline at end of file
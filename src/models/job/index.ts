@@ -0,0 +1,2 @@
+export * from './job.interface';
+export * from './job.model';
@@ -0,0 +1,57 @@
+export type JobType = 'analyze_group' | 'sync_user' | 'backfill';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalyzeGroupJobPayload {
+    emailGroupId: string;
+    force?: boolean;
+}
+
+export interface SyncUserJobPayload {
+    email: string;
+}
+
+export interface BackfillJobPayload {
+    // needing — группы без саммари, с новыми письмами или с failed; pending — всё, что ещё не approved/rejected
+    scope: 'needing' | 'pending';
+    force?: boolean;
+}
+
+export interface JobPayloadMap {
+    analyze_group: AnalyzeGroupJobPayload;
+    sync_user: SyncUserJobPayload;
+    backfill: BackfillJobPayload;
+}
+
+export interface IJob {
+    id: number;
+    type: JobType;
+    payload: Record<string, any>;
+    status: JobStatus;
+    attempts: number;
+    maxAttempts: number;
+    runAt: Date;
+    lockedAt?: Date | null;
+    lockedBy?: string | null;
+    startedAt?: Date | null;
+    finishedAt?: Date | null;
+    lastError?: string | null;
+    result?: Record<string, any> | null;
+    dedupeKey?: string | null;
+    createdBy?: string | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface EnqueueJobOptions {
+    maxAttempts?: number;
+    runAt?: Date;
+    dedupeKey?: string | null;
+    createdBy?: string | null;
+}
+
+export interface JobListFilters {
+    status?: JobStatus;
+    type?: JobType;
+    limit?: number;
+}
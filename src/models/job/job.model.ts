@@ -0,0 +1,117 @@
+import { Sequelize, DataTypes, Model, Optional, Op } from 'sequelize';
+import { IJob, JobType, JobStatus } from './job.interface';
+
+interface JobCreationAttributes extends Optional<IJob,
+    'id' | 'status' | 'attempts' | 'runAt' | 'lockedAt' | 'lockedBy' | 'startedAt' | 'finishedAt' |
+    'lastError' | 'result' | 'dedupeKey' | 'createdBy' | 'createdAt' | 'updatedAt'> {}
+
+export class JobModel extends Model<IJob, JobCreationAttributes> implements IJob {
+    public id!: number;
+    public type!: JobType;
+    public payload!: Record<string, any>;
+    public status!: JobStatus;
+    public attempts!: number;
+    public maxAttempts!: number;
+    public runAt!: Date;
+    public lockedAt?: Date | null;
+    public lockedBy?: string | null;
+    public startedAt?: Date | null;
+    public finishedAt?: Date | null;
+    public lastError?: string | null;
+    public result?: Record<string, any> | null;
+    public dedupeKey?: string | null;
+    public createdBy?: string | null;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initJobModel = (sequelize: Sequelize): typeof JobModel => {
+    JobModel.init({
+        id: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        type: {
+            type: DataTypes.STRING(32),
+            allowNull: false,
+        },
+        payload: {
+            type: DataTypes.JSONB,
+            allowNull: false,
+            defaultValue: {},
+        },
+        status: {
+            type: DataTypes.STRING(16),
+            allowNull: false,
+            defaultValue: 'queued',
+        },
+        attempts: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        maxAttempts: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+        },
+        runAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+        },
+        lockedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+        },
+        lockedBy: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        },
+        startedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+        },
+        finishedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+        },
+        lastError: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+        },
+        result: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        dedupeKey: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        },
+        createdBy: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        }
+    }, {
+        sequelize,
+        tableName: 'jobs',
+        timestamps: true,
+        indexes: [
+            {
+                fields: ['status', 'type', 'runAt']
+            },
+            {
+                fields: ['dedupeKey']
+            },
+            // Одна активная задача на ключ даже при одновременной постановке из нескольких процессов
+            {
+                name: 'jobs_active_dedupe_key_unique',
+                unique: true,
+                fields: ['dedupeKey'],
+                where: { status: { [Op.in]: ['queued', 'running'] } }
+            }
+        ]
+    });
+
+    return JobModel;
+};
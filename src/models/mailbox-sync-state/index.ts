@@ -0,0 +1,2 @@
+export * from './mailbox-sync-state.interface';
+export * from './mailbox-sync-state.model';
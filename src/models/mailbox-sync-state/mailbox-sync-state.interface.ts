@@ -0,0 +1,16 @@
+// Позиция инкрементальной синхронизации папки: письма с UID не больше lastUid уже просмотрены
+export interface IMailboxSyncState {
+    id: number;
+    userId: number;
+    mailbox: string;
+    // При смене UIDVALIDITY сервер перенумеровал письма - сохраненный lastUid теряет смысл
+    uidValidity: number;
+    lastUid: number;
+    lastFullSyncAt?: Date | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export type SaveMailboxSyncStateInput = Pick<IMailboxSyncState, 'userId' | 'mailbox' | 'uidValidity' | 'lastUid'> & {
+    lastFullSyncAt?: Date | null;
+};
@@ -0,0 +1,70 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IMailboxSyncState } from './mailbox-sync-state.interface';
+
+interface MailboxSyncStateCreationAttributes extends Optional<IMailboxSyncState, 'id' | 'lastFullSyncAt' | 'createdAt' | 'updatedAt'> {}
+
+export class MailboxSyncStateModel extends Model<IMailboxSyncState, MailboxSyncStateCreationAttributes> implements IMailboxSyncState {
+    public id!: number;
+    public userId!: number;
+    public mailbox!: string;
+    public uidValidity!: number;
+    public lastUid!: number;
+    public lastFullSyncAt?: Date | null;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initMailboxSyncStateModel = (sequelize: Sequelize): typeof MailboxSyncStateModel => {
+    MailboxSyncStateModel.init({
+        id: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        userId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            references: {
+                model: 'users',
+                key: 'id'
+            },
+            onDelete: 'CASCADE'
+        },
+        mailbox: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        // UIDVALIDITY и UID - беззнаковые 32-битные числа, в INTEGER не помещаются
+        uidValidity: {
+            type: DataTypes.BIGINT,
+            allowNull: false,
+            get() {
+                return Number(this.getDataValue('uidValidity'));
+            }
+        },
+        lastUid: {
+            type: DataTypes.BIGINT,
+            allowNull: false,
+            defaultValue: 0,
+            get() {
+                return Number(this.getDataValue('lastUid'));
+            }
+        },
+        lastFullSyncAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+        }
+    }, {
+        sequelize,
+        tableName: 'mailbox_sync_states',
+        timestamps: true,
+        indexes: [
+            {
+                unique: true,
+                fields: ['userId', 'mailbox']
+            }
+        ]
+    });
+
+    return MailboxSyncStateModel;
+};
@@ -0,0 +1,2 @@
+export * from './monitored-folder.interface';
+export * from './monitored-folder.model';
@@ -0,0 +1,20 @@
+export const MONITORED_FOLDER_KINDS = ['folder', 'gmail_label'] as const;
+export type MonitoredFolderKind = typeof MONITORED_FOLDER_KINDS[number];
+
+// Папка или ярлык Gmail, из которых дополнительно к INBOX забирается почта пользователя
+export interface IMonitoredFolder {
+    id: number;
+    userId: number;
+    // Полный путь на сервере, как его принимает SELECT: "INBOX/Перевозки", "[Gmail]/Sent Mail"
+    mailbox: string;
+    kind: MonitoredFolderKind;
+    label?: string | null;
+    enabled: boolean;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export type CreateMonitoredFolderInput = Pick<IMonitoredFolder, 'userId' | 'mailbox' | 'kind'> & {
+    label?: string | null;
+    enabled?: boolean;
+};
@@ -0,0 +1,64 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IMonitoredFolder, MonitoredFolderKind, MONITORED_FOLDER_KINDS } from './monitored-folder.interface';
+
+interface MonitoredFolderCreationAttributes extends Optional<IMonitoredFolder, 'id' | 'label' | 'enabled' | 'createdAt' | 'updatedAt'> {}
+
+export class MonitoredFolderModel extends Model<IMonitoredFolder, MonitoredFolderCreationAttributes> implements IMonitoredFolder {
+    public id!: number;
+    public userId!: number;
+    public mailbox!: string;
+    public kind!: MonitoredFolderKind;
+    public label?: string | null;
+    public enabled!: boolean;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initMonitoredFolderModel = (sequelize: Sequelize): typeof MonitoredFolderModel => {
+    MonitoredFolderModel.init({
+        id: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        userId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            references: {
+                model: 'users',
+                key: 'id'
+            },
+            onDelete: 'CASCADE'
+        },
+        mailbox: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        kind: {
+            type: DataTypes.ENUM(...MONITORED_FOLDER_KINDS),
+            allowNull: false,
+            defaultValue: 'folder'
+        },
+        label: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        },
+        enabled: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+            defaultValue: true
+        }
+    }, {
+        sequelize,
+        tableName: 'monitored_folders',
+        timestamps: true,
+        indexes: [
+            {
+                unique: true,
+                fields: ['userId', 'mailbox']
+            }
+        ]
+    });
+
+    return MonitoredFolderModel;
+};
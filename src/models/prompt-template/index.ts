@@ -0,0 +1,2 @@
+export * from './prompt-template.interface';
+export * from './prompt-template.model';
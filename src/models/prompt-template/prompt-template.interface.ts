@@ -0,0 +1,23 @@
+export interface IPromptTemplate {
+    id: string;
+    name: string;
+    version: number;
+    template: string;
+    schema: string;
+    description?: string | null;
+    isActive: boolean;
+    createdBy?: string | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+// Минимум, который нужен сервису извлечения для сборки промпта
+export type PromptTemplateContent = Pick<IPromptTemplate, 'id' | 'template' | 'schema'>;
+
+export interface CreatePromptTemplateInput {
+    name?: string;
+    template: string;
+    schema?: string;
+    description?: string | null;
+    activate?: boolean;
+}
@@ -0,0 +1,68 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IPromptTemplate } from './prompt-template.interface';
+
+interface PromptTemplateCreationAttributes extends Optional<IPromptTemplate, 'description' | 'createdBy' | 'createdAt' | 'updatedAt'> {}
+
+export class PromptTemplateModel extends Model<IPromptTemplate, PromptTemplateCreationAttributes> implements IPromptTemplate {
+    public id!: string;
+    public name!: string;
+    public version!: number;
+    public template!: string;
+    public schema!: string;
+    public description?: string | null;
+    public isActive!: boolean;
+    public createdBy?: string | null;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initPromptTemplateModel = (sequelize: Sequelize): typeof PromptTemplateModel => {
+    PromptTemplateModel.init({
+        id: {
+            type: DataTypes.STRING,
+            primaryKey: true,
+            allowNull: false,
+        },
+        name: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        version: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+        },
+        template: {
+            type: DataTypes.TEXT,
+            allowNull: false,
+        },
+        schema: {
+            type: DataTypes.TEXT,
+            allowNull: false,
+        },
+        description: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+        },
+        isActive: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+            defaultValue: false,
+        },
+        createdBy: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        }
+    }, {
+        sequelize,
+        tableName: 'prompt_templates',
+        timestamps: true,
+        indexes: [
+            {
+                unique: true,
+                fields: ['name', 'version']
+            }
+        ]
+    });
+
+    return PromptTemplateModel;
+};
@@ -1,9 +1,9 @@
-import { EmailFetcherService } from '@/services/email/email-fetcher.service.ts';
+import { MailSource } from '@/services/email/mail-source';
 
 declare global {
     namespace Express {
         interface Request {
-            emailService?: EmailFetcherService;
+            emailService?: MailSource;
             user?: { email: string };
             sessionId?: string;
         }
@@ -1,2 +1,3 @@
 export * from './summary.interface.ts';
-export * from './summary.model.ts';
\ No newline at end of file
+export * from './summary.model.ts';
+export * from './summary-edit.model.ts';
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { ISummaryEdit } from './summary.interface';
+
+interface SummaryEditCreationAttributes extends Optional<ISummaryEdit, 'id' | 'userEmail' | 'createdAt'> {}
+
+export class SummaryEditModel extends Model<ISummaryEdit, SummaryEditCreationAttributes> implements ISummaryEdit {
+    public id!: number;
+    public summaryId!: string;
+    public emailGroupId!: string;
+    public path!: string;
+    public oldValue!: unknown;
+    public newValue!: unknown;
+    public userEmail!: string | null;
+    public createdAt?: Date;
+}
+
+export const initSummaryEditModel = (sequelize: Sequelize): typeof SummaryEditModel => {
+    SummaryEditModel.init({
+        id: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        // Без внешнего ключа: история остается после удаления старых версий сводки
+        summaryId: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        emailGroupId: {
+            type: DataTypes.STRING,
+            allowNull: false,
+            references: {
+                model: 'email_groups',
+                key: 'emailGroupId'
+            },
+            onDelete: 'CASCADE'
+        },
+        path: {
+            type: DataTypes.STRING(512),
+            allowNull: false,
+        },
+        oldValue: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        newValue: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        userEmail: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        }
+    }, {
+        sequelize,
+        tableName: 'summary_edits',
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+            { fields: ['summaryId'] },
+            { fields: ['emailGroupId'] }
+        ]
+    });
+
+    return SummaryEditModel;
+};
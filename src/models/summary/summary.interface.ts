@@ -2,6 +2,14 @@ export interface ISummary {
     summaryId: string;
     emailGroupId: string;
     shipment_data: ShipmentRequest;
+    provenance?: ShipmentProvenance | null;
+    validation_errors?: ShipmentValidationError[] | null;
+    extraction_method?: ExtractionMethod | null;
+    disagreements?: ExtractionDisagreement[] | null;
+    prompt_version?: string | null;
+    amends_summary_id?: string | null;
+    amendment?: SummaryAmendment | null;
+    warnings?: ShipmentWarning[] | null;
     summary: string;
     status: 'pending' | 'approved' | 'rejected' | 'processing' | 'failed';
     createdAt: Date;
@@ -22,11 +30,25 @@ export type ShipmentRequest = {
         address_from: ShipmentAddress;
         address_dest: ShipmentAddress;
         contents: ShipmentContent[];
+        schedule?: ShipmentSchedule | null;
     }>;
     modes: ShipmentMode[];
     for_carriers?: string;
+    order_status?: OrderLifecycleStatus | null;
 };
 
+export const ORDER_LIFECYCLE_STATUSES = ['requested', 'confirmed', 'modified', 'cancelled', 'in_transit', 'delivered'] as const;
+
+export type OrderLifecycleStatus = typeof ORDER_LIFECYCLE_STATUSES[number];
+
+export const SUMMARY_LOCALES = ['ru', 'en', 'pl'] as const;
+
+export type SummaryLocale = typeof SUMMARY_LOCALES[number];
+
+export const SUMMARY_RENDER_FORMATS = ['text', 'markdown', 'html'] as const;
+
+export type SummaryRenderFormat = typeof SUMMARY_RENDER_FORMATS[number];
+
 export type ShipmentAddress = {
     country: string | null;
     city: string | null;
@@ -36,13 +58,175 @@ export type ShipmentAddress = {
     date_to: string | null;
     time_from: string | null;
     time_to: string | null;
+    normalized?: NormalizedAddress | null;
+};
+
+// Значения по справочнику рядом с исходным текстом; null - не удалось сопоставить
+export type NormalizedAddress = {
+    country_code: string | null;
+    country: string | null;
+    city: string | null;
+    zipcode: string | null;
+    zipcode_valid: boolean | null;
+    timezone: string | null;
 };
 
 export type ShipmentContent = {
     name: string;
     quantity: number;
+    // Код категории груза из словаря; name остается исходным текстом
+    category?: string | null;
+    // Величины в канонических единицах: кг, м³, погонные метры (LDM), см
+    gross_weight_kg?: number | null;
+    volume_m3?: number | null;
+    loading_meters?: number | null;
+    pallet_count?: number | null;
+    package_type?: PackageType | null;
+    dimensions_cm?: CargoDimensions | null;
+};
+
+export const PACKAGE_TYPES = ['euro_pallet', 'pallet', 'box', 'crate', 'bag', 'drum', 'roll', 'ibc', 'bulk', 'container', 'other'] as const;
+
+export type PackageType = typeof PACKAGE_TYPES[number];
+
+// Габариты одного места
+export type CargoDimensions = {
+    length_cm: number;
+    width_cm: number;
+    height_cm: number;
+};
+
+export type CargoTotals = {
+    gross_weight_kg: number | null;
+    volume_m3: number | null;
+    loading_meters: number | null;
+    pallet_count: number | null;
 };
 
 export type ShipmentMode = {
     name: string;
-};
\ No newline at end of file
+    // Код вида перевозки из словаря
+    code?: string | null;
+};
+
+// Дата/время из письма, приведенные к ISO 8601 с часовым поясом страны адреса
+export type ShipmentDateTime = {
+    date: string;
+    time: string | null;
+    timezone: string | null;
+    // "2024-03-15" без времени, "2024-03-15T08:00:00+01:00" с временем и поясом
+    iso: string;
+};
+
+export type ShipmentSchedule = {
+    origin_timezone: string | null;
+    destination_timezone: string | null;
+    shipping_from: ShipmentDateTime | null;
+    shipping_to: ShipmentDateTime | null;
+    arrival_from: ShipmentDateTime | null;
+    arrival_to: ShipmentDateTime | null;
+    loading_from: ShipmentDateTime | null;
+    loading_to: ShipmentDateTime | null;
+    unloading_from: ShipmentDateTime | null;
+    unloading_to: ShipmentDateTime | null;
+};
+
+export type ShipmentWarningCode =
+    | 'range_inverted'
+    | 'arrival_before_shipping'
+    | 'date_in_past'
+    | 'date_too_far'
+    | 'zipcode_invalid'
+    | 'city_country_mismatch'
+    | 'edit_conflict'
+    | 'measurement_unparsed';
+
+// Логическая несогласованность данных; не блокирует сводку, но показывается перед утверждением
+export type ShipmentWarning = {
+    code: ShipmentWarningCode;
+    path: string;
+    message: string;
+    value?: unknown;
+};
+
+export type FieldProvenance = {
+    source_type: 'email' | 'attachment';
+    email_id: string | null;
+    attachment_id: string | null;
+    snippet: string | null;
+    confidence: number;
+};
+
+// Ключ - путь к полю ShipmentRequest, например "shipment_details[0].address_dest.city"
+export type ShipmentProvenance = Record<string, FieldProvenance>;
+
+export type ShipmentValidationError = {
+    path: string;
+    message: string;
+    value?: unknown;
+};
+
+export type ExtractionMethod = 'ai' | 'rules';
+
+// Расхождение между результатом AI и детерминированного извлечения
+export type ExtractionDisagreement = {
+    path: string;
+    ai_value: unknown;
+    rule_value: unknown;
+};
+
+export type ShipmentExtractionResult = {
+    shipment_data: ShipmentRequest;
+    provenance: ShipmentProvenance;
+    validation_errors: ShipmentValidationError[];
+    // Отброшенные необязательные величины; в кэше извлечения до их появления поля нет
+    validation_warnings?: ShipmentWarning[];
+    prompt_version: string | null;
+};
+
+export type ShipmentFieldChange = {
+    path: string;
+    previous: unknown;
+    current: unknown;
+};
+
+export type SummaryAmendmentType = 'amended' | 'cancelled';
+
+// Изменения относительно утвержденной сводки, на которую ссылается amends_summary_id
+export type SummaryAmendment = {
+    type: SummaryAmendmentType;
+    changes: ShipmentFieldChange[];
+    source_email_ids: string[];
+};
+
+export type SummaryAmendmentEvent = {
+    emailGroupId: string;
+    summaryId: string;
+    amends_summary_id: string;
+    type: SummaryAmendmentType;
+    changes: ShipmentFieldChange[];
+    shipment_data: ShipmentRequest;
+};
+
+export type SummaryAnalysisDetails = {
+    provenance?: ShipmentProvenance | null;
+    validation_errors?: ShipmentValidationError[] | null;
+    extraction_method?: ExtractionMethod | null;
+    disagreements?: ExtractionDisagreement[] | null;
+    prompt_version?: string | null;
+    amends_summary_id?: string | null;
+    amendment?: SummaryAmendment | null;
+    warnings?: ShipmentWarning[] | null;
+};
+
+// Ручная правка поля ожидающей сводки; path - путь в формате ShipmentProvenance
+export interface ISummaryEdit {
+    id: number;
+    summaryId: string;
+    emailGroupId: string;
+    path: string;
+    oldValue: unknown;
+    newValue: unknown;
+    userEmail: string | null;
+    createdAt?: Date;
+}
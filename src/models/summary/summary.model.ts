@@ -1,12 +1,29 @@
 import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
-import { ISummary, ShipmentRequest } from './summary.interface';
+import {
+    ISummary,
+    ShipmentRequest,
+    ShipmentProvenance,
+    ShipmentValidationError,
+    ExtractionMethod,
+    ExtractionDisagreement,
+    SummaryAmendment,
+    ShipmentWarning
+} from './summary.interface';
 
-interface SummaryCreationAttributes extends Optional<ISummary, 'createdAt' | 'updatedAt' | 'summary'> {}
+interface SummaryCreationAttributes extends Optional<ISummary, 'createdAt' | 'updatedAt' | 'summary' | 'provenance' | 'validation_errors' | 'extraction_method' | 'disagreements' | 'prompt_version' | 'amends_summary_id' | 'amendment' | 'warnings'> {}
 
 export class SummaryModel extends Model<ISummary, SummaryCreationAttributes> implements ISummary {
     public summaryId!: string;
     public emailGroupId!: string;
     public shipment_data!: ShipmentRequest;
+    public provenance?: ShipmentProvenance | null;
+    public validation_errors?: ShipmentValidationError[] | null;
+    public extraction_method?: ExtractionMethod | null;
+    public disagreements?: ExtractionDisagreement[] | null;
+    public prompt_version?: string | null;
+    public amends_summary_id?: string | null;
+    public amendment?: SummaryAmendment | null;
+    public warnings?: ShipmentWarning[] | null;
     public summary!: string;
     public status!: 'pending' | 'processing' | 'approved' | 'rejected' | 'failed';
     public createdAt!: Date;
@@ -33,6 +50,38 @@ export const initSummaryModel = (sequelize: Sequelize): typeof SummaryModel => {
             type: DataTypes.JSONB,
             allowNull: false,
         },
+        provenance: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        validation_errors: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        extraction_method: {
+            type: DataTypes.STRING(16),
+            allowNull: true,
+        },
+        disagreements: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        prompt_version: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        },
+        amends_summary_id: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        },
+        amendment: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        warnings: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
         summary: {
             type: DataTypes.TEXT,
             allowNull: true,
@@ -0,0 +1,3 @@
+export * from './vocabulary.interface';
+export * from './vocabulary-term.model';
+export * from './unmapped-value.model';
@@ -0,0 +1,73 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IUnmappedValue, VocabularyKind, UnmappedValueStatus } from './vocabulary.interface';
+
+interface UnmappedValueCreationAttributes extends Optional<IUnmappedValue,
+    'id' | 'occurrences' | 'lastEmailGroupId' | 'status' | 'resolvedCode' | 'createdAt' | 'updatedAt'> {}
+
+export class UnmappedValueModel extends Model<IUnmappedValue, UnmappedValueCreationAttributes> implements IUnmappedValue {
+    public id!: number;
+    public kind!: VocabularyKind;
+    public value!: string;
+    public rawValue!: string;
+    public occurrences!: number;
+    public lastEmailGroupId?: string | null;
+    public status!: UnmappedValueStatus;
+    public resolvedCode?: string | null;
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initUnmappedValueModel = (sequelize: Sequelize): typeof UnmappedValueModel => {
+    UnmappedValueModel.init({
+        id: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        kind: {
+            type: DataTypes.STRING(32),
+            allowNull: false,
+        },
+        value: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        rawValue: {
+            type: DataTypes.TEXT,
+            allowNull: false,
+        },
+        occurrences: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 1,
+        },
+        lastEmailGroupId: {
+            type: DataTypes.STRING,
+            allowNull: true,
+        },
+        status: {
+            type: DataTypes.STRING(16),
+            allowNull: false,
+            defaultValue: 'open',
+        },
+        resolvedCode: {
+            type: DataTypes.STRING(64),
+            allowNull: true,
+        }
+    }, {
+        sequelize,
+        tableName: 'unmapped_vocabulary_values',
+        timestamps: true,
+        indexes: [
+            {
+                unique: true,
+                fields: ['kind', 'value']
+            },
+            {
+                fields: ['status']
+            }
+        ]
+    });
+
+    return UnmappedValueModel;
+};
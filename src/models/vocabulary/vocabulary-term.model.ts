@@ -0,0 +1,53 @@
+import { Sequelize, DataTypes, Model, Optional } from 'sequelize';
+import { IVocabularyTerm, VocabularyKind } from './vocabulary.interface';
+
+interface VocabularyTermCreationAttributes extends Optional<IVocabularyTerm, 'id' | 'createdAt' | 'updatedAt'> {}
+
+export class VocabularyTermModel extends Model<IVocabularyTerm, VocabularyTermCreationAttributes> implements IVocabularyTerm {
+    public id!: number;
+    public kind!: VocabularyKind;
+    public code!: string;
+    public label!: string;
+    public synonyms!: string[];
+    public createdAt?: Date;
+    public updatedAt?: Date;
+}
+
+export const initVocabularyTermModel = (sequelize: Sequelize): typeof VocabularyTermModel => {
+    VocabularyTermModel.init({
+        id: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        kind: {
+            type: DataTypes.STRING(32),
+            allowNull: false,
+        },
+        code: {
+            type: DataTypes.STRING(64),
+            allowNull: false,
+        },
+        label: {
+            type: DataTypes.STRING,
+            allowNull: false,
+        },
+        synonyms: {
+            type: DataTypes.JSONB,
+            allowNull: false,
+            defaultValue: [],
+        }
+    }, {
+        sequelize,
+        tableName: 'vocabulary_terms',
+        timestamps: true,
+        indexes: [
+            {
+                unique: true,
+                fields: ['kind', 'code']
+            }
+        ]
+    });
+
+    return VocabularyTermModel;
+};
@@ -0,0 +1,36 @@
+export type VocabularyKind = 'transport_mode' | 'cargo_category';
+
+export const VOCABULARY_KINDS: VocabularyKind[] = ['transport_mode', 'cargo_category'];
+
+export interface IVocabularyTerm {
+    id: number;
+    kind: VocabularyKind;
+    code: string;
+    label: string;
+    synonyms: string[];
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export type UnmappedValueStatus = 'open' | 'resolved' | 'ignored';
+
+// Значение, которое не удалось сопоставить со словарем; ждет разбора администратором
+export interface IUnmappedValue {
+    id: number;
+    kind: VocabularyKind;
+    value: string;
+    rawValue: string;
+    occurrences: number;
+    lastEmailGroupId?: string | null;
+    status: UnmappedValueStatus;
+    resolvedCode?: string | null;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface CreateVocabularyTermInput {
+    kind: VocabularyKind;
+    code: string;
+    label: string;
+    synonyms?: string[];
+}
@@ -1,6 +1,6 @@
 import { Sequelize } from 'sequelize';
 import { initModels, Models } from '@/models';
-import { IEmailAttachment } from '@/models/attachment';
+import { IEmailAttachment, IAttachmentText } from '@/models/attachment';
 import { logger } from '@/utils';
 
 export class AttachmentRepository {
@@ -73,4 +73,51 @@ export class AttachmentRepository {
             throw error;
         }
     }
+
+    async getAttachmentTexts(attachmentIds: string[]): Promise<IAttachmentText[]> {
+        try {
+            if (attachmentIds.length === 0) {
+                return [];
+            }
+
+            const texts = await this.models.AttachmentText.findAll({
+                where: { attachmentId: attachmentIds }
+            });
+
+            return texts.map(text => this.mapToIAttachmentText(text));
+        } catch (error) {
+            logger.error('Error in getAttachmentTexts:', error);
+            throw error;
+        }
+    }
+
+    async saveAttachmentText(attachmentText: IAttachmentText): Promise<IAttachmentText> {
+        try {
+            const [savedText] = await this.models.AttachmentText.upsert({
+                attachmentId: attachmentText.attachmentId,
+                kind: attachmentText.kind,
+                text: attachmentText.text,
+                error: attachmentText.error ?? null
+            }, {
+                conflictFields: ['attachmentId'],
+                returning: true
+            });
+
+            return this.mapToIAttachmentText(savedText);
+        } catch (error) {
+            logger.error('Error in saveAttachmentText:', error);
+            throw error;
+        }
+    }
+
+    private mapToIAttachmentText(attachmentText: any): IAttachmentText {
+        return {
+            attachmentId: attachmentText.attachmentId,
+            kind: attachmentText.kind,
+            text: attachmentText.text || '',
+            error: attachmentText.error,
+            createdAt: attachmentText.createdAt,
+            updatedAt: attachmentText.updatedAt
+        };
+    }
 }
\ No newline at end of file
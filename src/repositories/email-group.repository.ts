@@ -1,6 +1,7 @@
 import { Sequelize, Op } from 'sequelize';
 import { initModels, Models } from '@/models';
-import { IEmailGroup } from '@/models/email-group';
+import { IEmailGroup, OrderStatusTransition } from '@/models/email-group';
+import { OrderLifecycleStatus } from '@/models/summary';
 import { logger } from '@/utils';
 
 export class EmailGroupRepository {
@@ -136,6 +137,24 @@ export class EmailGroupRepository {
         }
     }
 
+    async updateOrderStatus(
+        emailGroupId: string,
+        orderStatus: OrderLifecycleStatus | null,
+        orderStatusHistory: OrderStatusTransition[]
+    ): Promise<boolean> {
+        try {
+            const [affectedRows] = await this.models.EmailGroup.update(
+                { orderStatus, orderStatusHistory },
+                { where: { emailGroupId } }
+            );
+
+            return affectedRows > 0;
+        } catch (error) {
+            logger.error('Error in updateOrderStatus:', error);
+            throw error;
+        }
+    }
+
     async updateEmailStatusForGroup(emailGroupId: string, status: 'not_processed' | 'processing' | 'processed' | 'failed'): Promise<number> {
         try {
             const [affectedCount] = await this.models.Email.update(
@@ -203,6 +222,14 @@ export class EmailGroupRepository {
             summaryId: summary.summaryId,
             emailGroupId: summary.emailGroupId,
             shipment_data: summary.shipment_data,
+            provenance: summary.provenance || null,
+            validation_errors: summary.validation_errors || null,
+            extraction_method: summary.extraction_method || null,
+            disagreements: summary.disagreements || null,
+            prompt_version: summary.prompt_version || null,
+            amends_summary_id: summary.amends_summary_id || null,
+            amendment: summary.amendment || null,
+            warnings: summary.warnings || null,
             summary: summary.summary || '',
             status: summary.status,
             createdAt: summary.createdAt,
@@ -329,6 +356,8 @@ export class EmailGroupRepository {
         const mappedEmailGroup: IEmailGroup = {
             emailGroupId: emailGroup.emailGroupId,
             userId: emailGroup.userId,
+            orderStatus: emailGroup.orderStatus || null,
+            orderStatusHistory: emailGroup.orderStatusHistory || [],
             createdAt: emailGroup.createdAt,
             updatedAt: emailGroup.updatedAt
         };
@@ -0,0 +1,58 @@
+import { Sequelize } from 'sequelize';
+import { initModels, Models } from '@/models';
+import { IExtractionCacheEntry } from '@/models/extraction-cache';
+import { logger } from '@/utils';
+
+export class ExtractionCacheRepository {
+    private models: Models;
+
+    constructor(sequelize: Sequelize) {
+        this.models = initModels(sequelize);
+    }
+
+    async getEntry(cacheKey: string): Promise<IExtractionCacheEntry | null> {
+        try {
+            const entry = await this.models.ExtractionCache.findByPk(cacheKey);
+            return entry ? this.mapToIExtractionCacheEntry(entry) : null;
+        } catch (error) {
+            logger.error('Error in getEntry:', error);
+            throw error;
+        }
+    }
+
+    async saveEntry(entry: Omit<IExtractionCacheEntry, 'hitCount' | 'lastHitAt'>): Promise<void> {
+        try {
+            await this.models.ExtractionCache.upsert({
+                ...entry,
+                hitCount: 0,
+                lastHitAt: null
+            });
+        } catch (error) {
+            logger.error('Error in saveEntry:', error);
+            throw error;
+        }
+    }
+
+    async recordHit(cacheKey: string): Promise<void> {
+        try {
+            await this.models.ExtractionCache.increment('hitCount', { where: { cacheKey } });
+            await this.models.ExtractionCache.update({ lastHitAt: new Date() }, { where: { cacheKey } });
+        } catch (error) {
+            logger.error('Error in recordHit:', error);
+            throw error;
+        }
+    }
+
+    private mapToIExtractionCacheEntry(entry: any): IExtractionCacheEntry {
+        return {
+            cacheKey: entry.cacheKey,
+            promptVersion: entry.promptVersion,
+            model: entry.model,
+            result: entry.result,
+            hitCount: entry.hitCount,
+            lastHitAt: entry.lastHitAt || null,
+            createdAt: entry.createdAt,
+            updatedAt: entry.updatedAt
+        };
+    }
+}
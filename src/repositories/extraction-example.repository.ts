@@ -0,0 +1,111 @@
+import { Sequelize } from 'sequelize';
+import { initModels, Models } from '@/models';
+import {
+    IExtractionExample,
+    ExtractionExampleStatus,
+    UpdateExtractionExampleInput
+} from '@/models/extraction-example';
+import { logger } from '@/utils';
+
+export class ExtractionExampleRepository {
+    private models: Models;
+
+    constructor(sequelize: Sequelize) {
+        this.models = initModels(sequelize);
+    }
+
+    async getExamples(filter: { senderDomain?: string; status?: ExtractionExampleStatus } = {}): Promise<IExtractionExample[]> {
+        try {
+            const where: Record<string, unknown> = {};
+            if (filter.senderDomain) {
+                where.senderDomain = filter.senderDomain;
+            }
+            if (filter.status) {
+                where.status = filter.status;
+            }
+
+            const examples = await this.models.ExtractionExample.findAll({
+                where,
+                order: [['updatedAt', 'DESC']]
+            });
+
+            return examples.map(example => this.mapToIExtractionExample(example));
+        } catch (error) {
+            logger.error('Error in getExamples:', error);
+            throw error;
+        }
+    }
+
+    async getExampleById(id: number): Promise<IExtractionExample | null> {
+        try {
+            const example = await this.models.ExtractionExample.findByPk(id);
+            return example ? this.mapToIExtractionExample(example) : null;
+        } catch (error) {
+            logger.error('Error in getExampleById:', error);
+            throw error;
+        }
+    }
+
+    async getExampleByEmailGroupId(emailGroupId: string): Promise<IExtractionExample | null> {
+        try {
+            const example = await this.models.ExtractionExample.findOne({ where: { emailGroupId } });
+            return example ? this.mapToIExtractionExample(example) : null;
+        } catch (error) {
+            logger.error('Error in getExampleByEmailGroupId:', error);
+            throw error;
+        }
+    }
+
+    async createExample(example: Omit<IExtractionExample, 'id' | 'createdAt' | 'updatedAt'>): Promise<IExtractionExample> {
+        try {
+            const createdExample = await this.models.ExtractionExample.create(example);
+
+            logger.info(`Extraction example created: ${createdExample.id} for ${example.senderDomain}`);
+            return this.mapToIExtractionExample(createdExample);
+        } catch (error) {
+            logger.error('Error in createExample:', error);
+            throw error;
+        }
+    }
+
+    async updateExample(id: number, fields: UpdateExtractionExampleInput & Partial<Pick<IExtractionExample, 'summaryId' | 'source'>>): Promise<IExtractionExample | null> {
+        try {
+            const [affectedCount] = await this.models.ExtractionExample.update(
+                { ...fields, updatedAt: new Date() },
+                { where: { id } }
+            );
+
+            return affectedCount > 0 ? this.getExampleById(id) : null;
+        } catch (error) {
+            logger.error('Error in updateExample:', error);
+            throw error;
+        }
+    }
+
+    async deleteExample(id: number): Promise<boolean> {
+        try {
+            const result = await this.models.ExtractionExample.destroy({ where: { id } });
+            return result > 0;
+        } catch (error) {
+            logger.error('Error in deleteExample:', error);
+            throw error;
+        }
+    }
+
+    private mapToIExtractionExample(example: any): IExtractionExample {
+        return {
+            id: example.id,
+            senderDomain: example.senderDomain,
+            emailGroupId: example.emailGroupId || null,
+            summaryId: example.summaryId || null,
+            excerpt: example.excerpt,
+            shipmentData: example.shipmentData,
+            source: example.source,
+            status: example.status,
+            note: example.note || null,
+            createdBy: example.createdBy || null,
+            createdAt: example.createdAt,
+            updatedAt: example.updatedAt
+        };
+    }
+}
@@ -0,0 +1,53 @@
+import { Sequelize } from 'sequelize';
+import { initModels, Models } from '@/models';
+import { IImapAccount, SaveImapAccountInput } from '@/models/imap-account';
+import { logger } from '@/utils';
+
+export class ImapAccountRepository {
+    private models: Models;
+
+    constructor(sequelize: Sequelize) {
+        this.models = initModels(sequelize);
+    }
+
+    async getAccountByUserId(userId: number): Promise<IImapAccount | null> {
+        try {
+            const account = await this.models.ImapAccount.findOne({ where: { userId } });
+            return account ? this.mapToIImapAccount(account) : null;
+        } catch (error) {
+            logger.error('Error in getAccountByUserId:', error);
+            throw error;
+        }
+    }
+
+    async saveAccount(input: SaveImapAccountInput): Promise<IImapAccount> {
+        try {
+            const existing = await this.models.ImapAccount.findOne({ where: { userId: input.userId } });
+
+            if (existing) {
+                await existing.update(input);
+                return this.mapToIImapAccount(existing);
+            }
+
+            const created = await this.models.ImapAccount.create(input);
+            return this.mapToIImapAccount(created);
+        } catch (error) {
+            logger.error('Error in saveAccount:', error);
+            throw error;
+        }
+    }
+
+    private mapToIImapAccount(account: any): IImapAccount {
+        return {
+            id: account.id,
+            userId: account.userId,
+            host: account.host,
+            port: account.port,
+            security: account.security,
+            username: account.username,
+            encryptedPassword: account.encryptedPassword,
+            createdAt: account.createdAt,
+            updatedAt: account.updatedAt
+        };
+    }
+}
@@ -2,4 +2,13 @@ export * from './user.repository';
 export * from './summary.repository';
 export * from './email-group.repository.ts';
 export * from './email.repository';
-export * from './attachment.repository';
\ No newline at end of file
+export * from './attachment.repository';
+export * from './prompt-template.repository';
+export * from './job.repository';
+export * from './extraction-cache.repository';
+export * from './vocabulary.repository';
+export * from './summary-edit.repository';
+export * from './extraction-example.repository';
+export * from './mailbox-sync-state.repository';
+export * from './monitored-folder.repository';
+export * from './imap-account.repository';
\ No newline at end of file
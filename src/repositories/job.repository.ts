@@ -0,0 +1,313 @@
+import { Sequelize, Op, Transaction, UniqueConstraintError } from 'sequelize';
+import { initModels, Models } from '@/models';
+import { IJob, JobType, JobStatus, JobListFilters } from '@/models/job';
+import { logger } from '@/utils';
+
+export class JobRepository {
+    private models: Models;
+    private sequelize: Sequelize;
+
+    constructor(sequelize: Sequelize) {
+        this.sequelize = sequelize;
+        this.models = initModels(sequelize);
+    }
+
+    async createJob(job: Omit<IJob, 'id' | 'status' | 'attempts'>): Promise<IJob> {
+        try {
+            const createdJob = await this.models.Job.create({
+                ...job,
+                status: 'queued',
+                attempts: 0
+            });
+
+            logger.info(`Job ${createdJob.id} enqueued: ${job.type}`);
+            return this.mapToIJob(createdJob);
+        } catch (error) {
+            // Такую же задачу успели поставить между проверкой и вставкой - возвращаем ее
+            if (error instanceof UniqueConstraintError && job.dedupeKey) {
+                const activeJob = await this.findActiveJobByDedupeKey(job.dedupeKey);
+                if (activeJob) {
+                    logger.info(`Job ${activeJob.id} (${job.dedupeKey}) was enqueued concurrently, reusing it`);
+                    return activeJob;
+                }
+            }
+            logger.error('Error in createJob:', error);
+            throw error;
+        }
+    }
+
+    async getJobById(id: number): Promise<IJob | null> {
+        try {
+            const job = await this.models.Job.findByPk(id);
+            return job ? this.mapToIJob(job) : null;
+        } catch (error) {
+            logger.error('Error in getJobById:', error);
+            throw error;
+        }
+    }
+
+    async getJobs(filters: JobListFilters = {}): Promise<IJob[]> {
+        try {
+            const where: any = {};
+            if (filters.status) where.status = filters.status;
+            if (filters.type) where.type = filters.type;
+
+            const jobs = await this.models.Job.findAll({
+                where,
+                order: [['createdAt', 'DESC']],
+                limit: filters.limit || 100
+            });
+
+            return jobs.map(job => this.mapToIJob(job));
+        } catch (error) {
+            logger.error('Error in getJobs:', error);
+            throw error;
+        }
+    }
+
+    async findActiveJobByDedupeKey(dedupeKey: string): Promise<IJob | null> {
+        try {
+            const job = await this.models.Job.findOne({
+                where: {
+                    dedupeKey,
+                    status: { [Op.in]: ['queued', 'running'] }
+                },
+                order: [['createdAt', 'DESC']]
+            });
+
+            return job ? this.mapToIJob(job) : null;
+        } catch (error) {
+            logger.error('Error in findActiveJobByDedupeKey:', error);
+            throw error;
+        }
+    }
+
+    // Только для ожидающих задач: воркер читает payload при захвате, и изменение running-задачи ни на что бы не повлияло
+    async updateQueuedJobPayload(id: number, payload: Record<string, any>): Promise<IJob | null> {
+        try {
+            const [affectedRows] = await this.models.Job.update(
+                { payload },
+                { where: { id, status: 'queued' } }
+            );
+
+            return affectedRows > 0 ? this.getJobById(id) : null;
+        } catch (error) {
+            logger.error('Error in updateQueuedJobPayload:', error);
+            throw error;
+        }
+    }
+
+    // SKIP LOCKED позволяет нескольким воркерам (в т.ч. в разных процессах) забирать задачи без гонок
+    async claimNextJob(type: JobType, workerId: string): Promise<IJob | null> {
+        const transaction = await this.sequelize.transaction();
+
+        try {
+            const job = await this.models.Job.findOne({
+                where: {
+                    type,
+                    status: 'queued',
+                    runAt: { [Op.lte]: new Date() }
+                },
+                order: [['runAt', 'ASC'], ['id', 'ASC']],
+                lock: Transaction.LOCK.UPDATE,
+                skipLocked: true,
+                transaction
+            });
+
+            if (!job) {
+                await transaction.commit();
+                return null;
+            }
+
+            const now = new Date();
+            await job.update({
+                status: 'running',
+                attempts: job.attempts + 1,
+                lockedAt: now,
+                lockedBy: workerId,
+                startedAt: now
+            }, { transaction });
+
+            await transaction.commit();
+            return this.mapToIJob(job);
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Error in claimNextJob:', error);
+            throw error;
+        }
+    }
+
+    // Обновления завершения применяются только к running-задачам, чтобы не перетереть отмену
+    async completeJob(id: number, result: Record<string, any> | null): Promise<boolean> {
+        try {
+            const [affectedRows] = await this.models.Job.update(
+                {
+                    status: 'completed',
+                    result,
+                    lastError: null,
+                    lockedAt: null,
+                    lockedBy: null,
+                    finishedAt: new Date()
+                },
+                { where: { id, status: 'running' } }
+            );
+
+            return affectedRows > 0;
+        } catch (error) {
+            logger.error('Error in completeJob:', error);
+            throw error;
+        }
+    }
+
+    async retryJob(id: number, lastError: string, runAt: Date): Promise<boolean> {
+        try {
+            const [affectedRows] = await this.models.Job.update(
+                {
+                    status: 'queued',
+                    lastError,
+                    runAt,
+                    lockedAt: null,
+                    lockedBy: null
+                },
+                { where: { id, status: 'running' } }
+            );
+
+            return affectedRows > 0;
+        } catch (error) {
+            logger.error('Error in retryJob:', error);
+            throw error;
+        }
+    }
+
+    async failJob(id: number, lastError: string): Promise<boolean> {
+        try {
+            const [affectedRows] = await this.models.Job.update(
+                {
+                    status: 'failed',
+                    lastError,
+                    lockedAt: null,
+                    lockedBy: null,
+                    finishedAt: new Date()
+                },
+                { where: { id, status: 'running' } }
+            );
+
+            return affectedRows > 0;
+        } catch (error) {
+            logger.error('Error in failJob:', error);
+            throw error;
+        }
+    }
+
+    // statuses - из каких состояний разрешена отмена; задачу могли забрать в работу между проверкой и отменой
+    async cancelJob(id: number, statuses: JobStatus[] = ['queued', 'running']): Promise<IJob | null> {
+        try {
+            const [affectedRows] = await this.models.Job.update(
+                {
+                    status: 'cancelled',
+                    lockedAt: null,
+                    lockedBy: null,
+                    finishedAt: new Date()
+                },
+                { where: { id, status: { [Op.in]: statuses } } }
+            );
+
+            if (affectedRows > 0) {
+                logger.info(`Job ${id} cancelled`);
+            }
+
+            return this.getJobById(id);
+        } catch (error) {
+            logger.error('Error in cancelJob:', error);
+            throw error;
+        }
+    }
+
+    async isJobCancelled(id: number): Promise<boolean> {
+        try {
+            const job = await this.models.Job.findByPk(id, { attributes: ['status'] });
+            return !job || job.status === 'cancelled';
+        } catch (error) {
+            logger.error('Error in isJobCancelled:', error);
+            throw error;
+        }
+    }
+
+    // Задача, которую воркер еще выполняет, не должна выглядеть брошенной
+    async touchJobs(ids: number[], workerId: string): Promise<void> {
+        if (ids.length === 0) {
+            return;
+        }
+
+        try {
+            await this.models.Job.update(
+                { lockedAt: new Date() },
+                { where: { id: { [Op.in]: ids }, status: 'running', lockedBy: workerId } }
+            );
+        } catch (error) {
+            logger.error('Error in touchJobs:', error);
+            throw error;
+        }
+    }
+
+    // Попытка засчитана при захвате задачи, поэтому исчерпавшие maxAttempts не возвращаются в очередь, а падают
+    async requeueStaleJobs(lockedBefore: Date): Promise<{ requeued: number; failed: number }> {
+        const staleWhere = { status: 'running', lockedAt: { [Op.lt]: lockedBefore } };
+        const lastError = 'Worker stopped responding while running the job';
+
+        try {
+            const [failed] = await this.models.Job.update(
+                {
+                    status: 'failed',
+                    lastError,
+                    lockedAt: null,
+                    lockedBy: null,
+                    finishedAt: new Date()
+                },
+                { where: { ...staleWhere, attempts: { [Op.gte]: this.sequelize.col('maxAttempts') } } }
+            );
+
+            const [requeued] = await this.models.Job.update(
+                {
+                    status: 'queued',
+                    lastError,
+                    lockedAt: null,
+                    lockedBy: null,
+                    runAt: new Date()
+                },
+                { where: staleWhere }
+            );
+
+            if (requeued > 0 || failed > 0) {
+                logger.warn(`Stale jobs: ${requeued} requeued, ${failed} failed after their last attempt`);
+            }
+
+            return { requeued, failed };
+        } catch (error) {
+            logger.error('Error in requeueStaleJobs:', error);
+            throw error;
+        }
+    }
+
+    private mapToIJob(job: any): IJob {
+        return {
+            id: job.id,
+            type: job.type,
+            payload: job.payload || {},
+            status: job.status,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            runAt: job.runAt,
+            lockedAt: job.lockedAt || null,
+            lockedBy: job.lockedBy || null,
+            startedAt: job.startedAt || null,
+            finishedAt: job.finishedAt || null,
+            lastError: job.lastError || null,
+            result: job.result || null,
+            dedupeKey: job.dedupeKey || null,
+            createdBy: job.createdBy || null,
+            createdAt: job.createdAt,
+            updatedAt: job.updatedAt
+        };
+    }
+}
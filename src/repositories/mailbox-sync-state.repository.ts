@@ -0,0 +1,81 @@
+import { Sequelize } from 'sequelize';
+import { initModels, Models } from '@/models';
+import { IMailboxSyncState, SaveMailboxSyncStateInput } from '@/models/mailbox-sync-state';
+import { logger } from '@/utils';
+
+export class MailboxSyncStateRepository {
+    private models: Models;
+
+    constructor(sequelize: Sequelize) {
+        this.models = initModels(sequelize);
+    }
+
+    async getState(userId: number, mailbox: string): Promise<IMailboxSyncState | null> {
+        try {
+            const state = await this.models.MailboxSyncState.findOne({ where: { userId, mailbox } });
+            return state ? this.mapToIMailboxSyncState(state) : null;
+        } catch (error) {
+            logger.error('Error in getState:', error);
+            throw error;
+        }
+    }
+
+    async getStatesByUserId(userId: number): Promise<IMailboxSyncState[]> {
+        try {
+            const states = await this.models.MailboxSyncState.findAll({
+                where: { userId },
+                order: [['mailbox', 'ASC']]
+            });
+            return states.map(state => this.mapToIMailboxSyncState(state));
+        } catch (error) {
+            logger.error('Error in getStatesByUserId:', error);
+            throw error;
+        }
+    }
+
+    async saveState(input: SaveMailboxSyncStateInput): Promise<IMailboxSyncState> {
+        try {
+            const existing = await this.models.MailboxSyncState.findOne({
+                where: { userId: input.userId, mailbox: input.mailbox }
+            });
+
+            if (existing) {
+                await existing.update({
+                    uidValidity: input.uidValidity,
+                    lastUid: input.lastUid,
+                    ...(input.lastFullSyncAt !== undefined ? { lastFullSyncAt: input.lastFullSyncAt } : {})
+                });
+                return this.mapToIMailboxSyncState(existing);
+            }
+
+            const created = await this.models.MailboxSyncState.create(input);
+            return this.mapToIMailboxSyncState(created);
+        } catch (error) {
+            logger.error('Error in saveState:', error);
+            throw error;
+        }
+    }
+
+    async deleteState(userId: number, mailbox: string): Promise<boolean> {
+        try {
+            const deleted = await this.models.MailboxSyncState.destroy({ where: { userId, mailbox } });
+            return deleted > 0;
+        } catch (error) {
+            logger.error('Error in deleteState:', error);
+            throw error;
+        }
+    }
+
+    private mapToIMailboxSyncState(state: any): IMailboxSyncState {
+        return {
+            id: state.id,
+            userId: state.userId,
+            mailbox: state.mailbox,
+            uidValidity: Number(state.uidValidity),
+            lastUid: Number(state.lastUid),
+            lastFullSyncAt: state.lastFullSyncAt || null,
+            createdAt: state.createdAt,
+            updatedAt: state.updatedAt
+        };
+    }
+}
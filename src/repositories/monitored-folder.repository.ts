@@ -0,0 +1,106 @@
+import { Sequelize } from 'sequelize';
+import { initModels, Models } from '@/models';
+import { IMonitoredFolder, CreateMonitoredFolderInput } from '@/models/monitored-folder';
+import { logger } from '@/utils';
+
+export class MonitoredFolderRepository {
+    private models: Models;
+
+    constructor(sequelize: Sequelize) {
+        this.models = initModels(sequelize);
+    }
+
+    async getFoldersByUserId(userId: number): Promise<IMonitoredFolder[]> {
+        try {
+            const folders = await this.models.MonitoredFolder.findAll({
+                where: { userId },
+                order: [['mailbox', 'ASC']]
+            });
+            return folders.map(folder => this.mapToIMonitoredFolder(folder));
+        } catch (error) {
+            logger.error('Error in getFoldersByUserId:', error);
+            throw error;
+        }
+    }
+
+    async getEnabledFoldersByUserId(userId: number): Promise<IMonitoredFolder[]> {
+        try {
+            const folders = await this.models.MonitoredFolder.findAll({
+                where: { userId, enabled: true },
+                order: [['mailbox', 'ASC']]
+            });
+            return folders.map(folder => this.mapToIMonitoredFolder(folder));
+        } catch (error) {
+            logger.error('Error in getEnabledFoldersByUserId:', error);
+            throw error;
+        }
+    }
+
+    async getFolderById(id: number): Promise<IMonitoredFolder | null> {
+        try {
+            const folder = await this.models.MonitoredFolder.findByPk(id);
+            return folder ? this.mapToIMonitoredFolder(folder) : null;
+        } catch (error) {
+            logger.error('Error in getFolderById:', error);
+            throw error;
+        }
+    }
+
+    async getFolder(userId: number, mailbox: string): Promise<IMonitoredFolder | null> {
+        try {
+            const folder = await this.models.MonitoredFolder.findOne({ where: { userId, mailbox } });
+            return folder ? this.mapToIMonitoredFolder(folder) : null;
+        } catch (error) {
+            logger.error('Error in getFolder:', error);
+            throw error;
+        }
+    }
+
+    async createFolder(input: CreateMonitoredFolderInput): Promise<IMonitoredFolder> {
+        try {
+            const folder = await this.models.MonitoredFolder.create(input);
+            return this.mapToIMonitoredFolder(folder);
+        } catch (error) {
+            logger.error('Error in createFolder:', error);
+            throw error;
+        }
+    }
+
+    async updateFolder(id: number, updates: Partial<Pick<IMonitoredFolder, 'enabled' | 'label'>>): Promise<IMonitoredFolder | null> {
+        try {
+            const folder = await this.models.MonitoredFolder.findByPk(id);
+            if (!folder) {
+                return null;
+            }
+
+            await folder.update(updates);
+            return this.mapToIMonitoredFolder(folder);
+        } catch (error) {
+            logger.error('Error in updateFolder:', error);
+            throw error;
+        }
+    }
+
+    async deleteFolder(id: number): Promise<boolean> {
+        try {
+            const deleted = await this.models.MonitoredFolder.destroy({ where: { id } });
+            return deleted > 0;
+        } catch (error) {
+            logger.error('Error in deleteFolder:', error);
+            throw error;
+        }
+    }
+
+    private mapToIMonitoredFolder(folder: any): IMonitoredFolder {
+        return {
+            id: folder.id,
+            userId: folder.userId,
+            mailbox: folder.mailbox,
+            kind: folder.kind,
+            label: folder.label || null,
+            enabled: folder.enabled,
+            createdAt: folder.createdAt,
+            updatedAt: folder.updatedAt
+        };
+    }
+}
@@ -0,0 +1,115 @@
+import { Sequelize } from 'sequelize';
+import { initModels, Models } from '@/models';
+import { IPromptTemplate } from '@/models/prompt-template';
+import { logger } from '@/utils';
+
+export class PromptTemplateRepository {
+    private models: Models;
+    private sequelize: Sequelize;
+
+    constructor(sequelize: Sequelize) {
+        this.sequelize = sequelize;
+        this.models = initModels(sequelize);
+    }
+
+    async getTemplates(name?: string): Promise<IPromptTemplate[]> {
+        try {
+            const templates = await this.models.PromptTemplate.findAll({
+                where: name ? { name } : {},
+                order: [['name', 'ASC'], ['version', 'DESC']]
+            });
+
+            return templates.map(template => this.mapToIPromptTemplate(template));
+        } catch (error) {
+            logger.error('Error in getTemplates:', error);
+            throw error;
+        }
+    }
+
+    async getTemplateById(id: string): Promise<IPromptTemplate | null> {
+        try {
+            const template = await this.models.PromptTemplate.findByPk(id);
+            return template ? this.mapToIPromptTemplate(template) : null;
+        } catch (error) {
+            logger.error('Error in getTemplateById:', error);
+            throw error;
+        }
+    }
+
+    async getActiveTemplate(name: string): Promise<IPromptTemplate | null> {
+        try {
+            const template = await this.models.PromptTemplate.findOne({
+                where: { name, isActive: true },
+                order: [['version', 'DESC']]
+            });
+
+            return template ? this.mapToIPromptTemplate(template) : null;
+        } catch (error) {
+            logger.error('Error in getActiveTemplate:', error);
+            throw error;
+        }
+    }
+
+    async getLatestVersion(name: string): Promise<number> {
+        try {
+            const latestVersion = await this.models.PromptTemplate.max('version', { where: { name } });
+            return typeof latestVersion === 'number' ? latestVersion : 0;
+        } catch (error) {
+            logger.error('Error in getLatestVersion:', error);
+            throw error;
+        }
+    }
+
+    async createTemplate(template: IPromptTemplate): Promise<IPromptTemplate> {
+        try {
+            const createdTemplate = await this.models.PromptTemplate.create(template);
+
+            logger.info(`Prompt template created: ${template.id}`);
+            return this.mapToIPromptTemplate(createdTemplate);
+        } catch (error) {
+            logger.error('Error in createTemplate:', error);
+            throw error;
+        }
+    }
+
+    async activateTemplate(id: string): Promise<IPromptTemplate | null> {
+        const transaction = await this.sequelize.transaction();
+
+        try {
+            const template = await this.models.PromptTemplate.findByPk(id, { transaction });
+            if (!template) {
+                await transaction.rollback();
+                return null;
+            }
+
+            await this.models.PromptTemplate.update(
+                { isActive: false },
+                { where: { name: template.name, isActive: true }, transaction }
+            );
+            await template.update({ isActive: true }, { transaction });
+
+            await transaction.commit();
+            logger.info(`Prompt template activated: ${id}`);
+            return this.mapToIPromptTemplate(template);
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Error in activateTemplate:', error);
+            throw error;
+        }
+    }
+
+    private mapToIPromptTemplate(template: any): IPromptTemplate {
+        return {
+            id: template.id,
+            name: template.name,
+            version: template.version,
+            template: template.template,
+            schema: template.schema,
+            description: template.description || null,
+            isActive: template.isActive,
+            createdBy: template.createdBy || null,
+            createdAt: template.createdAt,
+            updatedAt: template.updatedAt
+        };
+    }
+}
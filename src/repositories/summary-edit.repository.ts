@@ -0,0 +1,86 @@
+import { Sequelize } from 'sequelize';
+import { initModels, Models } from '@/models';
+import { ISummaryEdit, ShipmentRequest, SummaryAnalysisDetails } from '@/models/summary';
+import { logger } from '@/utils';
+
+export class SummaryEditRepository {
+    private models: Models;
+    private sequelize: Sequelize;
+
+    constructor(sequelize: Sequelize) {
+        this.sequelize = sequelize;
+        this.models = initModels(sequelize);
+    }
+
+    // Данные сводки и история правок сохраняются вместе, иначе история могла бы разойтись с данными
+    async saveEditedSummary(
+        summaryId: string,
+        summaryUpdate: { shipmentData: ShipmentRequest; summaryText: string; details: SummaryAnalysisDetails },
+        edits: Array<Omit<ISummaryEdit, 'id' | 'createdAt'>>
+    ): Promise<ISummaryEdit[]> {
+        const transaction = await this.sequelize.transaction();
+
+        try {
+            await this.models.Summary.update(
+                {
+                    shipment_data: summaryUpdate.shipmentData,
+                    summary: summaryUpdate.summaryText,
+                    status: 'pending',
+                    ...summaryUpdate.details,
+                    updatedAt: new Date()
+                },
+                { where: { summaryId }, transaction }
+            );
+            const createdEdits = await this.models.SummaryEdit.bulkCreate(edits, { transaction });
+
+            await transaction.commit();
+            logger.info(`Summary ${summaryId} updated with ${createdEdits.length} recorded edits`);
+            return createdEdits.map(edit => this.mapToISummaryEdit(edit));
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Error in saveEditedSummary:', error);
+            throw error;
+        }
+    }
+
+    async getEditsByEmailGroupId(emailGroupId: string): Promise<ISummaryEdit[]> {
+        try {
+            const edits = await this.models.SummaryEdit.findAll({
+                where: { emailGroupId },
+                order: [['createdAt', 'DESC'], ['id', 'DESC']]
+            });
+
+            return edits.map(edit => this.mapToISummaryEdit(edit));
+        } catch (error) {
+            logger.error('Error in getEditsByEmailGroupId:', error);
+            throw error;
+        }
+    }
+
+    async getEditsBySummaryId(summaryId: string): Promise<ISummaryEdit[]> {
+        try {
+            const edits = await this.models.SummaryEdit.findAll({
+                where: { summaryId },
+                order: [['createdAt', 'DESC'], ['id', 'DESC']]
+            });
+
+            return edits.map(edit => this.mapToISummaryEdit(edit));
+        } catch (error) {
+            logger.error('Error in getEditsBySummaryId:', error);
+            throw error;
+        }
+    }
+
+    private mapToISummaryEdit(edit: any): ISummaryEdit {
+        return {
+            id: edit.id,
+            summaryId: edit.summaryId,
+            emailGroupId: edit.emailGroupId,
+            path: edit.path,
+            oldValue: edit.oldValue ?? null,
+            newValue: edit.newValue ?? null,
+            userEmail: edit.userEmail || null,
+            createdAt: edit.createdAt
+        };
+    }
+}
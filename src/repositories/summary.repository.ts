@@ -1,6 +1,6 @@
 import { Sequelize, Op } from 'sequelize';
 import { initModels, Models } from '@/models';
-import { ISummary } from '@/models/summary';
+import { ISummary, SummaryAnalysisDetails } from '@/models/summary';
 import { logger } from '@/utils';
 
 export class SummaryRepository {
@@ -37,6 +37,14 @@ export class SummaryRepository {
                 summaryId: summary.summaryId,
                 emailGroupId: summary.emailGroupId,
                 shipment_data: summary.shipment_data,
+                provenance: summary.provenance ?? null,
+                validation_errors: summary.validation_errors ?? null,
+                extraction_method: summary.extraction_method ?? null,
+                disagreements: summary.disagreements ?? null,
+                prompt_version: summary.prompt_version ?? null,
+                amends_summary_id: summary.amends_summary_id ?? null,
+                amendment: summary.amendment ?? null,
+                warnings: summary.warnings ?? null,
                 summary: summary.summary,
                 status: summary.status,
                 createdAt: summary.createdAt,
@@ -70,13 +78,20 @@ export class SummaryRepository {
         }
     }
 
-    async updateSummaryAnalysis(summaryId: string, shipmentData: any, summaryText: string, status: 'pending' | 'approved' | 'rejected' | 'failed' = 'pending'): Promise<boolean> {
+    async updateSummaryAnalysis(
+        summaryId: string,
+        shipmentData: any,
+        summaryText: string,
+        status: 'pending' | 'approved' | 'rejected' | 'failed' = 'pending',
+        details: SummaryAnalysisDetails = {}
+    ): Promise<boolean> {
         try {
             const [affectedCount] = await this.models.Summary.update(
                 {
                     shipment_data: shipmentData,
                     summary: summaryText,
                     status: status,
+                    ...details,
                     updatedAt: new Date()
                 },
                 { where: { summaryId } }
@@ -319,6 +334,14 @@ export class SummaryRepository {
             summaryId: summary.summaryId,
             emailGroupId: summary.emailGroupId,
             shipment_data: summary.shipment_data,
+            provenance: summary.provenance || null,
+            validation_errors: summary.validation_errors || null,
+            extraction_method: summary.extraction_method || null,
+            disagreements: summary.disagreements || null,
+            prompt_version: summary.prompt_version || null,
+            amends_summary_id: summary.amends_summary_id || null,
+            amendment: summary.amendment || null,
+            warnings: summary.warnings || null,
             summary: summary.summary || '',
             status: summary.status,
             createdAt: summary.createdAt,
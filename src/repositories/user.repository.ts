@@ -96,6 +96,7 @@ export class UserRepository {
             email: user.email,
             accessToken: user.accessToken,
             refreshToken: user.refreshToken,
+            provider: user.provider || null,
             lastSync: user.lastSync,
             isActive: user.isActive,
             createdAt: user.createdAt,
@@ -0,0 +1,191 @@
+import { Sequelize, UniqueConstraintError } from 'sequelize';
+import { initModels, Models } from '@/models';
+import {
+    IVocabularyTerm,
+    IUnmappedValue,
+    VocabularyKind,
+    UnmappedValueStatus,
+    CreateVocabularyTermInput
+} from '@/models/vocabulary';
+import { logger } from '@/utils';
+
+export class VocabularyRepository {
+    private models: Models;
+    private sequelize: Sequelize;
+
+    constructor(sequelize: Sequelize) {
+        this.sequelize = sequelize;
+        this.models = initModels(sequelize);
+    }
+
+    async getTerms(kind?: VocabularyKind): Promise<IVocabularyTerm[]> {
+        try {
+            const terms = await this.models.VocabularyTerm.findAll({
+                where: kind ? { kind } : {},
+                order: [['kind', 'ASC'], ['code', 'ASC']]
+            });
+
+            return terms.map(term => this.mapToIVocabularyTerm(term));
+        } catch (error) {
+            logger.error('Error in getTerms:', error);
+            throw error;
+        }
+    }
+
+    async getTermById(id: number): Promise<IVocabularyTerm | null> {
+        try {
+            const term = await this.models.VocabularyTerm.findByPk(id);
+            return term ? this.mapToIVocabularyTerm(term) : null;
+        } catch (error) {
+            logger.error('Error in getTermById:', error);
+            throw error;
+        }
+    }
+
+    async getTermByCode(kind: VocabularyKind, code: string): Promise<IVocabularyTerm | null> {
+        try {
+            const term = await this.models.VocabularyTerm.findOne({ where: { kind, code } });
+            return term ? this.mapToIVocabularyTerm(term) : null;
+        } catch (error) {
+            logger.error('Error in getTermByCode:', error);
+            throw error;
+        }
+    }
+
+    async countTerms(): Promise<number> {
+        try {
+            return await this.models.VocabularyTerm.count();
+        } catch (error) {
+            logger.error('Error in countTerms:', error);
+            throw error;
+        }
+    }
+
+    async createTerms(terms: CreateVocabularyTermInput[]): Promise<IVocabularyTerm[]> {
+        const transaction = await this.sequelize.transaction();
+
+        try {
+            const createdTerms = await this.models.VocabularyTerm.bulkCreate(
+                terms.map(term => ({ ...term, synonyms: term.synonyms || [] })),
+                { transaction }
+            );
+
+            await transaction.commit();
+            logger.info(`Vocabulary terms created: ${createdTerms.length}`);
+            return createdTerms.map(term => this.mapToIVocabularyTerm(term));
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Error in createTerms:', error);
+            throw error;
+        }
+    }
+
+    async updateSynonyms(id: number, synonyms: string[]): Promise<IVocabularyTerm | null> {
+        try {
+            const term = await this.models.VocabularyTerm.findByPk(id);
+            if (!term) {
+                return null;
+            }
+
+            await term.update({ synonyms });
+            return this.mapToIVocabularyTerm(term);
+        } catch (error) {
+            logger.error('Error in updateSynonyms:', error);
+            throw error;
+        }
+    }
+
+    async recordUnmappedValue(kind: VocabularyKind, value: string, rawValue: string, emailGroupId: string | null): Promise<void> {
+        try {
+            const existing = await this.models.UnmappedValue.findOne({ where: { kind, value } });
+            if (existing) {
+                await existing.update({
+                    occurrences: existing.occurrences + 1,
+                    rawValue,
+                    lastEmailGroupId: emailGroupId
+                });
+                return;
+            }
+
+            await this.models.UnmappedValue.create({ kind, value, rawValue, lastEmailGroupId: emailGroupId });
+            logger.info(`New unmapped ${kind} value: "${rawValue}"`);
+        } catch (error) {
+            // Параллельный анализ мог уже создать запись — это не ошибка
+            if (error instanceof UniqueConstraintError) {
+                return;
+            }
+            logger.error('Error in recordUnmappedValue:', error);
+            throw error;
+        }
+    }
+
+    async getUnmappedValues(filters: { kind?: VocabularyKind; status?: UnmappedValueStatus } = {}): Promise<IUnmappedValue[]> {
+        try {
+            const where: any = {};
+            if (filters.kind) where.kind = filters.kind;
+            if (filters.status) where.status = filters.status;
+
+            const values = await this.models.UnmappedValue.findAll({
+                where,
+                order: [['occurrences', 'DESC'], ['updatedAt', 'DESC']]
+            });
+
+            return values.map(value => this.mapToIUnmappedValue(value));
+        } catch (error) {
+            logger.error('Error in getUnmappedValues:', error);
+            throw error;
+        }
+    }
+
+    async getUnmappedValueById(id: number): Promise<IUnmappedValue | null> {
+        try {
+            const value = await this.models.UnmappedValue.findByPk(id);
+            return value ? this.mapToIUnmappedValue(value) : null;
+        } catch (error) {
+            logger.error('Error in getUnmappedValueById:', error);
+            throw error;
+        }
+    }
+
+    async updateUnmappedStatus(id: number, status: UnmappedValueStatus, resolvedCode: string | null = null): Promise<IUnmappedValue | null> {
+        try {
+            const value = await this.models.UnmappedValue.findByPk(id);
+            if (!value) {
+                return null;
+            }
+
+            await value.update({ status, resolvedCode });
+            return this.mapToIUnmappedValue(value);
+        } catch (error) {
+            logger.error('Error in updateUnmappedStatus:', error);
+            throw error;
+        }
+    }
+
+    private mapToIVocabularyTerm(term: any): IVocabularyTerm {
+        return {
+            id: term.id,
+            kind: term.kind,
+            code: term.code,
+            label: term.label,
+            synonyms: term.synonyms || [],
+            createdAt: term.createdAt,
+            updatedAt: term.updatedAt
+        };
+    }
+
+    private mapToIUnmappedValue(value: any): IUnmappedValue {
+        return {
+            id: value.id,
+            kind: value.kind,
+            value: value.value,
+            rawValue: value.rawValue,
+            occurrences: value.occurrences,
+            lastEmailGroupId: value.lastEmailGroupId || null,
+            status: value.status,
+            resolvedCode: value.resolvedCode || null,
+            createdAt: value.createdAt,
+            updatedAt: value.updatedAt
+        };
+    }
+}
@@ -0,0 +1,73 @@
+import { IEmail } from '@/models/email';
+
+const USAGE = `Usage: npm run check:cancellation
+
+  Runs SummaryAmendmentService.isCancellation against sample threads and checks
+  that replies repeating a cancellation subject are not counted as a new
+  cancellation. Needs no database or network access.`;
+
+let failures = 0;
+const check = (name: string, passed: boolean, details?: unknown): void => {
+    if (!passed) failures++;
+    console.log(`${passed ? 'PASS' : 'FAIL'}  ${name}${!passed && details !== undefined ? ` -> ${JSON.stringify(details)}` : ''}`);
+};
+
+const email = (id: string, subject: string, text: string, date: string): IEmail => ({
+    id,
+    from: 'client@example.test',
+    to: 'ops@forwarder.test',
+    subject,
+    date: new Date(date),
+    emailGroupId: '2000001',
+    status: 'not_processed',
+    text
+});
+
+const main = async (): Promise<void> => {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+        console.log(USAGE);
+        return;
+    }
+
+    await import('../preload');
+
+    const { SummaryAmendmentService } = await import('@/services/summary/summary-amendment.service');
+    const { OrderLifecycleService } = await import('@/services/email-group/order-lifecycle.service');
+    const service = new SummaryAmendmentService();
+
+    // Переписка началась с отмены другого заказа, после нее клиент прислал новую заявку в той же ветке
+    const thread = [
+        email('e1', 'Отмена заказа 123 / новая заявка', 'Заказ 123 отменяем, новую заявку пришлем отдельно.', '2025-02-01T09:00:00Z'),
+        email('e2', 'Re: Отмена заказа 123 / новая заявка', 'Минск -> Варшава, 12 паллет, загрузка 05.02.', '2025-02-02T09:00:00Z')
+    ];
+    const threadSubject = OrderLifecycleService.threadSubject(thread);
+
+    check('thread subject is taken from the first email', threadSubject === 'Отмена заказа 123 / новая заявка', threadSubject);
+    check('reply prefixes are stripped',
+        ['Re: Тема', 'RE: Fwd: Тема', 'Ответ: Тема', 'Отв: Тема', 'RE[2]: Тема', 'Fw: Тема'].every(subject => OrderLifecycleService.stripReplyPrefix(subject) === 'Тема'));
+    check('"Re:" reply repeating the thread subject is not a cancellation',
+        !service.isCancellation([thread[1]], threadSubject));
+    check('"Ответ:" and "Fwd:" replies repeating the thread subject are not a cancellation',
+        !service.isCancellation([
+            email('e3', 'Ответ: Отмена заказа 123 / новая заявка', 'Спасибо, приняли.', '2025-02-03T09:00:00Z'),
+            email('e4', 'Fwd: RE: Отмена заказа 123 / новая заявка', 'Пересылаю для планирования.', '2025-02-03T10:00:00Z')
+        ], threadSubject));
+    check('reply with a changed subject is a cancellation',
+        service.isCancellation([email('e5', 'Re: Отмена заявки Минск -> Варшава', 'См. тему.', '2025-02-04T09:00:00Z')], threadSubject));
+    check('cancellation in the new text of a reply is a cancellation',
+        service.isCancellation([email('e6', 'Re: Отмена заказа 123 / новая заявка', 'Заявку Минск -> Варшава отменяем.', '2025-02-04T10:00:00Z')], threadSubject));
+    check('cancellation quoted below the reply is ignored',
+        !service.isCancellation([email('e7', 'Re: Отмена заказа 123 / новая заявка', 'Машина будет 05.02.\n\nОт: client@example.test\nЗаказ 123 отменяем.', '2025-02-04T11:00:00Z')], threadSubject));
+
+    if (failures > 0) {
+        console.error(`${failures} check(s) failed`);
+        process.exit(1);
+    }
+    console.log('All cancellation checks passed');
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(1);
+});
@@ -0,0 +1,123 @@
+import '../preload';
+import { GmailApiMailSource } from '@/services/email/gmail-api-mail-source';
+import { GmailApiStandIn } from './stand-ins/gmail-api-stand-in';
+import { InMemorySyncStore } from './stand-ins/in-memory-sync-store';
+
+const USAGE = `Usage: npm run check:gmail-api
+
+  Starts a local Gmail REST API stand-in and runs GmailApiMailSource against it:
+  labels, bootstrap and history-based sync, expired history. Needs no database or network access.`;
+
+const EMAIL = 'ops@gmail.test';
+const ACCESS_TOKEN = 'access-token-1';
+
+// Полный просмотр папки ищет по теме; поиск писем группы ("#1000001") при синхронизации идет отдельно
+const isLabelListing = (request: string): boolean => request.startsWith('/messages?q=subject:Shipment');
+
+let failures = 0;
+const check = (name: string, passed: boolean, details?: unknown): void => {
+    if (!passed) failures++;
+    console.log(`${passed ? 'PASS' : 'FAIL'}  ${name}${!passed && details !== undefined ? ` -> ${JSON.stringify(details)}` : ''}`);
+};
+
+const errorOf = async (action: () => Promise<unknown>): Promise<string> => {
+    try {
+        await action();
+        return '';
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+};
+
+const main = async (): Promise<void> => {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+        console.log(USAGE);
+        return;
+    }
+
+    const standIn = new GmailApiStandIn({ email: EMAIL, accessToken: ACCESS_TOKEN }, ['Cargo']);
+    standIn.addMessage(['INBOX'], { subject: 'Shipment #1000001 booking', body: 'Loading 20.01, Warszawa -> Berlin' });
+    standIn.addMessage(['INBOX'], { subject: 'Re: Shipment #1000001 rate', body: 'Rate confirmed' });
+    standIn.addMessage(['INBOX'], { subject: 'Weekly newsletter', body: 'Not a shipment' });
+    standIn.addMessage(['Cargo'], { subject: 'Shipment #1000002 documents', body: 'CMR attached' });
+    const baseUrl = await standIn.start();
+
+    // Страница из одного письма - чтобы пройти по nextPageToken
+    const config = { enabled: true, baseUrl, requestTimeout: 5000, pageSize: 1 };
+    const mailSource = new GmailApiMailSource({ email: EMAIL, accessToken: ACCESS_TOKEN }, config);
+
+    try {
+        const invalidToken = await errorOf(() => new GmailApiMailSource({ email: EMAIL, accessToken: 'expired' }, config).connect());
+        check('rejected token is reported as invalid', invalidToken.includes('OAuth2 token invalid'), invalidToken);
+
+        await mailSource.connect();
+        check('valid token connects', mailSource.isActive());
+
+        const mailboxes = await mailSource.listMailboxes();
+        const paths = mailboxes.map(mailbox => mailbox.path);
+        check('labels are listed as mailboxes', paths.includes('INBOX') && paths.includes('Cargo') && !paths.includes('UNREAD') && !paths.includes('CATEGORY_UPDATES'), paths);
+        check('system labels carry special use', mailboxes.find(mailbox => mailbox.path === 'SENT')?.specialUse[0] === 'sent', mailboxes);
+
+        const cargoStatus = await mailSource.getMailboxStatus('Cargo');
+        check('label status counts its messages', cargoStatus.messageCount === 1, cargoStatus);
+        const sentStatus = await errorOf(() => mailSource.getMailboxStatus('[Gmail]/Sent Mail'));
+        check('IMAP path of a system folder resolves to its label', sentStatus === '', sentStatus);
+
+        const store = new InMemorySyncStore();
+        store.folders.push({ id: 1, userId: 1, mailbox: 'Cargo', kind: 'gmail_label', label: 'Cargo', enabled: true });
+        const syncService = store.createIncrementalSyncService();
+
+        const first = await syncService.syncUserMailboxes(mailSource, 1);
+        check('first sync bootstraps INBOX and the label',
+            first.mailboxes.every(({ mode }) => mode === 'bootstrap') && first.mailboxes.length === 2, first.mailboxes);
+        check('first sync groups shipment emails across pages', store.groups.size === 2 && store.emails.size === 3,
+            { groups: [...store.groups.keys()], emails: store.emails.size });
+
+        standIn.requests.length = 0;
+        standIn.addMessage(['INBOX'], { subject: 'Shipment #1000003 new order', body: 'New request' });
+        const newsletterId = standIn.addMessage(['INBOX'], { subject: 'Weekly newsletter', body: 'Still not a shipment' });
+        const second = await syncService.syncUserMailboxes(mailSource, 1);
+        check('second sync reads history instead of listing the label',
+            second.mailboxes.every(({ mode }) => mode === 'incremental') && standIn.requests.includes('/history') && !standIn.requests.some(isLabelListing),
+            { mailboxes: second.mailboxes, requests: standIn.requests });
+        check('second sync downloads only the new shipment email', second.newEmails === 1 && store.groups.size === 3, second);
+        check('unrelated email is checked by subject only',
+            standIn.requests.includes(`/messages/${newsletterId}?format=metadata`) && !standIn.requests.includes(`/messages/${newsletterId}?format=raw`),
+            standIn.requests);
+
+        // Письмо пришло мимо INBOX, ярлык поставлен позже - для ярлыка оно все равно новое
+        const archivedId = standIn.addMessage(['CATEGORY_UPDATES'], { subject: 'Shipment #1000004 archived', body: 'Filed later' });
+        standIn.addLabel(archivedId, 'Cargo');
+        const third = await syncService.syncUserMailboxes(mailSource, 1);
+        check('label added after delivery brings the email in', third.newEmails === 1 && store.groups.has('1000004'), third);
+
+        const fourth = await syncService.syncUserMailboxes(mailSource, 1);
+        check('unchanged mailboxes are up to date', fourth.mailboxes.every(({ mode }) => mode === 'up_to_date'), fourth.mailboxes);
+
+        standIn.expireHistory();
+        standIn.addMessage(['INBOX'], { subject: 'Shipment #1000005 after a week offline', body: 'Late request' });
+        standIn.requests.length = 0;
+        const fifth = await syncService.syncUserMailboxes(mailSource, 1);
+        check('expired history falls back to listing the label without duplicates',
+            standIn.requests.some(isLabelListing) && fifth.newEmails === 1 && store.emails.size === 6,
+            { result: fifth, emails: store.emails.size });
+
+        const groupEmails = await mailSource.fetchEmailsByEmailGroupId('1000001');
+        check('email group search finds every email of the group', groupEmails.length === 2, groupEmails.map(email => email.subject));
+    } finally {
+        await mailSource.safeDisconnect();
+        await standIn.stop();
+    }
+
+    if (failures > 0) {
+        console.error(`${failures} check(s) failed`);
+        process.exit(1);
+    }
+    console.log('All Gmail API checks passed');
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(1);
+});
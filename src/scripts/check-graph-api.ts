@@ -0,0 +1,102 @@
+import '../preload';
+import { GraphMailSource } from '@/services/email/graph-mail-source';
+import { GraphApiStandIn } from './stand-ins/graph-api-stand-in';
+import { InMemorySyncStore } from './stand-ins/in-memory-sync-store';
+
+const USAGE = `Usage: npm run check:graph-api
+
+  Starts a local Microsoft Graph stand-in that grants only Mail.Read and runs
+  GraphMailSource against it: connect, folders, bootstrap and incremental sync,
+  email group search. Needs no database or network access.`;
+
+const EMAIL = 'ops@outlook.test';
+const ACCESS_TOKEN = 'access-token-1';
+
+let failures = 0;
+const check = (name: string, passed: boolean, details?: unknown): void => {
+    if (!passed) failures++;
+    console.log(`${passed ? 'PASS' : 'FAIL'}  ${name}${!passed && details !== undefined ? ` -> ${JSON.stringify(details)}` : ''}`);
+};
+
+const errorOf = async (action: () => Promise<unknown>): Promise<string> => {
+    try {
+        await action();
+        return '';
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+};
+
+const main = async (): Promise<void> => {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+        console.log(USAGE);
+        return;
+    }
+
+    const standIn = new GraphApiStandIn({ email: EMAIL, accessToken: ACCESS_TOKEN });
+    standIn.addFolder('Cargo/Poland');
+    standIn.addMessage('INBOX', { subject: 'Shipment #1000001 booking', body: 'Loading 20.01, Warszawa -> Berlin' });
+    standIn.addMessage('INBOX', { subject: 'Re: Shipment #1000001 rate', body: 'Rate confirmed' });
+    standIn.addMessage('INBOX', { subject: 'Weekly newsletter', body: 'Not a shipment' });
+    standIn.addMessage('Cargo/Poland', { subject: 'Shipment #1000002 documents', body: 'CMR attached' });
+    const baseUrl = await standIn.start();
+
+    // Страница из одного элемента - чтобы пройти по @odata.nextLink
+    const config = { baseUrl, requestTimeout: 5000, pageSize: 1, overlapSeconds: 300 };
+    const mailSource = new GraphMailSource({ email: EMAIL, accessToken: ACCESS_TOKEN }, config);
+
+    try {
+        const invalidToken = await errorOf(() => new GraphMailSource({ email: EMAIL, accessToken: 'expired' }, config).connect());
+        check('rejected token is reported as invalid', invalidToken.includes('OAuth2 token invalid'), invalidToken);
+
+        const connectError = await errorOf(() => mailSource.connect());
+        check('token with Mail.Read only connects', connectError === '' && mailSource.isActive(), connectError);
+        check('connect does not read the profile', !standIn.requests.includes('/me'), standIn.requests);
+
+        const mailboxes = await mailSource.listMailboxes();
+        const paths = mailboxes.map(mailbox => mailbox.path);
+        check('nested folders are listed by path', paths.includes('INBOX') && paths.includes('Cargo/Poland') && !paths.includes('Inbox'), paths);
+        check('well-known folders carry special use', mailboxes.find(mailbox => mailbox.path === 'Sent Items')?.specialUse[0] === 'sent', mailboxes);
+
+        const folderStatus = await mailSource.getMailboxStatus('Cargo/Poland');
+        check('folder status counts its messages', folderStatus.messageCount === 1, folderStatus);
+
+        const store = new InMemorySyncStore();
+        store.folders.push({ id: 1, userId: 1, mailbox: 'Cargo/Poland', kind: 'folder', label: null, enabled: true });
+        const syncService = store.createIncrementalSyncService();
+
+        const first = await syncService.syncUserMailboxes(mailSource, 1);
+        check('first sync bootstraps INBOX and the folder',
+            first.mailboxes.every(({ mode }) => mode === 'bootstrap') && first.mailboxes.length === 2, first.mailboxes);
+        check('first sync groups shipment emails across pages', store.groups.size === 2 && store.emails.size === 3,
+            { groups: [...store.groups.keys()], emails: store.emails.size });
+
+        // Позиция в папке - секунда получения, поэтому следующее письмо приходит в следующую секунду
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        standIn.addMessage('INBOX', { subject: 'Shipment #1000003 new order', body: 'New request' });
+        const second = await syncService.syncUserMailboxes(mailSource, 1);
+        check('second sync downloads only the new shipment email without duplicates',
+            second.mailboxes.some(({ mode }) => mode === 'incremental') && second.newEmails === 1 && store.emails.size === 4,
+            { result: second, emails: store.emails.size });
+
+        const groupEmails = await mailSource.fetchEmailsByEmailGroupId('1000001');
+        check('email group search finds every email of the group', groupEmails.length === 2, groupEmails.map(email => email.subject));
+
+        check('no request needs more than Mail.Read', !standIn.requests.includes('/me'), standIn.requests.filter(request => !request.startsWith('/me/')));
+    } finally {
+        await mailSource.safeDisconnect();
+        await standIn.stop();
+    }
+
+    if (failures > 0) {
+        console.error(`${failures} check(s) failed`);
+        process.exit(1);
+    }
+    console.log('All Graph API checks passed');
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(1);
+});
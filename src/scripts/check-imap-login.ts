@@ -0,0 +1,126 @@
+import { ImapStandIn } from './stand-ins/imap-stand-in';
+
+const USAGE = `Usage: npm run check:imap-login
+
+  Starts a local IMAP stand-in and runs IMAP password login, the connection test
+  and incremental sync against it. Needs no database or network access.`;
+
+const EMAIL = 'ops@corp.test';
+const PASSWORD = 'app-password-1';
+
+let failures = 0;
+const check = (name: string, passed: boolean, details?: unknown): void => {
+    if (!passed) failures++;
+    console.log(`${passed ? 'PASS' : 'FAIL'}  ${name}${!passed && details !== undefined ? ` -> ${JSON.stringify(details)}` : ''}`);
+};
+
+const errorOf = async (action: () => Promise<unknown>): Promise<string> => {
+    try {
+        await action();
+        return '';
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+};
+
+const main = async (): Promise<void> => {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+        console.log(USAGE);
+        return;
+    }
+
+    const standIn = new ImapStandIn({ username: EMAIL, password: PASSWORD }, ['INBOX', 'Cargo']);
+    standIn.addMessage('INBOX', { subject: 'Shipment #1000001 booking', body: 'Loading 20.01, Warszawa -> Berlin' });
+    standIn.addMessage('INBOX', { subject: 'Re: Shipment #1000001 rate', body: 'Rate confirmed' });
+    standIn.addMessage('INBOX', { subject: 'Weekly newsletter', body: 'Not a shipment' });
+    standIn.addMessage('Cargo', { subject: 'Shipment #1000002 documents', body: 'CMR attached' });
+    const port = await standIn.start();
+
+    // Настройки читаются при загрузке модулей, поэтому задаются до импорта
+    process.env.IMAP_DOMAIN_HOSTS = 'corp.test:127.0.0.1';
+    process.env.IMAP_ALLOW_PRIVATE_HOSTS = 'true';
+    process.env.CREDENTIALS_ENCRYPTION_KEY = 'check-imap-login-key';
+    process.env.ADMIN_EMAILS = 'admin@corp.test';
+    await import('../preload');
+
+    const { ImapLoginService } = await import('@/services/auth/imap-login.service');
+    const { imapLoginProviderService } = await import('@/config/imap-login.config');
+    const { MailSourceFactory } = await import('@/factories/mail-source.factory');
+    const { CredentialsCipher } = await import('@/utils');
+    const { InMemorySyncStore } = await import('./stand-ins/in-memory-sync-store');
+
+    const loginService = new ImapLoginService();
+    const input = { email: EMAIL, host: '127.0.0.1', port, security: 'none', password: PASSWORD };
+
+    try {
+        const settings = await loginService.parseSettings(input);
+        check('settings accepted for the configured domain server', settings.host === '127.0.0.1' && settings.username === EMAIL, settings);
+
+        check('server outside the domain is rejected',
+            (await errorOf(() => loginService.parseSettings({ ...input, host: 'imap.elsewhere.test' }))).includes('not a known mail server'));
+        check('administrator address is rejected',
+            (await errorOf(() => loginService.parseSettings({ ...input, email: 'admin@corp.test' }))).includes('administrator'));
+
+        const testResult = await loginService.testConnection(settings);
+        check('connection test lists mailboxes', ['INBOX', 'Cargo'].every(mailbox => testResult.mailboxes.includes(mailbox)), testResult.mailboxes);
+
+        const wrongPassword = await errorOf(async () => loginService.testConnection(await loginService.parseSettings({ ...input, password: 'wrong' })));
+        check('wrong password is reported as a login failure', wrongPassword.startsWith('IMAP login failed'), wrongPassword);
+
+        standIn.commands.length = 0;
+        const downgrade = await errorOf(async () => loginService.testConnection(await loginService.parseSettings({ ...input, security: 'starttls' })));
+        check('STARTTLS mode refuses a server without STARTTLS', downgrade.includes('STARTTLS'), downgrade);
+        check('password is not sent without STARTTLS', !standIn.commands.includes('LOGIN'), standIn.commands);
+
+        // Так же, как CredentialsStorageService: пароль хранится зашифрованным и расшифровывается при подключении
+        const encryptedPassword = CredentialsCipher.encrypt(settings.password);
+        check('stored password is encrypted', !encryptedPassword.includes(PASSWORD));
+        const mailSource = MailSourceFactory.create(
+            { email: EMAIL, accessToken: '' },
+            imapLoginProviderService.createConnectionConfig({ ...settings, password: CredentialsCipher.decrypt(encryptedPassword) })
+        );
+        check('password login uses the IMAP source', mailSource.kind === 'imap', mailSource.kind);
+
+        const store = new InMemorySyncStore();
+        store.folders.push({ id: 1, userId: 1, mailbox: 'Cargo', kind: 'folder', label: 'Cargo', enabled: true });
+        const syncService = store.createIncrementalSyncService();
+
+        try {
+            const first = await syncService.syncUserMailboxes(mailSource, 1);
+            check('first sync bootstraps INBOX and monitored folder',
+                first.mailboxes.every(({ mode }) => mode === 'bootstrap') && first.mailboxes.length === 2, first.mailboxes);
+            check('first sync groups shipment emails', store.groups.size === 2 && store.emails.size === 3,
+                { groups: [...store.groups.keys()], emails: store.emails.size });
+
+            standIn.addMessage('INBOX', { subject: 'Shipment #1000003 new order', body: 'New request' });
+            const second = await syncService.syncUserMailboxes(mailSource, 1);
+            const modes = Object.fromEntries(second.mailboxes.map(({ mailbox, mode }) => [mailbox, mode]));
+            check('second sync is incremental for INBOX only', modes.INBOX === 'incremental' && modes.Cargo === 'up_to_date', modes);
+            check('second sync downloads only the new email', second.newEmails === 1 && store.groups.size === 3, second);
+
+            const third = await syncService.syncUserMailboxes(mailSource, 1);
+            check('unchanged mailboxes are up to date', third.mailboxes.every(({ mode }) => mode === 'up_to_date'), third.mailboxes);
+
+            standIn.resetUidValidity('INBOX');
+            const fourth = await syncService.syncUserMailboxes(mailSource, 1);
+            const inbox = fourth.mailboxes.find(({ mailbox }) => mailbox === 'INBOX');
+            check('UIDVALIDITY change triggers a full resync without duplicates', inbox?.mode === 'full_resync' && fourth.newEmails === 0, fourth);
+        } finally {
+            await mailSource.safeDisconnect();
+        }
+    } finally {
+        await standIn.stop();
+    }
+
+    if (failures > 0) {
+        console.error(`${failures} check(s) failed`);
+        process.exit(1);
+    }
+    console.log('All IMAP login checks passed');
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(1);
+});
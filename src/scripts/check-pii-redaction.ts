@@ -0,0 +1,111 @@
+import { IEmail } from '@/models/email';
+import { ExtractionProvider } from '@/services/ai/providers/extraction-provider';
+
+const USAGE = `Usage: npm run check:pii-redaction
+
+  Runs ShipmentExtractionService with redaction enabled against a scripted provider
+  and checks that neither the prompt nor the repair prompts contain the original
+  personal data. Needs no database or network access.`;
+
+const CONTACT_EMAIL = 'jan.kowalski@acme.pl';
+const CONTACT_PHONE = '+48 601 234 567';
+const CONTACT_NAME = 'Jan Kowalski';
+
+let failures = 0;
+const check = (name: string, passed: boolean, details?: unknown): void => {
+    if (!passed) failures++;
+    console.log(`${passed ? 'PASS' : 'FAIL'}  ${name}${!passed && details !== undefined ? ` -> ${JSON.stringify(details)}` : ''}`);
+};
+
+// Отдает заготовленные ответы по очереди и запоминает все полученные промпты
+class ScriptedExtractionProvider implements ExtractionProvider {
+    readonly name = 'scripted';
+    readonly prompts: string[] = [];
+
+    constructor(private responses: string[]) {}
+
+    getModelName(): string {
+        return 'scripted';
+    }
+
+    isEnabled(): boolean {
+        return true;
+    }
+
+    async generateCompletion(prompt: string): Promise<string> {
+        this.prompts.push(prompt);
+        return this.responses[Math.min(this.prompts.length - 1, this.responses.length - 1)];
+    }
+}
+
+const main = async (): Promise<void> => {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+        console.log(USAGE);
+        return;
+    }
+
+    // Настройки читаются при загрузке модулей, поэтому задаются до импорта
+    process.env.AI_REDACTION_ENABLED = 'true';
+    process.env.AI_REDACTION_DOMAINS = 'acme.pl';
+    process.env.AI_MAX_REPAIR_ATTEMPTS = '2';
+    await import('../preload');
+
+    const { ShipmentExtractionService } = await import('@/services/ai/shipment-extraction.service');
+
+    const email: IEmail = {
+        id: 'email-1',
+        from: `"${CONTACT_NAME}" <${CONTACT_EMAIL}>`,
+        to: 'ops@forwarder.test',
+        subject: 'Zlecenie #1000001',
+        date: new Date('2025-01-15T09:00:00Z'),
+        emailGroupId: '1000001',
+        status: 'not_processed',
+        text: `Warszawa -> Berlin, 20.01.2025, 12 palet.\nKontakt: ${CONTACT_NAME}, tel. ${CONTACT_PHONE}, ${CONTACT_EMAIL}\n\nPozdrawiam,\n${CONTACT_NAME}`
+    };
+
+    const validShipment = {
+        name: 'Warszawa - Berlin',
+        for_carriers: 'Kontakt: [NAME_1], [PHONE_1], [EMAIL_1]',
+        shipment_details: [{
+            shipping_date_from: '20.01.2025',
+            address_from: { city: 'Warszawa', country: 'PL' },
+            address_dest: { city: 'Berlin', country: 'DE' },
+            contents: [{ name: 'Palety', quantity: 12 }]
+        }],
+        modes: [{ name: 'FTL' }]
+    };
+    // Первые два ответа не проходят схему, и полученные значения с метками попадают в ошибки
+    const invalidShipment = { ...validShipment, shipment_details: 'Kontakt [NAME_1], [PHONE_1], [EMAIL_1]' };
+    const provider = new ScriptedExtractionProvider([
+        JSON.stringify(invalidShipment),
+        JSON.stringify(invalidShipment),
+        JSON.stringify(validShipment)
+    ]);
+
+    const result = await new ShipmentExtractionService(provider).generateStructuredEmailGroupData([email]);
+    const originals = [CONTACT_EMAIL, CONTACT_PHONE, CONTACT_NAME];
+    const leaks = provider.prompts.flatMap((prompt, index) =>
+        originals.filter(value => prompt.includes(value)).map(value => `prompt ${index + 1}: ${value}`)
+    );
+
+    check('model is asked to repair the invalid responses', provider.prompts.length === 3, provider.prompts.length);
+    check('repair prompts quote the rejected value with placeholders',
+        provider.prompts.slice(1).every(prompt => prompt.includes('(получено: "Kontakt [NAME_1], [PHONE_1], [EMAIL_1]")')),
+        provider.prompts.slice(1).map(prompt => prompt.slice(prompt.indexOf('ОШИБКИ:'))));
+    check('no prompt contains the original personal data', leaks.length === 0, leaks);
+    check('the stored result has the original values back',
+        result.shipment_data.for_carriers === `Kontakt: ${CONTACT_NAME}, ${CONTACT_PHONE}, ${CONTACT_EMAIL}` && result.validation_errors.length === 0,
+        { for_carriers: result.shipment_data.for_carriers, errors: result.validation_errors });
+
+    if (failures > 0) {
+        console.error(`${failures} check(s) failed`);
+        process.exit(1);
+    }
+    console.log('All PII redaction checks passed');
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(1);
+});
@@ -0,0 +1,162 @@
+import '../preload';
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, resolve } from 'path';
+import { ExtractionProviderName } from '@/config/ai.config';
+import { ExtractionProviderFactory } from '@/factories/extraction-provider.factory';
+import { PromptTemplateContent } from '@/models/prompt-template';
+import { CaseEvaluationResult } from '@/models/evaluation';
+import { ShipmentExtractionService } from '@/services/ai/shipment-extraction.service';
+import { ExtractionProvider } from '@/services/ai/providers/extraction-provider';
+import { RecordedExtractionProvider, RecordingExtractionProvider } from '@/services/ai/providers/recorded.provider';
+import { BUILTIN_PROMPT_TEMPLATE, DEFAULT_SHIPMENT_JSON_SCHEMA } from '@/services/ai/prompts/shipment-extraction.prompt';
+import { EvaluationFixtureService } from '@/services/evaluation/evaluation-fixture.service';
+import { ExtractionEvaluationService } from '@/services/evaluation/extraction-evaluation.service';
+import { InMemoryVocabularyStore } from './stand-ins/in-memory-vocabulary-store';
+
+const USAGE = `Usage: npm run eval:extraction -- [options]
+
+  --fixtures <dir>     fixture directory (default: fixtures/extraction)
+  --provider <name>    recorded | rules | gemini | openai | mock (default: AI_PROVIDER);
+                       rules scores the rule-based fallback without a model
+  --record             call the provider and save its responses to recorded.json
+  --case <name>        evaluate a single case
+  --template <file>    prompt template file instead of the built-in one
+  --schema <file>      JSON schema file for the template
+  --json <file>        also write the full report as JSON
+  --min-f1 <number>    exit with code 1 if total F1 is below the threshold (0..1)`;
+
+type EvaluationOptions = {
+    fixturesDir: string;
+    provider: string | null;
+    record: boolean;
+    caseName?: string;
+    templateFile?: string;
+    schemaFile?: string;
+    jsonFile?: string;
+    minF1: number | null;
+};
+
+const parseArgs = (args: string[]): EvaluationOptions => {
+    const options: EvaluationOptions = {
+        fixturesDir: 'fixtures/extraction',
+        provider: null,
+        record: false,
+        minF1: null
+    };
+
+    for (let index = 0; index < args.length; index++) {
+        const arg = args[index];
+        const next = () => {
+            const value = args[++index];
+            if (value === undefined) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            return value;
+        };
+
+        switch (arg) {
+            case '--fixtures': options.fixturesDir = next(); break;
+            case '--provider': options.provider = next().toLowerCase(); break;
+            case '--record': options.record = true; break;
+            case '--case': options.caseName = next(); break;
+            case '--template': options.templateFile = next(); break;
+            case '--schema': options.schemaFile = next(); break;
+            case '--json': options.jsonFile = next(); break;
+            case '--min-f1': options.minF1 = parseFloat(next()); break;
+            case '--help':
+            case '-h':
+                console.log(USAGE);
+                process.exit(0);
+            default:
+                throw new Error(`Unknown option: ${arg}`);
+        }
+    }
+
+    if (options.record && (options.provider === 'recorded' || options.provider === 'rules')) {
+        throw new Error(`--record needs a live provider, not "${options.provider}"`);
+    }
+
+    return options;
+};
+
+const loadTemplate = (options: EvaluationOptions): PromptTemplateContent => {
+    if (!options.templateFile) {
+        return BUILTIN_PROMPT_TEMPLATE;
+    }
+
+    return {
+        id: `file:${basename(options.templateFile)}`,
+        template: readFileSync(options.templateFile, 'utf-8'),
+        schema: options.schemaFile ? readFileSync(options.schemaFile, 'utf-8') : DEFAULT_SHIPMENT_JSON_SCHEMA
+    };
+};
+
+const main = async (): Promise<void> => {
+    const options = parseArgs(process.argv.slice(2));
+    const fixtureService = new EvaluationFixtureService();
+    // Словарь по умолчанию в памяти: нормализация та же, что в приложении, но без базы
+    const evaluationService = new ExtractionEvaluationService(new InMemoryVocabularyStore().createVocabularyService());
+
+    const template = loadTemplate(options);
+    const cases = await fixtureService.loadCases(resolve(options.fixturesDir), options.caseName);
+    if (cases.length === 0) {
+        throw new Error(`No fixture cases found in ${options.fixturesDir}`);
+    }
+
+    const replay = options.provider === 'recorded';
+    const rulesOnly = options.provider === 'rules';
+    const liveProvider: ExtractionProvider | null = replay || rulesOnly
+        ? null
+        : ExtractionProviderFactory.create((options.provider || undefined) as ExtractionProviderName | undefined);
+    const recorder = liveProvider && options.record ? new RecordingExtractionProvider(liveProvider) : null;
+
+    const results: CaseEvaluationResult[] = [];
+    for (const evaluationCase of cases) {
+        let provider: ExtractionProvider;
+
+        if (rulesOnly) {
+            provider = new RecordedExtractionProvider([], 'rules');
+        } else if (replay) {
+            if (!evaluationCase.recordedResponses) {
+                throw new Error(`Fixture ${evaluationCase.name} has no recorded responses; run with --record first`);
+            }
+            provider = new RecordedExtractionProvider(evaluationCase.recordedResponses);
+        } else {
+            provider = recorder || liveProvider!;
+        }
+
+        const result = await evaluationService.evaluateCase(evaluationCase, new ShipmentExtractionService(provider), template, rulesOnly);
+        results.push(result);
+
+        if (recorder) {
+            const responses = recorder.takeResponses();
+            if (!result.error) {
+                fixtureService.saveRecordedResponses(evaluationCase, responses);
+            }
+        }
+    }
+
+    const report = evaluationService.buildReport(
+        results,
+        liveProvider ? liveProvider.name : options.provider!,
+        liveProvider ? liveProvider.getModelName() : options.provider!,
+        rulesOnly ? 'rules' : template.id
+    );
+
+    console.log(evaluationService.formatReport(report));
+
+    if (options.jsonFile) {
+        writeFileSync(options.jsonFile, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+    }
+
+    if (options.minF1 !== null && (report.totals.f1 ?? 0) < options.minF1) {
+        console.error(`F1 ${(report.totals.f1 ?? 0).toFixed(3)} is below the required ${options.minF1}`);
+        process.exit(1);
+    }
+};
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(1);
+});
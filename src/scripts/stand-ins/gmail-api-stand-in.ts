@@ -0,0 +1,179 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+type StandInLabel = {
+    id: string;
+    name: string;
+    type: 'system' | 'user';
+};
+
+type StandInMessage = {
+    id: string;
+    subject: string;
+    raw: string;
+    labelIds: string[];
+};
+
+type StandInHistoryRecord = {
+    id: number;
+    messagesAdded?: Array<{ message: { id: string; labelIds: string[] } }>;
+    labelsAdded?: Array<{ message: { id: string; labelIds: string[] }; labelIds: string[] }>;
+};
+
+const SYSTEM_LABELS = ['INBOX', 'SENT', 'DRAFT', 'SPAM', 'TRASH', 'IMPORTANT', 'STARRED', 'UNREAD', 'CATEGORY_UPDATES'];
+
+// Заглушка Gmail REST API по тем же путям (/users/me/...): профиль, ярлыки, список писем, history, metadata и raw.
+// Поиск понимает только subject:слово и "фразу"; after:/before: не сужают выборку - все письма стенда "сегодняшние"
+export class GmailApiStandIn {
+    public readonly requests: string[] = [];
+    private server: http.Server | null = null;
+    private labels: StandInLabel[] = SYSTEM_LABELS.map(id => ({ id, name: id, type: 'system' as const }));
+    private messages: StandInMessage[] = [];
+    private history: StandInHistoryRecord[] = [];
+    private historyId = 1000;
+    // История до этой позиции уже удалена, как у Gmail спустя неделю
+    private oldestHistoryId = 0;
+
+    constructor(private account: { email: string; accessToken: string }, userLabels: string[] = []) {
+        userLabels.forEach((name, index) => this.labels.push({ id: `Label_${index + 1}`, name, type: 'user' }));
+    }
+
+    getLabelId(name: string): string {
+        const label = this.labels.find(candidate => candidate.name === name);
+        if (!label) {
+            throw new Error(`Stand-in label ${name} does not exist`);
+        }
+        return label.id;
+    }
+
+    addMessage(labelNames: string[], message: { subject: string; body: string; from?: string }): string {
+        const id = `msg-${this.messages.length + 1}`;
+        const raw = [
+            `From: ${message.from || 'carrier@example.com'}`,
+            `To: ${this.account.email}`,
+            `Subject: ${message.subject}`,
+            `Date: ${new Date().toUTCString()}`,
+            `Message-ID: <${id}@gmail-stand-in.local>`,
+            'Content-Type: text/plain; charset=utf-8',
+            '',
+            message.body,
+            ''
+        ].join('\r\n');
+        const labelIds = labelNames.map(name => this.getLabelId(name));
+
+        this.messages.push({ id, subject: message.subject, raw, labelIds });
+        this.history.push({ id: ++this.historyId, messagesAdded: [{ message: { id, labelIds: [...labelIds] } }] });
+        return id;
+    }
+
+    addLabel(messageId: string, labelName: string): void {
+        const message = this.messages.find(candidate => candidate.id === messageId);
+        if (!message) {
+            throw new Error(`Stand-in message ${messageId} does not exist`);
+        }
+        const labelId = this.getLabelId(labelName);
+        message.labelIds.push(labelId);
+        this.history.push({ id: ++this.historyId, labelsAdded: [{ message: { id: messageId, labelIds: [...message.labelIds] }, labelIds: [labelId] }] });
+    }
+
+    // Все сохраненные клиентом позиции становятся недействительными
+    expireHistory(): void {
+        this.oldestHistoryId = this.historyId + 1;
+    }
+
+    async start(): Promise<string> {
+        this.server = http.createServer((req, res) => this.handleRequest(req, res));
+        await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/gmail/v1`;
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = new URL(req.url || '/', 'http://stand-in');
+        const path = url.pathname.replace(/^\/gmail\/v1\/users\/me/, '');
+        const params = url.searchParams;
+        const detail = params.get('format') ? `format=${params.get('format')}` : params.get('q') ? `q=${params.get('q')}` : '';
+        this.requests.push(detail ? `${path}?${detail}` : path);
+
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+        const notFound = () => send(404, { error: { code: 404, message: 'Requested entity was not found.' } });
+
+        if (req.headers.authorization !== `Bearer ${this.account.accessToken}`) {
+            send(401, { error: { code: 401, message: 'Request had invalid authentication credentials.' } });
+            return;
+        }
+
+        const messageMatch = path.match(/^\/messages\/([^/]+)$/);
+        const labelMatch = path.match(/^\/labels\/([^/]+)$/);
+
+        if (path === '/profile') {
+            send(200, { emailAddress: this.account.email, messagesTotal: this.messages.length, historyId: String(this.historyId) });
+        } else if (path === '/labels') {
+            send(200, { labels: this.labels });
+        } else if (labelMatch) {
+            const label = this.labels.find(candidate => candidate.id === decodeURIComponent(labelMatch[1]));
+            if (!label) return notFound();
+            send(200, { ...label, messagesTotal: this.messages.filter(message => message.labelIds.includes(label.id)).length });
+        } else if (path === '/messages') {
+            const matching = this.searchMessages(params.get('q') || '', params.getAll('labelIds'), params.get('includeSpamTrash') === 'true');
+            send(200, this.paginate('messages', matching.map(message => ({ id: message.id })), params));
+        } else if (messageMatch) {
+            const message = this.messages.find(candidate => candidate.id === decodeURIComponent(messageMatch[1]));
+            if (!message) return notFound();
+            if (params.get('format') === 'raw') {
+                send(200, { id: message.id, labelIds: message.labelIds, raw: Buffer.from(message.raw, 'utf8').toString('base64url') });
+            } else {
+                send(200, { id: message.id, labelIds: message.labelIds, payload: { headers: [{ name: 'Subject', value: message.subject }] } });
+            }
+        } else if (path === '/history') {
+            const startHistoryId = Number(params.get('startHistoryId'));
+            if (!startHistoryId || startHistoryId < this.oldestHistoryId) return notFound();
+
+            const labelId = params.get('labelId');
+            const records = this.history
+                .filter(record => record.id > startHistoryId)
+                .map(record => ({
+                    id: String(record.id),
+                    messagesAdded: record.messagesAdded?.filter(({ message }) => !labelId || message.labelIds.includes(labelId)),
+                    labelsAdded: record.labelsAdded?.filter(({ labelIds }) => !labelId || labelIds.includes(labelId))
+                }))
+                .filter(record => record.messagesAdded?.length || record.labelsAdded?.length);
+            send(200, { ...this.paginate('history', records, params), historyId: String(this.historyId) });
+        } else {
+            notFound();
+        }
+    }
+
+    private searchMessages(query: string, labelIds: string[], includeSpamTrash: boolean): StandInMessage[] {
+        const subjectTerms = [...query.matchAll(/subject:(\S+)/gi)].map(match => match[1].toLowerCase());
+        const phrases = [...query.matchAll(/"([^"]+)"/g)].map(match => match[1].toLowerCase());
+
+        return this.messages.filter(message =>
+            labelIds.every(labelId => message.labelIds.includes(labelId))
+            && (includeSpamTrash || !message.labelIds.some(labelId => labelId === 'SPAM' || labelId === 'TRASH'))
+            && subjectTerms.every(term => message.subject.toLowerCase().includes(term))
+            && phrases.every(phrase => message.raw.toLowerCase().includes(phrase))
+        );
+    }
+
+    // pageToken - смещение в выдаче, чтобы клиент проходил все страницы
+    private paginate<T>(key: string, items: T[], params: URLSearchParams): Record<string, unknown> {
+        const offset = Number(params.get('pageToken') || 0);
+        const pageSize = Number(params.get('maxResults') || 100);
+        const page = items.slice(offset, offset + pageSize);
+        const nextOffset = offset + pageSize;
+
+        return {
+            [key]: page,
+            ...(nextOffset < items.length ? { nextPageToken: String(nextOffset) } : {})
+        };
+    }
+}
@@ -0,0 +1,198 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+type StandInFolder = {
+    id: string;
+    displayName: string;
+    parentId: string | null;
+    wellKnownName: string | null;
+};
+
+type StandInMessage = {
+    id: string;
+    folderId: string;
+    subject: string;
+    raw: string;
+    receivedDateTime: string;
+};
+
+const WELL_KNOWN_FOLDERS: Array<{ wellKnownName: string; displayName: string }> = [
+    { wellKnownName: 'inbox', displayName: 'Inbox' },
+    { wellKnownName: 'sentitems', displayName: 'Sent Items' },
+    { wellKnownName: 'deleteditems', displayName: 'Deleted Items' },
+    { wellKnownName: 'drafts', displayName: 'Drafts' }
+];
+
+// Заглушка Microsoft Graph по тем же путям (/me/mailFolders/..., /me/messages/{id}/$value). Токен выдан только
+// на Mail.Read, поэтому профиль /me отвечает 403, как настоящий Graph без User.Read.
+// $filter понимает только receivedDateTime ge/lt, $search - одну "фразу"
+export class GraphApiStandIn {
+    public readonly requests: string[] = [];
+    private server: http.Server | null = null;
+    private baseUrl = '';
+    private folders: StandInFolder[] = WELL_KNOWN_FOLDERS.map(({ wellKnownName, displayName }) => ({
+        id: `folder-${wellKnownName}`,
+        displayName,
+        parentId: null,
+        wellKnownName
+    }));
+    private messages: StandInMessage[] = [];
+
+    constructor(private account: { email: string; accessToken: string }) {}
+
+    // Путь через "/" создает вложенные папки: "Cargo/Poland"
+    addFolder(path: string): string {
+        let parentId: string | null = null;
+        for (const displayName of path.split('/')) {
+            const existing: StandInFolder | undefined = this.folders.find(folder => folder.parentId === parentId && folder.displayName === displayName);
+            if (existing) {
+                parentId = existing.id;
+                continue;
+            }
+            const folder: StandInFolder = { id: `folder-${this.folders.length + 1}`, displayName, parentId, wellKnownName: null };
+            this.folders.push(folder);
+            parentId = folder.id;
+        }
+        return parentId!;
+    }
+
+    addMessage(folderPath: string, message: { subject: string; body: string; from?: string; receivedAt?: Date }): string {
+        const folder = folderPath === 'INBOX'
+            ? this.folders.find(candidate => candidate.wellKnownName === 'inbox')
+            : this.findFolderByPath(folderPath);
+        if (!folder) {
+            throw new Error(`Stand-in folder ${folderPath} does not exist`);
+        }
+
+        const id = `msg-${this.messages.length + 1}`;
+        const receivedAt = message.receivedAt || new Date();
+        const raw = [
+            `From: ${message.from || 'carrier@example.com'}`,
+            `To: ${this.account.email}`,
+            `Subject: ${message.subject}`,
+            `Date: ${receivedAt.toUTCString()}`,
+            `Message-ID: <${id}@graph-stand-in.local>`,
+            'Content-Type: text/plain; charset=utf-8',
+            '',
+            message.body,
+            ''
+        ].join('\r\n');
+
+        this.messages.push({ id, folderId: folder.id, subject: message.subject, raw, receivedDateTime: receivedAt.toISOString() });
+        return id;
+    }
+
+    async start(): Promise<string> {
+        this.server = http.createServer((req, res) => this.handleRequest(req, res));
+        await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+        this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v1.0`;
+        return this.baseUrl;
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    private findFolderByPath(path: string): StandInFolder | undefined {
+        let folder: StandInFolder | undefined;
+        for (const displayName of path.split('/')) {
+            folder = this.folders.find(candidate => candidate.parentId === (folder ? folder.id : null) && candidate.displayName === displayName);
+            if (!folder) return undefined;
+        }
+        return folder;
+    }
+
+    private findFolder(idOrWellKnownName: string): StandInFolder | undefined {
+        return this.folders.find(folder => folder.id === idOrWellKnownName || folder.wellKnownName === idOrWellKnownName.toLowerCase());
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = new URL(req.url || '/', 'http://stand-in');
+        const path = decodeURIComponent(url.pathname.replace(/^\/v1\.0/, ''));
+        const params = url.searchParams;
+        const detail = params.get('$search') ? `search=${params.get('$search')}` : params.get('$filter') ? 'filter' : '';
+        this.requests.push(detail ? `${path}?${detail}` : path);
+
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+        const notFound = () => send(404, { error: { code: 'ErrorItemNotFound', message: 'The specified object was not found in the store.' } });
+
+        if (req.headers.authorization !== `Bearer ${this.account.accessToken}`) {
+            send(401, { error: { code: 'InvalidAuthenticationToken', message: 'Access token has expired or is not yet valid.' } });
+            return;
+        }
+
+        const folderMatch = path.match(/^\/me\/mailFolders\/([^/]+)$/);
+        const childFoldersMatch = path.match(/^\/me\/mailFolders\/([^/]+)\/childFolders$/);
+        const messagesMatch = path.match(/^\/me\/mailFolders\/([^/]+)\/messages$/);
+        const mimeMatch = path.match(/^\/me\/messages\/([^/]+)\/\$value$/);
+
+        if (path === '/me') {
+            send(403, { error: { code: 'Authorization_RequestDenied', message: 'Insufficient privileges to complete the operation.' } });
+        } else if (path === '/me/mailFolders') {
+            send(200, this.paginate(this.folders.filter(folder => folder.parentId === null).map(folder => this.toGraphFolder(folder)), url));
+        } else if (childFoldersMatch) {
+            const parent = this.findFolder(childFoldersMatch[1]);
+            if (!parent) return notFound();
+            send(200, this.paginate(this.folders.filter(folder => folder.parentId === parent.id).map(folder => this.toGraphFolder(folder)), url));
+        } else if (folderMatch) {
+            const folder = this.findFolder(folderMatch[1]);
+            if (!folder) return notFound();
+            send(200, this.toGraphFolder(folder));
+        } else if (messagesMatch) {
+            const folder = this.findFolder(messagesMatch[1]);
+            if (!folder) return notFound();
+            const matching = this.searchMessages(folder.id, params.get('$filter') || '', params.get('$search') || '');
+            send(200, this.paginate(matching.map(({ id, subject, receivedDateTime }) => ({ id, subject, receivedDateTime })), url));
+        } else if (mimeMatch) {
+            const message = this.messages.find(candidate => candidate.id === mimeMatch[1]);
+            if (!message) return notFound();
+            res.writeHead(200, { 'Content-Type': 'message/rfc822' });
+            res.end(message.raw);
+        } else {
+            notFound();
+        }
+    }
+
+    private toGraphFolder(folder: StandInFolder): Record<string, unknown> {
+        return {
+            id: folder.id,
+            displayName: folder.displayName,
+            childFolderCount: this.folders.filter(candidate => candidate.parentId === folder.id).length,
+            totalItemCount: this.messages.filter(message => message.folderId === folder.id).length
+        };
+    }
+
+    private searchMessages(folderId: string, filter: string, search: string): StandInMessage[] {
+        const from = filter.match(/receivedDateTime ge (\S+)/)?.[1];
+        const before = filter.match(/receivedDateTime lt (\S+)/)?.[1];
+        const phrase = search.match(/^"([^"]+)"$/)?.[1]?.toLowerCase();
+
+        return this.messages.filter(message =>
+            message.folderId === folderId
+            && (!from || new Date(message.receivedDateTime) >= new Date(from))
+            && (!before || new Date(message.receivedDateTime) < new Date(before))
+            && (!phrase || message.raw.toLowerCase().includes(phrase))
+        );
+    }
+
+    // Следующая страница - готовая ссылка с $skip, как @odata.nextLink у Graph
+    private paginate<T>(items: T[], url: URL): Record<string, unknown> {
+        const offset = Number(url.searchParams.get('$skip') || 0);
+        const pageSize = Number(url.searchParams.get('$top') || 10);
+        const nextOffset = offset + pageSize;
+
+        const nextLink = new URL(`${this.baseUrl}${url.pathname.replace(/^\/v1\.0/, '')}`);
+        url.searchParams.forEach((value, key) => nextLink.searchParams.set(key, value));
+        nextLink.searchParams.set('$skip', String(nextOffset));
+
+        return {
+            value: items.slice(offset, nextOffset),
+            ...(nextOffset < items.length ? { '@odata.nextLink': nextLink.toString() } : {})
+        };
+    }
+}
@@ -0,0 +1,249 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+
+type StandInMessage = {
+    uid: number;
+    subject: string;
+    raw: string;
+};
+
+type StandInMailbox = {
+    uidValidity: number;
+    uidNext: number;
+    messages: StandInMessage[];
+};
+
+type SearchToken = string | SearchToken[];
+
+// Минимальный IMAP-сервер без шифрования: ровно те команды, которые отправляет node-imap при входе по паролю,
+// чтении папок, поиске и загрузке писем. Поиск по датам не сужает выборку - все письма стенда "сегодняшние"
+export class ImapStandIn {
+    public readonly commands: string[] = [];
+    private server: net.Server | null = null;
+    private mailboxes = new Map<string, StandInMailbox>();
+
+    constructor(private account: { username: string; password: string }, mailboxes: string[] = ['INBOX']) {
+        for (const mailbox of mailboxes) {
+            this.mailboxes.set(mailbox, { uidValidity: 1, uidNext: 1, messages: [] });
+        }
+    }
+
+    addMessage(mailbox: string, message: { subject: string; body: string; from?: string }): number {
+        const box = this.getMailbox(mailbox);
+        const uid = box.uidNext++;
+        const raw = [
+            `From: ${message.from || 'carrier@example.com'}`,
+            `To: ${this.account.username}`,
+            `Subject: ${message.subject}`,
+            `Date: ${new Date().toUTCString()}`,
+            `Message-ID: <${mailbox.toLowerCase()}-${uid}@stand-in.local>`,
+            'Content-Type: text/plain; charset=utf-8',
+            '',
+            message.body,
+            ''
+        ].join('\r\n');
+
+        box.messages.push({ uid, subject: message.subject, raw });
+        return uid;
+    }
+
+    // Как после пересоздания папки на сервере: новый UIDVALIDITY, нумерация UID заново
+    resetUidValidity(mailbox: string): void {
+        const box = this.getMailbox(mailbox);
+        box.uidValidity++;
+        box.messages.forEach((message, index) => message.uid = index + 1);
+        box.uidNext = box.messages.length + 1;
+    }
+
+    async start(): Promise<number> {
+        this.server = net.createServer(socket => this.handleConnection(socket));
+        await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    private getMailbox(name: string): StandInMailbox {
+        const box = this.mailboxes.get(name.toUpperCase() === 'INBOX' ? 'INBOX' : name);
+        if (!box) {
+            throw new Error(`Stand-in mailbox ${name} does not exist`);
+        }
+        return box;
+    }
+
+    private handleConnection(socket: net.Socket): void {
+        let buffer = '';
+        let authenticated = false;
+        let selected: StandInMailbox | null = null;
+
+        socket.on('error', () => undefined);
+        socket.write('* OK IMAP stand-in ready\r\n');
+
+        socket.on('data', chunk => {
+            buffer += chunk.toString('utf8');
+            let lineEnd: number;
+            while ((lineEnd = buffer.indexOf('\r\n')) >= 0) {
+                const line = buffer.slice(0, lineEnd);
+                buffer = buffer.slice(lineEnd + 2);
+                if (!line) continue;
+
+                const [tag, ...tokens] = this.tokenize(line);
+                const command = String(tokens.shift() || '').toUpperCase();
+                const uidCommand = command === 'UID' ? String(tokens.shift() || '').toUpperCase() : null;
+                this.commands.push(uidCommand ? `UID ${uidCommand}` : command);
+
+                const reply = (text: string) => socket.write(text + '\r\n');
+                const ok = (text = 'done') => reply(`${tag} OK ${text}`);
+
+                if (command === 'CAPABILITY') {
+                    reply('* CAPABILITY IMAP4rev1');
+                    ok();
+                } else if (command === 'LOGIN') {
+                    authenticated = tokens[0] === this.account.username && tokens[1] === this.account.password;
+                    reply(authenticated ? `${tag} OK logged in` : `${tag} NO [AUTHENTICATIONFAILED] Authentication failed.`);
+                } else if (command === 'LOGOUT') {
+                    reply('* BYE logging out');
+                    ok();
+                    socket.end();
+                } else if (command === 'NOOP' || command === 'CHECK' || command === 'CLOSE') {
+                    ok();
+                } else if (!authenticated) {
+                    reply(`${tag} NO not authenticated`);
+                } else if (command === 'LIST') {
+                    if (tokens[1] === '') {
+                        reply('* LIST (\\Noselect) "/" ""');
+                    } else {
+                        for (const name of this.mailboxes.keys()) {
+                            reply(`* LIST (\\HasNoChildren) "/" "${name}"`);
+                        }
+                    }
+                    ok();
+                } else if (command === 'SELECT' || command === 'EXAMINE') {
+                    const name = String(tokens[0]);
+                    if (!this.mailboxes.has(name) && name.toUpperCase() !== 'INBOX') {
+                        reply(`${tag} NO mailbox does not exist`);
+                        continue;
+                    }
+                    selected = this.getMailbox(name);
+                    reply('* FLAGS (\\Seen \\Answered \\Flagged \\Deleted \\Draft)');
+                    reply(`* ${selected.messages.length} EXISTS`);
+                    reply('* 0 RECENT');
+                    reply(`* OK [UIDVALIDITY ${selected.uidValidity}] UIDs valid`);
+                    reply(`* OK [UIDNEXT ${selected.uidNext}] next UID`);
+                    ok(command === 'SELECT' ? '[READ-WRITE] selected' : '[READ-ONLY] examined');
+                } else if (!selected) {
+                    reply(`${tag} BAD no mailbox selected`);
+                } else if (uidCommand === 'SEARCH') {
+                    const box = selected;
+                    const criteria = this.groupTokens(tokens);
+                    const uids = box.messages
+                        .filter(message => this.matchesAll(criteria, message, box))
+                        .map(message => message.uid);
+                    reply(`* SEARCH${uids.map(uid => ` ${uid}`).join('')}`);
+                    ok();
+                } else if (uidCommand === 'FETCH') {
+                    const box = selected;
+                    box.messages.forEach((message, index) => {
+                        if (!this.inSequenceSet(String(tokens[0]), message.uid, box)) return;
+                        const raw = Buffer.from(message.raw, 'utf8');
+                        // node-imap ждет все запрошенные атрибуты, иначе не завершит письмо
+                        const structure = `("TEXT" "PLAIN" ("CHARSET" "utf-8") NIL NIL "8BIT" ${raw.length} ${message.raw.split('\r\n').length})`;
+                        socket.write(`* ${index + 1} FETCH (UID ${message.uid} FLAGS () INTERNALDATE "${this.formatInternalDate(new Date())}" BODYSTRUCTURE ${structure} BODY[] {${raw.length}}\r\n`);
+                        socket.write(raw);
+                        socket.write(')\r\n');
+                    });
+                    ok();
+                } else {
+                    reply(`${tag} BAD unsupported command`);
+                }
+            }
+        });
+    }
+
+    private formatInternalDate(date: Date): string {
+        const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${pad(date.getUTCDate())}-${months[date.getUTCMonth()]}-${date.getUTCFullYear()} `
+            + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+    }
+
+    private tokenize(line: string): string[] {
+        const tokens: string[] = [];
+        const pattern = /"((?:[^"\\]|\\.)*)"|([()])|([^\s()"]+)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(line)) !== null) {
+            tokens.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] || match[3]);
+        }
+        return tokens;
+    }
+
+    private groupTokens(tokens: string[]): SearchToken[] {
+        const root: SearchToken[] = [];
+        const stack: SearchToken[][] = [root];
+        for (const token of tokens) {
+            if (token === '(') {
+                const group: SearchToken[] = [];
+                stack[stack.length - 1].push(group);
+                stack.push(group);
+            } else if (token === ')') {
+                stack.pop();
+            } else {
+                stack[stack.length - 1].push(token);
+            }
+        }
+        return root;
+    }
+
+    private matchesAll(criteria: SearchToken[], message: StandInMessage, box: StandInMailbox): boolean {
+        const queue = [...criteria];
+        while (queue.length > 0) {
+            if (!this.matchKey(queue, message, box)) return false;
+        }
+        return true;
+    }
+
+    private matchKey(queue: SearchToken[], message: StandInMessage, box: StandInMailbox): boolean {
+        const key = queue.shift()!;
+        if (Array.isArray(key)) {
+            return this.matchesAll(key, message, box);
+        }
+
+        const upper = key.toUpperCase();
+        const includes = (haystack: string) => haystack.toLowerCase().includes(String(queue.shift()).toLowerCase());
+
+        switch (upper) {
+            case 'ALL': return true;
+            case 'CHARSET': queue.shift(); return true;
+            case 'UID': return this.inSequenceSet(String(queue.shift()), message.uid, box);
+            case 'SUBJECT': return includes(message.subject);
+            case 'TEXT':
+            case 'BODY': return includes(message.raw);
+            case 'SINCE':
+            case 'BEFORE':
+            case 'ON': queue.shift(); return true;
+            case 'NOT': return !this.matchKey(queue, message, box);
+            case 'OR': {
+                const left = this.matchKey(queue, message, box);
+                const right = this.matchKey(queue, message, box);
+                return left || right;
+            }
+            default:
+                throw new Error(`Stand-in does not support search key ${key}`);
+        }
+    }
+
+    // "*" - наибольший UID в папке, поэтому "N:*" при N больше всех UID совпадает с последним письмом (RFC 3501)
+    private inSequenceSet(set: string, uid: number, box: StandInMailbox): boolean {
+        const maxUid = box.messages.length > 0 ? box.messages[box.messages.length - 1].uid : 0;
+        const toNumber = (value: string) => value === '*' ? maxUid : Number(value);
+
+        return set.split(',').some(part => {
+            const [from, to = from] = part.split(':').map(toNumber);
+            return uid >= Math.min(from, to) && uid <= Math.max(from, to);
+        });
+    }
+}
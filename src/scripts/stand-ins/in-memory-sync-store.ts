@@ -0,0 +1,72 @@
+import { IEmailGroup } from '@/models/email-group';
+import { IParsedEmail } from '@/models/email';
+import { IMailboxSyncState, SaveMailboxSyncStateInput } from '@/models/mailbox-sync-state';
+import { IMonitoredFolder } from '@/models/monitored-folder';
+import {
+    EmailGroupRepository,
+    EmailRepository,
+    SummaryRepository,
+    MailboxSyncStateRepository,
+    MonitoredFolderRepository
+} from '@/repositories';
+import { EmailBaseService } from '@/services/email/email-base.service';
+import { EmailFullSyncService } from '@/services/email/email-full-sync.service';
+import { EmailIncrementalSyncService } from '@/services/email/email-incremental-sync.service';
+
+// Хранилище в памяти вместо Postgres: только методы репозиториев, которые вызывает конвейер синхронизации
+export class InMemorySyncStore {
+    public readonly groups = new Map<string, IEmailGroup>();
+    public readonly emails = new Map<string, { emailGroupId: string; subject: string }>();
+    public readonly states = new Map<string, IMailboxSyncState>();
+    public readonly folders: IMonitoredFolder[] = [];
+
+    createIncrementalSyncService(): EmailIncrementalSyncService {
+        const emailGroupRepo = {
+            getAllEmailGroups: async () => [...this.groups.values()],
+            getEmailGroupByEmailGroupId: async (emailGroupId: string) => this.groups.get(emailGroupId) || null,
+            createEmailGroup: async (emailGroupId: string, userId?: number) => {
+                const group: IEmailGroup = { emailGroupId, userId, createdAt: new Date(), updatedAt: new Date() };
+                this.groups.set(emailGroupId, group);
+                return group;
+            },
+            saveEmailGroup: async (data: { emailGroupId: string; updatedAt?: Date }) => {
+                const group = this.groups.get(data.emailGroupId);
+                if (group && data.updatedAt) group.updatedAt = data.updatedAt;
+                return group;
+            }
+        };
+        const emailRepo = {
+            getEmailByMessageId: async (messageId: string) => this.emails.get(messageId) || null,
+            saveEmailsWithAttachments: async (emailGroupId: string, parsedEmails: IParsedEmail[]) => {
+                for (const parsed of parsedEmails) {
+                    this.emails.set(parsed.dbData.id, { emailGroupId, subject: parsed.dbData.subject });
+                }
+                return parsedEmails.length;
+            }
+        };
+        const syncStateRepo = {
+            getState: async (userId: number, mailbox: string) => this.states.get(`${userId}:${mailbox}`) || null,
+            saveState: async (input: SaveMailboxSyncStateInput) => {
+                const key = `${input.userId}:${input.mailbox}`;
+                const state: IMailboxSyncState = { id: this.states.get(key)?.id || this.states.size + 1, ...this.states.get(key), ...input };
+                this.states.set(key, state);
+                return state;
+            }
+        };
+        const monitoredFolderRepo = {
+            getEnabledFoldersByUserId: async (userId: number) => this.folders.filter(folder => folder.userId === userId && folder.enabled)
+        };
+
+        const emailBaseService = new EmailBaseService(
+            emailGroupRepo as unknown as EmailGroupRepository,
+            emailRepo as unknown as EmailRepository,
+            {} as SummaryRepository
+        );
+
+        return new EmailIncrementalSyncService(
+            new EmailFullSyncService(emailBaseService),
+            syncStateRepo as unknown as MailboxSyncStateRepository,
+            monitoredFolderRepo as unknown as MonitoredFolderRepository
+        );
+    }
+}
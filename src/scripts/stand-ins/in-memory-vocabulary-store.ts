@@ -0,0 +1,26 @@
+import { IVocabularyTerm, VocabularyKind, CreateVocabularyTermInput } from '@/models/vocabulary';
+import { VocabularyRepository } from '@/repositories';
+import { VocabularyService } from '@/services/vocabulary/vocabulary.service';
+
+// Словарь в памяти вместо Postgres: начальные термины создаются как обычно, нераспознанные значения только запоминаются
+export class InMemoryVocabularyStore {
+    public readonly terms: IVocabularyTerm[] = [];
+    public readonly unmapped: Array<{ kind: VocabularyKind; rawValue: string; emailGroupId: string | null }> = [];
+
+    createVocabularyService(): VocabularyService {
+        const vocabularyRepo = {
+            countTerms: async () => this.terms.length,
+            getTerms: async (kind?: VocabularyKind) => this.terms.filter(term => !kind || term.kind === kind),
+            createTerms: async (inputs: CreateVocabularyTermInput[]) => {
+                const created: IVocabularyTerm[] = inputs.map((input, index) => ({ ...input, synonyms: input.synonyms || [], id: this.terms.length + index + 1 }));
+                this.terms.push(...created);
+                return created;
+            },
+            recordUnmappedValue: async (kind: VocabularyKind, _value: string, rawValue: string, emailGroupId: string | null) => {
+                this.unmapped.push({ kind, rawValue, emailGroupId });
+            }
+        };
+
+        return new VocabularyService(vocabularyRepo as unknown as VocabularyRepository);
+    }
+}
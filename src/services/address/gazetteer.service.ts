@@ -0,0 +1,231 @@
+import { ShipmentRequest, ShipmentAddress, NormalizedAddress, ShipmentWarning, SummaryLocale } from '@/models/summary';
+import { GAZETTEER_COUNTRIES, GazetteerCountry } from './gazetteer/countries';
+import { GAZETTEER_CITIES, GazetteerCity } from './gazetteer/cities';
+
+export type AddressNormalizationResult = {
+    data: ShipmentRequest;
+    warnings: ShipmentWarning[];
+};
+
+// Окончания косвенных падежей (рус.) и местного падежа (пол.), которыми слово может отличаться от справочного
+const CASE_ENDINGS = new Set([
+    '', 'а', 'я', 'у', 'ю', 'е', 'и', 'ы', 'ом', 'ем', 'ой', 'ей', 'ым', 'им', 'ью', 'ах', 'ях',
+    'ого', 'его', 'ому', 'ему', 'ie', 'u', 'iu', 'y', 'em', 'a', 'e'
+]);
+// Окончания именительного падежа, которые отбрасываются при склонении
+const BASE_ENDINGS = new Set(['', 'а', 'я', 'ь', 'й', 'ий', 'ый', 'ой', 'е', 'о', 'ы', 'и', 'a', 'o', 'y', 'e']);
+
+const CITY_PREFIX = /^(?:г|гор|город|пгт|пос|поселок|с|село|д|дер|деревня|m|miasto|city of)\s+/;
+
+export class GazetteerService {
+    private countriesByCode = new Map<string, GazetteerCountry>();
+    private countriesByAlias = new Map<string, GazetteerCountry>();
+    private cityAliases: Array<{ city: GazetteerCity; alias: string }> = [];
+    private citiesByName = new Map<string, GazetteerCity>();
+
+    constructor() {
+        for (const country of GAZETTEER_COUNTRIES) {
+            this.countriesByCode.set(country.code, country);
+            for (const alias of [country.name, ...country.aliases]) {
+                this.countriesByAlias.set(this.normalizeName(alias), country);
+            }
+        }
+
+        for (const city of GAZETTEER_CITIES) {
+            this.citiesByName.set(city.name, city);
+            for (const alias of [city.name, ...city.aliases]) {
+                this.cityAliases.push({ city, alias: this.normalizeName(alias) });
+            }
+        }
+    }
+
+    // Дописывает normalized к адресам; исходные country/city/zipcode не меняются
+    normalizeShipment(data: ShipmentRequest): AddressNormalizationResult {
+        const warnings: ShipmentWarning[] = [];
+
+        const shipmentDetails = (data.shipment_details || []).map((detail, index) => {
+            const normalizeAt = (address: ShipmentAddress, field: 'address_from' | 'address_dest'): ShipmentAddress => {
+                if (!address) {
+                    return address;
+                }
+                const path = `shipment_details[${index}].${field}`;
+                const { normalized, cityCountry } = this.resolveAddress(address);
+
+                if (cityCountry) {
+                    warnings.push({
+                        code: 'city_country_mismatch',
+                        path: `${path}.city`,
+                        message: `City "${address.city}" is known in ${cityCountry}, not in ${normalized.country_code}`,
+                        value: { city: address.city, country: address.country }
+                    });
+                }
+                if (normalized.zipcode_valid === false) {
+                    warnings.push({
+                        code: 'zipcode_invalid',
+                        path: `${path}.zipcode`,
+                        message: `Zipcode "${address.zipcode}" does not match the ${normalized.country_code} format`,
+                        value: address.zipcode
+                    });
+                }
+
+                return { ...address, normalized };
+            };
+
+            return {
+                ...detail,
+                address_from: normalizeAt(detail.address_from, 'address_from'),
+                address_dest: normalizeAt(detail.address_dest, 'address_dest')
+            };
+        });
+
+        return { data: { ...data, shipment_details: shipmentDetails }, warnings };
+    }
+
+    normalizeAddress(address: ShipmentAddress | null | undefined): NormalizedAddress {
+        return this.resolveAddress(address).normalized;
+    }
+
+    // normalized.city хранит каноническое название; для сводки на другом языке берется местное, если оно есть
+    getCityName(name: string, locale: SummaryLocale): string {
+        return this.citiesByName.get(name)?.localNames?.[locale] ?? name;
+    }
+
+    findCountry(text: string | null | undefined): GazetteerCountry | null {
+        for (const segment of this.segments(text)) {
+            const byCode = segment.length <= 3 ? this.countriesByCode.get(segment.toUpperCase()) : undefined;
+            const country = byCode ?? this.countriesByAlias.get(segment) ?? this.findInflected(segment, this.countriesByAlias);
+            if (country) {
+                return country;
+            }
+        }
+        return null;
+    }
+
+    findCity(text: string | null | undefined, countryCode: string | null = null): GazetteerCity | null {
+        const candidates = countryCode
+            ? this.cityAliases.filter(entry => entry.city.country === countryCode)
+            : this.cityAliases;
+
+        for (const segment of this.segments(text)) {
+            const name = segment.replace(CITY_PREFIX, '').replace(/\b\d[\d\s-]*\b/g, ' ').replace(/\s+/g, ' ').trim();
+            if (!name) {
+                continue;
+            }
+
+            const exact = candidates.find(entry => entry.alias === name);
+            if (exact) {
+                return exact.city;
+            }
+
+            const inflected = candidates.find(entry => this.isInflectedForm(name, entry.alias));
+            if (inflected) {
+                return inflected.city;
+            }
+        }
+        return null;
+    }
+
+    normalizeZipcode(zipcode: string | null | undefined, country: GazetteerCountry | null): { zipcode: string | null; valid: boolean | null } {
+        if (!zipcode || !zipcode.trim()) {
+            return { zipcode: null, valid: null };
+        }
+
+        let value = zipcode.trim().toUpperCase().replace(/\s+/g, ' ');
+        if (!country?.zipcode) {
+            return { zipcode: value, valid: null };
+        }
+
+        // Префикс страны вида "PL-00-950" или "LT 01100" встречается в европейских адресах
+        value = value.replace(new RegExp(`^${country.code}\\s?-\\s?`), '');
+        // Индекс пишут группами цифр ("220 030", "123 456"); если в формате страны пробела нет, он лишний
+        if (!country.zipcode.pattern.source.includes(' ')) {
+            value = value.replace(/\s+/g, '');
+        }
+        if (country.zipcode.format) {
+            value = value.replace(country.zipcode.format[0], country.zipcode.format[1]);
+        }
+
+        return { zipcode: value, valid: country.zipcode.pattern.test(value) };
+    }
+
+    private resolveAddress(address: ShipmentAddress | null | undefined): { normalized: NormalizedAddress; cityCountry: string | null } {
+        let country = this.findCountry(address?.country);
+        const city = this.findCity(address?.city, country?.code ?? null);
+        let cityCountry: string | null = null;
+
+        if (!city && country && address?.city) {
+            cityCountry = this.findCity(address.city)?.country ?? null;
+        }
+        if (city && !country) {
+            // Страна не указана - берем ее по городу
+            country = this.countriesByCode.get(city.country) ?? null;
+        }
+
+        const zipcode = this.normalizeZipcode(address?.zipcode, country);
+
+        return {
+            normalized: {
+                country_code: country?.code ?? null,
+                country: country?.name ?? null,
+                city: city?.name ?? null,
+                zipcode: zipcode.zipcode,
+                zipcode_valid: zipcode.valid,
+                timezone: city?.timezone ?? country?.timezone ?? null
+            },
+            cityCountry
+        };
+    }
+
+    private findInflected<T>(name: string, aliases: Map<string, T>): T | null {
+        for (const [alias, value] of aliases) {
+            if (this.isInflectedForm(name, alias)) {
+                return value;
+            }
+        }
+        return null;
+    }
+
+    // "минске" -> "минск", "нижнем новгороде" -> "нижний новгород", "warszawie" -> "warszawa"
+    private isInflectedForm(name: string, alias: string): boolean {
+        const words = name.split(' ');
+        const aliasWords = alias.split(' ');
+        if (words.length !== aliasWords.length) {
+            return false;
+        }
+
+        return words.every((word, index) => {
+            const aliasWord = aliasWords[index];
+            let prefixLength = 0;
+            while (prefixLength < word.length && word[prefixLength] === aliasWord[prefixLength]) {
+                prefixLength++;
+            }
+
+            return prefixLength >= Math.min(3, aliasWord.length - 1)
+                && BASE_ENDINGS.has(aliasWord.slice(prefixLength))
+                && CASE_ENDINGS.has(word.slice(prefixLength));
+        });
+    }
+
+    // "Минск, Беларусь" проверяется целиком и по частям
+    private segments(text: string | null | undefined): string[] {
+        if (!text) {
+            return [];
+        }
+        const parts = [text, ...text.split(/[,;/()]/)];
+        return [...new Set(parts.map(part => this.normalizeName(part)).filter(Boolean))];
+    }
+
+    // Диакритика снимается только с латиницы, чтобы не превратить "й" в "и"
+    private normalizeName(value: string): string {
+        return value
+            .toLowerCase()
+            .replace(/ё/g, 'е')
+            .replace(/ł/g, 'l')
+            .normalize('NFD')
+            .replace(/([a-z])[\u0300-\u036f]+/g, '$1')
+            .normalize('NFC')
+            .replace(/[.,;()"«»]/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+}
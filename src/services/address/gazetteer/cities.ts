@@ -0,0 +1,156 @@
+import { SummaryLocale } from '@/models/summary';
+
+export type GazetteerCity = {
+    country: string;
+    name: string;
+    aliases: string[];
+    // Названия для сводок на других языках, если отличаются от канонического
+    localNames?: Partial<Record<SummaryLocale, string>>;
+    // Только если пояс города отличается от основного пояса страны
+    timezone?: string;
+};
+
+// Каноническое название - латиница; aliases включают кириллицу и местные написания в именительном падеже
+export const GAZETTEER_CITIES: GazetteerCity[] = [
+    { country: 'RU', name: 'Moscow', aliases: ['москва', 'moskva', 'moskwa'], localNames: { pl: 'Moskwa' } },
+    { country: 'RU', name: 'Saint Petersburg', aliases: ['санкт-петербург', 'санкт петербург', 'спб', 'питер', 'петербург', 'st petersburg', 'saint-petersburg', 'sankt-peterburg', 'petersburg'], localNames: { pl: 'Sankt Petersburg' } },
+    { country: 'RU', name: 'Kaliningrad', aliases: ['калининград', 'kaliningrad', 'królewiec'], timezone: 'Europe/Kaliningrad' },
+    { country: 'RU', name: 'Nizhny Novgorod', aliases: ['нижний новгород', 'nizhny novgorod', 'nizhniy novgorod'], localNames: { pl: 'Niżny Nowogród' } },
+    { country: 'RU', name: 'Kazan', aliases: ['казань', 'kazan', 'kazań'], localNames: { pl: 'Kazań' } },
+    { country: 'RU', name: 'Smolensk', aliases: ['смоленск', 'smolensk', 'smoleńsk'], localNames: { pl: 'Smoleńsk' } },
+    { country: 'RU', name: 'Bryansk', aliases: ['брянск', 'bryansk'], localNames: { pl: 'Briańsk' } },
+    { country: 'RU', name: 'Voronezh', aliases: ['воронеж', 'voronezh'], localNames: { pl: 'Woroneż' } },
+    { country: 'RU', name: 'Rostov-on-Don', aliases: ['ростов-на-дону', 'ростов на дону', 'rostov-on-don', 'rostov na donu'], localNames: { pl: 'Rostów nad Donem' } },
+    { country: 'RU', name: 'Krasnodar', aliases: ['краснодар', 'krasnodar'] },
+    { country: 'RU', name: 'Novorossiysk', aliases: ['новороссийск', 'novorossiysk'], localNames: { pl: 'Noworosyjsk' } },
+    { country: 'RU', name: 'Volgograd', aliases: ['волгоград', 'volgograd'], localNames: { pl: 'Wołgograd' } },
+    { country: 'RU', name: 'Samara', aliases: ['самара', 'samara'], timezone: 'Europe/Samara' },
+    { country: 'RU', name: 'Izhevsk', aliases: ['ижевск', 'izhevsk'], localNames: { pl: 'Iżewsk' }, timezone: 'Europe/Samara' },
+    { country: 'RU', name: 'Yekaterinburg', aliases: ['екатеринбург', 'yekaterinburg', 'ekaterinburg', 'jekaterynburg'], localNames: { pl: 'Jekaterynburg' }, timezone: 'Asia/Yekaterinburg' },
+    { country: 'RU', name: 'Chelyabinsk', aliases: ['челябинск', 'chelyabinsk'], localNames: { pl: 'Czelabińsk' }, timezone: 'Asia/Yekaterinburg' },
+    { country: 'RU', name: 'Tyumen', aliases: ['тюмень', 'tyumen'], localNames: { pl: 'Tiumeń' }, timezone: 'Asia/Yekaterinburg' },
+    { country: 'RU', name: 'Perm', aliases: ['пермь', 'perm'], timezone: 'Asia/Yekaterinburg' },
+    { country: 'RU', name: 'Ufa', aliases: ['уфа', 'ufa'], timezone: 'Asia/Yekaterinburg' },
+    { country: 'RU', name: 'Omsk', aliases: ['омск', 'omsk'], timezone: 'Asia/Omsk' },
+    { country: 'RU', name: 'Novosibirsk', aliases: ['новосибирск', 'novosibirsk', 'nowosybirsk'], localNames: { pl: 'Nowosybirsk' }, timezone: 'Asia/Novosibirsk' },
+    { country: 'RU', name: 'Tomsk', aliases: ['томск', 'tomsk'], timezone: 'Asia/Tomsk' },
+    { country: 'RU', name: 'Barnaul', aliases: ['барнаул', 'barnaul'], timezone: 'Asia/Barnaul' },
+    { country: 'RU', name: 'Novokuznetsk', aliases: ['новокузнецк', 'novokuznetsk'], localNames: { pl: 'Nowokuźnieck' }, timezone: 'Asia/Novokuznetsk' },
+    { country: 'RU', name: 'Kemerovo', aliases: ['кемерово', 'kemerovo'], timezone: 'Asia/Novokuznetsk' },
+    { country: 'RU', name: 'Krasnoyarsk', aliases: ['красноярск', 'krasnoyarsk'], localNames: { pl: 'Krasnojarsk' }, timezone: 'Asia/Krasnoyarsk' },
+    { country: 'RU', name: 'Irkutsk', aliases: ['иркутск', 'irkutsk'], timezone: 'Asia/Irkutsk' },
+    { country: 'RU', name: 'Chita', aliases: ['чита', 'chita'], localNames: { pl: 'Czyta' }, timezone: 'Asia/Chita' },
+    { country: 'RU', name: 'Yakutsk', aliases: ['якутск', 'yakutsk'], localNames: { pl: 'Jakuck' }, timezone: 'Asia/Yakutsk' },
+    { country: 'RU', name: 'Khabarovsk', aliases: ['хабаровск', 'khabarovsk'], localNames: { pl: 'Chabarowsk' }, timezone: 'Asia/Vladivostok' },
+    { country: 'RU', name: 'Vladivostok', aliases: ['владивосток', 'vladivostok', 'władywostok'], localNames: { pl: 'Władywostok' }, timezone: 'Asia/Vladivostok' },
+    { country: 'RU', name: 'Magadan', aliases: ['магадан', 'magadan'], timezone: 'Asia/Magadan' },
+    { country: 'RU', name: 'Petropavlovsk-Kamchatsky', aliases: ['петропавловск-камчатский', 'petropavlovsk-kamchatsky'], localNames: { pl: 'Pietropawłowsk Kamczacki' }, timezone: 'Asia/Kamchatka' },
+    { country: 'BY', name: 'Minsk', aliases: ['минск', 'minsk', 'mińsk', 'мінск'], localNames: { pl: 'Mińsk' } },
+    { country: 'BY', name: 'Brest', aliases: ['брест', 'brest', 'brześć', 'брэст'], localNames: { pl: 'Brześć' } },
+    { country: 'BY', name: 'Grodno', aliases: ['гродно', 'grodno', 'hrodna', 'гродна'] },
+    { country: 'BY', name: 'Gomel', aliases: ['гомель', 'gomel', 'homel', 'homiel'], localNames: { pl: 'Homel' } },
+    { country: 'BY', name: 'Vitebsk', aliases: ['витебск', 'vitebsk', 'viciebsk', 'witebsk', 'віцебск'], localNames: { pl: 'Witebsk' } },
+    { country: 'BY', name: 'Mogilev', aliases: ['могилев', 'mogilev', 'mahilyow', 'mohylew', 'магілёў'], localNames: { pl: 'Mohylew' } },
+    { country: 'UA', name: 'Kyiv', aliases: ['киев', 'київ', 'kyiv', 'kiev', 'kijów'], localNames: { pl: 'Kijów' } },
+    { country: 'UA', name: 'Lviv', aliases: ['львов', 'львів', 'lviv', 'lwów', 'lvov'], localNames: { pl: 'Lwów' } },
+    { country: 'UA', name: 'Odesa', aliases: ['одесса', 'одеса', 'odesa', 'odessa'], localNames: { pl: 'Odessa' } },
+    { country: 'UA', name: 'Kharkiv', aliases: ['харьков', 'харків', 'kharkiv', 'kharkov', 'charków'], localNames: { pl: 'Charków' } },
+    { country: 'UA', name: 'Dnipro', aliases: ['днепр', 'дніпро', 'dnipro', 'днепропетровск'] },
+    { country: 'KZ', name: 'Almaty', aliases: ['алматы', 'алма-ата', 'almaty', 'ałmaty'], localNames: { pl: 'Ałmaty' } },
+    { country: 'KZ', name: 'Astana', aliases: ['астана', 'нур-султан', 'astana', 'nur-sultan'] },
+    { country: 'KZ', name: 'Aktobe', aliases: ['актобе', 'актюбинск', 'aktobe', 'aqtobe'], timezone: 'Asia/Aqtobe' },
+    { country: 'KZ', name: 'Aktau', aliases: ['актау', 'aktau', 'aqtau'], timezone: 'Asia/Aqtau' },
+    { country: 'KZ', name: 'Atyrau', aliases: ['атырау', 'atyrau'], timezone: 'Asia/Atyrau' },
+    { country: 'KZ', name: 'Oral', aliases: ['уральск', 'орал', 'oral', 'uralsk'], timezone: 'Asia/Oral' },
+    { country: 'UZ', name: 'Tashkent', aliases: ['ташкент', 'tashkent', 'toshkent', 'taszkent'], localNames: { pl: 'Taszkent' } },
+    { country: 'KG', name: 'Bishkek', aliases: ['бишкек', 'bishkek', 'biszkek'], localNames: { pl: 'Biszkek' } },
+    { country: 'AM', name: 'Yerevan', aliases: ['ереван', 'yerevan', 'erywań'], localNames: { pl: 'Erywań' } },
+    { country: 'GE', name: 'Tbilisi', aliases: ['тбилиси', 'tbilisi'] },
+    { country: 'GE', name: 'Poti', aliases: ['поти', 'poti'] },
+    { country: 'AZ', name: 'Baku', aliases: ['баку', 'baku'] },
+    { country: 'MD', name: 'Chisinau', aliases: ['кишинев', 'chisinau', 'chișinău', 'kiszyniów'], localNames: { pl: 'Kiszyniów' } },
+    { country: 'PL', name: 'Warsaw', aliases: ['варшава', 'warszawa', 'warsaw'], localNames: { pl: 'Warszawa' } },
+    { country: 'PL', name: 'Krakow', aliases: ['краков', 'kraków', 'krakow', 'cracow'], localNames: { pl: 'Kraków' } },
+    { country: 'PL', name: 'Lodz', aliases: ['лодзь', 'łódź', 'lodz'], localNames: { pl: 'Łódź' } },
+    { country: 'PL', name: 'Wroclaw', aliases: ['вроцлав', 'wrocław', 'wroclaw'], localNames: { pl: 'Wrocław' } },
+    { country: 'PL', name: 'Poznan', aliases: ['познань', 'poznań', 'poznan'], localNames: { pl: 'Poznań' } },
+    { country: 'PL', name: 'Gdansk', aliases: ['гданьск', 'gdańsk', 'gdansk', 'danzig'], localNames: { pl: 'Gdańsk' } },
+    { country: 'PL', name: 'Gdynia', aliases: ['гдыня', 'gdynia'] },
+    { country: 'PL', name: 'Szczecin', aliases: ['щецин', 'szczecin', 'stettin'] },
+    { country: 'PL', name: 'Katowice', aliases: ['катовице', 'katowice'] },
+    { country: 'PL', name: 'Bialystok', aliases: ['белосток', 'białystok', 'bialystok'], localNames: { pl: 'Białystok' } },
+    { country: 'PL', name: 'Lublin', aliases: ['люблин', 'lublin'] },
+    { country: 'PL', name: 'Terespol', aliases: ['тересполь', 'terespol'] },
+    { country: 'PL', name: 'Malaszewicze', aliases: ['малашевичи', 'małaszewicze', 'malaszewicze'], localNames: { pl: 'Małaszewicze' } },
+    { country: 'DE', name: 'Berlin', aliases: ['берлин', 'berlin'] },
+    { country: 'DE', name: 'Hamburg', aliases: ['гамбург', 'hamburg'] },
+    { country: 'DE', name: 'Munich', aliases: ['мюнхен', 'münchen', 'munich', 'monachium'], localNames: { pl: 'Monachium' } },
+    { country: 'DE', name: 'Frankfurt am Main', aliases: ['франкфурт', 'франкфурт-на-майне', 'frankfurt', 'frankfurt am main', 'frankfurt nad menem'], localNames: { pl: 'Frankfurt nad Menem' } },
+    { country: 'DE', name: 'Cologne', aliases: ['кельн', 'köln', 'koln', 'cologne', 'kolonia'], localNames: { pl: 'Kolonia' } },
+    { country: 'DE', name: 'Dusseldorf', aliases: ['дюссельдорф', 'düsseldorf', 'dusseldorf'], localNames: { pl: 'Düsseldorf' } },
+    { country: 'DE', name: 'Duisburg', aliases: ['дуйсбург', 'duisburg'] },
+    { country: 'DE', name: 'Leipzig', aliases: ['лейпциг', 'leipzig', 'lipsk'], localNames: { pl: 'Lipsk' } },
+    { country: 'DE', name: 'Stuttgart', aliases: ['штутгарт', 'stuttgart'] },
+    { country: 'DE', name: 'Bremen', aliases: ['бремен', 'bremen', 'brema'], localNames: { pl: 'Brema' } },
+    { country: 'NL', name: 'Rotterdam', aliases: ['роттердам', 'rotterdam'] },
+    { country: 'NL', name: 'Amsterdam', aliases: ['амстердам', 'amsterdam'] },
+    { country: 'BE', name: 'Antwerp', aliases: ['антверпен', 'antwerpen', 'antwerp', 'anvers', 'antwerpia'], localNames: { pl: 'Antwerpia' } },
+    { country: 'BE', name: 'Brussels', aliases: ['брюссель', 'brussels', 'bruxelles', 'brussel', 'bruksela'], localNames: { pl: 'Bruksela' } },
+    { country: 'FR', name: 'Paris', aliases: ['париж', 'paris', 'paryż'], localNames: { pl: 'Paryż' } },
+    { country: 'FR', name: 'Lyon', aliases: ['лион', 'lyon'] },
+    { country: 'FR', name: 'Marseille', aliases: ['марсель', 'marseille', 'marsylia'], localNames: { pl: 'Marsylia' } },
+    { country: 'IT', name: 'Milan', aliases: ['милан', 'milano', 'milan', 'mediolan'], localNames: { pl: 'Mediolan' } },
+    { country: 'IT', name: 'Rome', aliases: ['рим', 'roma', 'rome', 'rzym'], localNames: { pl: 'Rzym' } },
+    { country: 'IT', name: 'Turin', aliases: ['турин', 'torino', 'turin', 'turyn'], localNames: { pl: 'Turyn' } },
+    { country: 'IT', name: 'Genoa', aliases: ['генуя', 'genova', 'genoa', 'genua'], localNames: { pl: 'Genua' } },
+    { country: 'ES', name: 'Madrid', aliases: ['мадрид', 'madrid', 'madryt'], localNames: { pl: 'Madryt' } },
+    { country: 'ES', name: 'Barcelona', aliases: ['барселона', 'barcelona'] },
+    { country: 'ES', name: 'Valencia', aliases: ['валенсия', 'valencia', 'walencja'], localNames: { pl: 'Walencja' } },
+    { country: 'AT', name: 'Vienna', aliases: ['вена', 'wien', 'vienna', 'wiedeń'], localNames: { pl: 'Wiedeń' } },
+    { country: 'CH', name: 'Zurich', aliases: ['цюрих', 'zürich', 'zurich', 'zurych'], localNames: { pl: 'Zurych' } },
+    { country: 'CZ', name: 'Prague', aliases: ['прага', 'praha', 'prague', 'praga'], localNames: { pl: 'Praga' } },
+    { country: 'CZ', name: 'Brno', aliases: ['брно', 'brno'] },
+    { country: 'SK', name: 'Bratislava', aliases: ['братислава', 'bratislava', 'bratysława'], localNames: { pl: 'Bratysława' } },
+    { country: 'HU', name: 'Budapest', aliases: ['будапешт', 'budapest', 'budapeszt'], localNames: { pl: 'Budapeszt' } },
+    { country: 'RO', name: 'Bucharest', aliases: ['бухарест', 'bucurești', 'bucuresti', 'bucharest', 'bukareszt'], localNames: { pl: 'Bukareszt' } },
+    { country: 'BG', name: 'Sofia', aliases: ['софия', 'sofia', 'софія', 'sofija'] },
+    { country: 'LT', name: 'Vilnius', aliases: ['вильнюс', 'vilnius', 'wilno'], localNames: { pl: 'Wilno' } },
+    { country: 'LT', name: 'Kaunas', aliases: ['каунас', 'kaunas', 'kowno'], localNames: { pl: 'Kowno' } },
+    { country: 'LT', name: 'Klaipeda', aliases: ['клайпеда', 'klaipėda', 'klaipeda', 'kłajpeda'], localNames: { pl: 'Kłajpeda' } },
+    { country: 'LV', name: 'Riga', aliases: ['рига', 'rīga', 'riga', 'ryga'], localNames: { pl: 'Ryga' } },
+    { country: 'EE', name: 'Tallinn', aliases: ['таллин', 'таллинн', 'tallinn', 'tallin'] },
+    { country: 'FI', name: 'Helsinki', aliases: ['хельсинки', 'helsinki', 'helsingfors'] },
+    { country: 'FI', name: 'Kotka', aliases: ['котка', 'kotka'] },
+    { country: 'SE', name: 'Stockholm', aliases: ['стокгольм', 'stockholm', 'sztokholm'], localNames: { pl: 'Sztokholm' } },
+    { country: 'SE', name: 'Gothenburg', aliases: ['гетеборг', 'göteborg', 'goteborg', 'gothenburg'], localNames: { pl: 'Göteborg' } },
+    { country: 'NO', name: 'Oslo', aliases: ['осло', 'oslo'] },
+    { country: 'DK', name: 'Copenhagen', aliases: ['копенгаген', 'københavn', 'copenhagen', 'kopenhaga'], localNames: { pl: 'Kopenhaga' } },
+    { country: 'GB', name: 'London', aliases: ['лондон', 'london', 'londyn'], localNames: { pl: 'Londyn' } },
+    { country: 'GB', name: 'Felixstowe', aliases: ['феликстоу', 'felixstowe'] },
+    { country: 'IE', name: 'Dublin', aliases: ['дублин', 'dublin'] },
+    { country: 'PT', name: 'Lisbon', aliases: ['лиссабон', 'lisboa', 'lisbon', 'lizbona'], localNames: { pl: 'Lizbona' } },
+    { country: 'GR', name: 'Athens', aliases: ['афины', 'athens', 'athina', 'ateny'], localNames: { pl: 'Ateny' } },
+    { country: 'GR', name: 'Piraeus', aliases: ['пирей', 'piraeus', 'pireas', 'pireus'], localNames: { pl: 'Pireus' } },
+    { country: 'TR', name: 'Istanbul', aliases: ['стамбул', 'istanbul', 'i̇stanbul', 'stambuł'], localNames: { pl: 'Stambuł' } },
+    { country: 'TR', name: 'Mersin', aliases: ['мерсин', 'mersin'] },
+    { country: 'RS', name: 'Belgrade', aliases: ['белград', 'beograd', 'belgrade', 'belgrad'], localNames: { pl: 'Belgrad' } },
+    { country: 'SI', name: 'Koper', aliases: ['копер', 'koper'] },
+    { country: 'SI', name: 'Ljubljana', aliases: ['любляна', 'ljubljana', 'lublana'], localNames: { pl: 'Lublana' } },
+    { country: 'HR', name: 'Zagreb', aliases: ['загреб', 'zagreb', 'zagrzeb'], localNames: { pl: 'Zagrzeb' } },
+    { country: 'CN', name: 'Shanghai', aliases: ['шанхай', 'shanghai', 'szanghaj'], localNames: { pl: 'Szanghaj' } },
+    { country: 'CN', name: 'Beijing', aliases: ['пекин', 'beijing', 'peking', 'pekin'], localNames: { pl: 'Pekin' } },
+    { country: 'CN', name: 'Shenzhen', aliases: ['шэньчжэнь', 'шеньчжень', 'shenzhen'] },
+    { country: 'CN', name: 'Ningbo', aliases: ['нинбо', 'ningbo'] },
+    { country: 'CN', name: 'Guangzhou', aliases: ['гуанчжоу', 'guangzhou', 'kanton'], localNames: { pl: 'Kanton' } },
+    { country: 'CN', name: 'Xian', aliases: ['сиань', "xi'an", 'xian'], localNames: { pl: "Xi'an" } },
+    { country: 'CN', name: 'Urumqi', aliases: ['урумчи', 'urumqi', 'ürümqi'], localNames: { pl: 'Urumczi' } },
+    { country: 'AE', name: 'Dubai', aliases: ['дубай', 'dubai', 'dubaj'], localNames: { pl: 'Dubaj' } },
+    { country: 'US', name: 'New York', aliases: ['нью-йорк', 'new york', 'nowy jork'], localNames: { pl: 'Nowy Jork' } },
+    { country: 'US', name: 'Chicago', aliases: ['чикаго', 'chicago'], timezone: 'America/Chicago' },
+    { country: 'US', name: 'Houston', aliases: ['хьюстон', 'houston'], timezone: 'America/Chicago' },
+    { country: 'US', name: 'Dallas', aliases: ['даллас', 'dallas'], timezone: 'America/Chicago' },
+    { country: 'US', name: 'Denver', aliases: ['денвер', 'denver'], timezone: 'America/Denver' },
+    { country: 'US', name: 'Los Angeles', aliases: ['лос-анджелес', 'los angeles'], timezone: 'America/Los_Angeles' },
+    { country: 'US', name: 'San Francisco', aliases: ['сан-франциско', 'san francisco'], timezone: 'America/Los_Angeles' },
+    { country: 'US', name: 'Seattle', aliases: ['сиэтл', 'seattle'], timezone: 'America/Los_Angeles' }
+];
@@ -0,0 +1,224 @@
+export type GazetteerCountry = {
+    code: string;
+    name: string;
+    aliases: string[];
+    timezone: string;
+    zipcode?: {
+        pattern: RegExp;
+        // Приведение к каноническому виду до проверки, например "00950" -> "00-950"
+        format?: [RegExp, string];
+    };
+};
+
+// ISO 3166-1 alpha-2; aliases - русские, английские, польские и местные названия в нижнем регистре
+export const GAZETTEER_COUNTRIES: GazetteerCountry[] = [
+    {
+        code: 'RU', name: 'Russia', timezone: 'Europe/Moscow',
+        aliases: ['россия', 'рф', 'российская федерация', 'russia', 'russian federation', 'rosja', 'rus'],
+        zipcode: { pattern: /^\d{6}$/ }
+    },
+    {
+        code: 'BY', name: 'Belarus', timezone: 'Europe/Minsk',
+        aliases: ['беларусь', 'белоруссия', 'республика беларусь', 'рб', 'belarus', 'białoruś', 'blr'],
+        zipcode: { pattern: /^2\d{5}$/ }
+    },
+    {
+        code: 'UA', name: 'Ukraine', timezone: 'Europe/Kyiv',
+        aliases: ['украина', 'ukraine', 'ukraina', 'україна', 'ukr'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'KZ', name: 'Kazakhstan', timezone: 'Asia/Almaty',
+        aliases: ['казахстан', 'республика казахстан', 'kazakhstan', 'kazachstan', 'kaz'],
+        zipcode: { pattern: /^(\d{6}|[A-Z]\d{2}[A-Z]\d[A-Z]\d)$/ }
+    },
+    {
+        code: 'UZ', name: 'Uzbekistan', timezone: 'Asia/Tashkent',
+        aliases: ['узбекистан', 'uzbekistan'],
+        zipcode: { pattern: /^\d{6}$/ }
+    },
+    {
+        code: 'KG', name: 'Kyrgyzstan', timezone: 'Asia/Bishkek',
+        aliases: ['киргизия', 'кыргызстан', 'kyrgyzstan', 'kirgistan'],
+        zipcode: { pattern: /^\d{6}$/ }
+    },
+    {
+        code: 'AM', name: 'Armenia', timezone: 'Asia/Yerevan',
+        aliases: ['армения', 'armenia'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'GE', name: 'Georgia', timezone: 'Asia/Tbilisi',
+        aliases: ['грузия', 'georgia', 'gruzja', 'საქართველო'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'AZ', name: 'Azerbaijan', timezone: 'Asia/Baku',
+        aliases: ['азербайджан', 'azerbaijan', 'azerbejdżan'],
+        zipcode: { pattern: /^\d{4}$/, format: [/^AZ\s?(\d{4})$/, '$1'] }
+    },
+    {
+        code: 'MD', name: 'Moldova', timezone: 'Europe/Chisinau',
+        aliases: ['молдова', 'молдавия', 'moldova', 'mołdawia'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'PL', name: 'Poland', timezone: 'Europe/Warsaw',
+        aliases: ['польша', 'poland', 'polska', 'pol'],
+        zipcode: { pattern: /^\d{2}-\d{3}$/, format: [/^(\d{2})\s?-?\s?(\d{3})$/, '$1-$2'] }
+    },
+    {
+        code: 'DE', name: 'Germany', timezone: 'Europe/Berlin',
+        aliases: ['германия', 'germany', 'deutschland', 'niemcy', 'фрг', 'deu'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'FR', name: 'France', timezone: 'Europe/Paris',
+        aliases: ['франция', 'france', 'francja', 'fra'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'IT', name: 'Italy', timezone: 'Europe/Rome',
+        aliases: ['италия', 'italy', 'italia', 'włochy', 'ita'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'ES', name: 'Spain', timezone: 'Europe/Madrid',
+        aliases: ['испания', 'spain', 'españa', 'espana', 'hiszpania', 'esp'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'NL', name: 'Netherlands', timezone: 'Europe/Amsterdam',
+        aliases: ['нидерланды', 'голландия', 'netherlands', 'the netherlands', 'holland', 'nederland', 'holandia', 'niderlandy'],
+        zipcode: { pattern: /^\d{4} [A-Z]{2}$/, format: [/^(\d{4})\s?([A-Z]{2})$/, '$1 $2'] }
+    },
+    {
+        code: 'BE', name: 'Belgium', timezone: 'Europe/Brussels',
+        aliases: ['бельгия', 'belgium', 'belgique', 'belgië', 'belgia'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'AT', name: 'Austria', timezone: 'Europe/Vienna',
+        aliases: ['австрия', 'austria', 'österreich'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'CH', name: 'Switzerland', timezone: 'Europe/Zurich',
+        aliases: ['швейцария', 'switzerland', 'schweiz', 'suisse', 'szwajcaria'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'CZ', name: 'Czechia', timezone: 'Europe/Prague',
+        aliases: ['чехия', 'czech republic', 'czechia', 'česko', 'czechy'],
+        zipcode: { pattern: /^\d{3} \d{2}$/, format: [/^(\d{3})\s?(\d{2})$/, '$1 $2'] }
+    },
+    {
+        code: 'SK', name: 'Slovakia', timezone: 'Europe/Bratislava',
+        aliases: ['словакия', 'slovakia', 'slovensko', 'słowacja'],
+        zipcode: { pattern: /^\d{3} \d{2}$/, format: [/^(\d{3})\s?(\d{2})$/, '$1 $2'] }
+    },
+    {
+        code: 'HU', name: 'Hungary', timezone: 'Europe/Budapest',
+        aliases: ['венгрия', 'hungary', 'magyarország', 'węgry'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'RO', name: 'Romania', timezone: 'Europe/Bucharest',
+        aliases: ['румыния', 'romania', 'românia', 'rumunia'],
+        zipcode: { pattern: /^\d{6}$/ }
+    },
+    {
+        code: 'BG', name: 'Bulgaria', timezone: 'Europe/Sofia',
+        aliases: ['болгария', 'bulgaria', 'българия', 'bułgaria'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'LT', name: 'Lithuania', timezone: 'Europe/Vilnius',
+        aliases: ['литва', 'lithuania', 'lietuva', 'litwa'],
+        zipcode: { pattern: /^\d{5}$/, format: [/^LT\s?-?\s?(\d{5})$/, '$1'] }
+    },
+    {
+        code: 'LV', name: 'Latvia', timezone: 'Europe/Riga',
+        aliases: ['латвия', 'latvia', 'latvija', 'łotwa'],
+        zipcode: { pattern: /^LV-\d{4}$/, format: [/^(\d{4})$/, 'LV-$1'] }
+    },
+    {
+        code: 'EE', name: 'Estonia', timezone: 'Europe/Tallinn',
+        aliases: ['эстония', 'estonia', 'eesti'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'FI', name: 'Finland', timezone: 'Europe/Helsinki',
+        aliases: ['финляндия', 'finland', 'suomi', 'finlandia'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'SE', name: 'Sweden', timezone: 'Europe/Stockholm',
+        aliases: ['швеция', 'sweden', 'sverige', 'szwecja'],
+        zipcode: { pattern: /^\d{3} \d{2}$/, format: [/^(\d{3})\s?(\d{2})$/, '$1 $2'] }
+    },
+    {
+        code: 'NO', name: 'Norway', timezone: 'Europe/Oslo',
+        aliases: ['норвегия', 'norway', 'norge', 'norwegia'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'DK', name: 'Denmark', timezone: 'Europe/Copenhagen',
+        aliases: ['дания', 'denmark', 'danmark', 'dania'],
+        zipcode: { pattern: /^\d{4}$/ }
+    },
+    {
+        code: 'GB', name: 'United Kingdom', timezone: 'Europe/London',
+        aliases: ['великобритания', 'англия', 'соединенное королевство', 'united kingdom', 'uk', 'great britain', 'england', 'wielka brytania'],
+        zipcode: { pattern: /^[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2}$/, format: [/^([A-Z]{1,2}\d[A-Z\d]?)\s?(\d[A-Z]{2})$/, '$1 $2'] }
+    },
+    {
+        code: 'IE', name: 'Ireland', timezone: 'Europe/Dublin',
+        aliases: ['ирландия', 'ireland', 'éire', 'irlandia'],
+        zipcode: { pattern: /^[A-Z]\d[\dW] [A-Z\d]{4}$/, format: [/^([A-Z]\d[\dW])\s?([A-Z\d]{4})$/, '$1 $2'] }
+    },
+    {
+        code: 'PT', name: 'Portugal', timezone: 'Europe/Lisbon',
+        aliases: ['португалия', 'portugal', 'portugalia'],
+        zipcode: { pattern: /^\d{4}-\d{3}$/, format: [/^(\d{4})\s?-?\s?(\d{3})$/, '$1-$2'] }
+    },
+    {
+        code: 'GR', name: 'Greece', timezone: 'Europe/Athens',
+        aliases: ['греция', 'greece', 'ελλάδα', 'grecja'],
+        zipcode: { pattern: /^\d{3} \d{2}$/, format: [/^(\d{3})\s?(\d{2})$/, '$1 $2'] }
+    },
+    {
+        code: 'TR', name: 'Turkey', timezone: 'Europe/Istanbul',
+        aliases: ['турция', 'turkey', 'türkiye', 'turkiye', 'turcja'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'RS', name: 'Serbia', timezone: 'Europe/Belgrade',
+        aliases: ['сербия', 'serbia', 'србија', 'srbija'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'SI', name: 'Slovenia', timezone: 'Europe/Ljubljana',
+        aliases: ['словения', 'slovenia', 'slovenija', 'słowenia'],
+        zipcode: { pattern: /^\d{4}$/, format: [/^SI\s?-?\s?(\d{4})$/, '$1'] }
+    },
+    {
+        code: 'HR', name: 'Croatia', timezone: 'Europe/Zagreb',
+        aliases: ['хорватия', 'croatia', 'hrvatska', 'chorwacja'],
+        zipcode: { pattern: /^\d{5}$/ }
+    },
+    {
+        code: 'CN', name: 'China', timezone: 'Asia/Shanghai',
+        aliases: ['китай', 'кнр', 'china', 'prc', 'chiny', '中国'],
+        zipcode: { pattern: /^\d{6}$/ }
+    },
+    {
+        code: 'AE', name: 'United Arab Emirates', timezone: 'Asia/Dubai',
+        aliases: ['оаэ', 'эмираты', 'объединенные арабские эмираты', 'uae', 'united arab emirates', 'zea']
+    },
+    {
+        code: 'US', name: 'United States', timezone: 'America/New_York',
+        aliases: ['сша', 'америка', 'соединенные штаты', 'usa', 'united states', 'united states of america', 'stany zjednoczone'],
+        zipcode: { pattern: /^\d{5}(-\d{4})?$/ }
+    }
+];
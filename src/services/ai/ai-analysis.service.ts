@@ -1,24 +1,62 @@
-import { GeminiService } from './gemini.service';
-import { EmailGroupRepository } from '@/repositories';
+import { ShipmentExtractionService } from './shipment-extraction.service';
+import { EmailGroupRepository, SummaryEditRepository } from '@/repositories';
 import { SummaryService } from '../summary/summary.service';
 import { logger } from '@/utils';
 import { IEmailGroup } from "@/models/email-group";
-import { ShipmentRequest } from "@/models/summary";
+import {
+    ShipmentRequest,
+    ShipmentValidationError,
+    ShipmentExtractionResult,
+    SummaryAnalysisDetails,
+    SummaryAmendmentEvent,
+    OrderLifecycleStatus,
+    ShipmentWarning
+} from "@/models/summary";
 import { SSEService } from '../sse/sse.service';
 import { EmailGroupId } from '@/utils/email-group-id';
+import { AttachmentTextService } from '../email-group/attachment-text.service';
+import { AttachmentDocument } from '@/models/attachment';
+import { IEmail } from '@/models/email';
+import { PromptTemplateContent } from '@/models/prompt-template';
+import { IExtractionExample } from '@/models/extraction-example';
+import { PromptTemplateService } from './prompt-template.service';
+import { ExtractionCacheService } from './extraction-cache.service';
+import { VocabularyService } from '../vocabulary/vocabulary.service';
+import { FewShotExampleService } from './few-shot-example.service';
+import { SummaryAmendmentService } from '../summary/summary-amendment.service';
+import { ShipmentPipelineService, AnalysisExtractionResult } from './shipment-pipeline.service';
+import { OrderLifecycleService } from '../email-group/order-lifecycle.service';
+import { WebSocketService } from '../websocket/websocket.service';
+
+export type EmailGroupAnalysisOptions = {
+    // Игнорировать кэш извлечения и заново вызвать модель
+    force?: boolean;
+};
 
 export class AiAnalysisService {
     private emailGroupIdService: EmailGroupId;
+    private amendmentService: SummaryAmendmentService;
+    private pipelineService: ShipmentPipelineService;
+    private orderLifecycleService: OrderLifecycleService;
 
     constructor(
-        private geminiService: GeminiService,
+        private extractionService: ShipmentExtractionService,
         private emailGroupRepo: EmailGroupRepository,
-        private summaryService: SummaryService
+        private summaryService: SummaryService,
+        private attachmentTextService: AttachmentTextService,
+        private promptTemplateService: PromptTemplateService,
+        private extractionCacheService: ExtractionCacheService,
+        private vocabularyService: VocabularyService,
+        private fewShotExampleService: FewShotExampleService,
+        private summaryEditRepo: SummaryEditRepository
     ) {
         this.emailGroupIdService = new EmailGroupId();
+        this.amendmentService = new SummaryAmendmentService();
+        this.pipelineService = new ShipmentPipelineService(extractionService, vocabularyService);
+        this.orderLifecycleService = new OrderLifecycleService(emailGroupRepo);
     }
 
-    async processSingleEmailGroup(emailGroupId: string): Promise<{
+    async processSingleEmailGroup(emailGroupId: string, options: EmailGroupAnalysisOptions = {}): Promise<{
         emailGroupId: string;
         summaryId: string;
         analysis: any;
@@ -28,7 +66,7 @@ export class AiAnalysisService {
         let emailGroupData: IEmailGroup | null = null;
 
         try {
-            logger.info(`Starting AI analysis for email group: ${emailGroupId}`);
+            logger.info(`Starting AI analysis for email group: ${emailGroupId}${options.force ? ' (forced, cache bypassed)' : ''}`);
 
             emailGroupData = await this.emailGroupRepo.getEmailGroupByEmailGroupId(emailGroupId);
             if (!emailGroupData) {
@@ -38,6 +76,10 @@ export class AiAnalysisService {
                 throw new Error('No emails available for AI analysis');
             }
 
+            // Новые письма в группе с утвержденной сводкой анализируются как изменение заказа
+            const approvedSummary = await this.summaryService.getApprovedSummaryByEmailGroupId(emailGroupId);
+            const newEmails = emailGroupData.emails.filter(email => email.status === 'not_processed');
+
             let pendingSummary = await this.summaryService.getPendingSummaryByEmailGroupId(emailGroupId);
             let summaryId: string;
 
@@ -75,13 +117,64 @@ export class AiAnalysisService {
             await this.emailGroupRepo.updateEmailStatusForGroup(emailGroupId, 'processing');
 
             let structuredData: ShipmentRequest;
+            let validationErrors: ShipmentValidationError[];
+            let analysisDetails: SummaryAnalysisDetails;
             let summaryText: string;
 
             try {
-                structuredData = await this.geminiService.generateStructuredEmailGroupData(emailGroupData.emails);
-                summaryText = this.geminiService.formatStructuredDataToText(structuredData);
+                const documents = await this.getAttachmentDocuments(emailGroupData.emails);
+                const extracted = await this.extractShipmentData(emailGroupId, emailGroupData.emails, documents, options.force === true);
+                const { extractionResult, conflicts } = pendingSummary
+                    ? await this.reapplyReviewerEdits(summaryId, extracted)
+                    : { extractionResult: extracted, conflicts: [] };
+                const normalized = await this.normalizeShipmentData(extractionResult.shipment_data, emailGroupId, emailGroupData.emails);
+                const warnings = [...(extractionResult.validation_warnings || []), ...normalized.warnings, ...conflicts];
+                structuredData = normalized.data;
+                validationErrors = extractionResult.validation_errors;
+                analysisDetails = {
+                    provenance: extractionResult.provenance,
+                    extraction_method: extractionResult.extraction_method,
+                    disagreements: extractionResult.disagreements,
+                    prompt_version: extractionResult.prompt_version,
+                    warnings: warnings.length > 0 ? warnings : null
+                };
+
+                if (warnings.length > 0) {
+                    logger.warn(`Shipment data for ${emailGroupId} has ${warnings.length} consistency warnings`);
+                }
+                summaryText = this.extractionService.formatStructuredDataToText(structuredData);
+
+                await this.refreshOrderStatus(emailGroupId, emailGroupData.emails, structuredData.order_status);
+
+                if (validationErrors.length > 0) {
+                    logger.warn(`AI analysis returned data that failed schema validation (${validationErrors.length} errors)`);
+
+                    await this.summaryService.updateSummaryAnalysis(
+                        summaryId,
+                        structuredData,
+                        summaryText,
+                        'failed',
+                        { ...analysisDetails, validation_errors: validationErrors }
+                    );
+                    await this.emailGroupRepo.updateEmailStatusForGroup(emailGroupId, 'failed');
+
+                    logger.info(`Summary marked as failed: ${summaryId} - validation errors recorded`);
+
+                    const updatedEmailGroup = await this.emailGroupRepo.getEmailGroupByEmailGroupId(emailGroupId);
+                    if (!updatedEmailGroup) {
+                        throw new Error('Failed to retrieve updated email group after AI analysis');
+                    }
+
+                    return {
+                        emailGroupId,
+                        summaryId,
+                        analysis: structuredData,
+                        summary: summaryText,
+                        updatedEmailGroup
+                    };
+                }
 
-                const hasUsefulData = this.geminiService.isMeaningfulAnalysis(structuredData);
+                const hasUsefulData = this.extractionService.isMeaningfulAnalysis(structuredData);
 
                 if (!hasUsefulData) {
                     logger.warn('AI analysis completed but no useful information found in emails');
@@ -98,7 +191,8 @@ export class AiAnalysisService {
                         summaryId, 
                         structuredData, 
                         summaryText, 
-                        'failed'
+                        'failed',
+                        { ...analysisDetails, validation_errors: null }
                     );
                     await this.emailGroupRepo.updateEmailStatusForGroup(emailGroupId, 'failed');
 
@@ -118,13 +212,56 @@ export class AiAnalysisService {
                     };
                 }
 
+                if (approvedSummary) {
+                    const amendment = this.amendmentService.buildAmendment(
+                        approvedSummary,
+                        structuredData,
+                        newEmails.length > 0 ? newEmails : emailGroupData.emails.slice(-1),
+                        OrderLifecycleService.threadSubject(emailGroupData.emails)
+                    );
+
+                    if (!amendment) {
+                        await this.summaryService.deleteSummary(summaryId);
+                        await this.emailGroupRepo.updateEmailStatusForGroup(emailGroupId, 'processed');
+
+                        logger.info(`Summary ${summaryId} discarded - no changes against approved ${approvedSummary.summaryId}`);
+
+                        const updatedEmailGroup = await this.emailGroupRepo.getEmailGroupByEmailGroupId(emailGroupId);
+                        if (!updatedEmailGroup) {
+                            throw new Error('Failed to retrieve updated email group after AI analysis');
+                        }
+
+                        return {
+                            emailGroupId,
+                            summaryId: approvedSummary.summaryId,
+                            analysis: approvedSummary.shipment_data,
+                            summary: approvedSummary.summary,
+                            updatedEmailGroup
+                        };
+                    }
+
+                    analysisDetails.amends_summary_id = approvedSummary.summaryId;
+                    analysisDetails.amendment = amendment;
+                }
+
                 logger.info('AI analysis completed successfully with useful data');
 
-                await this.summaryService.updateSummaryAnalysis(summaryId, structuredData, summaryText, 'pending');
+                await this.summaryService.updateSummaryAnalysis(summaryId, structuredData, summaryText, 'pending', { ...analysisDetails, validation_errors: null });
                 await this.emailGroupRepo.updateEmailStatusForGroup(emailGroupId, 'processed');
 
                 logger.info(`Summary marked as pending for confirmation: ${summaryId}`);
 
+                if (approvedSummary && analysisDetails.amendment) {
+                    this.notifyAmendment({
+                        emailGroupId,
+                        summaryId,
+                        amends_summary_id: approvedSummary.summaryId,
+                        type: analysisDetails.amendment.type,
+                        changes: analysisDetails.amendment.changes,
+                        shipment_data: structuredData
+                    });
+                }
+
                 try {
                     const sseService = SSEService.getInstance();
                     const updatedGroupForSse = await this.emailGroupRepo.getEmailGroupByEmailGroupId(emailGroupId);
@@ -142,6 +279,8 @@ export class AiAnalysisService {
                 const errorMessage = aiError.response?.data?.error?.message || aiError.message;
                 
                 logger.error(`AI analysis error (${statusCode}): ${errorMessage}. Summary and emails will be marked as failed.`);
+
+                await this.refreshOrderStatus(emailGroupId, emailGroupData.emails);
                 
                 await this.emailGroupRepo.updateEmailStatusForGroup(emailGroupId, 'failed');
                 await this.summaryService.markSummaryAsFailed(summaryId);
@@ -169,7 +308,7 @@ export class AiAnalysisService {
                 await this.emailGroupRepo.updateEmailStatusForGroup(emailGroupId, 'failed');
 
                 const activeSummary = await this.summaryService.getActiveSummaryByEmailGroupId(emailGroupId);
-                if (activeSummary) {
+                if (activeSummary && activeSummary.status !== 'approved') {
                     await this.summaryService.markSummaryAsFailed(activeSummary.summaryId);
                 }
             } catch (cleanupError) {
@@ -180,30 +319,103 @@ export class AiAnalysisService {
         }
     }
 
+    // Коды словаря, нормализованные адреса и расписание; используется и при ручной правке сводки
+    async normalizeShipmentData(data: ShipmentRequest, emailGroupId: string, emails: IEmail[]): Promise<{ data: ShipmentRequest; warnings: ShipmentWarning[] }> {
+        return this.pipelineService.normalize(data, emailGroupId, emails);
+    }
+
+    // Повторный анализ ожидающей сводки не должен стирать исправления оператора из истории правок
+    private async reapplyReviewerEdits(
+        summaryId: string,
+        extractionResult: AnalysisExtractionResult
+    ): Promise<{ extractionResult: AnalysisExtractionResult; conflicts: ShipmentWarning[] }> {
+        const edits = await this.summaryEditRepo.getEditsBySummaryId(summaryId);
+        if (edits.length === 0) {
+            return { extractionResult, conflicts: [] };
+        }
+
+        const { data, conflicts } = this.amendmentService.reapplyEdits(extractionResult.shipment_data, edits);
+        const editedPaths = new Set(edits.map(edit => edit.path));
+        const provenance = Object.fromEntries(
+            Object.entries(extractionResult.provenance || {}).filter(([path]) => !editedPaths.has(path))
+        );
+
+        logger.info(`Reapplied ${editedPaths.size} reviewer edits to ${summaryId}${conflicts.length > 0 ? `, ${conflicts.length} conflict with new emails` : ''}`);
+        return { extractionResult: { ...extractionResult, shipment_data: data, provenance }, conflicts };
+    }
+
+    private async refreshOrderStatus(emailGroupId: string, emails: IEmail[], aiStatus?: OrderLifecycleStatus | null): Promise<void> {
+        try {
+            await this.orderLifecycleService.updateForGroup(emailGroupId, emails, aiStatus);
+        } catch (error) {
+            logger.error(`Failed to update order status for ${emailGroupId}:`, error);
+        }
+    }
+
+    private notifyAmendment(event: SummaryAmendmentEvent): void {
+        try {
+            WebSocketService.getInstance().sendSummaryAmendment(event);
+            SSEService.getInstance().sendSummaryAmendment(event);
+        } catch (error) {
+            logger.error('Failed to send amendment event:', error);
+        }
+    }
+
+    private async extractShipmentData(emailGroupId: string, emails: IEmail[], documents: AttachmentDocument[], force: boolean): Promise<AnalysisExtractionResult> {
+        return this.pipelineService.extract(emails, documents, async () => {
+            const promptTemplate = await this.promptTemplateService.getActiveTemplate();
+            const examples = await this.fewShotExampleService.selectExamples(emails, emailGroupId);
+            return this.extractWithCache(emails, documents, promptTemplate, examples, force);
+        });
+    }
+
+    private async extractWithCache(
+        emails: IEmail[],
+        documents: AttachmentDocument[],
+        promptTemplate: PromptTemplateContent,
+        examples: IExtractionExample[],
+        force: boolean
+    ): Promise<ShipmentExtractionResult> {
+        if (!this.extractionCacheService.isEnabled()) {
+            return this.extractionService.generateStructuredEmailGroupData(emails, documents, promptTemplate, examples);
+        }
+
+        const model = `${this.extractionService.getProviderName()}:${this.extractionService.getModelName()}`;
+        const cacheKey = this.extractionCacheService.buildKey(emails, documents, promptTemplate.id, model, examples);
+
+        if (!force) {
+            const cachedResult = await this.extractionCacheService.get(cacheKey, emails, documents);
+            if (cachedResult) {
+                logger.info(`Extraction cache hit (${cacheKey.substring(0, 12)}), skipping ${model} call`);
+                return cachedResult;
+            }
+        }
+
+        const aiResult = await this.extractionService.generateStructuredEmailGroupData(emails, documents, promptTemplate, examples);
+
+        // Невалидные ответы не кэшируем, чтобы следующий запуск мог получить корректный результат
+        if (aiResult.validation_errors.length === 0) {
+            await this.extractionCacheService.set(cacheKey, promptTemplate.id, model, aiResult, emails, documents);
+        }
+
+        return aiResult;
+    }
+
+    private async getAttachmentDocuments(emails: IEmail[]): Promise<AttachmentDocument[]> {
+        try {
+            return await this.attachmentTextService.getDocumentsForEmails(emails);
+        } catch (error) {
+            logger.warn('Failed to extract attachment texts, continuing with email text only:', error);
+            return [];
+        }
+    }
+
     async processAllPendingSummaries(): Promise<{ processed: number; total: number }> {
         try {
             const allEmailGroups = await this.emailGroupRepo.getAllEmailGroups();
-            let processedCount = 0;
+            const emailGroupIds = this.selectPendingGroupIds(allEmailGroups);
 
-            for (const emailGroup of allEmailGroups) {
-                try {
-                    if (emailGroup.emails && emailGroup.emails.length > 0) {
-                        const hasPendingSummary = emailGroup.summary && 
-                            (emailGroup.summary.status === 'pending' || emailGroup.summary.status === 'processing');
-                        const shouldProcess = !hasPendingSummary || 
-                            (emailGroup.summary &&
-                                emailGroup.summary.status !== 'approved' &&
-                                emailGroup.summary.status !== 'rejected');
-
-                        if (shouldProcess) {
-                            await this.processSingleEmailGroup(emailGroup.emailGroupId);
-                            processedCount++;
-                        }
-                    }
-                } catch (error) {
-                    logger.warn(`AI analysis failed for email group ${emailGroup.emailGroupId}:`, error);
-                }
-            }
+            const processedCount = await this.processEmailGroups(emailGroupIds);
 
             return { processed: processedCount, total: allEmailGroups.length };
         } catch (error) {
@@ -215,33 +427,77 @@ export class AiAnalysisService {
     async generateSummariesForNeedingGroups(): Promise<{ processed: number; total: number }> {
         try {
             const allEmailGroups = await this.emailGroupRepo.getAllEmailGroups();
-            let processedCount = 0;
-    
-            for (const emailGroup of allEmailGroups) {
-                try {
-                    const hasNoSummary = !emailGroup.summary || !emailGroup.summary.summaryId;
-                    
-                    const hasNotProcessedEmails = emailGroup.emails?.some(
-                        email => email.status === 'not_processed'
-                    ) || false;
-                    
-                    const hasFailedSummary = emailGroup.summary?.status === 'failed';
-    
-                    if ((hasNoSummary || hasNotProcessedEmails || hasFailedSummary) && 
-                        emailGroup.emails && emailGroup.emails.length > 0) {
-                        
-                        await this.processSingleEmailGroup(emailGroup.emailGroupId);
-                        processedCount++;
-                    }
-                } catch (error) {
-                    logger.warn(`AI analysis failed for email group ${emailGroup.emailGroupId}:`, error);
-                }
-            }
-    
+            const emailGroupIds = this.selectNeedingGroupIds(allEmailGroups);
+
+            const processedCount = await this.processEmailGroups(emailGroupIds);
+
             return { processed: processedCount, total: allEmailGroups.length };
         } catch (error) {
             logger.error('Error processing email groups without summary:', error);
             throw error;
         }
     }
+
+    async generateSummariesForGroups(emailGroupIds: string[]): Promise<{ processed: number; total: number }> {
+        const processedCount = await this.processEmailGroups(emailGroupIds);
+        return { processed: processedCount, total: emailGroupIds.length };
+    }
+
+    async getEmailGroupIdsForBackfill(scope: 'needing' | 'pending'): Promise<{ emailGroupIds: string[]; total: number }> {
+        const allEmailGroups = await this.emailGroupRepo.getAllEmailGroups();
+        const emailGroupIds = scope === 'pending'
+            ? this.selectPendingGroupIds(allEmailGroups)
+            : this.selectNeedingGroupIds(allEmailGroups);
+
+        return { emailGroupIds, total: allEmailGroups.length };
+    }
+
+    private async processEmailGroups(emailGroupIds: string[]): Promise<number> {
+        let processedCount = 0;
+
+        for (const emailGroupId of emailGroupIds) {
+            try {
+                await this.processSingleEmailGroup(emailGroupId);
+                processedCount++;
+            } catch (error) {
+                logger.warn(`AI analysis failed for email group ${emailGroupId}:`, error);
+            }
+        }
+
+        return processedCount;
+    }
+
+    private selectPendingGroupIds(emailGroups: IEmailGroup[]): string[] {
+        return emailGroups
+            .filter(emailGroup => {
+                if (!emailGroup.emails || emailGroup.emails.length === 0) {
+                    return false;
+                }
+
+                const hasPendingSummary = emailGroup.summary && 
+                    (emailGroup.summary.status === 'pending' || emailGroup.summary.status === 'processing');
+                return !hasPendingSummary || 
+                    (emailGroup.summary &&
+                        emailGroup.summary.status !== 'approved' &&
+                        emailGroup.summary.status !== 'rejected');
+            })
+            .map(emailGroup => emailGroup.emailGroupId);
+    }
+
+    private selectNeedingGroupIds(emailGroups: IEmailGroup[]): string[] {
+        return emailGroups
+            .filter(emailGroup => {
+                const hasNoSummary = !emailGroup.summary || !emailGroup.summary.summaryId;
+                
+                const hasNotProcessedEmails = emailGroup.emails?.some(
+                    email => email.status === 'not_processed'
+                ) || false;
+                
+                const hasFailedSummary = emailGroup.summary?.status === 'failed';
+
+                return (hasNoSummary || hasNotProcessedEmails || hasFailedSummary) && 
+                    !!emailGroup.emails && emailGroup.emails.length > 0;
+            })
+            .map(emailGroup => emailGroup.emailGroupId);
+    }
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { ShipmentRequest, CargoDimensions, CargoTotals, PackageType, PACKAGE_TYPES } from '@/models/summary';
+
+const NUMBER = String.raw`\d+(?:[ \u00a0]\d{3}|[.,]\d{3}(?=[.,]\d))*(?:[.,]\d+)?`;
+// "20-22 т", "от 20 до 22 т": единица стоит только после второго числа
+const RANGE_SEPARATOR = String.raw`\s*(?:-|–|—|\.\.\.?|до|to)\s*`;
+
+const WEIGHT_UNITS: Array<{ pattern: RegExp; factor: number }> = [
+    { pattern: /^(?:кг|килограмм[а-яё]*|kg|kgs|kilo(?:gram)?s?)$/, factor: 1 },
+    { pattern: /^(?:т|тн|тонн[а-яё]*|t|tn|tons?|tonnes?|ton[ay]?)$/, factor: 1000 },
+    { pattern: /^(?:г|гр|грамм[а-яё]*|g|grams?)$/, factor: 0.001 },
+    { pattern: /^(?:lbs?|фунт[а-яё]*)$/, factor: 0.45359237 }
+];
+
+const VOLUME_UNITS: Array<{ pattern: RegExp; factor: number }> = [
+    { pattern: /^(?:м3|м³|куб(?:\.?\s?м)?|кубов|кубометр[а-яё]*|m3|m³|cbm|cubic\s?met(?:er|re)s?)$/, factor: 1 },
+    { pattern: /^(?:л|литр[а-яё]*|l|litres?|liters?)$/, factor: 0.001 }
+];
+
+const LENGTH_UNITS: Record<string, number> = {
+    'мм': 0.1, 'mm': 0.1,
+    'см': 1, 'cm': 1,
+    'м': 100, 'm': 100
+};
+
+// Место груза меньше сантиметра или длиннее удлиненного трала - признак смешанных или перепутанных единиц
+const MIN_SIDE_CM = 1;
+const MAX_SIDE_CM = 2500;
+
+const PACKAGE_PATTERNS: Array<{ type: PackageType; pattern: RegExp }> = [
+    { type: 'euro_pallet', pattern: /(евро[\s-]?(?:паллет|палет|поддон)|euro[\s-]?pal|epal|\beur\b)/ },
+    { type: 'ibc', pattern: /(\bibc\b|еврокуб)/ },
+    { type: 'pallet', pattern: /(паллет|палет|поддон|pallet|palet)/ },
+    { type: 'box', pattern: /(короб|картон|\bbox|carton|karton)/ },
+    { type: 'crate', pattern: /(ящик|crate|skrzyn)/ },
+    { type: 'bag', pattern: /(мешк|мешок|биг[\s-]?бэг|\bbags?\b|big[\s-]?bag|work(?:i|ów)?\b)/ },
+    { type: 'drum', pattern: /(бочк|бочек|drum|beczk)/ },
+    { type: 'roll', pattern: /(рулон|\brolls?\b|rolk)/ },
+    { type: 'bulk', pattern: /(навал|насып|\bbulk|luzem)/ },
+    { type: 'container', pattern: /(контейнер|container|kontener)/ }
+];
+
+// Разбор величин груза из ответа модели или текста письма с приведением к каноническим единицам
+export class CargoMeasurementService {
+    parseWeightKg(value: unknown): number | null {
+        return this.parseWithUnits(value, WEIGHT_UNITS);
+    }
+
+    parseVolumeM3(value: unknown): number | null {
+        return this.parseWithUnits(value, VOLUME_UNITS);
+    }
+
+    parseLoadingMeters(value: unknown): number | null {
+        if (typeof value === 'number') {
+            return isFinite(value) && value > 0 ? this.round(value) : null;
+        }
+        if (typeof value !== 'string') {
+            return null;
+        }
+
+        const match = value.toLowerCase().match(new RegExp(`(${NUMBER})\\s*(?:ldm|лдм|п\\.?\\s?м\\.?|погонн[а-яё]*\\s+метр[а-яё]*|m)?(?![а-яёa-z])`));
+        const amount = match ? this.parseNumber(match[1], true) : null;
+        return amount !== null && amount > 0 ? this.round(amount) : null;
+    }
+
+    parseCount(value: unknown): number | null {
+        const amount = typeof value === 'number' ? value : typeof value === 'string' ? this.parseNumber(value.match(new RegExp(NUMBER))?.[0] ?? '') : null;
+        return amount !== null && isFinite(amount) && amount > 0 ? Math.round(amount) : null;
+    }
+
+    parsePackageType(value: unknown): PackageType | null {
+        if (typeof value !== 'string' || !value.trim()) {
+            return null;
+        }
+
+        const text = value.trim().toLowerCase().replace(/ё/g, 'е');
+        if ((PACKAGE_TYPES as readonly string[]).includes(text)) {
+            return text as PackageType;
+        }
+        return PACKAGE_PATTERNS.find(entry => entry.pattern.test(text))?.type ?? 'other';
+    }
+
+    // "120x80x150 см", "1,2 × 0,8 × 1,5 м", "1200*800*1500 мм". Без единиц: до 20 - метры, от 300 - миллиметры, между ними - см.
+    // Габариты со стороной вне MIN_SIDE_CM..MAX_SIDE_CM не принимаются: "120 x 80 x 1.5 м" - это смесь см и метров
+    parseDimensionsCm(value: unknown): CargoDimensions | null {
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+            const input = value as Record<string, unknown>;
+            const [length, width, height] = [
+                input.length_cm ?? input.length,
+                input.width_cm ?? input.width,
+                input.height_cm ?? input.height
+            ].map(part => typeof part === 'number' ? part : typeof part === 'string' ? this.parseNumber(part, true) : null);
+            return this.toDimensions([length, width, height], 1);
+        }
+        if (typeof value !== 'string') {
+            return null;
+        }
+
+        const text = value.toLowerCase();
+        const match = text.match(new RegExp(`(${NUMBER})\\s*[xх×*]\\s*(${NUMBER})\\s*[xх×*]\\s*(${NUMBER})\\s*(мм|mm|см|cm|м|m)?(?![а-яёa-z])`));
+        if (!match) {
+            return null;
+        }
+
+        const parts = [match[1], match[2], match[3]].map(part => this.parseNumber(part, true));
+        const largest = Math.max(...parts.map(part => part ?? 0));
+        const unit = match[4];
+        const factor = unit
+            ? LENGTH_UNITS[unit]
+            : largest <= 20 ? LENGTH_UNITS['m'] : largest >= 300 ? LENGTH_UNITS['mm'] : LENGTH_UNITS['cm'];
+
+        const dimensions = this.toDimensions(parts, factor);
+        if (!dimensions) {
+            return null;
+        }
+
+        const sides = [dimensions.length_cm, dimensions.width_cm, dimensions.height_cm];
+        return Math.min(...sides) >= MIN_SIDE_CM && Math.max(...sides) <= MAX_SIDE_CM ? dimensions : null;
+    }
+
+    // Итоги по всем местам для перевозчика; поле null, если ни у одного места оно не указано
+    summarize(data: ShipmentRequest): CargoTotals {
+        const contents = (data.shipment_details || []).flatMap(detail => detail.contents || []);
+
+        const sum = (field: 'gross_weight_kg' | 'volume_m3' | 'loading_meters' | 'pallet_count'): number | null => {
+            const values = contents
+                .map(content => content[field])
+                .filter((amount): amount is number => typeof amount === 'number');
+            return values.length > 0 ? this.round(values.reduce((total, amount) => total + amount, 0)) : null;
+        };
+
+        return {
+            gross_weight_kg: sum('gross_weight_kg'),
+            volume_m3: sum('volume_m3'),
+            loading_meters: sum('loading_meters'),
+            pallet_count: sum('pallet_count')
+        };
+    }
+
+    private parseWithUnits(value: unknown, units: Array<{ pattern: RegExp; factor: number }>): number | null {
+        if (typeof value === 'number') {
+            return isFinite(value) && value > 0 ? this.round(value) : null;
+        }
+        if (typeof value !== 'string') {
+            return null;
+        }
+
+        const text = value.toLowerCase().replace(/ё/g, 'е');
+        const match = text.match(new RegExp(`(${NUMBER})(?:${RANGE_SEPARATOR}(${NUMBER}))?\\s*([a-zа-я³3.]+(?:\\s?м)?)?`));
+        if (!match) {
+            return null;
+        }
+
+        // Из диапазона берется верхняя граница - под нее перевозчик подбирает машину
+        const amount = match[2] ? this.parseNumber(match[2]) : this.parseNumber(match[1]);
+        const unitText = (match[3] || '').replace(/\.$/, '');
+        const unit = unitText ? units.find(candidate => candidate.pattern.test(unitText)) : units[0];
+        if (amount === null || amount <= 0 || !unit) {
+            return null;
+        }
+
+        return this.round(amount * unit.factor);
+    }
+
+    // "1 200,5" и "1,200.5" -> 1200.5; точка или запятая ровно с тремя цифрами после нее - разделитель тысяч ("20.000 кг").
+    // В габаритах и погонных метрах точка всегда десятичная: "1.200 x 0.800 x 1.500 м", "13.600 ldm"
+    private parseNumber(text: string, decimalDot: boolean = false): number | null {
+        let normalized = text.replace(/[ \u00a0]/g, '');
+        if (!normalized) {
+            return null;
+        }
+
+        if (normalized.includes(',') && normalized.includes('.')) {
+            normalized = normalized.lastIndexOf(',') > normalized.lastIndexOf('.')
+                ? normalized.replace(/\./g, '').replace(',', '.')
+                : normalized.replace(/,/g, '');
+        } else if (/^[1-9]\d{0,2}(?:,\d{3})+$/.test(normalized)) {
+            normalized = normalized.replace(/,/g, '');
+        } else if (!decimalDot && /^[1-9]\d{0,2}(?:\.\d{3})+$/.test(normalized)) {
+            normalized = normalized.replace(/\./g, '');
+        } else {
+            normalized = normalized.replace(',', '.');
+        }
+
+        const amount = parseFloat(normalized);
+        return isNaN(amount) ? null : amount;
+    }
+
+    private toDimensions(parts: Array<number | null>, factor: number): CargoDimensions | null {
+        if (parts.some(part => part === null || !isFinite(part) || part <= 0)) {
+            return null;
+        }
+
+        const [length, width, height] = parts.map(part => this.round(part! * factor, 1));
+        return { length_cm: length, width_cm: width, height_cm: height };
+    }
+
+    private round(value: number, digits: number = 3): number {
+        const factor = Math.pow(10, digits);
+        return Math.round(value * factor) / factor;
+    }
+}
@@ -0,0 +1,140 @@
+import { createHash } from 'crypto';
+import { ExtractionCacheRepository } from '@/repositories';
+import { IEmail } from '@/models/email';
+import { AttachmentDocument } from '@/models/attachment';
+import { ShipmentExtractionResult, ShipmentProvenance } from '@/models/summary';
+import { IExtractionExample } from '@/models/extraction-example';
+import { aiConfig } from '@/config/ai.config';
+import { logger } from '@/utils';
+
+export class ExtractionCacheService {
+    constructor(private cacheRepo: ExtractionCacheRepository) {}
+
+    isEnabled(): boolean {
+        return aiConfig.cache.enabled;
+    }
+
+    // Статусы писем и порядок выборки из БД не влияют на ключ — только содержимое, которое уходит в промпт
+    buildKey(emails: IEmail[], documents: AttachmentDocument[], promptVersion: string, model: string, examples: IExtractionExample[] = []): string {
+        const normalizedEmails = this.sortEmails(emails).map(({ normalized }) => normalized);
+        const normalizedDocuments = this.sortDocuments(documents).map(({ normalized }) => normalized);
+
+        // Без примеров ключ совпадает с прежним; правка примера меняет промпт, поэтому учитывается updatedAt
+        const exampleVersions = examples.map(example => `${example.id}:${example.updatedAt ? new Date(example.updatedAt).toISOString() : ''}`);
+
+        return createHash('sha256')
+            .update(JSON.stringify({
+                promptVersion,
+                model,
+                emails: normalizedEmails,
+                documents: normalizedDocuments,
+                ...(exampleVersions.length > 0 ? { examples: exampleVersions } : {})
+            }))
+            .digest('hex');
+    }
+
+    async get(cacheKey: string, emails: IEmail[], documents: AttachmentDocument[]): Promise<ShipmentExtractionResult | null> {
+        try {
+            const entry = await this.cacheRepo.getEntry(cacheKey);
+            if (!entry) {
+                return null;
+            }
+
+            const ageMs = Date.now() - new Date(entry.updatedAt || entry.createdAt || 0).getTime();
+            if (aiConfig.cache.ttlDays > 0 && ageMs > aiConfig.cache.ttlDays * 24 * 60 * 60 * 1000) {
+                logger.info(`Extraction cache entry ${cacheKey.substring(0, 12)} expired`);
+                return null;
+            }
+
+            await this.cacheRepo.recordHit(cacheKey);
+            return { ...entry.result, provenance: this.mapSources(entry.result.provenance, emails, documents, 'restore') };
+        } catch (error) {
+            logger.warn('Extraction cache lookup failed, calling the model:', error);
+            return null;
+        }
+    }
+
+    async set(
+        cacheKey: string,
+        promptVersion: string,
+        model: string,
+        result: ShipmentExtractionResult,
+        emails: IEmail[],
+        documents: AttachmentDocument[]
+    ): Promise<void> {
+        try {
+            const cachedResult = { ...result, provenance: this.mapSources(result.provenance, emails, documents, 'store') };
+            await this.cacheRepo.saveEntry({ cacheKey, promptVersion, model, result: cachedResult });
+        } catch (error) {
+            logger.warn('Failed to store extraction result in cache:', error);
+        }
+    }
+
+    // Запись кэша подходит любой группе с тем же содержимым, поэтому источники в ней хранятся позицией письма
+    // и вложения в порядке ключа ("#0"), а при попадании заменяются id писем и вложений текущей группы
+    private mapSources(
+        provenance: ShipmentProvenance,
+        emails: IEmail[],
+        documents: AttachmentDocument[],
+        direction: 'store' | 'restore'
+    ): ShipmentProvenance {
+        const emailIds = this.sortEmails(emails).map(({ email }) => email.id);
+        const attachmentIds = this.sortDocuments(documents).map(({ document }) => document.attachmentId);
+
+        const mapId = (id: string | null, ids: string[]): string | null => {
+            if (id === null) {
+                return null;
+            }
+            if (direction === 'store') {
+                const index = ids.indexOf(id);
+                return index >= 0 ? `#${index}` : null;
+            }
+            const position = id.match(/^#(\d+)$/);
+            return position ? ids[Number(position[1])] ?? null : null;
+        };
+
+        return Object.fromEntries(
+            Object.entries(provenance || {}).map(([path, source]) => [path, {
+                ...source,
+                email_id: mapId(source.email_id, emailIds),
+                attachment_id: mapId(source.attachment_id, attachmentIds)
+            }])
+        );
+    }
+
+    private sortEmails(emails: IEmail[]): Array<{ email: IEmail; normalized: Record<string, string> }> {
+        return emails
+            .map(email => ({
+                email,
+                normalized: {
+                    from: this.normalizeText(email.from),
+                    to: this.normalizeText(email.to),
+                    subject: this.normalizeText(email.subject),
+                    date: email.date ? new Date(email.date).toISOString() : '',
+                    text: this.normalizeText(email.text)
+                }
+            }))
+            .sort(({ normalized: a }, { normalized: b }) => a.date.localeCompare(b.date) || a.subject.localeCompare(b.subject) || a.text.localeCompare(b.text));
+    }
+
+    private sortDocuments(documents: AttachmentDocument[]): Array<{ document: AttachmentDocument; normalized: Record<string, string> }> {
+        return documents
+            .map(document => ({
+                document,
+                normalized: {
+                    filename: this.normalizeText(document.filename),
+                    text: this.normalizeText(document.text)
+                }
+            }))
+            .sort(({ normalized: a }, { normalized: b }) => a.filename.localeCompare(b.filename) || a.text.localeCompare(b.text));
+    }
+
+    private normalizeText(value: string | null | undefined): string {
+        return (value || '')
+            .replace(/\r\n?/g, '\n')
+            .replace(/[ \t ]+/g, ' ')
+            .replace(/ *\n */g, '\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+}
@@ -0,0 +1,116 @@
+import { IEmail } from '@/models/email';
+import { AttachmentDocument } from '@/models/attachment';
+import { FieldProvenance, ShipmentProvenance } from '@/models/summary';
+import { logger } from '@/utils';
+
+export interface ExtractionSource {
+    label: string;
+    sourceType: 'email' | 'attachment';
+    emailId: string;
+    attachmentId: string | null;
+    text: string;
+}
+
+export class ExtractionProvenanceService {
+    private readonly MAX_SNIPPET_LENGTH = 300;
+    private readonly UNGROUNDED_CONFIDENCE_FACTOR = 0.5;
+
+    buildSourceIndex(emails: IEmail[], documents: AttachmentDocument[] = []): Map<string, ExtractionSource> {
+        const sources = new Map<string, ExtractionSource>();
+
+        emails.forEach((email, emailIndex) => {
+            const emailLabel = `Email ${emailIndex + 1}`;
+            sources.set(emailLabel.toLowerCase(), {
+                label: emailLabel,
+                sourceType: 'email',
+                emailId: email.id,
+                attachmentId: null,
+                text: `${email.subject || ''}\n${email.from || ''}\n${email.to || ''}\n${email.text || ''}`
+            });
+
+            documents
+                .filter(document => document.emailId === email.id)
+                .forEach((document, documentIndex) => {
+                    const attachmentLabel = `Attachment ${emailIndex + 1}.${documentIndex + 1}`;
+                    sources.set(attachmentLabel.toLowerCase(), {
+                        label: attachmentLabel,
+                        sourceType: 'attachment',
+                        emailId: email.id,
+                        attachmentId: document.attachmentId,
+                        text: document.text
+                    });
+                });
+        });
+
+        return sources;
+    }
+
+    resolveProvenance(rawProvenance: unknown, sources: Map<string, ExtractionSource>): ShipmentProvenance {
+        const provenance: ShipmentProvenance = {};
+
+        if (!rawProvenance || typeof rawProvenance !== 'object' || Array.isArray(rawProvenance)) {
+            return provenance;
+        }
+
+        for (const [fieldPath, rawEntry] of Object.entries(rawProvenance as Record<string, any>)) {
+            if (!rawEntry || typeof rawEntry !== 'object') {
+                continue;
+            }
+
+            const source = this.findSource(rawEntry.source, sources);
+            if (!source) {
+                logger.debug(`Provenance for ${fieldPath} references unknown source: ${rawEntry.source}`);
+                continue;
+            }
+
+            const snippet = typeof rawEntry.snippet === 'string' && rawEntry.snippet.trim().length > 0
+                ? rawEntry.snippet.trim().substring(0, this.MAX_SNIPPET_LENGTH)
+                : null;
+
+            let confidence = this.parseConfidence(rawEntry.confidence);
+            // Цитата, которой нет в источнике, - признак галлюцинации
+            if (snippet && !this.containsSnippet(source.text, snippet)) {
+                confidence = Math.round(confidence * this.UNGROUNDED_CONFIDENCE_FACTOR * 100) / 100;
+            }
+
+            const entry: FieldProvenance = {
+                source_type: source.sourceType,
+                email_id: source.emailId,
+                attachment_id: source.attachmentId,
+                snippet,
+                confidence
+            };
+
+            provenance[fieldPath] = entry;
+        }
+
+        return provenance;
+    }
+
+    private findSource(rawSource: unknown, sources: Map<string, ExtractionSource>): ExtractionSource | null {
+        if (typeof rawSource !== 'string') {
+            return null;
+        }
+
+        const match = rawSource.match(/(email|attachment)\s*(\d+(?:\.\d+)?)/i);
+        if (!match) {
+            return null;
+        }
+
+        return sources.get(`${match[1].toLowerCase()} ${match[2]}`) || null;
+    }
+
+    private parseConfidence(rawConfidence: unknown): number {
+        const confidence = typeof rawConfidence === 'number' ? rawConfidence : parseFloat(String(rawConfidence));
+        if (isNaN(confidence)) {
+            return 0;
+        }
+
+        return Math.min(1, Math.max(0, confidence));
+    }
+
+    private containsSnippet(text: string, snippet: string): boolean {
+        const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+        return normalize(text).includes(normalize(snippet));
+    }
+}
\ No newline at end of file
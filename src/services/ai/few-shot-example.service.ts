@@ -0,0 +1,221 @@
+import { ExtractionExampleRepository, SummaryEditRepository, EmailGroupRepository, SummaryRepository } from '@/repositories';
+import {
+    IExtractionExample,
+    ExtractionExampleStatus,
+    UpdateExtractionExampleInput,
+    EXTRACTION_EXAMPLE_STATUSES
+} from '@/models/extraction-example';
+import { IEmail } from '@/models/email';
+import { ShipmentRequest } from '@/models/summary';
+import { ShipmentValidationService } from './shipment-validation.service';
+import { aiConfig } from '@/config/ai.config';
+import { logger } from '@/utils';
+
+const EMAIL_ADDRESS = /[^\s<>"@]+@([a-z0-9.-]+\.[a-z]{2,})/i;
+const MIN_TOKEN_LENGTH = 3;
+// Исправленные оператором примеры полезнее: в них видны типичные ошибки модели для этого отправителя
+const CORRECTED_BONUS = 0.1;
+
+export class FewShotExampleService {
+    private validationService: ShipmentValidationService;
+
+    constructor(
+        private exampleRepo: ExtractionExampleRepository,
+        private summaryEditRepo: SummaryEditRepository,
+        private emailGroupRepo: EmailGroupRepository,
+        private summaryRepo: SummaryRepository
+    ) {
+        this.validationService = new ShipmentValidationService();
+    }
+
+    // Домен отправителя первого письма группы - по нему примеры и сохраняются, и подбираются
+    getSenderDomain(emails: IEmail[]): string | null {
+        const firstEmail = [...emails].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
+        const match = firstEmail?.from?.match(EMAIL_ADDRESS);
+        return match ? match[1].toLowerCase() : null;
+    }
+
+    // Примеры того же отправителя по убыванию сходства с текущими письмами, в пределах бюджета токенов
+    async selectExamples(emails: IEmail[], emailGroupId: string): Promise<IExtractionExample[]> {
+        const { enabled, maxExamples, maxTokens } = aiConfig.fewShot;
+        const senderDomain = this.getSenderDomain(emails);
+        if (!enabled || !senderDomain || maxExamples <= 0) {
+            return [];
+        }
+
+        try {
+            const candidates = (await this.exampleRepo.getExamples({ senderDomain, status: 'active' }))
+                .filter(example => example.emailGroupId !== emailGroupId);
+            if (candidates.length === 0) {
+                return [];
+            }
+
+            const contextTokens = this.tokenize(emails.map(email => `${email.subject || ''} ${email.text || ''}`).join(' '));
+            const ranked = candidates
+                .map(example => ({
+                    example,
+                    score: this.similarity(contextTokens, this.tokenize(example.excerpt))
+                        + (example.source === 'corrected' ? CORRECTED_BONUS : 0)
+                }))
+                .sort((a, b) => b.score - a.score);
+
+            const selected: IExtractionExample[] = [];
+            let usedTokens = 0;
+            for (const { example } of ranked) {
+                const tokens = this.estimateTokens(example);
+                if (usedTokens + tokens > maxTokens) {
+                    continue;
+                }
+                selected.push(example);
+                usedTokens += tokens;
+                if (selected.length >= maxExamples) {
+                    break;
+                }
+            }
+
+            logger.info(`Selected ${selected.length} of ${candidates.length} few-shot examples for ${senderDomain} (~${usedTokens} tokens)`);
+            return selected;
+        } catch (error) {
+            logger.error(`Failed to select few-shot examples for ${senderDomain}:`, error);
+            return [];
+        }
+    }
+
+    // Сохраняет утвержденную сводку как пример; статус excluded при повторном утверждении не сбрасывается
+    async captureApprovedSummary(emailGroupId: string, createdBy: string | null = null): Promise<IExtractionExample> {
+        const emailGroup = await this.emailGroupRepo.getEmailGroupByEmailGroupId(emailGroupId);
+        if (!emailGroup) {
+            throw new Error(`Email group ${emailGroupId} not found`);
+        }
+
+        const approvedSummary = await this.summaryRepo.getApprovedSummaryByEmailGroupId(emailGroupId);
+        if (!approvedSummary) {
+            throw new Error(`Approved summary for email group ${emailGroupId} not found`);
+        }
+
+        const emails = emailGroup.emails || [];
+        const senderDomain = this.getSenderDomain(emails);
+        if (!senderDomain) {
+            throw new Error(`Invalid extraction example: sender domain of email group ${emailGroupId} is unknown`);
+        }
+
+        const edits = await this.summaryEditRepo.getEditsBySummaryId(approvedSummary.summaryId);
+        const fields = {
+            summaryId: approvedSummary.summaryId,
+            excerpt: this.buildExcerpt(emails),
+            shipmentData: this.validationService.validate(approvedSummary.shipment_data).data,
+            source: edits.length > 0 ? 'corrected' as const : 'approved' as const
+        };
+
+        const existing = await this.exampleRepo.getExampleByEmailGroupId(emailGroupId);
+        if (existing) {
+            return (await this.exampleRepo.updateExample(existing.id, fields))!;
+        }
+
+        return this.exampleRepo.createExample({ ...fields, senderDomain, emailGroupId, status: 'active', note: null, createdBy });
+    }
+
+    async listExamples(senderDomain?: string, status?: string): Promise<IExtractionExample[]> {
+        if (status !== undefined && !EXTRACTION_EXAMPLE_STATUSES.includes(status as ExtractionExampleStatus)) {
+            throw new Error(`Invalid extraction example filter: unknown status ${status}`);
+        }
+
+        return this.exampleRepo.getExamples({
+            senderDomain: senderDomain?.trim().toLowerCase() || undefined,
+            status: status as ExtractionExampleStatus | undefined
+        });
+    }
+
+    async updateExample(id: number, input: Record<string, unknown>): Promise<IExtractionExample> {
+        await this.getExample(id);
+
+        const fields: UpdateExtractionExampleInput = {};
+        if (input.excerpt !== undefined) {
+            if (typeof input.excerpt !== 'string' || !input.excerpt.trim()) {
+                throw new Error('Invalid extraction example: excerpt must be a non-empty string');
+            }
+            fields.excerpt = input.excerpt.trim();
+        }
+        if (input.shipmentData !== undefined) {
+            fields.shipmentData = this.validateShipmentData(input.shipmentData);
+        }
+        if (input.note !== undefined) {
+            if (input.note !== null && typeof input.note !== 'string') {
+                throw new Error('Invalid extraction example: note must be a string or null');
+            }
+            fields.note = input.note ? input.note.trim() : null;
+        }
+
+        if (Object.keys(fields).length === 0) {
+            throw new Error('Invalid extraction example: nothing to update, expected excerpt, shipmentData or note');
+        }
+
+        return (await this.exampleRepo.updateExample(id, fields))!;
+    }
+
+    async setStatus(id: number, status: ExtractionExampleStatus): Promise<IExtractionExample> {
+        await this.getExample(id);
+        return (await this.exampleRepo.updateExample(id, { status }))!;
+    }
+
+    async deleteExample(id: number): Promise<void> {
+        await this.getExample(id);
+        await this.exampleRepo.deleteExample(id);
+    }
+
+    private async getExample(id: number): Promise<IExtractionExample> {
+        const example = await this.exampleRepo.getExampleById(id);
+        if (!example) {
+            throw new Error(`Extraction example ${id} not found`);
+        }
+        return example;
+    }
+
+    private validateShipmentData(value: unknown): ShipmentRequest {
+        const validation = this.validationService.validate(value);
+        if (!validation.valid) {
+            const details = validation.errors.map(error => `${error.path || 'shipmentData'}: ${error.message}`).join('; ');
+            throw new Error(`Invalid extraction example: ${details}`);
+        }
+        return validation.data;
+    }
+
+    // Тема и текст писем по порядку, обрезанные до общего лимита
+    private buildExcerpt(emails: IEmail[]): string {
+        const { maxExcerptChars } = aiConfig.fewShot;
+        const excerpt = [...emails]
+            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+            .map(email => `Subject: ${email.subject || ''}\nText: ${(email.text || '').replace(/\s+/g, ' ').trim()}`)
+            .join('\n\n');
+
+        return excerpt.length > maxExcerptChars ? `${excerpt.substring(0, maxExcerptChars)}...` : excerpt;
+    }
+
+    private estimateTokens(example: IExtractionExample): number {
+        return Math.ceil((example.excerpt.length + JSON.stringify(example.shipmentData).length) / 4);
+    }
+
+    private tokenize(text: string): Set<string> {
+        return new Set(
+            text
+                .toLowerCase()
+                .replace(/ё/g, 'е')
+                .split(/[^\p{L}\p{N}]+/u)
+                .filter(token => token.length >= MIN_TOKEN_LENGTH)
+        );
+    }
+
+    // Коэффициент Жаккара по словам
+    private similarity(a: Set<string>, b: Set<string>): number {
+        if (a.size === 0 || b.size === 0) {
+            return 0;
+        }
+        let shared = 0;
+        for (const token of a) {
+            if (b.has(token)) {
+                shared++;
+            }
+        }
+        return shared / (a.size + b.size - shared);
+    }
+}
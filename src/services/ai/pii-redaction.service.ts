@@ -0,0 +1,220 @@
+import { IEmail } from '@/models/email';
+import { AttachmentDocument } from '@/models/attachment';
+import { IExtractionExample } from '@/models/extraction-example';
+import { aiConfig } from '@/config/ai.config';
+import { logger } from '@/utils';
+
+export type PiiKind = 'email' | 'phone' | 'iban' | 'name';
+
+export const PII_KINDS: PiiKind[] = ['email', 'phone', 'iban', 'name'];
+
+export type RedactedInput = {
+    emails: IEmail[];
+    documents: AttachmentDocument[];
+    examples: IExtractionExample[];
+};
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+// 9-15 цифр с одиночными разделителями: короче - номера заказов и индексы, длиннее - не телефон
+const PHONE_PATTERN = /(?<![\p{L}\d])(?:\+|00)?\d(?:[ ().-]{0,2}\d){8,14}(?![\p{L}\d])/gu;
+const DATE_PREFIX = /^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}/;
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|IBAN|NAME)_(\d+)\]/g;
+
+const UPPER = 'A-ZА-ЯЁĄĆĘŁŃÓŚŹŻ';
+const LOWER = 'a-zа-яёąćęłńóśźż';
+const PERSON_NAME = new RegExp(`[${UPPER}][${LOWER}]+(?:-[${UPPER}][${LOWER}]+)?(?:[ \\t]+[${UPPER}](?:[${LOWER}]+|\\.(?:[ \\t]?[${UPPER}]\\.)?)){0,2}`, 'y');
+// После этих меток обычно стоит имя человека; для отправителя/получателя чаще указывают компанию, поэтому их нет
+const NAME_LABELS = /(контактн\S*\s+лиц\S*|контакт\S*|менеджер\S*|водител\S*|экспедитор\S*|диспетчер\S*|contact(?:\s+person)?|driver|dispatcher|osoba\s+kontaktowa|kontakt|kierowca|spedytor)[ \t]*[:\-–,]?[ \t]*/gi;
+const SIGN_OFFS = /(с уважением|с наилучшими пожеланиями|best regards|kind regards|regards|pozdrawiam|z poważaniem)[ \t]*[,.!]?[ \t]*\r?\n[ \t]*/gi;
+const DISPLAY_NAME = /^\s*"?([^"<@]+?)"?\s*<[^>]+>/;
+
+// Соответствие меток исходным значениям в пределах одного запроса к модели
+export class PiiRedactionSession {
+    readonly placeholders = new Map<string, string>();
+    private valueToPlaceholder = new Map<string, string>();
+    private names: string[] = [];
+
+    constructor(readonly domain: string, readonly kinds: Set<PiiKind>) {}
+
+    addName(name: string): void {
+        const trimmed = name.trim();
+        if (trimmed.length >= 3 && !this.names.includes(trimmed)) {
+            this.names.push(trimmed);
+            // Длинные имена заменяются первыми, чтобы "Иван Петров" не превратился в "[NAME_1] Петров"
+            this.names.sort((a, b) => b.length - a.length);
+        }
+    }
+
+    getNames(): string[] {
+        return this.names;
+    }
+
+    placeholderFor(kind: PiiKind, value: string): string {
+        const key = `${kind}:${kind === 'name' ? value.toLowerCase() : value.replace(/[\s().-]/g, '').toLowerCase()}`;
+        let placeholder = this.valueToPlaceholder.get(key);
+        if (!placeholder) {
+            placeholder = `[${kind.toUpperCase()}_${this.countOf(kind) + 1}]`;
+            this.valueToPlaceholder.set(key, placeholder);
+            this.placeholders.set(placeholder, value);
+        }
+        return placeholder;
+    }
+
+    countOf(kind: PiiKind): number {
+        return [...this.placeholders.keys()].filter(placeholder => placeholder.startsWith(`[${kind.toUpperCase()}_`)).length;
+    }
+}
+
+export class PiiRedactionService {
+    // null - для отправителей группы редактирование не настроено
+    createSession(emails: IEmail[]): PiiRedactionSession | null {
+        if (!aiConfig.redaction.enabled) {
+            return null;
+        }
+
+        for (const email of emails) {
+            const domain = email.from?.match(/@([a-z0-9.-]+\.[a-z]{2,})/i)?.[1].toLowerCase();
+            const kinds = domain ? this.getKindsForDomain(domain) : null;
+            if (domain && kinds) {
+                return new PiiRedactionSession(domain, kinds);
+            }
+        }
+        return null;
+    }
+
+    redactInput(session: PiiRedactionSession, input: RedactedInput): RedactedInput {
+        if (session.kinds.has('name')) {
+            for (const email of input.emails) {
+                this.collectDisplayNames(session, email.from);
+                this.collectDisplayNames(session, email.to);
+                this.collectLabeledNames(session, email.text || '');
+            }
+            input.documents.forEach(document => this.collectLabeledNames(session, document.text));
+            input.examples.forEach(example => this.collectLabeledNames(session, example.excerpt));
+        }
+
+        const redacted: RedactedInput = {
+            emails: input.emails.map(email => ({
+                ...email,
+                from: this.redactText(session, email.from || ''),
+                to: this.redactText(session, email.to || ''),
+                subject: this.redactText(session, email.subject || ''),
+                text: email.text ? this.redactText(session, email.text) : email.text
+            })),
+            documents: input.documents.map(document => ({ ...document, text: this.redactText(session, document.text) })),
+            examples: input.examples.map(example => ({
+                ...example,
+                excerpt: this.redactText(session, example.excerpt),
+                shipmentData: this.mapStrings(example.shipmentData, text => this.redactText(session, text))
+            }))
+        };
+
+        const counts = PII_KINDS
+            .filter(kind => session.countOf(kind) > 0)
+            .map(kind => `${session.countOf(kind)} ${kind}`);
+        logger.info(`PII redaction for ${session.domain}: ${counts.length > 0 ? counts.join(', ') : 'nothing found'}`);
+
+        return redacted;
+    }
+
+    redactText(session: PiiRedactionSession, text: string): string {
+        let result = text;
+
+        if (session.kinds.has('email')) {
+            result = result.replace(EMAIL_PATTERN, match => session.placeholderFor('email', match));
+        }
+        if (session.kinds.has('iban')) {
+            result = result.replace(IBAN_PATTERN, match => this.isValidIban(match) ? session.placeholderFor('iban', match) : match);
+        }
+        if (session.kinds.has('phone')) {
+            result = result.replace(PHONE_PATTERN, match => DATE_PREFIX.test(match) ? match : session.placeholderFor('phone', match));
+        }
+        if (session.kinds.has('name')) {
+            for (const name of session.getNames()) {
+                const pattern = new RegExp(`(?<![\\p{L}\\[])${this.escapeRegExp(name)}(?![\\p{L}])`, 'gu');
+                result = result.replace(pattern, match => session.placeholderFor('name', match));
+            }
+        }
+
+        return result;
+    }
+
+    // Метки в ответе модели заменяются исходными значениями; неизвестные метки остаются как есть
+    rehydrate<T>(session: PiiRedactionSession, value: T): T {
+        return this.mapStrings(value, text =>
+            text.replace(PLACEHOLDER_PATTERN, placeholder => session.placeholders.get(placeholder) ?? placeholder)
+        );
+    }
+
+    // AI_REDACTION_DOMAINS: "acme.pl,client.ru=phone|name,*"; поддомены наследуют правило домена
+    private getKindsForDomain(domain: string): Set<PiiKind> | null {
+        for (const rule of aiConfig.redaction.domains) {
+            const [ruleDomain, kindList] = rule.split('=');
+            const normalizedDomain = ruleDomain.trim().toLowerCase();
+            if (normalizedDomain !== '*' && domain !== normalizedDomain && !domain.endsWith(`.${normalizedDomain}`)) {
+                continue;
+            }
+
+            const kinds = (kindList ? kindList.split('|') : aiConfig.redaction.kinds)
+                .map(kind => kind.trim().toLowerCase())
+                .filter((kind): kind is PiiKind => PII_KINDS.includes(kind as PiiKind));
+            return new Set(kinds);
+        }
+        return null;
+    }
+
+    private collectDisplayNames(session: PiiRedactionSession, header: string | undefined): void {
+        for (const address of (header || '').split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)) {
+            const displayName = address.match(DISPLAY_NAME)?.[1]?.trim();
+            if (displayName && /\p{L}/u.test(displayName)) {
+                session.addName(displayName);
+            }
+        }
+    }
+
+    private collectLabeledNames(session: PiiRedactionSession, text: string): void {
+        for (const labels of [NAME_LABELS, SIGN_OFFS]) {
+            for (const match of text.matchAll(labels)) {
+                PERSON_NAME.lastIndex = match.index! + match[0].length;
+                const name = PERSON_NAME.exec(text)?.[0];
+                if (name) {
+                    session.addName(name);
+                }
+            }
+        }
+    }
+
+    // Контрольная сумма по модулю 97 отсекает похожие на IBAN артикулы и номера документов
+    private isValidIban(value: string): boolean {
+        const compact = value.replace(/\s/g, '');
+        const rearranged = `${compact.slice(4)}${compact.slice(0, 4)}`;
+        let remainder = 0;
+        for (const char of rearranged) {
+            const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+            for (const digit of digits) {
+                remainder = (remainder * 10 + Number(digit)) % 97;
+            }
+        }
+        return remainder === 1;
+    }
+
+    private mapStrings<T>(value: T, transform: (text: string) => string): T {
+        if (typeof value === 'string') {
+            return transform(value) as T;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.mapStrings(item, transform)) as T;
+        }
+        if (value && typeof value === 'object' && !(value instanceof Date)) {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, this.mapStrings(item, transform)])
+            ) as T;
+        }
+        return value;
+    }
+
+    private escapeRegExp(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+}
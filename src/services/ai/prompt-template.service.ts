@@ -0,0 +1,145 @@
+import { PromptTemplateRepository } from '@/repositories';
+import { IPromptTemplate, CreatePromptTemplateInput } from '@/models/prompt-template';
+import { logger } from '@/utils';
+import {
+    PROMPT_TEMPLATE_VARIABLES,
+    DEFAULT_PROMPT_TEMPLATE_NAME,
+    DEFAULT_SHIPMENT_PROMPT_TEMPLATE,
+    DEFAULT_SHIPMENT_JSON_SCHEMA
+} from './prompts/shipment-extraction.prompt';
+
+export class PromptTemplateService {
+    constructor(private promptTemplateRepo: PromptTemplateRepository) {}
+
+    async getActiveTemplate(name: string = DEFAULT_PROMPT_TEMPLATE_NAME): Promise<IPromptTemplate> {
+        const activeTemplate = await this.promptTemplateRepo.getActiveTemplate(name);
+        if (activeTemplate) {
+            return activeTemplate;
+        }
+
+        if (name === DEFAULT_PROMPT_TEMPLATE_NAME) {
+            return this.ensureDefaultTemplate();
+        }
+
+        throw new Error(`No active prompt template for ${name}`);
+    }
+
+    async listTemplates(name?: string): Promise<IPromptTemplate[]> {
+        await this.ensureDefaultTemplate();
+        return this.promptTemplateRepo.getTemplates(name);
+    }
+
+    async getTemplate(id: string): Promise<IPromptTemplate> {
+        const template = await this.promptTemplateRepo.getTemplateById(id);
+        if (!template) {
+            throw new Error(`Prompt template ${id} not found`);
+        }
+        return template;
+    }
+
+    async createTemplate(input: CreatePromptTemplateInput, createdBy: string | null = null): Promise<IPromptTemplate> {
+        const name = (input.name || DEFAULT_PROMPT_TEMPLATE_NAME).trim();
+        if (!/^[a-z0-9][a-z0-9-]{0,63}$/.test(name)) {
+            throw new Error('Invalid prompt template: name must contain only lowercase letters, digits and dashes');
+        }
+
+        if (name === DEFAULT_PROMPT_TEMPLATE_NAME) {
+            await this.ensureDefaultTemplate();
+        }
+
+        // Схему можно не передавать - тогда берется схема текущей активной версии
+        const schema = input.schema ?? (await this.promptTemplateRepo.getActiveTemplate(name))?.schema ?? DEFAULT_SHIPMENT_JSON_SCHEMA;
+
+        const errors = this.validateTemplate(input.template, schema);
+        if (errors.length > 0) {
+            throw new Error(`Invalid prompt template: ${errors.join('; ')}`);
+        }
+
+        const version = (await this.promptTemplateRepo.getLatestVersion(name)) + 1;
+        const template = await this.promptTemplateRepo.createTemplate({
+            id: `${name}_v${version}`,
+            name,
+            version,
+            template: input.template.trim(),
+            schema: schema.trim(),
+            description: input.description || null,
+            isActive: false,
+            createdBy
+        });
+
+        logger.info(`Prompt template ${template.id} created by ${createdBy || 'unknown'}`);
+
+        return input.activate ? this.activateTemplate(template.id) : template;
+    }
+
+    async activateTemplate(id: string): Promise<IPromptTemplate> {
+        const template = await this.promptTemplateRepo.activateTemplate(id);
+        if (!template) {
+            throw new Error(`Prompt template ${id} not found`);
+        }
+        return template;
+    }
+
+    validateTemplate(template: unknown, schema: unknown): string[] {
+        const errors: string[] = [];
+
+        if (typeof template !== 'string' || template.trim().length === 0) {
+            return ['template must be a non-empty string'];
+        }
+        if (typeof schema !== 'string' || schema.trim().length === 0) {
+            errors.push('schema must be a non-empty string');
+        }
+
+        const usedVariables = [...template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(match => match[1]);
+        const unknownVariables = usedVariables.filter(variable => !(PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(variable));
+
+        if (unknownVariables.length > 0) {
+            errors.push(`unknown variables: ${[...new Set(unknownVariables)].join(', ')}`);
+        }
+        if (!usedVariables.includes('email_context')) {
+            errors.push('template must contain the {{email_context}} variable');
+        }
+        if (!usedVariables.includes('json_schema')) {
+            errors.push('template must contain the {{json_schema}} variable');
+        }
+
+        return errors;
+    }
+
+    private async ensureDefaultTemplate(): Promise<IPromptTemplate> {
+        const existingVersion = await this.promptTemplateRepo.getLatestVersion(DEFAULT_PROMPT_TEMPLATE_NAME);
+        if (existingVersion > 0) {
+            const activeTemplate = await this.promptTemplateRepo.getActiveTemplate(DEFAULT_PROMPT_TEMPLATE_NAME);
+            if (activeTemplate) {
+                return activeTemplate;
+            }
+
+            logger.warn(`No active ${DEFAULT_PROMPT_TEMPLATE_NAME} template, activating latest version ${existingVersion}`);
+            return this.activateTemplate(`${DEFAULT_PROMPT_TEMPLATE_NAME}_v${existingVersion}`);
+        }
+
+        logger.info(`Seeding built-in ${DEFAULT_PROMPT_TEMPLATE_NAME} prompt template as version 1`);
+
+        try {
+            await this.promptTemplateRepo.createTemplate({
+                id: `${DEFAULT_PROMPT_TEMPLATE_NAME}_v1`,
+                name: DEFAULT_PROMPT_TEMPLATE_NAME,
+                version: 1,
+                template: DEFAULT_SHIPMENT_PROMPT_TEMPLATE,
+                schema: DEFAULT_SHIPMENT_JSON_SCHEMA,
+                description: 'Built-in prompt',
+                isActive: false,
+                createdBy: null
+            });
+        } catch (error) {
+            // Параллельный анализ мог уже создать встроенный шаблон
+            const activeTemplate = await this.promptTemplateRepo.getActiveTemplate(DEFAULT_PROMPT_TEMPLATE_NAME);
+            if (activeTemplate) {
+                return activeTemplate;
+            }
+            throw error;
+        }
+
+        return this.activateTemplate(`${DEFAULT_PROMPT_TEMPLATE_NAME}_v1`);
+    }
+}
@@ -0,0 +1,264 @@
+import { PromptTemplateContent } from '@/models/prompt-template';
+
+// few_shot_examples необязательна: в шаблоне без нее примеры вставляются перед блоком писем
+export const PROMPT_TEMPLATE_VARIABLES = ['email_context', 'json_schema', 'few_shot_examples'] as const;
+
+export type PromptTemplateVariable = typeof PROMPT_TEMPLATE_VARIABLES[number];
+
+export const DEFAULT_PROMPT_TEMPLATE_NAME = 'shipment-extraction';
+
+export const DEFAULT_SHIPMENT_JSON_SCHEMA = `{
+    "name": "ID заказа ТОЛЬКО ЦИФРЫ (ОБЯЗАТЕЛЬНОЕ ПОЛЕ, строка с цифрами, например: '123456' из 'Shipment #123456', может быть пустой строкой если не найден)",
+    "shipment_details": [
+        {
+            "shipping_date_from": "дата начала отправки груза в формате DD-MM-YYYY (null если не указана). Конвертируй ISO форматы (2025-12-03T10:30:00Z -> 03-12-2025)",
+            "shipping_date_to": "дата окончания отправки груза в формате DD-MM-YYYY (null если не указана)",
+            "shipping_time_from": "время начала отправки груза в формате HH:MM (null если не указано, НЕ использовать '00:00'). Из ISO формата (2025-12-03T10:30:00Z) извлекай '10:30'",
+            "shipping_time_to": "время окончания отправки груза в формате HH:MM (null если не указано, НЕ использовать '00:00')",
+            "arrival_date_from": "дата начала прибытия груза в формате DD-MM-YYYY (null если не указана)",
+            "arrival_date_to": "дата окончания прибытия груза в формате DD-MM-YYYY (null если не указана)",
+            "arrival_time_from": "время начала прибытия груза в формате HH:MM (null если не указано, НЕ использовать '00:00')",
+            "arrival_time_to": "время окончания прибытия груза в формате HH:MM (null если не указано, НЕ использовать '00:00')",
+            "address_from": {
+                "country": "страна отправления (null если не указана, например: Беларусь)",
+                "city": "город отправления (null если не указан, например: Минск)",
+                "zipcode": "почтовый индекс места отправления (null если не указан)",
+                "address": "полный адрес отправления (null если не указан, например: ул. Тимирязева, д. 65А, склад №2)",
+                "date_from": "дата начала для адреса - когда можно забрать груз с этой точки (null если не указана, например: '15-12-2024')",
+                "date_to": "дата окончания для адреса - до какого числа можно забрать груз (null если не указана, например: '17-12-2024')",
+                "time_from": "время начала для адреса - с какого часа можно забрать груз (null если не указано, например: '08:00')",
+                "time_to": "время окончания для адреса - до какого часа можно забрать груз (null если не указано, например: '18:00')"
+            },
+            "address_dest": {
+                "country": "страна назначения (null если не указана, например: Беларусь)",
+                "city": "город назначения (null если не указан, например: Гродно)",
+                "zipcode": "почтовый индекс места назначения (null если не указан)",
+                "address": "полный адрес назначения (null если не указан, например: ул. Ожешко, 15)",
+                "date_from": "дата начала для адреса - когда можно доставить груз на эту точку (null если не указана)",
+                "date_to": "дата окончания для адреса - до какого числа можно доставить груз (null если не указана)",
+                "time_from": "время начала для адреса - с какого часа можно доставить груз (null если не указано)",
+                "time_to": "время окончания для адреса - до какого часа можно доставить груз (null если не указано)"
+            },
+           "contents": [
+                {
+                    "name": "название груза (МОЖЕТ БЫТЬ строкой или null, если не найден, например: 'Электронные компоненты', 'Промышленное оборудование')",
+                    "quantity": "количество груза (МОЖЕТ БЫТЬ строкой или числом или null, если не указано, например: '50 шт', 50, 'количество: 5')",
+                    "gross_weight_kg": "вес брутто С ЕДИНИЦАМИ как в письме (null если не указан, например: '20 т', '1 200 кг', 850)",
+                    "volume_m3": "объем С ЕДИНИЦАМИ как в письме (null если не указан, например: '82 м3', '33 куб.м', 12.5)",
+                    "loading_meters": "погрузочные метры LDM (null если не указаны, например: '13,6 LDM', 4.8)",
+                    "pallet_count": "количество паллет/поддонов (null если не указано, например: 33, '12 европаллет')",
+                    "package_type": "тип упаковки одним из: euro_pallet, pallet, box, crate, bag, drum, roll, ibc, bulk, container, other (null если не указан)",
+                    "dimensions_cm": "габариты одного места С ЕДИНИЦАМИ (null если не указаны, например: '120x80x150 см', '1,2 x 0,8 x 1,5 м')"
+                }
+            ]
+        }
+    ],
+    "modes": [
+        {
+            "name": "вид перевозки/транспорта (ОБЯЗАТЕЛЬНОЕ ПОЛЕ, строка, например: Фура, Мишина, Корабль, Автоперевозка, Авиаперевозка, Морская перевозка, Железнодорожная перевозка)"
+        }
+    ],
+    "for_carriers": "любая дополнительная информация для перевозчика (ОПЦИОНАЛЬНОЕ ПОЛЕ, может отсутствовать или быть null). Например: 'хрупкое', 'кузовы должны быть чистыми', 'осторожно', 'не кантовать', 'температурный режим', 'требуется растяжка', 'груз тяжелый' и т.д.",
+    "order_status": "текущая стадия заказа по ВСЕЙ переписке, одно из: requested, confirmed, modified, cancelled, in_transit, delivered (null если определить нельзя)",
+    "_provenance": {
+        "путь к заполненному полю, например 'name', 'shipment_details[0].address_dest.city', 'shipment_details[0].contents[1].quantity', 'modes[0].name'": {
+            "source": "метка источника из списка писем: 'Email 2' или 'Attachment 1.1'",
+            "snippet": "ДОСЛОВНАЯ цитата из источника (до 200 символов), из которой взято значение",
+            "confidence": "уверенность в значении, число от 0 до 1"
+        }
+    }
+}`;
+
+export const DEFAULT_SHIPMENT_PROMPT_TEMPLATE = `Ты - эксперт по анализу электронных писем о грузоперевозках. Твоя задача - извлечь ВСЮ доступную информацию из писем.
+
+ИНСТРУКЦИИ ПО ПОИСКУ ИНФОРМАЦИИ:
+
+1. ID ЗАКАЗА (поле "name"):
+ГДЕ ИСКАТЬ: ТОЛЬКО тема письма (Subject), НЕ ищи в теле письма
+ПАТТЕРНЫ: 
+- Shipment #123456, Shipment #784512, Shipment #987123 (формат: "Shipment" + "#" + 6-8 цифр)
+- "Заказ Shipment #123", "Order: Shipment #456", "Номер: Shipment #789"
+ПРИМЕРЫ: "Заказ Shipment #987123" -> name: "987123", "Order Shipment #784512" -> name: "784512", "Shipment #123456 отменен" -> name: "123456"
+ВАЖНО: 
+- Извлекай ТОЛЬКО ЦИФРЫ из ID заказа (без "Shipment", без "#", без пробелов)
+- Если найден "Shipment #123456", то name должен быть "123456" (только цифры)
+- Если ID не найден в теме письма, используй пустую строку ""
+- НЕ ищи ID в теле письма, только в теме (Subject)
+
+2. ДАТЫ ОТПРАВКИ ГРУЗА (shipping_date_from/to):
+ГДЕ ИСКАТЬ: тело письма 
+КЛЮЧЕВЫЕ СЛОВА: "дата отправки", "дата загрузки", "дата отгрузки", "отправка", "загрузка", "отгрузка", "shipment date", "shipping date"
+ФОРМАТЫ: "15.12.2024", "15-12-2024", "15/12/2024", "2024-12-15", "15 декабря 2024", "15 дек 2024", "2025-12-03T10:30:00Z", "2025-12-03T10:30:00+05:00"
+ПРИМЕРЫ: "Отправка 15.12.2024", "Дата загрузки: 15-12-2024", "Shipping: 2024-12-15", "UTC time: 2025-12-03T10:30:00Z", "10:30:00+05:00"
+ВАЖНО: 
+- Конвертируй ISO 8601 форматы (2025-12-03T10:30:00Z, 2025-12-03T10:30:00+05:00) в формат DD-MM-YYYY для даты
+- Для времени извлекай только время (HH:MM) из ISO форматов
+- Финальный формат даты: DD-MM-YYYY, времени: HH:MM
+
+3. ВРЕМЯ ОТПРАВКИ ГРУЗА (shipping_time_from/to):
+ГДЕ ИСКАТЬ: рядом с датой отправки или в ISO формате
+ФОРМАТЫ: "09:00", "9:00", "9 утра", "09:30", "14:00", "2 часа дня", "10:30:00", "10:30:00Z", "10:30:00+05:00", "T10:30:00Z"
+ПРИМЕРЫ: "в 09:00", "с 9:00 до 13:00", "время: 09:30", "UTC time: 2025-12-03T10:30:00Z", "10:30:00+05:00"
+ВАЖНО: Из ISO формата (2025-12-03T10:30:00Z) извлекай только время: "10:30"
+
+4. ДАТЫ ПРИБЫТИЯ ГРУЗА (arrival_date_from/to):
+ГДЕ ИСКАТЬ: тело письма
+КЛЮЧЕВЫЕ СЛОВА: "дата доставки", "дата прибытия", "дата получения", "доставка", "прибытие", "arrival", "delivery date"
+ФОРМАТЫ: те же, что и для отправки, включая ISO 8601
+ПРИМЕРЫ: "Доставка 17.12.2024", "Прибытие: 17-12-2024", "Arrival: 2024-12-17", "UTC time: 2025-12-03T10:30:00Z"
+
+5. ВРЕМЯ ПРИБЫТИЯ ГРУЗА (arrival_time_from/to):
+ГДЕ ИСКАТЬ: рядом с датой прибытия или в ISO формате
+ФОРМАТЫ: те же, что и для времени отправки
+
+6. АДРЕС ОТПРАВЛЕНИЯ (address_from):
+ГДЕ ИСКАТЬ: тело письма
+КЛЮЧЕВЫЕ СЛОВА: "откуда", "отправка из", "адрес отправки", "склад отправки", "отправитель", "from", "origin"
+ЧТО ИСКАТЬ:
+- Страна: "Беларусь", "Россия", "Украина", "Belarus", "Russia"
+- Город: "Минск", "Москва", "Гродно", "Минске", "г. Минск"
+- Адрес: "ул. Тимирязева, 65", "улица Ожешко, д. 15", "проспект Победителей, 65А"
+- Индекс: "220000"
+- date_from/date_to: когда можно ЗАБРАТЬ груз с этого адреса (пример: "можно забрать 15-17 декабря")
+- time_from/time_to: в какое время можно ЗАБРАТЬ груз (пример: "с 8:00 до 12:00")
+ПРИМЕРЫ: 
+- "Забрать груз: Минск, ул. Тимирязева, д. 65А, можно 15-17 декабря с 8:00 до 12:00"
+- "Склад: г. Минск, ул. Тимирязева, 65, работает 15-17.12 с 8 до 18"
+
+7. АДРЕС НАЗНАЧЕНИЯ (address_dest):
+ГДЕ ИСКАТЬ: тело письма, подпись
+КЛЮЧЕВЫЕ СЛОВА: "куда", "доставка в", "адрес доставки", "получатель", "destination", "to", "delivery address"
+ЧТО ИСКАТЬ: те же компоненты что и для address_from, включая:
+- date_from/date_to: когда можно ДОСТАВИТЬ груз на этот адрес
+- time_from/time_to: в какое время можно ДОСТАВИТЬ груз
+ПРИМЕРЫ: 
+- "Доставить: Гродно, ул. Ожешко, 15, можно 18-20 декабря с 9:00 до 18:00"
+- "Адрес получения: г. Гродно, ул. Ожешко, д. 15, принимаем 18-20.12 с 9 до 18"
+
+8. ГРУЗ (contents[].name и contents[].quantity):
+ГДЕ ИСКАТЬ: тело письма, тема
+КЛЮЧЕВЫЕ СЛОВА: "груз", "товар", "наименование", "описание груза", "cargo", "goods", "shipment"
+ЧТО ИСКАТЬ:
+- name: ЛЮБОЕ описание груза из письма. Может быть:
+* Общее: "готовая текстильная продукция", "одежда весенней коллекции"
+* Конкретное: "Пальто женские", "Платья", "Блузки", "Брюки"
+* Даже если несколько видов - создай отдельные элементы массива
+- quantity: ИЗВЛЕКАЙ ЧИСЛО из текста, даже если есть "шт":
+* "50 шт" -> quantity: 50
+* "количество: 100" -> quantity: 100  
+* "200 единиц" -> quantity: 200
+* Если количество не указано, но есть название груза - используй quantity: 1
+- ВЕС, ОБЪЕМ, ПАЛЛЕТЫ, УПАКОВКА, ГАБАРИТЫ (gross_weight_kg, volume_m3, loading_meters, pallet_count, package_type, dimensions_cm):
+* КЛЮЧЕВЫЕ СЛОВА: "вес", "брутто", "масса", "объем", "кубов", "LDM", "погрузочных метров", "паллет", "поддонов", "мест", "упаковка", "габариты", "размеры", "gross weight", "volume", "pallets", "dimensions"
+* Переписывай значение ВМЕСТЕ с единицами измерения, как в письме ("20 т", "82 м3", "120x80x150 см") - перевод в кг, м³ и см выполняется автоматически
+* Если вес/объем/паллеты указаны для всего груза, а не для отдельной позиции - запиши их в ПЕРВЫЙ элемент contents
+* "Европаллеты 120x80" -> package_type: "euro_pallet", "коробки" -> "box", "мешки" -> "bag", "навалом" -> "bulk"
+* Не путай количество мест/паллет (pallet_count) с количеством товара (quantity)
+
+ПРИМЕР ИЗ ПИСЬМА:
+"Состав груза:
+Пальто женские: 50 шт
+Платья: 100 шт  
+Блузки: 200 шт
+Брюки: 150 шт"
+
+ДОЛЖНО БЫТЬ В JSON:
+"contents": [
+    { "name": "Пальто женские", "quantity": 50 },
+    { "name": "Платья", "quantity": 100 },
+    { "name": "Блузки", "quantity": 200 },
+    { "name": "Брюки", "quantity": 150 }
+]
+
+ПРИМЕР ИЗ ПИСЬМА:
+"Груз: оборудование, 12 европаллет 120x80x150 см, вес брутто 8,4 т, объем 17 м3"
+
+ДОЛЖНО БЫТЬ В JSON:
+"contents": [
+    { "name": "Оборудование", "quantity": 1, "gross_weight_kg": "8,4 т", "volume_m3": "17 м3", "pallet_count": 12, "package_type": "euro_pallet", "dimensions_cm": "120x80x150 см" }
+]
+
+9. ВИД ПЕРЕВОЗКИ/ТРАНСПОРТА (modes[].name):
+ГДЕ ИСКАТЬ: тело письма, тема
+КЛЮЧЕВЫЕ СЛОВА: "вид перевозки", "тип доставки", "способ доставки", "транспорт", "машина", "фура", "корабль", "самолет", "transport mode", "delivery type"
+ЧТО ИСКАТЬ:
+- "фура", "мишина", "грузовик", "автоперевозка", "автотранспорт"
+- "корабль", "судно", "морская перевозка", "контейнеровоз"
+- "самолет", "авиаперевозка", "авиатранспорт"
+- "поезд", "железнодорожная перевозка", "вагон"
+ПРИМЕРЫ: "фурой", "мишиной", "кораблем", "автоперевозка", "авиаперевозка", "морская перевозка", "железнодорожная перевозка"
+
+10. ИНФОРМАЦИЯ ДЛЯ ПЕРЕВОЗЧИКОВ (for_carriers):
+ГДЕ ИСКАТЬ: конец письма, отдельные строки, комментарии
+ЧТО ИСКАТЬ: ЛЮБАЯ дополнительная информация для водителя/перевозчика:
+- "хрупкое", "осторожно", "не кантовать", "не бросать"
+- "кузовы должны быть чистыми", "требуется растяжка", "крепление цепями"
+- "температурный режим", "холодная цепь", "избегать влаги"
+- "груз тяжелый", "негабаритный", "опасный груз"
+- "требуется сопровождение", "специальные условия"
+- контакты для связи на точке: телефоны, имена
+ПРИМЕРЫ: 
+- "Для перевозчиков: груз хрупкий, осторожно! Не кантовать, не бросать."
+- "Кузовы должны быть чистыми. Требуется растяжка."
+- "Температурный режим: +2...+8°C. Холодная цепь обязательна."
+- "Контакты на точке: Сергей, +375 29 123-45-67"
+
+11. СТАДИЯ ЗАКАЗА (order_status):
+ГДЕ ИСКАТЬ: тема и тело ПОСЛЕДНИХ писем - стадия определяется по самому позднему событию
+ЗНАЧЕНИЯ:
+- "requested" - запрос на перевозку, заказ еще не подтвержден
+- "confirmed" - перевозка подтверждена, принята в работу
+- "modified" - после запроса или подтверждения изменились даты, адреса, груз
+- "cancelled" - заказ отменен, аннулирован
+- "in_transit" - груз загружен, машина в пути
+- "delivered" - груз доставлен, выгружен
+ПРИМЕРЫ: "Shipment #123456 отменен" -> "cancelled", "Подтверждаем загрузку на 15.12" -> "confirmed", "Машина выехала" -> "in_transit"
+
+ОБЩИЕ ПРАВИЛА:
+
+1. Анализируй ВСЕ письма последовательно - информация может быть распределена
+2. Ищи в теме письма ПЕРВЫМ - там часто ключевая информация
+3. Даже если заказ ОТМЕНЕН - извлекай всю информацию (даты, адреса, груз и т.д.) и укажи order_status: "cancelled"
+4. Если информация отсутствует - используй null (без кавычек в JSON)
+5. НИКОГДА не используй дефолтные значения типа "00:00", "0000-00-00", "Unknown" - если информации нет, используй null
+6. ОБЯЗАТЕЛЬНЫЕ ПОЛЯ (не могут быть null):
+   - name (может быть пустой строкой если не найден)
+   - shipment_details (массив, может быть пустым, но должен присутствовать)
+   - shipment_details[0].address_from (объект обязателен, но поля внутри могут быть null)
+   - shipment_details[0].address_dest (объект обязателен, но поля внутри могут быть null)
+   - shipment_details[0].contents (массив обязателен, может быть пустым)
+   - shipment_details[0].contents[0].name (обязательно, если contents не пустой)
+   - shipment_details[0].contents[0].quantity (обязательно, минимум 1, если contents не пустой)
+   - modes (массив обязателен, может быть пустым)
+   - modes[0].name (обязательно, если modes не пустой)
+7. ОБРАБОТКА ВРЕМЕНИ:
+   - ISO 8601 форматы (2025-12-03T10:30:00Z, 2025-12-03T10:30:00+05:00) должны быть конвертированы:
+     * Дата: извлекай дату и конвертируй в DD-MM-YYYY (2025-12-03 -> 03-12-2025)
+     * Время: извлекай только время в формате HH:MM (10:30:00 -> 10:30)
+   - Примеры конвертации:
+     * "2025-12-03T10:30:00Z" -> дата: "03-12-2025", время: "10:30"
+     * "10:30:00+05:00" -> время: "10:30"
+8. Не придумывай информацию - используй только то, что есть в письмах
+9. Если информации мало - верни JSON с тем, что нашел (null для остального, но обязательные поля должны присутствовать)
+10. ВЛОЖЕНИЯ (блоки "Attachment N.M (...)") - это текст приложенных документов (PDF заявки, Excel упаковочные листы, CSV).
+    Часто именно там указан состав груза и адреса - используй их наравне с текстом письма.
+    Если данные во вложении и в тексте письма противоречат друг другу - приоритет у более позднего письма.
+11. ИСТОЧНИКИ (_provenance): для КАЖДОГО заполненного (не null) поля укажи, откуда оно взято:
+    метку письма или вложения, дословную цитату и уверенность от 0 до 1.
+    Для полей, которые ты вывел косвенно (например, страна по городу), ставь уверенность не выше 0.6.
+
+Требуемый формат JSON:
+{{json_schema}}
+{{few_shot_examples}}
+Письма для анализа:
+{{email_context}}
+
+Верни ТОЛЬКО JSON без дополнительного текста, комментариев и объяснений.
+Даже если информации мало - верни JSON с тем, что нашел.`;
+
+// Используется, когда шаблон из БД не передан (например, при офлайн-прогонах)
+export const BUILTIN_PROMPT_TEMPLATE: PromptTemplateContent = {
+    id: 'builtin',
+    template: DEFAULT_SHIPMENT_PROMPT_TEMPLATE,
+    schema: DEFAULT_SHIPMENT_JSON_SCHEMA
+};
@@ -0,0 +1,6 @@
+export interface ExtractionProvider {
+    readonly name: string;
+    getModelName(): string;
+    isEnabled(): boolean;
+    generateCompletion(prompt: string): Promise<string>;
+}
@@ -0,0 +1,99 @@
+import axios from 'axios';
+import { aiConfig } from '@/config/ai.config';
+import { logger } from '@/utils';
+import { ExtractionProvider } from './extraction-provider';
+
+export class GeminiProvider implements ExtractionProvider {
+    public readonly name = 'gemini';
+    private readonly apiKey: string;
+    private readonly modelName: string;
+    private readonly baseUrl: string;
+
+    constructor(config: typeof aiConfig.gemini = aiConfig.gemini) {
+        this.apiKey = config.apiKey;
+        this.modelName = config.model;
+        this.baseUrl = config.baseUrl.replace(/\/$/, '');
+
+        if (!this.apiKey) {
+            logger.error('GEMINI_API_KEY environment variable is not set');
+        } else {
+            logger.info(`Gemini provider initialized, model: ${this.modelName}`);
+        }
+    }
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    isEnabled(): boolean {
+        return !!this.apiKey;
+    }
+
+    async generateCompletion(prompt: string): Promise<string> {
+        if (!this.apiKey) {
+            throw new Error('API key is not set');
+        }
+
+        const apiUrl = `${this.baseUrl}/models/${this.modelName}:generateContent`;
+
+        try {
+            const response = await axios.post(
+                apiUrl,
+                {
+                    contents: [{
+                        parts: [{
+                            text: prompt
+                        }]
+                    }],
+                    generationConfig: {
+                        temperature: aiConfig.temperature,
+                        maxOutputTokens: aiConfig.maxOutputTokens,
+                        topP: 0.95,
+                        topK: 40
+                    }
+                },
+                {
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'x-goog-api-key': this.apiKey
+                    },
+                    timeout: aiConfig.requestTimeout
+                }
+            );
+
+            const responseText = response.data?.candidates?.[0]?.content?.parts?.[0]?.text;
+
+            if (!responseText) {
+                logger.error('Invalid response format from Gemini API');
+                logger.error('Response data:', JSON.stringify(response.data, null, 2));
+                throw new Error('Invalid Gemini API response format');
+            }
+
+            return responseText;
+        } catch (error: any) {
+            logger.error('Gemini API request error:', error);
+
+            if (error.response?.data) {
+                logger.error('Gemini API error details:', JSON.stringify(error.response.data, null, 2));
+            }
+
+            const errorMessage: string = error.response?.data?.error?.message || error.message;
+
+            if (error.response?.status === 404) {
+                throw new Error(`Model ${this.modelName} not found or not available`);
+            } else if (error.response?.status === 403 || error.response?.status === 401) {
+                throw new Error('API key does not have access to Gemini API or is invalid');
+            } else if (error.response?.status === 400) {
+                if (errorMessage.includes('API key') || errorMessage.includes('API_KEY')) {
+                    throw new Error('Gemini API authentication failed. Please check GEMINI_API_KEY environment variable.');
+                }
+                if (errorMessage.includes('location is not supported') || errorMessage.includes('not available in your location')) {
+                    throw new Error(`Gemini API is not available in your location. Error: ${errorMessage}`);
+                }
+                throw new Error(`Invalid request: ${errorMessage}`);
+            }
+
+            throw error;
+        }
+    }
+}
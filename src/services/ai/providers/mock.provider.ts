@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import { aiConfig } from '@/config/ai.config';
+import { ShipmentRequest } from '@/models/summary';
+import { logger } from '@/utils';
+import { EmailGroupId } from '@/utils/email-group-id';
+import { ExtractionProvider } from './extraction-provider';
+
+export class MockExtractionProvider implements ExtractionProvider {
+    public readonly name = 'mock';
+    private readonly modelName: string;
+    private fixedResponse: string | null = null;
+    private emailGroupIdService: EmailGroupId;
+
+    constructor(config: typeof aiConfig.mock = aiConfig.mock) {
+        this.modelName = config.model;
+        this.emailGroupIdService = new EmailGroupId();
+
+        if (config.responseFile) {
+            this.fixedResponse = readFileSync(config.responseFile, 'utf-8');
+            logger.info(`Mock extraction provider uses fixed response from ${config.responseFile}`);
+        } else {
+            logger.info('Mock extraction provider initialized');
+        }
+    }
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    isEnabled(): boolean {
+        return true;
+    }
+
+    setResponse(response: string | ShipmentRequest | null): void {
+        this.fixedResponse = response === null || typeof response === 'string'
+            ? response
+            : JSON.stringify(response);
+    }
+
+    async generateCompletion(prompt: string): Promise<string> {
+        if (this.fixedResponse !== null) {
+            return this.fixedResponse;
+        }
+
+        // Без фикстуры отдаем детерминированный ответ: только ID заказа из тем писем
+        const subjects = prompt.match(/^\s*Subject:.*$/gm) || [];
+        let name = '';
+        for (const subject of subjects) {
+            const emailGroupId = this.emailGroupIdService.extractEmailGroupIdFromText(subject);
+            if (emailGroupId) {
+                name = emailGroupId;
+                break;
+            }
+        }
+
+        const response: ShipmentRequest = {
+            name,
+            shipment_details: [],
+            modes: []
+        };
+
+        return JSON.stringify(response);
+    }
+}
@@ -0,0 +1,77 @@
+import axios from 'axios';
+import { aiConfig } from '@/config/ai.config';
+import { logger } from '@/utils';
+import { ExtractionProvider } from './extraction-provider';
+
+export class OpenAICompatibleProvider implements ExtractionProvider {
+    public readonly name = 'openai';
+    private readonly apiKey: string;
+    private readonly modelName: string;
+    private readonly baseUrl: string;
+
+    constructor(config: typeof aiConfig.openai = aiConfig.openai) {
+        this.apiKey = config.apiKey;
+        this.modelName = config.model;
+        this.baseUrl = config.baseUrl.replace(/\/$/, '');
+
+        logger.info(`OpenAI-compatible provider initialized: ${this.baseUrl}, model: ${this.modelName}`);
+    }
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    isEnabled(): boolean {
+        // Локальные серверы (Ollama, llama.cpp) работают без ключа
+        return !!this.baseUrl && !!this.modelName;
+    }
+
+    async generateCompletion(prompt: string): Promise<string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        try {
+            const response = await axios.post(
+                `${this.baseUrl}/chat/completions`,
+                {
+                    model: this.modelName,
+                    messages: [{ role: 'user', content: prompt }],
+                    temperature: aiConfig.temperature,
+                    max_tokens: aiConfig.maxOutputTokens
+                },
+                {
+                    headers,
+                    timeout: aiConfig.requestTimeout
+                }
+            );
+
+            const responseText = response.data?.choices?.[0]?.message?.content;
+
+            if (!responseText) {
+                logger.error('Invalid response format from OpenAI-compatible API');
+                logger.error('Response data:', JSON.stringify(response.data, null, 2));
+                throw new Error('Invalid OpenAI-compatible API response format');
+            }
+
+            return responseText;
+        } catch (error: any) {
+            logger.error('OpenAI-compatible API request error:', error);
+
+            const errorMessage = error.response?.data?.error?.message || error.message;
+
+            if (error.response?.status === 404) {
+                throw new Error(`Model ${this.modelName} not found or not available at ${this.baseUrl}`);
+            } else if (error.response?.status === 403 || error.response?.status === 401) {
+                throw new Error('API key does not have access to the OpenAI-compatible API or is invalid');
+            } else if (error.response?.status === 400) {
+                throw new Error(`Invalid request: ${errorMessage}`);
+            }
+
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,55 @@
+import { ExtractionProvider } from './extraction-provider';
+
+// Воспроизводит заранее записанные ответы модели по порядку — для оценки качества без сети
+export class RecordedExtractionProvider implements ExtractionProvider {
+    public readonly name = 'recorded';
+    private position = 0;
+
+    constructor(private responses: string[], private readonly modelName: string = 'recorded') {}
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    isEnabled(): boolean {
+        return true;
+    }
+
+    async generateCompletion(_prompt: string): Promise<string> {
+        if (this.position >= this.responses.length) {
+            throw new Error(`No recorded response left (used ${this.responses.length})`);
+        }
+        return this.responses[this.position++];
+    }
+}
+
+// Оборачивает настоящий провайдер и запоминает его ответы, чтобы потом воспроизвести их через RecordedExtractionProvider
+export class RecordingExtractionProvider implements ExtractionProvider {
+    private responses: string[] = [];
+
+    constructor(private provider: ExtractionProvider) {}
+
+    get name(): string {
+        return this.provider.name;
+    }
+
+    getModelName(): string {
+        return this.provider.getModelName();
+    }
+
+    isEnabled(): boolean {
+        return this.provider.isEnabled();
+    }
+
+    async generateCompletion(prompt: string): Promise<string> {
+        const response = await this.provider.generateCompletion(prompt);
+        this.responses.push(response);
+        return response;
+    }
+
+    takeResponses(): string[] {
+        const responses = this.responses;
+        this.responses = [];
+        return responses;
+    }
+}
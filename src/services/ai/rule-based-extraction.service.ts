@@ -0,0 +1,431 @@
+import { IEmail } from '@/models/email';
+import { AttachmentDocument } from '@/models/attachment';
+import {
+    ShipmentRequest,
+    ShipmentAddress,
+    ShipmentContent,
+    ShipmentExtractionResult,
+    ShipmentProvenance,
+    ExtractionDisagreement
+} from '@/models/summary';
+import { logger } from '@/utils';
+import { EmailGroupId } from '@/utils/email-group-id';
+import { ShipmentValidationService } from './shipment-validation.service';
+import { CargoMeasurementService } from './cargo-measurement.service';
+
+type ShipmentDetail = ShipmentRequest['shipment_details'][number];
+
+interface RuleSource {
+    sourceType: 'email' | 'attachment';
+    emailId: string;
+    attachmentId: string | null;
+    text: string;
+}
+
+const DATE_PATTERN = /\d{4}-\d{1,2}-\d{1,2}(?:T\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?(?:Z|[+\-]\d{2}:?\d{2})?)?|\b\d{1,2}[.\/-]\d{1,2}[.\/-](?:\d{4}|\d{2})(?!\d)|\b\d{1,2}\s+[а-яёa-z]{3,}\.?\s+\d{4}/gi;
+const TIME_PATTERN = /(?<![\d:])\d{1,2}:\d{2}(?::\d{2})?(?![\d])|(?<![\d:])\d{1,2}\s*(?:утра|дня|вечера)/gi;
+
+const SHIPPING_KEYWORDS = /(дата\s+отправки|дата\s+загрузки|дата\s+отгрузки|отправка|загрузка|отгрузка|shipping\s+date|shipment\s+date|shipping|pick[\s-]?up)/i;
+const ARRIVAL_KEYWORDS = /(дата\s+доставки|дата\s+прибытия|дата\s+получения|доставка|прибытие|arrival|delivery\s+date|delivery)/i;
+
+const ORIGIN_LABEL = /^\s*(?:адрес\s+отправ[а-яё]*|откуда|отправитель|склад\s+отправки|место\s+загрузки|забрать\s+груз|origin|ship\s+from|pick[\s-]?up\s+address)\s*:\s*(.*)$/i;
+const DEST_LABEL = /^\s*(?:адрес\s+доставки|адрес\s+получения|куда|получатель|место\s+выгрузки|доставить|destination|ship\s+to|delivery\s+address)\s*:\s*(.*)$/i;
+
+const CARGO_LABEL = /^\s*(?:груз|товар|наименование|описание\s+груза|cargo|goods)\s*:\s*(.+)$/i;
+const CARGO_ITEM = /^\s*[-•*]?\s*([^:\n]{2,80}?)\s*[:\-–]\s*(\d[\d\s]*)\s*(?:шт|ед\.?|единиц[а-яё]*|мест[а-яё]*|pcs|pieces)(?![а-яёa-z])/i;
+const QUANTITY_PATTERN = /(\d[\d\s]*)\s*(?:шт|ед\.?|единиц[а-яё]*|мест[а-яё]*|pcs|pieces)(?![а-яёa-z])\.?/i;
+
+const WEIGHT_LABEL = /(?:вес(?:\s+брутто)?|масса|брутто|gross\s+weight|weight|waga(?:\s+brutto)?)\s*[:\-–]?\s*(\d[\d\s.,]*(?:[-–—]\s*\d[\d\s.,]*)?\s*[a-zа-яё.]*)/i;
+const VOLUME_LABEL = /(?:объ[её]м|volume|objętość)\s*[:\-–]?\s*(\d[\d\s.,]*(?:[-–—]\s*\d[\d\s.,]*)?\s*(?:м3|м³|куб[а-яё.]*(?:\s?м)?|m3|m³|cbm|л|l)?)/i;
+const LDM_PATTERN = /(\d+(?:[.,]\d+)?)\s*(?:ldm|лдм)(?![а-яёa-z])/i;
+const PALLETS_PATTERN = /(\d+)\s*((?:евро)?(?:паллет|палет|поддон)[а-яё]*|(?:euro[\s-]?)?pallets?|(?:euro)?palet[a-z]*)/i;
+const DIMENSIONS_LABEL = /(?:габарит[а-яё]*|размер[а-яё]*|dimensions?|wymiary)\s*[:\-–]?\s*(.+)$/i;
+
+const CARRIER_LABEL = /^\s*(?:для\s+перевозчик[а-яё]*|для\s+водител[а-яё]*|for\s+carriers?|примечание\s+для\s+перевозчик[а-яё]*)\s*:\s*(.+)$/i;
+
+const STREET_PATTERN = /(ул\.|улица|пр-т|проспект|пер\.|переулок|шоссе|бульвар|б-р|пл\.|площадь|тракт|(?:^|\s)д\.|street|str\.|ul\.|al\.|avenue|road)/i;
+const ZIPCODE_PATTERN = /^(?:\d{5,6}|\d{2}-\d{3})$/;
+const ADDRESS_TAIL = /\s*[,;]?\s*(?:можно|принима[а-яё]+|работа[а-яё]+|с\s+\d|\d{1,2}\s*[-–]\s*\d{1,2}\s+[а-яё]+|\d{1,2}[.\/-]\d{1,2}[.\/-]\d{2,4}).*$/i;
+
+const COUNTRIES = [
+    'Беларусь', 'Белоруссия', 'Россия', 'Украина', 'Польша', 'Литва', 'Латвия', 'Эстония', 'Германия', 'Казахстан',
+    'Belarus', 'Russia', 'Ukraine', 'Poland', 'Polska', 'Lithuania', 'Latvia', 'Estonia', 'Germany', 'Kazakhstan'
+];
+
+const TRANSPORT_MODES: Array<{ name: string; pattern: RegExp }> = [
+    { name: 'Автоперевозка', pattern: /(фур[аоуые]|грузовик|автоперевоз|автотранспорт|автомобильн|тент|рефрижератор|\btruck|\bFTL\b|\bLTL\b)/i },
+    { name: 'Морская перевозка', pattern: /(корабл|судн[оа]|морск[а-яё]+\s+перевоз|контейнеровоз|\bsea\s+freight|\bocean)/i },
+    { name: 'Авиаперевозка', pattern: /(самол[её]т|авиаперевоз|авиатранспорт|\bair\s+freight|\bby\s+air)/i },
+    { name: 'Железнодорожная перевозка', pattern: /(поезд|железнодорожн|ж\/д|вагон|\brail)/i }
+];
+
+export class RuleBasedExtractionService {
+    private readonly RULE_CONFIDENCE = 0.6;
+    private emailGroupIdService: EmailGroupId;
+    private validationService: ShipmentValidationService;
+    private measurementService: CargoMeasurementService;
+
+    constructor() {
+        this.emailGroupIdService = new EmailGroupId();
+        this.validationService = new ShipmentValidationService();
+        this.measurementService = new CargoMeasurementService();
+    }
+
+    extract(emails: IEmail[], documents: AttachmentDocument[] = []): ShipmentExtractionResult {
+        const provenance: ShipmentProvenance = {};
+        const detail = this.createEmptyDetail();
+        const contents = new Map<string, ShipmentContent>();
+        const modes = new Set<string>();
+        const measurements: Partial<ShipmentContent> = {};
+        let name = '';
+        let forCarriers: string | null = null;
+
+        const record = (path: string, source: RuleSource, snippet: string) => {
+            provenance[path] = {
+                source_type: source.sourceType,
+                email_id: source.emailId,
+                attachment_id: source.attachmentId,
+                snippet: snippet.trim().substring(0, 300),
+                confidence: this.RULE_CONFIDENCE
+            };
+        };
+
+        for (const email of emails) {
+            const emailGroupId = this.emailGroupIdService.extractEmailGroupIdFromText(email.subject || '');
+            if (emailGroupId && !name) {
+                name = emailGroupId;
+                record('name', { sourceType: 'email', emailId: email.id, attachmentId: null, text: email.subject }, email.subject);
+            }
+        }
+
+        // Письма идут по порядку, поэтому значения из более поздних писем перезаписывают ранние
+        for (const source of this.collectSources(emails, documents)) {
+            const lines = source.text.split(/\r?\n/);
+
+            lines.forEach((line, index) => {
+                if (!line.trim()) {
+                    return;
+                }
+
+                const originMatch = line.match(ORIGIN_LABEL);
+                const destMatch = line.match(DEST_LABEL);
+                if (originMatch || destMatch) {
+                    const field = originMatch ? 'address_from' : 'address_dest';
+                    const blockText = (originMatch || destMatch)![1].trim() || (lines[index + 1] || '').trim();
+                    if (this.applyAddress(detail[field], blockText)) {
+                        record(`shipment_details[0].${field}`, source, line);
+                    }
+                    return;
+                }
+
+                const carrierMatch = line.match(CARRIER_LABEL);
+                if (carrierMatch) {
+                    forCarriers = carrierMatch[1].trim();
+                    record('for_carriers', source, line);
+                    return;
+                }
+
+                const foundMeasurements = this.parseCargoMeasurements(line);
+                for (const field of Object.keys(foundMeasurements)) {
+                    record(`shipment_details[0].contents[0].${field}`, source, line);
+                }
+                Object.assign(measurements, foundMeasurements);
+
+                const content = this.parseContentLine(line, Object.keys(foundMeasurements).length > 0);
+                if (content) {
+                    contents.set(content.name.toLowerCase(), content);
+                    record(`shipment_details[0].contents[${[...contents.keys()].indexOf(content.name.toLowerCase())}]`, source, line);
+                }
+
+                this.applySchedule(detail, line, (path) => record(`shipment_details[0].${path}`, source, line));
+
+                for (const mode of TRANSPORT_MODES) {
+                    if (mode.pattern.test(line) && !modes.has(mode.name)) {
+                        modes.add(mode.name);
+                        record(`modes[${modes.size - 1}].name`, source, line);
+                    }
+                }
+            });
+        }
+
+        detail.contents = [...contents.values()];
+        // Вес, объем и паллеты в письмах обычно указаны на весь груз - относим их к первой позиции
+        if (detail.contents.length > 0) {
+            Object.assign(detail.contents[0], measurements);
+        }
+
+        const shipmentData: ShipmentRequest = {
+            name,
+            shipment_details: this.hasAnyDetail(detail) ? [detail] : [],
+            modes: [...modes].map(modeName => ({ name: modeName }))
+        };
+        if (forCarriers) {
+            shipmentData.for_carriers = forCarriers;
+        }
+
+        logger.info(`Rule-based extraction finished: ${Object.keys(provenance).length} fields found in ${emails.length} emails`);
+
+        return { shipment_data: shipmentData, provenance, validation_errors: [], prompt_version: null };
+    }
+
+    crossCheck(aiData: ShipmentRequest, ruleData: ShipmentRequest): ExtractionDisagreement[] {
+        const disagreements: ExtractionDisagreement[] = [];
+
+        const compare = (path: string, aiValue: unknown, ruleValue: unknown) => {
+            if (aiValue === null || aiValue === undefined || aiValue === '' || ruleValue === null || ruleValue === undefined || ruleValue === '') {
+                return;
+            }
+            if (this.normalizeForCompare(aiValue) !== this.normalizeForCompare(ruleValue)) {
+                disagreements.push({ path, ai_value: aiValue, rule_value: ruleValue });
+            }
+        };
+
+        compare('name', aiData.name, ruleData.name);
+
+        const aiDetail = aiData.shipment_details?.[0];
+        const ruleDetail = ruleData.shipment_details?.[0];
+        if (aiDetail && ruleDetail) {
+            const scheduleFields = [
+                'shipping_date_from', 'shipping_date_to', 'shipping_time_from', 'shipping_time_to',
+                'arrival_date_from', 'arrival_date_to', 'arrival_time_from', 'arrival_time_to'
+            ] as const;
+            for (const field of scheduleFields) {
+                compare(`shipment_details[0].${field}`, aiDetail[field], ruleDetail[field]);
+            }
+
+            for (const addressField of ['address_from', 'address_dest'] as const) {
+                for (const field of ['country', 'city', 'zipcode'] as const) {
+                    compare(
+                        `shipment_details[0].${addressField}.${field}`,
+                        aiDetail[addressField]?.[field],
+                        ruleDetail[addressField]?.[field]
+                    );
+                }
+            }
+
+            (aiDetail.contents || []).forEach((aiContent, index) => {
+                const ruleContent = ruleDetail.contents.find(
+                    content => this.normalizeForCompare(content.name) === this.normalizeForCompare(aiContent.name)
+                );
+                if (ruleContent) {
+                    compare(`shipment_details[0].contents[${index}].quantity`, aiContent.quantity, ruleContent.quantity);
+                }
+            });
+
+            const aiCargo = aiDetail.contents?.[0];
+            const ruleCargo = ruleDetail.contents[0];
+            (['gross_weight_kg', 'volume_m3', 'pallet_count'] as const).forEach(field => {
+                compare(`shipment_details[0].contents[0].${field}`, aiCargo?.[field], ruleCargo?.[field]);
+            });
+        }
+
+        if (disagreements.length > 0) {
+            logger.warn(`Rule-based cross-check found ${disagreements.length} disagreements with AI result`, { disagreements });
+        }
+
+        return disagreements;
+    }
+
+    private collectSources(emails: IEmail[], documents: AttachmentDocument[]): RuleSource[] {
+        const sources: RuleSource[] = [];
+
+        for (const email of emails) {
+            sources.push({ sourceType: 'email', emailId: email.id, attachmentId: null, text: email.text || '' });
+
+            documents
+                .filter(document => document.emailId === email.id)
+                .forEach(document => sources.push({
+                    sourceType: 'attachment',
+                    emailId: email.id,
+                    attachmentId: document.attachmentId,
+                    text: document.text
+                }));
+        }
+
+        return sources;
+    }
+
+    private applySchedule(detail: ShipmentDetail, line: string, onFound: (path: string) => void): void {
+        for (const segment of this.splitByScheduleKeywords(line)) {
+            const dates = this.findDates(segment.text);
+            const times = this.findTimes(segment.text);
+            const prefix = segment.kind;
+
+            if (dates.length > 0) {
+                detail[`${prefix}_date_from`] = dates[0];
+                detail[`${prefix}_date_to`] = dates.length > 1 ? dates[dates.length - 1] : null;
+                onFound(`${prefix}_date_from`);
+            }
+            if (times.length > 0) {
+                detail[`${prefix}_time_from`] = times[0];
+                detail[`${prefix}_time_to`] = times.length > 1 ? times[times.length - 1] : null;
+                onFound(`${prefix}_time_from`);
+            }
+        }
+    }
+
+    private splitByScheduleKeywords(line: string): Array<{ kind: 'shipping' | 'arrival'; text: string }> {
+        const keywords = new RegExp(`${SHIPPING_KEYWORDS.source}|${ARRIVAL_KEYWORDS.source}`, 'gi');
+        const matches = [...line.matchAll(keywords)];
+
+        return matches.map((match, index) => ({
+            kind: SHIPPING_KEYWORDS.test(match[0]) ? 'shipping' as const : 'arrival' as const,
+            text: line.substring(match.index!, index + 1 < matches.length ? matches[index + 1].index : line.length)
+        }));
+    }
+
+    private findDates(text: string): string[] {
+        return (text.match(DATE_PATTERN) || [])
+            .map(token => this.validationService.normalizeDate(token))
+            .filter((date): date is string => date !== null);
+    }
+
+    private findTimes(text: string): string[] {
+        const isoTimes = (text.match(DATE_PATTERN) || [])
+            .filter(token => /t\d/i.test(token))
+            .map(token => this.validationService.normalizeTime(token));
+
+        const plainTimes = (text.replace(DATE_PATTERN, ' ').match(TIME_PATTERN) || [])
+            .map(token => this.validationService.normalizeTime(token));
+
+        return [...isoTimes, ...plainTimes].filter((time): time is string => time !== null);
+    }
+
+    private applyAddress(address: ShipmentAddress, blockText: string): boolean {
+        if (!blockText) {
+            return false;
+        }
+
+        const dates = this.findDates(blockText);
+        const times = this.findTimes(blockText);
+        if (dates.length > 0) {
+            address.date_from = dates[0];
+            address.date_to = dates.length > 1 ? dates[dates.length - 1] : null;
+        }
+        if (times.length > 0) {
+            address.time_from = times[0];
+            address.time_to = times.length > 1 ? times[times.length - 1] : null;
+        }
+
+        const parts = blockText
+            .replace(ADDRESS_TAIL, '')
+            .split(',')
+            .map(part => part.trim())
+            .filter(part => part.length > 0);
+
+        const streetParts: string[] = [];
+        for (const part of parts) {
+            const country = COUNTRIES.find(candidate => candidate.toLowerCase() === part.toLowerCase());
+            if (country) {
+                address.country = country;
+            } else if (ZIPCODE_PATTERN.test(part)) {
+                address.zipcode = part;
+            } else if (STREET_PATTERN.test(part) || (streetParts.length > 0 && /\d/.test(part))) {
+                streetParts.push(part);
+            } else if (/^г\.\s*/i.test(part) || (!address.city && !/\d/.test(part))) {
+                address.city = part.replace(/^г\.\s*/i, '');
+            }
+        }
+
+        if (streetParts.length > 0) {
+            address.address = streetParts.join(', ');
+        }
+
+        return parts.length > 0 || dates.length > 0 || times.length > 0;
+    }
+
+    private parseCargoMeasurements(line: string): Partial<ShipmentContent> {
+        const found: Partial<ShipmentContent> = {};
+
+        const weightMatch = line.match(WEIGHT_LABEL);
+        const weight = weightMatch ? this.measurementService.parseWeightKg(weightMatch[1]) : null;
+        if (weight !== null) found.gross_weight_kg = weight;
+
+        const volumeMatch = line.match(VOLUME_LABEL);
+        const volume = volumeMatch ? this.measurementService.parseVolumeM3(volumeMatch[1]) : null;
+        if (volume !== null) found.volume_m3 = volume;
+
+        const ldmMatch = line.match(LDM_PATTERN);
+        const loadingMeters = ldmMatch ? this.measurementService.parseLoadingMeters(ldmMatch[1]) : null;
+        if (loadingMeters !== null) found.loading_meters = loadingMeters;
+
+        const palletsMatch = line.match(PALLETS_PATTERN);
+        if (palletsMatch) {
+            found.pallet_count = this.measurementService.parseCount(palletsMatch[1]);
+            found.package_type = this.measurementService.parsePackageType(palletsMatch[2]);
+        }
+
+        const dimensionsMatch = line.match(DIMENSIONS_LABEL);
+        const dimensions = this.measurementService.parseDimensionsCm(dimensionsMatch ? dimensionsMatch[1] : palletsMatch ? line : null);
+        if (dimensions) found.dimensions_cm = dimensions;
+
+        return found;
+    }
+
+    private parseContentLine(line: string, hasMeasurements: boolean = false): ShipmentContent | null {
+        const labelMatch = line.match(CARGO_LABEL);
+        if (labelMatch) {
+            const rest = labelMatch[1];
+            const quantityMatch = rest.match(QUANTITY_PATTERN);
+            const quantity = quantityMatch ? parseInt(quantityMatch[1].replace(/\s/g, ''), 10) : 1;
+            // "Груз: оборудование, 12 паллет, 8 т" - величины разбираются отдельно, в названии остается первая часть
+            const description = hasMeasurements ? rest.split(/[,;]/)[0] : rest;
+            const name = (quantityMatch ? description.replace(quantityMatch[0], '') : description)
+                .replace(/[,;:\-–\s]+$/, '')
+                .replace(/^[,;:\-–\s]+/, '')
+                .trim();
+
+            return { name: name || line.split(':')[0].trim(), quantity: quantity > 0 ? quantity : 1 };
+        }
+
+        const itemMatch = line.match(CARGO_ITEM);
+        if (itemMatch) {
+            const quantity = parseInt(itemMatch[2].replace(/\s/g, ''), 10);
+            return { name: itemMatch[1].trim(), quantity: quantity > 0 ? quantity : 1 };
+        }
+
+        return null;
+    }
+
+    private hasAnyDetail(detail: ShipmentDetail): boolean {
+        const hasAddress = (address: ShipmentAddress) => Object.values(address).some(value => value !== null);
+
+        return detail.contents.length > 0
+            || hasAddress(detail.address_from)
+            || hasAddress(detail.address_dest)
+            || Object.entries(detail).some(([key, value]) => /_(date|time)_/.test(key) && value !== null);
+    }
+
+    private normalizeForCompare(value: unknown): string {
+        return String(value).toLowerCase().replace(/\s+/g, ' ').trim();
+    }
+
+    private createEmptyAddress(): ShipmentAddress {
+        return {
+            country: null,
+            city: null,
+            zipcode: null,
+            address: null,
+            date_from: null,
+            date_to: null,
+            time_from: null,
+            time_to: null
+        };
+    }
+
+    private createEmptyDetail(): ShipmentDetail {
+        return {
+            shipping_date_from: null,
+            shipping_date_to: null,
+            shipping_time_from: null,
+            shipping_time_to: null,
+            arrival_date_from: null,
+            arrival_date_to: null,
+            arrival_time_from: null,
+            arrival_time_to: null,
+            address_from: this.createEmptyAddress(),
+            address_dest: this.createEmptyAddress(),
+            contents: []
+        };
+    }
+}
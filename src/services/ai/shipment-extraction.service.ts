@@ -0,0 +1,363 @@
+import { IEmail } from '@/models/email';
+import { ShipmentRequest, ShipmentExtractionResult, ShipmentValidationError } from '@/models/summary';
+import { logger } from '@/utils';
+import { EmailGroupId } from '@/utils/email-group-id';
+import { ExtractionProvider } from './providers/extraction-provider';
+import { ExtractionProviderFactory } from '@/factories/extraction-provider.factory';
+import { AttachmentDocument } from '@/models/attachment';
+import { aiConfig } from '@/config/ai.config';
+import { ExtractionProvenanceService } from './extraction-provenance.service';
+import { ShipmentValidationService, ShipmentValidationResult } from './shipment-validation.service';
+import { SummaryRenderService } from '../summary/summary-render.service';
+import { PiiRedactionService } from './pii-redaction.service';
+import { PromptTemplateContent } from '@/models/prompt-template';
+import { IExtractionExample } from '@/models/extraction-example';
+import { BUILTIN_PROMPT_TEMPLATE, PromptTemplateVariable } from './prompts/shipment-extraction.prompt';
+
+export class ShipmentExtractionService {
+    private static instance: ShipmentExtractionService;
+    private emailGroupIdService: EmailGroupId;
+    private provenanceService: ExtractionProvenanceService;
+    private validationService: ShipmentValidationService;
+    private renderService: SummaryRenderService;
+    private redactionService: PiiRedactionService;
+
+    constructor(private provider: ExtractionProvider) {
+        this.emailGroupIdService = new EmailGroupId();
+        this.provenanceService = new ExtractionProvenanceService();
+        this.validationService = new ShipmentValidationService();
+        this.renderService = new SummaryRenderService();
+        this.redactionService = new PiiRedactionService();
+    }
+
+    public static getInstance(): ShipmentExtractionService {
+        if (!ShipmentExtractionService.instance) {
+            const provider = ExtractionProviderFactory.create();
+            ShipmentExtractionService.instance = new ShipmentExtractionService(provider);
+            logger.info(`AI extraction provider: ${provider.name}, model: ${provider.getModelName()}`);
+        }
+        return ShipmentExtractionService.instance;
+    }
+
+    public getProviderName(): string {
+        return this.provider.name;
+    }
+
+    public getModelName(): string {
+        return this.provider.getModelName();
+    }
+
+    public isEnabled(): boolean {
+        return this.provider.isEnabled();
+    }
+
+    private formatEmailContext(emails: IEmail[], documents: AttachmentDocument[] = []): string {
+        const documentBlocks = this.formatAttachmentDocuments(emails, documents);
+
+        return emails
+            .map((email, index) => {
+                const date = new Date(email.date);
+                const emailText = (email as any).text || '';
+                const emailDocuments = documentBlocks.get(email.id);
+                return `
+            Email ${index + 1}:
+            Date: ${date.toLocaleDateString('ru-RU')}
+            Subject: ${email.subject}
+            From: ${email.from}
+            To: ${email.to}
+            Text: ${emailText.substring(0, 800)}${emailText.length > 800 ? '...' : ''}
+                    `.trim() + (emailDocuments ? `\n${emailDocuments.join('\n')}` : '');
+            })
+            .join('\n\n');
+    }
+
+    private formatAttachmentDocuments(emails: IEmail[], documents: AttachmentDocument[]): Map<string, string[]> {
+        const blocks = new Map<string, string[]>();
+        const { maxCharsPerDocument, maxTotalChars } = aiConfig.attachments;
+        let remainingChars = maxTotalChars;
+
+        emails.forEach((email, emailIndex) => {
+            const emailDocuments = documents.filter(document => document.emailId === email.id);
+
+            emailDocuments.forEach((document, documentIndex) => {
+                if (remainingChars <= 0) {
+                    return;
+                }
+
+                const limit = Math.min(maxCharsPerDocument, remainingChars);
+                const text = document.text.length > limit
+                    ? `${document.text.substring(0, limit)}...`
+                    : document.text;
+                remainingChars -= Math.min(document.text.length, limit);
+
+                const label = `Attachment ${emailIndex + 1}.${documentIndex + 1} (${document.filename}, ${document.kind.toUpperCase()})`;
+                const block = `${label}:\n${text}\n[End of ${label}]`;
+
+                blocks.set(email.id, [...(blocks.get(email.id) || []), block]);
+            });
+        });
+
+        if (remainingChars <= 0) {
+            logger.warn(`Attachment text budget of ${maxTotalChars} characters exhausted, some documents were truncated or skipped`);
+        }
+
+        return blocks;
+    }
+
+    public isMeaningfulAnalysis(structuredData: ShipmentRequest): boolean {
+        if (!structuredData.shipment_details || structuredData.shipment_details.length === 0) {
+            return false;
+        }
+
+        const shipment = structuredData.shipment_details[0];
+
+        const hasValidStringValue = (value: any, invalidPatterns: string[]): boolean => {
+            return value !== null && 
+                value !== undefined && 
+                typeof value === 'string' &&
+                value.length > 0 &&
+                !invalidPatterns.some(pattern => value.includes(pattern));
+        };
+
+        const hasAnyRealData = 
+            hasValidStringValue(shipment.shipping_date_from, ['дата', 'date in format', 'date']) ||
+            hasValidStringValue(shipment.shipping_date_to, ['дата', 'date in format', 'date']) ||
+            hasValidStringValue(shipment.arrival_date_from, ['дата', 'date in format', 'date']) ||
+            hasValidStringValue(shipment.arrival_date_to, ['дата', 'date in format', 'date']) ||
+
+            hasValidStringValue(shipment.address_from?.city, ['город', 'city', 'select city']) ||
+            hasValidStringValue(shipment.address_from?.country, ['страна', 'country', 'select country']) ||
+            hasValidStringValue(shipment.address_from?.address, ['адрес', 'address', 'enter address']) ||
+            hasValidStringValue(shipment.address_dest?.city, ['город', 'city', 'select city']) ||
+            hasValidStringValue(shipment.address_dest?.country, ['страна', 'country', 'select country']) ||
+            hasValidStringValue(shipment.address_dest?.address, ['адрес', 'address', 'enter address']) ||
+
+            (shipment.contents.length > 0 && 
+            hasValidStringValue(shipment.contents[0]?.name, ['Unknown', 'тип груза', 'Unknown type', 'груз', 'cargo type'])) ||
+
+            (structuredData.modes.length > 0 &&
+            hasValidStringValue(structuredData.modes[0]?.name, ['Unknown', 'вид перевозки', 'Unknown mode', 'transport mode'])) ||
+
+            hasValidStringValue(structuredData.for_carriers, ['информация для перевозчиков', 'information for carriers', 'carrier info']) ||
+            
+            (structuredData.name !== null && 
+            structuredData.name !== undefined &&
+            hasValidStringValue(structuredData.name, ['название груза', 'Shipment name', 'груз', 'cargo', 'test']) && 
+            structuredData.name.length > 5);
+
+        logger.debug('Meaningful analysis check result:', { 
+            hasAnyRealData,
+            name: structuredData.name,
+            nameLength: structuredData.name?.length,
+            dates: {
+                shipping_from: shipment.shipping_date_from,
+                shipping_to: shipment.shipping_date_to,
+                arrival_from: shipment.arrival_date_from,
+                arrival_to: shipment.arrival_date_to
+            },
+            addresses: {
+                from_city: shipment.address_from?.city,
+                from_country: shipment.address_from?.country,
+                dest_city: shipment.address_dest?.city,
+                dest_country: shipment.address_dest?.country
+            },
+            contents: shipment.contents.length,
+            modes: structuredData.modes.length
+        });
+        
+        return hasAnyRealData;
+    }
+
+    async generateStructuredEmailGroupData(
+        emails: IEmail[],
+        documents: AttachmentDocument[] = [],
+        template: PromptTemplateContent = BUILTIN_PROMPT_TEMPLATE,
+        examples: IExtractionExample[] = []
+    ): Promise<ShipmentExtractionResult> {
+        if (!this.provider.isEnabled()) {
+            throw new Error(`AI service disabled: ${this.provider.name} provider not available`);
+        }
+
+        if (!emails || emails.length === 0) {
+            throw new Error('No emails for analysis');
+        }
+
+        // Во внешнюю модель уходят копии писем с метками вместо персональных данных
+        const redaction = this.redactionService.createSession(emails);
+        const promptInput = redaction
+            ? this.redactionService.redactInput(redaction, { emails, documents, examples })
+            : { emails, documents, examples };
+        const prompt = this.createAnalysisPrompt(promptInput.emails, promptInput.documents, template, promptInput.examples, redaction !== null);
+
+        try {
+            logger.info(`Starting structured AI analysis for ${emails.length} emails and ${documents.length} attachments via ${this.provider.name} (${this.provider.getModelName()}), prompt ${template.id}, ${examples.length} few-shot examples`);
+
+            emails.forEach((email, index) => {
+                const searchText = `${email.subject} ${email.text || ''}`;
+                const emailGroupId = this.emailGroupIdService.extractEmailGroupIdFromText(searchText);
+                logger.debug(`Email ${index + 1}:`, {
+                    subject: email.subject,
+                    text_preview: email.text?.substring(0, 200) + '...',
+                    has_order_number: emailGroupId !== null,
+                    email_group_id: emailGroupId
+                });
+            });
+
+            // Ответ проверяется с метками: ошибки с полученными значениями уходят в повторный запрос к модели
+            let responseText = await this.provider.generateCompletion(prompt);
+            let { validation, rawProvenance } = this.parseAIResponse(responseText);
+
+            for (let attempt = 1; !validation.valid && attempt <= aiConfig.maxRepairAttempts; attempt++) {
+                logger.warn(`AI response failed validation with ${validation.errors.length} errors, repair attempt ${attempt}/${aiConfig.maxRepairAttempts}`, {
+                    errors: validation.errors
+                });
+
+                responseText = await this.provider.generateCompletion(
+                    this.createRepairPrompt(prompt, responseText, validation.errors)
+                );
+                ({ validation, rawProvenance } = this.parseAIResponse(responseText));
+            }
+
+            if (redaction) {
+                validation = this.redactionService.rehydrate(redaction, validation);
+                rawProvenance = this.redactionService.rehydrate(redaction, rawProvenance);
+            }
+
+            const structuredData = validation.data;
+            if (!validation.valid) {
+                logger.error(`AI response is still invalid after ${aiConfig.maxRepairAttempts} repair attempts`, {
+                    errors: validation.errors
+                });
+            }
+
+            const sources = this.provenanceService.buildSourceIndex(emails, documents);
+            const provenance = this.provenanceService.resolveProvenance(rawProvenance, sources);
+
+            logger.debug('AI analysis raw result:', {
+                name: structuredData.name,
+                shipment_details_count: structuredData.shipment_details?.length,
+                modes_count: structuredData.modes?.length,
+                has_for_carriers: !!structuredData.for_carriers,
+                provenance_fields: Object.keys(provenance).length,
+                validation_errors: validation.errors.length,
+                raw_data: JSON.stringify(structuredData, null, 2)
+            });
+
+            const hasUsefulData = this.isMeaningfulAnalysis(structuredData);
+
+            if (!hasUsefulData) {
+                logger.warn('AI analysis completed but no structured information was found in the emails');
+                logger.warn('Email subjects:', emails.map(e => e.subject));
+            } else {
+                logger.info('Structured AI analysis completed successfully with useful data');
+            }
+
+            return {
+                shipment_data: structuredData,
+                provenance,
+                validation_errors: validation.errors,
+                validation_warnings: validation.warnings,
+                prompt_version: template.id
+            };
+        } catch (error: any) {
+            logger.error('Structured AI analysis error:', error);
+            throw new Error(`Structured AI analysis failed: ${error.message}`);
+        }
+    }
+
+    private createAnalysisPrompt(
+        emails: IEmail[],
+        documents: AttachmentDocument[],
+        template: PromptTemplateContent,
+        examples: IExtractionExample[] = [],
+        redacted: boolean = false
+    ): string {
+        const redactionNote = redacted
+            ? 'Персональные данные в письмах заменены метками вида [EMAIL_1], [PHONE_1], [IBAN_1], [NAME_1]. Переноси такие метки в JSON без изменений.\n\n'
+            : '';
+        const variables: Record<PromptTemplateVariable, string> = {
+            email_context: redactionNote + this.formatEmailContext(emails, documents),
+            json_schema: template.schema,
+            few_shot_examples: this.formatFewShotExamples(examples)
+        };
+
+        // Шаблоны, созданные до появления примеров: блок ставится перед заголовком писем
+        const templateText = variables.few_shot_examples && !/\{\{\s*few_shot_examples\s*\}\}/.test(template.template)
+            ? template.template.replace(/(^[^\n]*:[ \t]*\n)?([^\n]*\{\{\s*email_context\s*\}\})/m, '{{few_shot_examples}}\n$1$2')
+            : template.template;
+
+        return templateText
+            .replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+                name in variables ? variables[name as PromptTemplateVariable] : placeholder
+            )
+            .trim();
+    }
+
+    private formatFewShotExamples(examples: IExtractionExample[]): string {
+        if (examples.length === 0) {
+            return '';
+        }
+
+        const blocks = examples.map((example, index) =>
+            `Пример ${index + 1}:\nПисьма:\n${example.excerpt}\nПравильный JSON:\n${JSON.stringify(example.shipmentData)}`
+        );
+
+        return `
+ПРИМЕРЫ ПРОВЕРЕННЫХ ЗАКАЗОВ ЭТОГО ОТПРАВИТЕЛЯ (данные подтверждены оператором).
+Используй их как образец того, как этот отправитель оформляет письма и какие значения ожидаются.
+Данные извлекай ТОЛЬКО из писем для анализа ниже, не копируй значения из примеров.
+
+${blocks.join('\n\n')}
+
+[Конец примеров]
+`;
+    }
+
+    private createRepairPrompt(originalPrompt: string, previousResponse: string, errors: ShipmentValidationError[]): string {
+        const errorList = errors
+            .map(error => `- ${error.path || '(корень)'}: ${error.message}${error.value !== undefined ? ` (получено: ${JSON.stringify(error.value)})` : ''}`)
+            .join('\n');
+
+        return `${originalPrompt}
+
+ТВОЙ ПРЕДЫДУЩИЙ ОТВЕТ НЕ ПРОШЕЛ ПРОВЕРКУ СХЕМЫ:
+${previousResponse.substring(0, 8000)}
+
+ОШИБКИ:
+${errorList}
+
+Исправь перечисленные ошибки и верни ПОЛНЫЙ исправленный JSON по той же схеме. Если значение нельзя определить из писем, используй null. Верни ТОЛЬКО JSON.`;
+    }
+
+    private parseAIResponse(responseText: string): { validation: ShipmentValidationResult; rawProvenance: unknown } {
+        const cleanJson = this.cleanJsonResponse(responseText);
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(cleanJson);
+        } catch (parseError: any) {
+            logger.error('JSON parsing error from AI response:', parseError);
+            logger.error('Raw response content:', responseText.substring(0, 500));
+
+            const validation = this.validationService.validate(null);
+            validation.errors = [{ path: '', message: `Response is not valid JSON: ${parseError.message}` }];
+            return { validation, rawProvenance: undefined };
+        }
+
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            return { validation: this.validationService.validate(parsed), rawProvenance: undefined };
+        }
+
+        const { _provenance, ...structuredData } = parsed;
+        return { validation: this.validationService.validate(structuredData), rawProvenance: _provenance };
+    }
+
+    private cleanJsonResponse(jsonText: string): string {
+        return jsonText.replace(/```json\n?|\n?```/g, '').trim();
+    }
+
+    // Хранимый текст сводки - русский текстовый вариант; другие локали и форматы строятся по запросу
+    formatStructuredDataToText(structuredData: ShipmentRequest): string {
+        return this.renderService.render(structuredData, 'ru', 'text');
+    }
+}
\ No newline at end of file
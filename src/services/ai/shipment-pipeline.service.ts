@@ -0,0 +1,106 @@
+import { IEmail } from '@/models/email';
+import { AttachmentDocument } from '@/models/attachment';
+import {
+    ShipmentRequest,
+    ShipmentExtractionResult,
+    ShipmentWarning,
+    ExtractionMethod,
+    ExtractionDisagreement
+} from '@/models/summary';
+import { aiConfig } from '@/config/ai.config';
+import { logger } from '@/utils';
+import { ShipmentExtractionService } from './shipment-extraction.service';
+import { RuleBasedExtractionService } from './rule-based-extraction.service';
+import { VocabularyService } from '../vocabulary/vocabulary.service';
+import { GazetteerService } from '../address/gazetteer.service';
+import { ShipmentScheduleService } from '../summary/shipment-schedule.service';
+
+export type AnalysisExtractionResult = ShipmentExtractionResult & {
+    extraction_method: ExtractionMethod;
+    disagreements: ExtractionDisagreement[] | null;
+};
+
+// Путь от писем до данных сводки: модель с запасным разбором по правилам и нормализация.
+// Общий для анализа групп и оценки на фикстурах, чтобы оценивалось то, что сохраняется
+export class ShipmentPipelineService {
+    private ruleBasedExtractionService: RuleBasedExtractionService;
+    private scheduleService: ShipmentScheduleService;
+    private gazetteerService: GazetteerService;
+
+    constructor(
+        private extractionService: ShipmentExtractionService,
+        private vocabularyService: VocabularyService
+    ) {
+        this.ruleBasedExtractionService = new RuleBasedExtractionService();
+        this.scheduleService = new ShipmentScheduleService();
+        this.gazetteerService = new GazetteerService();
+    }
+
+    // extractWithAi - вызов модели со своим шаблоном и кэшем; правила подменяют его, если провайдер выключен или упал
+    async extract(
+        emails: IEmail[],
+        documents: AttachmentDocument[],
+        extractWithAi: () => Promise<ShipmentExtractionResult>
+    ): Promise<AnalysisExtractionResult> {
+        const { fallbackEnabled, crossCheck } = aiConfig.ruleBased;
+
+        if (!this.extractionService.isEnabled()) {
+            if (!fallbackEnabled) {
+                throw new Error(`AI service disabled: ${this.extractionService.getProviderName()} provider not available`);
+            }
+
+            logger.warn(`AI provider ${this.extractionService.getProviderName()} is disabled, using rule-based extraction`);
+            return this.extractWithRules(emails, documents);
+        }
+
+        let aiResult: ShipmentExtractionResult;
+        try {
+            aiResult = await extractWithAi();
+        } catch (error: any) {
+            if (!fallbackEnabled) {
+                throw error;
+            }
+
+            logger.warn(`AI extraction failed, using rule-based extraction: ${error.message}`);
+            return this.extractWithRules(emails, documents);
+        }
+
+        if (!crossCheck) {
+            return { ...aiResult, extraction_method: 'ai', disagreements: null };
+        }
+
+        const ruleResult = this.ruleBasedExtractionService.extract(emails, documents);
+        const disagreements = this.ruleBasedExtractionService.crossCheck(aiResult.shipment_data, ruleResult.shipment_data);
+
+        return { ...aiResult, extraction_method: 'ai', disagreements };
+    }
+
+    extractWithRules(emails: IEmail[], documents: AttachmentDocument[]): AnalysisExtractionResult {
+        return { ...this.ruleBasedExtractionService.extract(emails, documents), extraction_method: 'rules', disagreements: null };
+    }
+
+    // Коды словаря, нормализованные адреса и расписание
+    async normalize(data: ShipmentRequest, emailGroupId: string | null, emails: IEmail[]): Promise<{ data: ShipmentRequest; warnings: ShipmentWarning[] }> {
+        const addresses = this.gazetteerService.normalizeShipment(await this.normalizeVocabulary(data, emailGroupId));
+        const schedule = this.scheduleService.normalize(addresses.data, this.getLatestEmailDate(emails));
+
+        return { data: schedule.data, warnings: [...addresses.warnings, ...schedule.warnings] };
+    }
+
+    // Ошибка словаря не должна ронять анализ - сводка сохраняется без кодов
+    private async normalizeVocabulary(data: ShipmentRequest, emailGroupId: string | null): Promise<ShipmentRequest> {
+        try {
+            return await this.vocabularyService.normalizeShipment(data, emailGroupId);
+        } catch (error) {
+            logger.error(`Failed to normalize vocabulary for ${emailGroupId}:`, error);
+            return data;
+        }
+    }
+
+    private getLatestEmailDate(emails: IEmail[]): Date {
+        const timestamps = emails
+            .map(email => new Date(email.date).getTime())
+            .filter(timestamp => !isNaN(timestamp));
+        return timestamps.length > 0 ? new Date(Math.max(...timestamps)) : new Date();
+    }
+}
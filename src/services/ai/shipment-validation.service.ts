@@ -0,0 +1,364 @@
+import {
+    ShipmentRequest,
+    ShipmentAddress,
+    ShipmentContent,
+    ShipmentMode,
+    ShipmentValidationError,
+    ShipmentWarning,
+    OrderLifecycleStatus,
+    ORDER_LIFECYCLE_STATUSES
+} from '@/models/summary';
+import { CargoMeasurementService } from './cargo-measurement.service';
+
+type ShipmentDetail = ShipmentRequest['shipment_details'][number];
+
+export interface ShipmentValidationResult {
+    valid: boolean;
+    data: ShipmentRequest;
+    errors: ShipmentValidationError[];
+    // Необязательные величины, которые не удалось разобрать: поле отбрасывается, сводка остается валидной
+    warnings: ShipmentWarning[];
+}
+
+const DATE_FIELDS = [
+    'shipping_date_from', 'shipping_date_to', 'arrival_date_from', 'arrival_date_to'
+] as const;
+
+const TIME_FIELDS = [
+    'shipping_time_from', 'shipping_time_to', 'arrival_time_from', 'arrival_time_to'
+] as const;
+
+const ADDRESS_STRING_FIELDS = ['country', 'city', 'zipcode', 'address'] as const;
+
+const MONTHS: Record<string, number> = {
+    'янв': 1, 'фев': 2, 'мар': 3, 'апр': 4, 'мая': 5, 'май': 5, 'июн': 6,
+    'июл': 7, 'авг': 8, 'сен': 9, 'окт': 10, 'ноя': 11, 'дек': 12,
+    'jan': 1, 'feb': 2, 'mar': 3, 'apr': 4, 'may': 5, 'jun': 6,
+    'jul': 7, 'aug': 8, 'sep': 9, 'oct': 10, 'nov': 11, 'dec': 12
+};
+
+export class ShipmentValidationService {
+    private measurementService = new CargoMeasurementService();
+
+    validate(raw: unknown): ShipmentValidationResult {
+        const errors: ShipmentValidationError[] = [];
+        const warnings: ShipmentWarning[] = [];
+
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            errors.push({ path: '', message: 'Response must be a JSON object', value: raw });
+            return { valid: false, data: this.createEmptyShipment(), errors, warnings };
+        }
+
+        const input = raw as Record<string, any>;
+
+        const data: ShipmentRequest = {
+            name: this.coerceName(input.name, errors),
+            shipment_details: this.coerceArray(input.shipment_details, 'shipment_details', errors, true)
+                .map((detail, index) => this.coerceDetail(detail, `shipment_details[${index}]`, errors, warnings)),
+            modes: this.coerceArray(input.modes, 'modes', errors, true)
+                .map((mode, index) => this.coerceMode(mode, `modes[${index}]`, errors))
+                .filter((mode): mode is ShipmentMode => mode !== null)
+        };
+
+        const forCarriers = this.coerceString(input.for_carriers, 'for_carriers', errors);
+        if (forCarriers) {
+            data.for_carriers = forCarriers;
+        }
+
+        const orderStatus = this.coerceOrderStatus(input.order_status, errors);
+        if (orderStatus) {
+            data.order_status = orderStatus;
+        }
+
+        return { valid: errors.length === 0, data, errors, warnings };
+    }
+
+    normalizeDate(value: string): string | null {
+        const text = value.trim().toLowerCase();
+        let day: number;
+        let month: number;
+        let year: number;
+
+        let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[t\s].*)?$/);
+        if (match) {
+            [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        } else if ((match = text.match(/^(\d{1,2})[.\-\/](\d{1,2})[.\-\/](\d{2}|\d{4})$/))) {
+            [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        } else if ((match = text.match(/^(\d{1,2})\s+([a-zа-яё]+)\.?,?\s+(\d{4})(?:\s*(?:г\.?|года))?$/))) {
+            const monthNumber = MONTHS[match[2].substring(0, 3)];
+            if (!monthNumber) {
+                return null;
+            }
+            [day, month, year] = [Number(match[1]), monthNumber, Number(match[3])];
+        } else {
+            return null;
+        }
+
+        if (year < 100) {
+            year += 2000;
+        }
+
+        const date = new Date(Date.UTC(year, month - 1, day));
+        if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+            return null;
+        }
+
+        return `${String(day).padStart(2, '0')}-${String(month).padStart(2, '0')}-${year}`;
+    }
+
+    normalizeTime(value: string): string | null {
+        const text = value.trim().toLowerCase();
+
+        let match = text.match(/(?:^|t)(\d{1,2})[:.](\d{2})(?::\d{2})?(?:\.\d+)?(?:z|[+\-]\d{2}:?\d{2})?$/);
+        if (!match) {
+            match = text.match(/^(\d{1,2})\s*(?:ч|час|часов|утра|дня|вечера|am|pm)?\.?$/);
+            if (!match) {
+                return null;
+            }
+            match = [match[0], match[1], '00'] as RegExpMatchArray;
+            if (/(дня|вечера|pm)/.test(text) && Number(match[1]) < 12) {
+                match[1] = String(Number(match[1]) + 12);
+            }
+        }
+
+        const hours = Number(match[1]);
+        const minutes = Number(match[2]);
+        if (hours > 23 || minutes > 59) {
+            return null;
+        }
+
+        return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+    }
+
+    private coerceOrderStatus(value: unknown, errors: ShipmentValidationError[]): OrderLifecycleStatus | null {
+        if (value === null || value === undefined || value === '') {
+            return null;
+        }
+
+        const status = typeof value === 'string'
+            ? value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+            : '';
+
+        if (!(ORDER_LIFECYCLE_STATUSES as readonly string[]).includes(status)) {
+            errors.push({
+                path: 'order_status',
+                message: `Expected one of: ${ORDER_LIFECYCLE_STATUSES.join(', ')}`,
+                value
+            });
+            return null;
+        }
+
+        return status as OrderLifecycleStatus;
+    }
+
+    private coerceName(value: unknown, errors: ShipmentValidationError[]): string {
+        if (value === null || value === undefined) {
+            return '';
+        }
+        if (typeof value === 'number') {
+            return String(value);
+        }
+        if (typeof value !== 'string') {
+            errors.push({ path: 'name', message: 'Must be a string', value });
+            return '';
+        }
+
+        return value.trim();
+    }
+
+    // required - поле верхнего уровня: пропущенный или null массив означает ответ не по схеме, а не пустой список
+    private coerceArray(value: unknown, path: string, errors: ShipmentValidationError[], required: boolean = false): any[] {
+        if (value === null || value === undefined) {
+            if (required) {
+                errors.push({ path, message: 'Required', value });
+            }
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            if (typeof value === 'object') {
+                return [value];
+            }
+            errors.push({ path, message: 'Must be an array', value });
+            return [];
+        }
+        return value;
+    }
+
+    private coerceDetail(value: unknown, path: string, errors: ShipmentValidationError[], warnings: ShipmentWarning[]): ShipmentDetail {
+        const input = (value && typeof value === 'object' ? value : {}) as Record<string, any>;
+        if (!value || typeof value !== 'object') {
+            errors.push({ path, message: 'Must be an object', value });
+        }
+
+        const detail = {
+            address_from: this.coerceAddress(input.address_from, `${path}.address_from`, errors),
+            address_dest: this.coerceAddress(input.address_dest, `${path}.address_dest`, errors),
+            contents: this.coerceArray(input.contents, `${path}.contents`, errors)
+                .map((content, index) => this.coerceContent(content, `${path}.contents[${index}]`, errors, warnings))
+                .filter((content): content is ShipmentContent => content !== null)
+        } as ShipmentDetail;
+
+        for (const field of DATE_FIELDS) {
+            detail[field] = this.coerceDate(input[field], `${path}.${field}`, errors);
+        }
+        for (const field of TIME_FIELDS) {
+            detail[field] = this.coerceTime(input[field], `${path}.${field}`, errors);
+        }
+
+        return detail;
+    }
+
+    private coerceAddress(value: unknown, path: string, errors: ShipmentValidationError[]): ShipmentAddress {
+        const input = (value && typeof value === 'object' ? value : {}) as Record<string, any>;
+        if (value !== null && value !== undefined && typeof value !== 'object') {
+            errors.push({ path, message: 'Must be an object', value });
+        }
+
+        const address = {} as ShipmentAddress;
+        for (const field of ADDRESS_STRING_FIELDS) {
+            address[field] = this.coerceString(input[field], `${path}.${field}`, errors);
+        }
+        address.date_from = this.coerceDate(input.date_from, `${path}.date_from`, errors);
+        address.date_to = this.coerceDate(input.date_to, `${path}.date_to`, errors);
+        address.time_from = this.coerceTime(input.time_from, `${path}.time_from`, errors);
+        address.time_to = this.coerceTime(input.time_to, `${path}.time_to`, errors);
+
+        return address;
+    }
+
+    private coerceContent(value: unknown, path: string, errors: ShipmentValidationError[], warnings: ShipmentWarning[]): ShipmentContent | null {
+        if (typeof value === 'string') {
+            return value.trim() ? { name: value.trim(), quantity: 1 } : null;
+        }
+        if (!value || typeof value !== 'object') {
+            errors.push({ path, message: 'Must be an object with name and quantity', value });
+            return null;
+        }
+
+        const input = value as Record<string, any>;
+        const name = this.coerceString(input.name, `${path}.name`, errors);
+        if (!name) {
+            errors.push({ path: `${path}.name`, message: 'Cargo name is required', value: input.name });
+            return null;
+        }
+
+        const content: ShipmentContent = { name, quantity: this.coerceQuantity(input.quantity, `${path}.quantity`, errors) };
+        this.coerceCargoMeasurements(content, input, path, warnings);
+        return content;
+    }
+
+    // Необязательные величины добавляются в контент только если указаны. "уточняется" или "по запросу" вместо веса
+    // не делают сводку невалидной: поле отбрасывается с предупреждением
+    private coerceCargoMeasurements(content: ShipmentContent, input: Record<string, any>, path: string, warnings: ShipmentWarning[]): void {
+        const measurements = [
+            { field: 'gross_weight_kg', parse: (value: unknown) => this.measurementService.parseWeightKg(value), message: 'Must be a weight, e.g. 1200 or "1.2 t"' },
+            { field: 'volume_m3', parse: (value: unknown) => this.measurementService.parseVolumeM3(value), message: 'Must be a volume, e.g. 82 or "82 m3"' },
+            { field: 'loading_meters', parse: (value: unknown) => this.measurementService.parseLoadingMeters(value), message: 'Must be loading meters, e.g. 13.6' },
+            { field: 'pallet_count', parse: (value: unknown) => this.measurementService.parseCount(value), message: 'Must be a positive number of pallets' },
+            { field: 'package_type', parse: (value: unknown) => this.measurementService.parsePackageType(value), message: 'Must be a package type' },
+            { field: 'dimensions_cm', parse: (value: unknown) => this.measurementService.parseDimensionsCm(value), message: 'Must be dimensions, e.g. "120x80x150 cm"' }
+        ] as const;
+
+        for (const { field, parse, message } of measurements) {
+            const value = input[field];
+            if (value === null || value === undefined || value === '' || (typeof value === 'string' && value.trim().toLowerCase() === 'null')) {
+                continue;
+            }
+
+            const parsed = parse(value);
+            if (parsed === null) {
+                warnings.push({ code: 'measurement_unparsed', path: `${path}.${field}`, message, value });
+                continue;
+            }
+            (content as Record<string, unknown>)[field] = parsed;
+        }
+    }
+
+    private coerceQuantity(value: unknown, path: string, errors: ShipmentValidationError[]): number {
+        if (value === null || value === undefined || value === '') {
+            return 1;
+        }
+        if (typeof value === 'number') {
+            if (!isFinite(value) || value <= 0) {
+                errors.push({ path, message: 'Must be a positive number', value });
+                return 1;
+            }
+            return value;
+        }
+        if (typeof value === 'string') {
+            const match = value.replace(/\s(?=\d{3}\b)/g, '').match(/\d+(?:[.,]\d+)?/);
+            if (match) {
+                const quantity = parseFloat(match[0].replace(',', '.'));
+                if (quantity > 0) {
+                    return quantity;
+                }
+            }
+        }
+
+        errors.push({ path, message: 'Must be a positive number', value });
+        return 1;
+    }
+
+    private coerceMode(value: unknown, path: string, errors: ShipmentValidationError[]): ShipmentMode | null {
+        if (typeof value === 'string') {
+            return value.trim() ? { name: value.trim() } : null;
+        }
+
+        const name = value && typeof value === 'object'
+            ? this.coerceString((value as Record<string, any>).name, `${path}.name`, errors)
+            : null;
+
+        if (!name) {
+            errors.push({ path: `${path}.name`, message: 'Transport mode name is required', value });
+            return null;
+        }
+
+        return { name };
+    }
+
+    private coerceString(value: unknown, path: string, errors: ShipmentValidationError[]): string | null {
+        if (value === null || value === undefined) {
+            return null;
+        }
+        if (typeof value === 'number') {
+            return String(value);
+        }
+        if (typeof value !== 'string') {
+            errors.push({ path, message: 'Must be a string or null', value });
+            return null;
+        }
+
+        const trimmed = value.trim();
+        return trimmed.length > 0 && trimmed.toLowerCase() !== 'null' ? trimmed : null;
+    }
+
+    private coerceDate(value: unknown, path: string, errors: ShipmentValidationError[]): string | null {
+        const text = this.coerceString(value, path, errors);
+        if (text === null) {
+            return null;
+        }
+
+        const normalized = this.normalizeDate(text);
+        if (!normalized) {
+            errors.push({ path, message: 'Must be a date in DD-MM-YYYY format', value });
+        }
+        return normalized;
+    }
+
+    private coerceTime(value: unknown, path: string, errors: ShipmentValidationError[]): string | null {
+        const text = this.coerceString(value, path, errors);
+        if (text === null) {
+            return null;
+        }
+
+        const normalized = this.normalizeTime(text);
+        if (!normalized) {
+            errors.push({ path, message: 'Must be a time in HH:MM format', value });
+        }
+        return normalized;
+    }
+
+    private createEmptyShipment(): ShipmentRequest {
+        return { name: '', shipment_details: [], modes: [] };
+    }
+}
\ No newline at end of file
@@ -2,7 +2,8 @@ import { oauthProviderService } from '@/config/oauth.config.ts';
 import { logger } from '@/utils';
 
 export class AuthUrlService {
-    generateAuthUrl(email: string): string {
+    // provider - выбор пользователя; без него провайдер ищется по домену из настроек
+    generateAuthUrl(email: string, provider?: unknown): string {
         logger.info('AuthUrlService.generateAuthUrl called with email:', email);
 
         if (!email) {
@@ -10,24 +11,24 @@ export class AuthUrlService {
             throw new Error('Email parameter is required');
         }
 
-        logger.info('Getting provider config for email:', email);
-        const providerConfig = oauthProviderService.getProviderConfig(email);
+        if (provider !== undefined && provider !== '' && !oauthProviderService.isProviderId(provider)) {
+            throw new Error(`Invalid OAuth provider: ${String(provider)}`);
+        }
+        const providerId = provider ? provider as string : oauthProviderService.resolveProviderId(email);
+        if (!providerId) {
+            throw new Error(`Invalid OAuth provider: none is mapped to the domain of ${email}, choose a provider explicitly`);
+        }
+
+        logger.info('Getting provider config for email:', { email, provider: providerId });
+        const providerConfig = oauthProviderService.getProviderConfig(email, providerId);
 
         if (!providerConfig) {
             logger.error(`No OAuth configuration found for email: ${email}`);
             throw new Error(`OAuth not configured for ${email}`);
         }
 
-        const lowerEmail = email.toLowerCase();
-        let providerName = 'Unknown';
-        if (lowerEmail.includes('gmail.com')) {
-            providerName = 'Google';
-        } else if (lowerEmail.includes('mail.ru')) {
-            providerName = 'Mail.ru';
-        }
-
         logger.info('Provider config found:', {
-            provider: providerName,
+            provider: providerConfig.displayName,
             authUrl: providerConfig.authUrl,
             clientId: providerConfig.clientId ? 'SET' : 'MISSING',
             redirectUri: providerConfig.redirectUri,
@@ -47,4 +48,4 @@ export class AuthUrlService {
             throw new Error(`Failed to generate authentication URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
-}
\ No newline at end of file
+}
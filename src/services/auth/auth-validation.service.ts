@@ -1,5 +1,6 @@
 import { logger } from '@/utils';
 import { ValidationUtils } from '@/utils/validation.ts';
+import { oauthProviderService } from '@/config/oauth.config';
 
 export class AuthValidationService {
     private validationService: ValidationUtils;
@@ -12,17 +13,23 @@ export class AuthValidationService {
         return this.validationService.isValidAuthCode(code as string);
     }
 
-    resolveEmail(email: string, state: string): string {
-        if (email) return email;
-
+    // Адрес и провайдер приходят в теле callback или восстанавливаются из state
+    resolveLogin(email: string, state: string, provider?: unknown): { email: string; provider?: string } {
+        let fromState: { email: string; provider?: string } | null = null;
         if (state) {
             try {
-                return Buffer.from(state, 'base64').toString('utf-8');
+                fromState = oauthProviderService.decodeState(state);
             } catch (e) {
                 logger.error('Error decoding email from state:', e);
             }
         }
 
-        throw new Error('Email is required for authentication');
+        const resolvedEmail = email || fromState?.email;
+        if (!resolvedEmail) {
+            throw new Error('Email is required for authentication');
+        }
+
+        const resolvedProvider = typeof provider === 'string' && provider ? provider : fromState?.provider;
+        return resolvedProvider ? { email: resolvedEmail, provider: resolvedProvider } : { email: resolvedEmail };
     }
 }
\ No newline at end of file
@@ -1,10 +1,11 @@
-import { EmailFetcherService } from '../email/email-fetcher.service';
+import { MailSource } from '../email/mail-source';
 import { SessionManagerService } from './session-manager.service';
 import { CredentialsStorageService } from './credentials-storage.service';
 import { EmailConnectionManager } from '../email/email-connection-manager';
 import { AuthResult } from '@/models/auth';
-import { OAuthTokenHandler, UserInfo, logger } from '@/utils';
-import {oauthProviderService} from "@/config/oauth.config.ts";
+import { ImapLoginSettings } from '@/models/imap-account';
+import { imapLoginProviderService } from '@/config/imap-login.config';
+import { OAuthTokenHandler, UserInfo, CredentialsCipher, logger } from '@/utils';
 
 export class AuthService {
     private sessionManager: SessionManagerService;
@@ -28,7 +29,7 @@ export class AuthService {
             const tokens = await this.tokenHandler.exchangeCodeForTokens(code, providerConfig);
             logger.info('Tokens successfully received');
 
-            const userInfo = await this.userInfoService.getUserInfo(tokens.access_token, providerConfig);
+            const userInfo = await this.userInfoService.getUserInfo(tokens.access_token, providerConfig, tokens.id_token);
             logger.info(`User info received: ${userInfo.email}`);
 
             const emailService = await this.connectionManager.getConnection(
@@ -85,6 +86,61 @@ export class AuthService {
         }
     }
 
+    async handleImapLogin(settings: ImapLoginSettings): Promise<AuthResult> {
+        let connecting = false;
+        try {
+            logger.info(`Starting IMAP login for email: ${settings.email} at ${settings.host}:${settings.port}`);
+            if (!CredentialsCipher.isConfigured()) {
+                throw new Error('CREDENTIALS_ENCRYPTION_KEY not configured');
+            }
+
+            // Без OAuth адрес ничем не подтвержден - чужую учетную запись перезаписать нельзя
+            const existing = await this.credentialsStorage.getCredentialsByEmail(settings.email);
+            if (existing && existing.provider !== 'imap') {
+                throw new Error(`Account ${settings.email} already exists with OAuth login`);
+            }
+            const existingAccount = existing?.id ? await this.credentialsStorage.getImapAccount(existing.id) : null;
+            if (existingAccount && (existingAccount.host !== settings.host || existingAccount.username !== settings.username)) {
+                throw new Error(`IMAP account ${settings.email} already exists on another server`);
+            }
+
+            const providerConfig = imapLoginProviderService.createConnectionConfig(settings);
+            connecting = true;
+            const emailService = await this.connectionManager.refreshConnection(settings.email, '', providerConfig);
+            logger.info('Test connection to email service successful');
+
+            await this.credentialsStorage.saveImapCredentials(settings);
+
+            const sessionId = this.sessionManager.createSession(
+                settings.email,
+                '',
+                emailService,
+                7 * 24 * 60 * 60 * 1000
+            );
+            logger.info(`Session successfully created with ID: ${sessionId}`);
+
+            return {
+                success: true,
+                message: 'Authentication successful. Click "Load Data" to get information about your shipments.',
+                sessionId,
+                user: { email: settings.email }
+            };
+
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'IMAP login error';
+            logger.error('IMAP authentication error:', error);
+
+            if (connecting) {
+                this.connectionManager.cleanupConnection(settings.email);
+            }
+
+            return {
+                success: false,
+                message: errorMessage
+            };
+        }
+    }
+
     validateSession(sessionId: string): { email: string } | null {
         logger.debug(`Validating session: ${sessionId}`);
         const result = this.sessionManager.validateSession(sessionId);
@@ -122,7 +178,7 @@ export class AuthService {
         return this.sessionManager.logout(sessionId);
     }
 
-    public async refreshEmailService(sessionId: string): Promise<EmailFetcherService | null> {
+    public async refreshEmailService(sessionId: string): Promise<MailSource | null> {
         try {
             const session = this.sessionManager.getSession(sessionId);
             if (!session) {
@@ -134,7 +190,7 @@ export class AuthService {
                 return null;
             }
 
-            const providerConfig = oauthProviderService.getProviderConfig(session.email);
+            const providerConfig = await this.credentialsStorage.getConnectionConfig(credentials);
             if (!providerConfig) {
                 return null;
             }
@@ -1,14 +1,20 @@
-import { User } from '@/models/auth';
+import { OAuthProviderConfig, User } from '@/models/auth';
+import { IImapAccount, ImapLoginConfig, ImapLoginSettings } from '@/models/imap-account';
 import { UserRepository } from '@/repositories/user.repository';
-import { logger } from '@/utils';
+import { ImapAccountRepository } from '@/repositories/imap-account.repository';
+import { oauthProviderService } from '@/config/oauth.config';
+import { imapLoginProviderService } from '@/config/imap-login.config';
+import { CredentialsCipher, logger } from '@/utils';
 import { Sequelize } from "sequelize";
 
 export class CredentialsStorageService {
     private static instance: CredentialsStorageService;
     private userRepository: UserRepository;
+    private imapAccountRepository: ImapAccountRepository;
 
     private constructor(sequelize: Sequelize) {
         this.userRepository = new UserRepository(sequelize);
+        this.imapAccountRepository = new ImapAccountRepository(sequelize);
         logger.info('Database credentials storage initialized');
     }
 
@@ -25,6 +31,7 @@ export class CredentialsStorageService {
                 email,
                 accessToken,
                 refreshToken,
+                provider: providerConfig?.id || null,
                 lastSync: new Date(),
                 isActive: true
             });
@@ -36,6 +43,64 @@ export class CredentialsStorageService {
         }
     }
 
+    // У пользователей с входом по паролю access token нет - пароль лежит зашифрованным в imap_accounts
+    public async saveImapCredentials(settings: ImapLoginSettings): Promise<void> {
+        try {
+            const user = await this.userRepository.saveUser({
+                email: settings.email,
+                accessToken: '',
+                provider: 'imap',
+                lastSync: new Date(),
+                isActive: true
+            });
+
+            await this.imapAccountRepository.saveAccount({
+                userId: user.id!,
+                host: settings.host,
+                port: settings.port,
+                security: settings.security,
+                username: settings.username,
+                encryptedPassword: CredentialsCipher.encrypt(settings.password)
+            });
+
+            logger.info(`IMAP credentials saved to database for: ${settings.email}`);
+        } catch (error) {
+            logger.error('Error saving IMAP credentials to database:', error);
+            throw error;
+        }
+    }
+
+    public async getImapAccount(userId: number): Promise<IImapAccount | null> {
+        try {
+            return await this.imapAccountRepository.getAccountByUserId(userId);
+        } catch (error) {
+            logger.error('Error getting IMAP account from database:', error);
+            throw error;
+        }
+    }
+
+    // Единая точка, где по сохраненным учетным данным выбирается способ подключения к ящику
+    public async getConnectionConfig(credentials: User): Promise<OAuthProviderConfig | ImapLoginConfig | null> {
+        if (credentials.provider !== 'imap') {
+            return oauthProviderService.getProviderConfig(credentials.email, credentials.provider);
+        }
+
+        const account = credentials.id ? await this.getImapAccount(credentials.id) : null;
+        if (!account) {
+            logger.error(`No IMAP account settings found for ${credentials.email}`);
+            return null;
+        }
+
+        return imapLoginProviderService.createConnectionConfig({
+            email: credentials.email,
+            host: account.host,
+            port: account.port,
+            security: account.security,
+            username: account.username,
+            password: CredentialsCipher.decrypt(account.encryptedPassword)
+        });
+    }
+
     public async getAllActiveCredentials(): Promise<User[]> {
         try {
             const users = await this.userRepository.getAllActiveUsers();
@@ -0,0 +1,148 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+import { appConfig } from '@/config/app.config';
+import { imapLoginConfig, imapLoginProviderService } from '@/config/imap-login.config';
+import { oauthProviderService } from '@/config/oauth.config';
+import { ImapLoginSettings, ImapSecurityMode, IMAP_SECURITY_MODES } from '@/models/imap-account';
+import { MailSourceFactory } from '@/factories/mail-source.factory';
+import { logger } from '@/utils';
+
+export type ImapConnectionTestResult = {
+    host: string;
+    port: number;
+    security: ImapSecurityMode;
+    username: string;
+    mailboxes: string[];
+};
+
+// Локальные, частные, link-local и служебные сети
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]] as const) {
+    PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+const DEFAULT_PORTS: Record<ImapSecurityMode, number> = {
+    tls: 993,
+    starttls: 143,
+    none: 143
+};
+
+export class ImapLoginService {
+    // Недостающие host/port/security берутся из пресета по домену адреса, username по умолчанию - сам адрес
+    async parseSettings(input: Record<string, unknown>): Promise<ImapLoginSettings> {
+        const email = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+        if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+            throw new Error('Invalid IMAP settings: email is required');
+        }
+
+        // Адрес не подтверждается сервером, поэтому ящики OAuth-провайдеров входят только через OAuth
+        const oauthProviderId = oauthProviderService.resolveProviderId(email);
+        if (oauthProviderId) {
+            throw new Error(`Invalid IMAP settings: ${email.split('@')[1]} accounts sign in through ${oauthProviderId} OAuth`);
+        }
+        if (appConfig.adminEmails.includes(email)) {
+            throw new Error('Invalid IMAP settings: administrator accounts sign in through OAuth');
+        }
+
+        const preset = imapLoginProviderService.getPreset(email);
+        const host = typeof input.host === 'string' && input.host.trim()
+            ? input.host.trim().toLowerCase()
+            : imapLoginProviderService.getConfiguredHost(email) || preset?.host;
+        if (!host || !/^[a-z0-9.:\-\[\]]+$/.test(host)) {
+            throw new Error('Invalid IMAP settings: host is required');
+        }
+
+        const trustedHost = imapLoginProviderService.getTrustedHost(email, host);
+        if (!trustedHost) {
+            throw new Error(`Invalid IMAP settings: ${host} is not a known mail server for ${email.split('@')[1]}`);
+        }
+
+        if (input.security !== undefined && !IMAP_SECURITY_MODES.includes(input.security as ImapSecurityMode)) {
+            throw new Error(`Invalid IMAP settings: security must be one of ${IMAP_SECURITY_MODES.join(', ')}`);
+        }
+        const usePreset = preset && preset.host === host;
+        const security = (input.security as ImapSecurityMode | undefined) || (usePreset ? preset.security : 'tls');
+
+        const port = input.port !== undefined && input.port !== '' ? Number(input.port) : (usePreset ? preset.port : DEFAULT_PORTS[security]);
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+            throw new Error('Invalid IMAP settings: port must be an integer between 1 and 65535');
+        }
+
+        if (security === 'none' && !imapLoginConfig.allowPlaintext && !this.isLoopbackHost(host)) {
+            throw new Error('Invalid IMAP settings: unencrypted connections are allowed only to a local server');
+        }
+
+        const username = typeof input.username === 'string' && input.username.trim() ? input.username.trim() : email;
+        // Отдельный логин (DOMAIN\user у Exchange) допускается только на серверах, заданных администратором
+        if (username.toLowerCase() !== email && !trustedHost.configured) {
+            throw new Error('Invalid IMAP settings: username must match the email address');
+        }
+        if (typeof input.password !== 'string' || !input.password) {
+            throw new Error('Invalid IMAP settings: password is required');
+        }
+
+        await this.assertPublicHost(host);
+
+        return { email, host, port, security, username, password: input.password };
+    }
+
+    // Подключается с введенными настройками и сразу отключается; ничего не сохраняет
+    async testConnection(settings: ImapLoginSettings): Promise<ImapConnectionTestResult> {
+        const mailSource = MailSourceFactory.create(
+            { email: settings.email, accessToken: '' },
+            imapLoginProviderService.createConnectionConfig(settings)
+        );
+
+        try {
+            await mailSource.connect();
+            const mailboxes = await mailSource.listMailboxes();
+            logger.info(`IMAP connection test succeeded for ${settings.email} at ${settings.host}:${settings.port}`);
+
+            return {
+                host: settings.host,
+                port: settings.port,
+                security: settings.security,
+                username: settings.username,
+                mailboxes: mailboxes.filter(mailbox => mailbox.selectable).map(mailbox => mailbox.path)
+            };
+        } finally {
+            await mailSource.safeDisconnect();
+        }
+    }
+
+    private async assertPublicHost(host: string): Promise<void> {
+        if (imapLoginConfig.allowPrivateHosts) {
+            return;
+        }
+
+        const address = host.replace(/^\[|\]$/g, '');
+        let addresses: Array<{ address: string; family: number }>;
+        try {
+            addresses = isIP(address) ? [{ address, family: isIP(address) }] : await lookup(address, { all: true });
+        } catch {
+            throw new Error(`Invalid IMAP settings: cannot resolve ${host}`);
+        }
+
+        // Адрес IPv4 внутри IPv6 (::ffff:10.0.0.1) проверяется как IPv4
+        const isPrivate = addresses.some(({ address: resolved, family }) => {
+            const mappedIPv4 = resolved.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+            return mappedIPv4
+                ? PRIVATE_NETWORKS.check(mappedIPv4, 'ipv4')
+                : PRIVATE_NETWORKS.check(resolved, family === 6 ? 'ipv6' : 'ipv4');
+        });
+        if (isPrivate) {
+            throw new Error(`Invalid IMAP settings: ${host} resolves to a private network address`);
+        }
+    }
+
+    private isLoopbackHost(host: string): boolean {
+        const address = host.replace(/^\[|\]$/g, '');
+        if (address === 'localhost') {
+            return true;
+        }
+        return isIP(address) === 4 ? address.startsWith('127.') : address === '::1';
+    }
+}
@@ -1,4 +1,4 @@
-import { EmailFetcherService } from '../email/email-fetcher.service';
+import { MailSource } from '../email/mail-source';
 import { SessionData } from '@/models/auth';
 import { logger } from '@/utils';
 
@@ -25,7 +25,7 @@ export class SessionManagerService {
     createSession(
         email: string,
         accessToken: string,
-        emailService: EmailFetcherService,
+        emailService: MailSource,
         ttlMs: number = 7 * 24 * 60 * 60 * 1000
     ): string {
         const sessionId = this.generateSessionId();
@@ -77,7 +77,7 @@ export class SessionManagerService {
         }
     }
 
-    getEmailService(sessionId: string): EmailFetcherService | null {
+    getEmailService(sessionId: string): MailSource | null {
         const session = this.activeSessions.get(sessionId);
         return session ? session.emailService : null;
     }
@@ -115,7 +115,7 @@ export class SessionManagerService {
         return this.activeSessions.get(sessionId) || null;
     }
 
-    public updateEmailService(sessionId: string, emailService: EmailFetcherService): boolean {
+    public updateEmailService(sessionId: string, emailService: MailSource): boolean {
         const session = this.activeSessions.get(sessionId);
         if (session) {
             session.emailService = emailService;
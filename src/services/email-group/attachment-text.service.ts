@@ -0,0 +1,163 @@
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import * as XLSX from 'xlsx';
+import { AttachmentRepository } from '@/repositories';
+import { IEmail } from '@/models/email';
+import { IEmailAttachment, IAttachmentText, AttachmentDocument, AttachmentTextKind } from '@/models/attachment';
+import { aiConfig } from '@/config/ai.config';
+import { logger } from '@/utils';
+
+export class AttachmentTextService {
+    // Без репозитория (оценка на фикстурах) текст извлекается заново при каждом вызове
+    constructor(private attachmentRepo: AttachmentRepository | null) {}
+
+    async getDocumentsForEmails(emails: IEmail[]): Promise<AttachmentDocument[]> {
+        if (!aiConfig.attachments.enabled) {
+            return [];
+        }
+
+        const attachments = emails.flatMap(email =>
+            (email.attachments || []).map(attachment => ({ ...attachment, emailId: attachment.emailId || email.id }))
+        );
+
+        const supportedAttachments = attachments.filter(attachment =>
+            this.detectKind(attachment) !== 'unsupported'
+        );
+
+        if (supportedAttachments.length === 0) {
+            return [];
+        }
+
+        const cachedTexts = this.attachmentRepo
+            ? await this.attachmentRepo.getAttachmentTexts(supportedAttachments.map(a => a.id))
+            : [];
+        const cacheMap = new Map(cachedTexts.map(text => [text.attachmentId, text]));
+
+        const documents: AttachmentDocument[] = [];
+
+        for (const attachment of supportedAttachments) {
+            let attachmentText = cacheMap.get(attachment.id);
+
+            if (!attachmentText || this.isRetryDue(attachmentText)) {
+                attachmentText = await this.extractText(attachment);
+                try {
+                    await this.attachmentRepo?.saveAttachmentText(attachmentText);
+                } catch (error) {
+                    logger.warn(`Failed to cache extracted text for attachment ${attachment.filename}:`, error);
+                }
+            } else {
+                logger.debug(`Using cached text for attachment ${attachment.filename}`);
+            }
+
+            if (attachmentText.text.trim().length > 0) {
+                documents.push({
+                    attachmentId: attachment.id,
+                    emailId: attachment.emailId,
+                    filename: attachment.filename,
+                    kind: attachmentText.kind,
+                    text: attachmentText.text
+                });
+            }
+        }
+
+        logger.info(`Prepared ${documents.length} attachment documents for AI analysis`);
+        return documents;
+    }
+
+    async extractText(attachment: IEmailAttachment): Promise<IAttachmentText> {
+        const kind = this.detectKind(attachment);
+        const content = attachment.content;
+
+        if (!content || content.length === 0) {
+            return { attachmentId: attachment.id, kind, text: '', error: 'Attachment has no content' };
+        }
+
+        if (content.length > aiConfig.attachments.maxFileSize) {
+            logger.warn(`Attachment ${attachment.filename} is too large for text extraction (${content.length} bytes)`);
+            return { attachmentId: attachment.id, kind, text: '', error: 'Attachment exceeds maximum file size' };
+        }
+
+        try {
+            const text = this.normalizeText(await this.extractByKind(kind, content));
+            logger.info(`Extracted ${text.length} characters from ${kind} attachment ${attachment.filename}`);
+            return { attachmentId: attachment.id, kind, text, error: null };
+        } catch (error) {
+            logger.error(`Text extraction failed for attachment ${attachment.filename}:`, error);
+            return {
+                attachmentId: attachment.id,
+                kind,
+                text: '',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    // Ошибка извлечения могла быть временной (нехватка памяти, сбой библиотеки), поэтому пустой текст не кэшируется навсегда
+    private isRetryDue(attachmentText: IAttachmentText): boolean {
+        if (!attachmentText.error) {
+            return false;
+        }
+
+        const failedAt = attachmentText.updatedAt ? new Date(attachmentText.updatedAt).getTime() : 0;
+        return Date.now() - failedAt >= aiConfig.attachments.extractionRetryAfterMs;
+    }
+
+    private async extractByKind(kind: AttachmentTextKind, content: Buffer): Promise<string> {
+        switch (kind) {
+            case 'pdf': {
+                const result = await pdfParse(content);
+                return result.text;
+            }
+            case 'docx': {
+                const result = await mammoth.extractRawText({ buffer: content });
+                return result.value;
+            }
+            case 'xlsx': {
+                const workbook = XLSX.read(content, { type: 'buffer' });
+                return workbook.SheetNames
+                    .map(sheetName => {
+                        const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], { blankrows: false });
+                        return `[Лист: ${sheetName}]\n${csv}`;
+                    })
+                    .join('\n\n');
+            }
+            case 'csv':
+            case 'text':
+                return content.toString('utf-8');
+            default:
+                return '';
+        }
+    }
+
+    detectKind(attachment: Pick<IEmailAttachment, 'filename' | 'contentType'>): AttachmentTextKind {
+        const contentType = (attachment.contentType || '').toLowerCase();
+        const extension = attachment.filename?.split('.').pop()?.toLowerCase() || '';
+
+        if (contentType === 'application/pdf' || extension === 'pdf') {
+            return 'pdf';
+        }
+        if (contentType.includes('wordprocessingml') || extension === 'docx') {
+            return 'docx';
+        }
+        if (contentType.includes('spreadsheetml') || contentType === 'application/vnd.ms-excel' ||
+            extension === 'xlsx' || extension === 'xls') {
+            return 'xlsx';
+        }
+        if (contentType === 'text/csv' || extension === 'csv') {
+            return 'csv';
+        }
+        if (contentType === 'text/plain' || extension === 'txt') {
+            return 'text';
+        }
+
+        return 'unsupported';
+    }
+
+    private normalizeText(text: string): string {
+        return text
+            .replace(/\r\n/g, '\n')
+            .replace(/[ \t]+/g, ' ')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+}
\ No newline at end of file
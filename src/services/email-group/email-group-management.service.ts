@@ -1,6 +1,7 @@
 import { EmailGroupRepository, EmailRepository, AttachmentRepository, SummaryRepository } from '@/repositories';
 import { IEmailGroup } from '@/models/email-group';
 import { SummaryService } from '../summary/summary.service';
+import { FewShotExampleService } from '../ai/few-shot-example.service';
 import { WebSocketService } from '../websocket/websocket.service';
 import { SSEService } from '../sse/sse.service';
 import { logger } from '@/utils';
@@ -14,7 +15,8 @@ export class EmailGroupManagementService {
         private emailGroupRepo: EmailGroupRepository,
         private emailRepo: EmailRepository,
         private attachmentRepo: AttachmentRepository,
-        private summaryRepo: SummaryRepository
+        private summaryRepo: SummaryRepository,
+        private fewShotExampleService: FewShotExampleService
     ) {
         this.summaryService = new SummaryService(summaryRepo);
         this.wsService = WebSocketService.getInstance();
@@ -105,7 +107,8 @@ export class EmailGroupManagementService {
     return updatedGroup;
 }
 
-    async approveEmailGroup(emailGroupId: string): Promise<{ emailGroupId: string; status: string }> {
+    // force - оператор осознанно утверждает заказ, который отправитель отменил
+    async approveEmailGroup(emailGroupId: string, force: boolean = false): Promise<{ emailGroupId: string; status: string }> {
         try {
             logger.info('Approving email group:', { emailGroupId });
 
@@ -114,6 +117,10 @@ export class EmailGroupManagementService {
                 throw new Error('Email group not found');
             }
 
+            if (emailGroup.orderStatus === 'cancelled' && !force) {
+                throw new Error(`Email group ${emailGroupId} cannot be approved: the order is cancelled (pass force=true to approve anyway)`);
+            }
+
             const activeSummary = await this.summaryService.getActiveSummaryByEmailGroupId(emailGroupId);
             if (!activeSummary) {
                 throw new Error('Email group does not have AI analysis to approve');
@@ -138,6 +145,13 @@ export class EmailGroupManagementService {
                 updatedAt: new Date()
             });
 
+            // Утвержденная сводка становится примером для следующих писем этого отправителя
+            try {
+                await this.fewShotExampleService.captureApprovedSummary(emailGroupId);
+            } catch (error) {
+                logger.warn(`Failed to store extraction example for ${emailGroupId}:`, error);
+            }
+
             const updatedEmailGroup = await this.emailGroupRepo.getEmailGroupByEmailGroupId(emailGroupId);
             if (updatedEmailGroup) {
                 this.wsService.sendApprovedSummary(updatedEmailGroup);
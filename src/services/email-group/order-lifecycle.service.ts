@@ -0,0 +1,163 @@
+import { EmailGroupRepository } from '@/repositories';
+import { IEmail } from '@/models/email';
+import { OrderStatusTransition } from '@/models/email-group';
+import { OrderLifecycleStatus, ORDER_LIFECYCLE_STATUSES } from '@/models/summary';
+import { logger } from '@/utils';
+
+export const CANCELLATION_PATTERN = /(отмен(?:а|ен|ён|яем|яется|ить|ите|или)|аннулир|отказ\s+от\s+(?:перевозки|заказа)|\bcancel(?:l?ed|lation)?\b)/i;
+
+// Порядок важен: если в одном письме несколько сигналов, побеждает более поздняя стадия
+const STATUS_PATTERNS: Array<{ status: OrderLifecycleStatus; pattern: RegExp }> = [
+    { status: 'cancelled', pattern: CANCELLATION_PATTERN },
+    {
+        status: 'delivered',
+        pattern: /(доставлен[аоы]?(?![а-яё])|выгружен[аоы]?(?![а-яё])|разгружен[аоы]?(?![а-яё])|выгрузка\s+(?:завершена|произведена)|\bdelivered\b|\bunloaded\b|\bproof\s+of\s+delivery\b)/i
+    },
+    {
+        status: 'in_transit',
+        pattern: /((?:^|\s)в\s+пути(?![а-яё])|загружен[аоы]?(?![а-яё])|отгружен[аоы]?(?![а-яё])|выехал[аи]?(?![а-яё])|машина\s+(?:вышла|выехала)|\bin\s+transit\b|\bpicked\s+up\b|\bloaded\b|\bdeparted\b)/i
+    },
+    {
+        // Отдельные слова ("updated", "уточнение", "без изменений") встречаются в любой переписке - ищем изменение конкретных условий
+        status: 'modified',
+        pattern: /((?<!без\s)изменени[яей]\s+(?:в\s+|по\s+)?(?:заказ|заявк|адрес|дат|врем|маршрут|загрузк|выгрузк|услови|график)[а-яё]*|(?:дата|время|адрес|маршрут|загрузка|выгрузка)\s+(?:[а-яё]+\s+)?изменил(?:ась|ось|ся|ись)(?![а-яё])|изменил(?:ась|ось|ся|ись)\s+(?:дата|время|адрес|маршрут|место)(?![а-яё])|уточнени[ея]\s+(?:по\s+)?(?:заказ|заявк|адрес|дат|врем|маршрут|загрузк|выгрузк)[а-яё]*|перенос(?:ится)?(?![а-яё])|перенесен[аоы]?(?![а-яё])|\bamend(?:ed|ment)\b|\b(?:date|time|address|route|loading|unloading|delivery|pickup)\s+(?:has\s+been\s+|was\s+|is\s+)?(?:changed|updated|revised)\b|\bchange\s+(?:of|in|to)\s+(?:the\s+)?(?:date|time|address|route|loading|unloading|delivery|pickup)\b|\b(?:updated|revised)\s+(?:order|booking|date|time|address|schedule|instructions)\b|\brescheduled\b)/i
+    },
+    {
+        // "Please confirm" - просьба, а не подтверждение, поэтому нужен глагол в прошедшем времени или "we confirm"
+        status: 'confirmed',
+        pattern: /((?<!не\s)подтвержда(?:ем|ю)(?![а-яё])|(?<!не\s)подтвержден[аоы]?(?![а-яё])|подтверждение\s+заказа|принят[аоы]?\s+в\s+работу|\bwe\s+(?:hereby\s+)?confirm\b|\b(?:is|are|has\s+been|have\s+been)\s+confirmed\b|\b(?:booking|order|rate|loading|truck|transport)\s+confirmed\b|\b(?:booking|order)\s+confirmation\b|(?<!not\s)\bbooked\b)/i
+    }
+];
+
+// Только вперед по стадиям и отмена до доставки. Отмена и доставка окончательны: письмо со словами "подтверждаем"
+// после отмены - обычно цитата или обсуждение, а не возобновление заказа
+const ALLOWED_TRANSITIONS: Record<OrderLifecycleStatus, OrderLifecycleStatus[]> = {
+    requested: ['confirmed', 'modified', 'in_transit', 'delivered', 'cancelled'],
+    confirmed: ['modified', 'in_transit', 'delivered', 'cancelled'],
+    modified: ['in_transit', 'delivered', 'cancelled'],
+    in_transit: ['delivered', 'cancelled'],
+    delivered: [],
+    cancelled: []
+};
+
+const REPLY_SEPARATORS = [
+    /^-{2,}\s*(?:original message|исходное сообщение|пересылаемое сообщение)/im,
+    /^on .+wrote:\s*$/im,
+    /^.{0,80}(?:пишет|написал[а]?):\s*$/im,
+    /^from:\s.+$/im,
+    /^от:\s.+$/im
+];
+
+// "Re:", "Fwd:", "Ответ:", "RE[2]:" и их цепочки
+const REPLY_PREFIX_PATTERN = /^\s*(?:(?:re|fwd?|aw|wg|ответ|отв|пересл|переслано)\s*(?:\[\d+\])?\s*:\s*)+/i;
+
+export class OrderLifecycleService {
+    constructor(private emailGroupRepo: EmailGroupRepository) {}
+
+    static stripReplyPrefix(subject: string): string {
+        return subject.replace(REPLY_PREFIX_PATTERN, '').trim();
+    }
+
+    // Тема, с которой началась переписка: тема самого раннего письма без префиксов ответа
+    static threadSubject(emails: IEmail[]): string {
+        const first = [...emails].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
+        return first ? OrderLifecycleService.stripReplyPrefix(first.subject || '') : '';
+    }
+
+    // Ответ повторяет тему переписки, поэтому тема письма учитывается, только если отправитель ее изменил
+    static ownSubject(email: IEmail, threadSubject: string): string {
+        const subject = OrderLifecycleService.stripReplyPrefix(email.subject || '');
+        return subject.toLowerCase() === threadSubject.toLowerCase() && subject !== (email.subject || '').trim() ? '' : subject;
+    }
+
+    classifyEmail(email: IEmail): { status: OrderLifecycleStatus; matched: string } | null {
+        const text = `${email.subject || ''}\n${OrderLifecycleService.stripQuotedText(email.text || '')}`;
+
+        for (const { status, pattern } of STATUS_PATTERNS) {
+            const match = text.match(pattern);
+            if (match) {
+                return { status, matched: this.extractSnippet(text, match.index || 0) };
+            }
+        }
+
+        return null;
+    }
+
+    deriveHistory(emails: IEmail[], aiStatus?: OrderLifecycleStatus | null): OrderStatusTransition[] {
+        const sortedEmails = [...emails].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        const history: OrderStatusTransition[] = [];
+        let current: OrderLifecycleStatus | null = null;
+
+        for (const email of sortedEmails) {
+            const signal = this.classifyEmail(email);
+
+            // Первое письмо группы открывает заказ, даже если в нем нет явных слов
+            const next: OrderLifecycleStatus | null = signal?.status || (current === null ? 'requested' : null);
+            if (!next || !this.canTransition(current, next)) {
+                continue;
+            }
+
+            history.push({
+                from: current,
+                to: next,
+                email_id: email.id,
+                source: 'rules',
+                matched: signal?.matched || null,
+                at: new Date(email.date)
+            });
+            current = next;
+        }
+
+        // AI видит всю переписку целиком, поэтому его статус применяется поверх правил к последнему письму
+        const lastEmail = sortedEmails[sortedEmails.length - 1];
+        if (aiStatus && ORDER_LIFECYCLE_STATUSES.includes(aiStatus) && this.canTransition(current, aiStatus)) {
+            history.push({
+                from: current,
+                to: aiStatus,
+                email_id: lastEmail ? lastEmail.id : null,
+                source: 'ai',
+                matched: null,
+                at: lastEmail ? new Date(lastEmail.date) : new Date()
+            });
+        }
+
+        return history;
+    }
+
+    async updateForGroup(emailGroupId: string, emails: IEmail[], aiStatus?: OrderLifecycleStatus | null): Promise<OrderLifecycleStatus | null> {
+        const history = this.deriveHistory(emails, aiStatus);
+        const status = history.length > 0 ? history[history.length - 1].to : null;
+
+        await this.emailGroupRepo.updateOrderStatus(emailGroupId, status, history);
+        logger.info(`Order status for ${emailGroupId}: ${status || 'unknown'} (${history.length} transitions)`);
+
+        return status;
+    }
+
+    private canTransition(from: OrderLifecycleStatus | null, to: OrderLifecycleStatus): boolean {
+        return from === null || ALLOWED_TRANSITIONS[from].includes(to);
+    }
+
+    // Цитаты и пересланная переписка повторяют старые письма и не говорят о текущем состоянии заказа
+    static stripQuotedText(text: string): string {
+        let body = text;
+
+        for (const separator of REPLY_SEPARATORS) {
+            const match = body.match(separator);
+            if (match && match.index !== undefined && match.index > 0) {
+                body = body.substring(0, match.index);
+            }
+        }
+
+        return body
+            .split('\n')
+            .filter(line => !line.trimStart().startsWith('>'))
+            .join('\n');
+    }
+
+    private extractSnippet(text: string, index: number): string {
+        const start = Math.max(0, index - 40);
+        const end = Math.min(text.length, index + 60);
+        return text.substring(start, end).replace(/\s+/g, ' ').trim();
+    }
+}
@@ -1,27 +1,38 @@
 import { CredentialsStorageService } from '../auth/credentials-storage.service';
 import { EmailViewService } from './email-view.service';
-import { EmailFullSyncService } from './email-full-sync.service';
+import { EmailIncrementalSyncService } from './email-incremental-sync.service';
 import { UserRepository } from '@/repositories';
-import { oauthProviderService } from '@/config/oauth.config';
-import { EmailFetcherService } from './email-fetcher.service';
+import { MailSource } from './mail-source';
+import { MailSourceFactory } from '@/factories/mail-source.factory';
 import { AiAnalysisService } from '../ai/ai-analysis.service';
+import { JobQueueService } from '../jobs/job-queue.service';
 import { logger } from '@/utils';
 
+export interface UserSyncResult {
+    created: number;
+    updated: number;
+    newEmails: number;
+}
+
 export class EmailAutoSyncService {
     private isRunning: boolean = false;
     private syncInterval: NodeJS.Timeout | null = null;
     private lastSyncTime: Date | null = null;
     private scheduledTime: string = '08:00';
     private aiAnalysisService: AiAnalysisService | null = null;
+    private jobQueueService: JobQueueService | null = null;
+    private userSyncs: Map<string, Promise<UserSyncResult>> = new Map();
 
     constructor(
         private credentialsStorage: CredentialsStorageService,
-        private emailFullSyncService: EmailFullSyncService,
+        private emailIncrementalSyncService: EmailIncrementalSyncService,
         private emailViewService: EmailViewService,
         private userRepository: UserRepository,
-        aiAnalysisService?: AiAnalysisService
+        aiAnalysisService?: AiAnalysisService,
+        jobQueueService?: JobQueueService
     ) {
         this.aiAnalysisService = aiAnalysisService || null;
+        this.jobQueueService = jobQueueService || null;
     }
 
     public startAutoSync(scheduledTime: string = '08:00'): void {
@@ -77,6 +88,15 @@ export class EmailAutoSyncService {
                 return;
             }
 
+            if (this.jobQueueService) {
+                for (const credentials of allCredentials) {
+                    await this.jobQueueService.enqueueSyncUser(credentials.email);
+                }
+                this.lastSyncTime = new Date();
+                logger.info(`Auto sync enqueued for ${allCredentials.length} users`);
+                return;
+            }
+
             logger.info(`Auto syncing for ${allCredentials.length} users`);
 
             for (const credentials of allCredentials) {
@@ -92,41 +112,88 @@ export class EmailAutoSyncService {
         }
     }
 
-   private async syncSingleUser(credentials: any): Promise<void> {
+    public async syncUser(email: string): Promise<UserSyncResult> {
+        const credentials = await this.credentialsStorage.getCredentialsByEmail(email);
+        if (!credentials || !credentials.isActive) {
+            throw new Error(`No active credentials found for ${email}`);
+        }
+
+        try {
+            return await this.runUserSync(credentials);
+        } catch (error) {
+            await this.handleSyncError(error, email);
+            throw error;
+        }
+    }
+
+    private async syncSingleUser(credentials: any): Promise<void> {
+        try {
+            await this.runUserSync(credentials);
+        } catch (error) {
+            logger.error(`Auto sync failed for ${credentials.email}:`, error);
+            this.handleSyncError(error, credentials.email);
+        }
+    }
+
+    // Задача sync_user, наблюдатель ящика и ежедневный запуск могут прийти одновременно. Параллельные проходы
+    // по одному ящику создали бы дубли групп и писем, поэтому синхронизации пользователя идут строго по очереди
+    private async runUserSync(credentials: any): Promise<UserSyncResult> {
+        const key = credentials.email.toLowerCase();
+        const previous = this.userSyncs.get(key) || Promise.resolve(null);
+        const current = previous
+            .catch(() => null)
+            .then(() => this.syncUserMailboxes(credentials));
+        this.userSyncs.set(key, current);
+
+        try {
+            return await current;
+        } finally {
+            if (this.userSyncs.get(key) === current) {
+                this.userSyncs.delete(key);
+            }
+        }
+    }
+
+    private async syncUserMailboxes(credentials: any): Promise<UserSyncResult> {
         let emailFetcher: any = null;
         try {
             const user = await this.userRepository.getUserByEmail(credentials.email);
             if (!user || !user.id) {
                 logger.warn(`User not found in database: ${credentials.email}`);
-                return;
+                return { created: 0, updated: 0, newEmails: 0 };
             }
 
-            const providerConfig = oauthProviderService.getProviderConfig(credentials.email);
+            const providerConfig = await this.credentialsStorage.getConnectionConfig(credentials);
             if (!providerConfig) {
-                logger.error(`No OAuth configuration found for email: ${credentials.email}`);
+                logger.error(`No mail connection configuration found for email: ${credentials.email}`);
                 await this.credentialsStorage.deactivateCredentials(credentials.email);
-                return;
+                return { created: 0, updated: 0, newEmails: 0 };
             }
 
             emailFetcher = this.createEmailFetcher(credentials, providerConfig);
-            const result = await this.emailFullSyncService.syncRecentEmails(
-                emailFetcher,
-                user.id,
-                1
-            );
+            const result = await this.emailIncrementalSyncService.syncUserMailboxes(emailFetcher, user.id);
 
             await this.emailViewService.handlePostSyncState();
             await this.userRepository.updateAccessToken(credentials.email, credentials.accessToken);
 
-            logger.info(`Auto sync for ${credentials.email}: ${result.created} new groups, ${result.updated} updated groups, ${result.newEmails} new emails`);
-
-            if (this.aiAnalysisService && (result.created > 0 || result.updated > 0)) {
-                await this.generateSummariesForUser(user.id);
+            const modes = result.mailboxes.map(({ mailbox, mode }) => `${mailbox}: ${mode}`).join(', ');
+            logger.info(`Auto sync (${modes}) for ${credentials.email}: ${result.created} new groups, ${result.updated} updated groups, ${result.newEmails} new emails`);
+
+            // Анализируются только группы, затронутые этой синхронизацией: общий backfill повторял бы
+            // анализ упавших групп всех пользователей на каждое новое письмо
+            const emailGroupIds = [...new Set([...result.createdGroups, ...result.updatedGroups])];
+            if (emailGroupIds.length > 0) {
+                if (this.jobQueueService) {
+                    for (const emailGroupId of emailGroupIds) {
+                        await this.jobQueueService.enqueueAnalyzeGroup(emailGroupId);
+                    }
+                } else if (this.aiAnalysisService) {
+                    await this.generateSummariesForUser(user.id, emailGroupIds);
+                }
             }
 
-        } catch (error) {
-            logger.error(`Auto sync failed for ${credentials.email}:`, error);
-            this.handleSyncError(error, credentials.email);
+            return { created: result.created, updated: result.updated, newEmails: result.newEmails };
+
         } finally {
             if (emailFetcher) {
                 await emailFetcher.safeDisconnect().catch((err: any) => {
@@ -136,7 +203,7 @@ export class EmailAutoSyncService {
         }
     }
 
-    private async generateSummariesForUser(userId: number): Promise<void> {
+    private async generateSummariesForUser(userId: number, emailGroupIds: string[]): Promise<void> {
         try {
             logger.info(`Starting AI summaries generation for user ${userId}`);
     
@@ -145,13 +212,9 @@ export class EmailAutoSyncService {
                 return;
             }
     
-            const result = await this.aiAnalysisService.generateSummariesForNeedingGroups();
+            const result = await this.aiAnalysisService.generateSummariesForGroups(emailGroupIds);
     
-            if (result.processed > 0) {
-                logger.info(`Auto-generated ${result.processed} AI summaries for user ${userId} (out of ${result.total} groups)`);
-            } else {
-                logger.info(`All email groups already have summaries for user ${userId}`);
-            }
+            logger.info(`Auto-generated ${result.processed} AI summaries for user ${userId} (out of ${result.total} synced groups)`);
     
         } catch (error) {
             logger.error(`Failed to generate AI summaries for user ${userId}:`, error);
@@ -216,8 +279,8 @@ export class EmailAutoSyncService {
         });
     }
 
-    private createEmailFetcher(credentials: any, providerConfig: any): EmailFetcherService {
-        return new EmailFetcherService(
+    private createEmailFetcher(credentials: any, providerConfig: any): MailSource {
+        return MailSourceFactory.create(
             {
                 email: credentials.email,
                 accessToken: credentials.accessToken
@@ -1,10 +1,11 @@
-import { EmailFetcherService } from './email-fetcher.service';
+import { MailSource } from './mail-source';
+import { MailSourceFactory } from '@/factories/mail-source.factory';
 import { logger } from '@/utils';
 
 export class EmailConnectionManager {
     private static instance: EmailConnectionManager;
-    private activeConnections: Map<string, EmailFetcherService> = new Map();
-    private connectionLocks: Map<string, Promise<EmailFetcherService>> = new Map();
+    private activeConnections: Map<string, MailSource> = new Map();
+    private connectionLocks: Map<string, Promise<MailSource>> = new Map();
 
     private constructor() {}
 
@@ -19,7 +20,7 @@ export class EmailConnectionManager {
         email: string,
         accessToken: string,
         providerConfig: any
-    ): Promise<EmailFetcherService> {
+    ): Promise<MailSource> {
         const existingConnection = this.activeConnections.get(email);
         if (existingConnection && existingConnection.isActive()) {
             logger.debug(`Using existing connection for: ${email}`);
@@ -53,11 +54,8 @@ export class EmailConnectionManager {
         email: string,
         accessToken: string,
         providerConfig: any
-    ): Promise<EmailFetcherService> {
-        const connection = new EmailFetcherService(
-            { email, accessToken },
-            providerConfig
-        );
+    ): Promise<MailSource> {
+        const connection = MailSourceFactory.create({ email, accessToken }, providerConfig);
 
         await connection.connect();
         return connection;
@@ -74,7 +72,7 @@ export class EmailConnectionManager {
         }
     }
 
-    public async refreshConnection(email: string, accessToken: string, providerConfig: any): Promise<EmailFetcherService> {
+    public async refreshConnection(email: string, accessToken: string, providerConfig: any): Promise<MailSource> {
         logger.info(`Refreshing connection for: ${email}`);
         this.cleanupConnection(email);
         return this.getConnection(email, accessToken, providerConfig);
@@ -1,40 +1,41 @@
 import Imap from 'imap';
-import { simpleParser } from 'mailparser';
+import { TLSSocket } from 'tls';
 import { logger } from '@/utils';
 import { EmailUtilsService } from '@/utils/email-utils';
 import { EmailGroupId } from '@/utils/email-group-id';
+import { MailMessageParser } from './mail-message-parser';
+import { MailSource, FetchedEmail, EmailFetchOptions, ServerMailbox, MailboxStatus } from './mail-source';
 
-export interface FetchedEmail {
-    id: string;
-    from: string;
-    to: string;
-    subject: string;
-    date: Date;
-    text?: string;
-    attachments: Array<{
-        id: string;
-        filename: string;
-        content: Buffer;
-        contentType: string;
-        size: number;
-    }>;
+const SPECIAL_USE_FLAGS = ['all', 'archive', 'drafts', 'flagged', 'important', 'junk', 'sent', 'trash'];
+
+export type { FetchedEmail, EmailFetchOptions, ServerMailbox, MailboxStatus } from './mail-source';
+
+export interface MailboxWatchHandlers {
+    onMail: (count: number) => void;
+    onClose: (error: Error | null) => void;
 }
 
-export class EmailFetcherService {
+export class EmailFetcherService implements MailSource {
+    public readonly kind = 'imap';
     private imap: Imap | null = null;
     private isConnected: boolean = false;
     private emailUtils: EmailUtilsService;
     private emailGroupIdService: EmailGroupId;
+    private messageParser: MailMessageParser;
 
     constructor(
         private credentials: { email: string; accessToken: string },
-        private oauthConfig: any
+        private oauthConfig: any,
+        // idle: держать соединение в IDLE вместо периодического NOOP - для наблюдения за ящиком
+        private options: { idle?: boolean } = {}
     ) {
+        // Конфигурация OAuth-провайдера или ImapLoginConfig для входа по паролю
         if (!oauthConfig) {
             throw new Error('OAuth configuration required for EmailFetcherService');
         }
         this.emailUtils = new EmailUtilsService();
         this.emailGroupIdService = new EmailGroupId();
+        this.messageParser = new MailMessageParser();
     }
 
     async connect(): Promise<void> {
@@ -46,7 +47,7 @@ export class EmailFetcherService {
         return new Promise((resolve, reject) => {
             const timeout = setTimeout(() => {
                 reject(new Error('IMAP connection timeout expired'));
-            }, 15000);
+            }, this.oauthConfig.connectionTimeout || 15000);
 
             try {
                 this.imap = this.createImapConnection();
@@ -63,10 +64,15 @@ export class EmailFetcherService {
                     this.isConnected = false;
                     this.imap = null;
 
-                    if (err.message.includes('AUTHENTICATIONFAILED') ||
+                    if (err.message.includes('Logging in is disabled')) {
+                        reject(new Error('IMAP server does not offer STARTTLS, refusing to send the password unencrypted'));
+                    } else if (err.message.includes('AUTHENTICATIONFAILED') ||
+                        err.message.includes('Authentication failed') ||
                         err.message.includes('Invalid credentials') ||
                         err.message.includes('LOGIN failed')) {
-                        reject(new Error('OAuth2 token invalid for IMAP access'));
+                        reject(new Error(this.isPasswordLogin()
+                            ? 'IMAP login failed: invalid username or password'
+                            : 'OAuth2 token invalid for IMAP access'));
                     } else if (err.message.includes('Connection timed out')) {
                         reject(new Error('Mail server connection timeout'));
                     } else if (err.message.includes('Already connected')) {
@@ -89,11 +95,37 @@ export class EmailFetcherService {
         return this.isConnected && this.imap !== null;
     }
 
-    async fetchEmailsFilteredByEmailGroupId(options: {
-        startDate?: string;
-        endDate?: string;
-        days?: number;
-    } = {}): Promise<FetchedEmail[]> {
+    // Открывает INBOX только на чтение и сообщает о новых письмах; возвращает false, если сервер не поддерживает IDLE
+    async watchInbox(handlers: MailboxWatchHandlers): Promise<boolean> {
+        if (!this.isConnected || !this.imap) {
+            await this.connect();
+        }
+
+        const imap = this.imap;
+        if (!imap) {
+            throw new Error('IMAP connection unavailable');
+        }
+
+        imap.on('mail', (count: number) => handlers.onMail(count));
+        imap.on('error', (error: Error) => {
+            this.isConnected = false;
+            handlers.onClose(error);
+        });
+        imap.once('close', () => {
+            this.isConnected = false;
+            this.imap = null;
+            handlers.onClose(null);
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            imap.openBox('INBOX', true, (error: Error | null) => error ? reject(error) : resolve());
+        });
+
+        return imap.serverSupports('IDLE');
+    }
+
+    // uidRange вида "1201:*" заменяет фильтр по датам при инкрементальной синхронизации
+    async fetchEmailsFilteredByEmailGroupId(options: EmailFetchOptions = {}): Promise<FetchedEmail[]> {
         logger.info('Fetching emails filtered by email group ID with options:', options);
 
         if (!this.isConnected || !this.imap) {
@@ -106,7 +138,7 @@ export class EmailFetcherService {
                 return;
             }
 
-            this.imap.openBox('INBOX', false, (error: Error | null) => {
+            this.imap.openBox(options.mailbox || 'INBOX', false, (error: Error | null) => {
                 if (error) {
                     reject(error);
                     return;
@@ -115,13 +147,14 @@ export class EmailFetcherService {
                 const searchCriteria = this.createSearchCriteria(options);
                 logger.info(`Searching FILTERED emails with criteria: ${JSON.stringify(searchCriteria)}`);
 
-                this.imap!.search(searchCriteria, async (searchError: Error | null, results: number[]) => {
+                this.imap!.search(searchCriteria, async (searchError: Error | null, uids: number[]) => {
                     if (searchError) {
                         logger.error('Search error:', searchError);
                         reject(searchError);
                         return;
                     }
 
+                    const results = this.filterUidRange(uids, options.uidRange);
                     logger.info(`Found ${results.length} filtered emails in specified period`);
 
                     if (results.length === 0) {
@@ -145,8 +178,9 @@ export class EmailFetcherService {
         });
     }
 
-    async fetchEmailsByEmailGroupId(emailGroupId: string): Promise<FetchedEmail[]> {
-        logger.info(`Searching ALL emails for email group: ${emailGroupId} (no date restrictions)`);
+    async fetchEmailsByEmailGroupId(emailGroupId: string, options: Pick<EmailFetchOptions, 'uidRange' | 'mailbox'> = {}): Promise<FetchedEmail[]> {
+        const { uidRange, mailbox = 'INBOX' } = options;
+        logger.info(`Searching ALL emails for email group: ${emailGroupId} in ${mailbox} (${uidRange ? `UID ${uidRange}` : 'no date restrictions'})`);
 
         if (!this.isConnected || !this.imap) {
             await this.connect();
@@ -158,28 +192,33 @@ export class EmailFetcherService {
                 return;
             }
 
-            this.imap.openBox('INBOX', false, (error: Error | null) => {
+            this.imap.openBox(mailbox, false, (error: Error | null) => {
                 if (error) {
                     reject(error);
                     return;
                 }
 
-                const searchCriteria = [
+                const searchCriteria: any[] = [
                     ['OR',
                         ['TEXT', emailGroupId],
                         ['SUBJECT', emailGroupId]
                     ]
                 ];
+                if (uidRange) {
+                    searchCriteria.push(['UID', uidRange]);
+                }
 
                 logger.info(`IMAP search for email group ${emailGroupId} (all dates)`);
 
-                this.imap!.search(searchCriteria, (searchError: Error | null, results: number[]) => {
+                this.imap!.search(searchCriteria, (searchError: Error | null, uids: number[]) => {
                     if (searchError) {
                         logger.error('Search error:', searchError);
                         reject(searchError);
                         return;
                     }
 
+                    const results = this.filterUidRange(uids, uidRange);
+
                     logger.info(`Found ${results.length} emails containing "${emailGroupId}" from all dates`);
 
                     if (results.length === 0) {
@@ -194,13 +233,93 @@ export class EmailFetcherService {
         });
     }
 
-    private createSearchCriteria(options: {
-        startDate?: string;
-        endDate?: string;
-        days?: number;
-    }): any[] {
+    // UIDVALIDITY и следующий UID папки - по ним инкрементальная синхронизация решает, что скачивать
+    async getMailboxStatus(mailbox: string = 'INBOX'): Promise<MailboxStatus> {
+        if (!this.isConnected || !this.imap) {
+            await this.connect();
+        }
+
+        return new Promise((resolve, reject) => {
+            if (!this.imap) {
+                reject(new Error('IMAP connection unavailable'));
+                return;
+            }
+
+            this.imap.openBox(mailbox, true, (error: Error | null, box: Imap.Box) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+
+                resolve({
+                    mailbox,
+                    uidValidity: Number(box.uidvalidity),
+                    uidNext: Number(box.uidnext) || null,
+                    messageCount: box.messages.total
+                });
+            });
+        });
+    }
+
+    // Дерево папок сервера в плоском виде; ярлыки Gmail видны здесь как папки
+    async listMailboxes(): Promise<ServerMailbox[]> {
+        if (!this.isConnected || !this.imap) {
+            await this.connect();
+        }
+
+        return new Promise((resolve, reject) => {
+            if (!this.imap) {
+                reject(new Error('IMAP connection unavailable'));
+                return;
+            }
+
+            this.imap.getBoxes((error: Error | null, boxes: Imap.MailBoxes) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+
+                const mailboxes: ServerMailbox[] = [];
+                const walk = (children: Imap.MailBoxes, prefix: string) => {
+                    for (const [name, box] of Object.entries(children)) {
+                        const path = `${prefix}${name}`;
+                        // node-imap кладет флаг SPECIAL-USE в отдельное поле, Gmail - в attribs
+                        const specialUseAttrib = (box as Imap.Folder & { special_use_attrib?: string }).special_use_attrib;
+                        const attribs = [...(box.attribs || []), ...(specialUseAttrib ? [specialUseAttrib] : [])]
+                            .map(attrib => attrib.replace(/^\\/, '').toLowerCase());
+                        mailboxes.push({
+                            path,
+                            name,
+                            specialUse: [...new Set(attribs.filter(attrib => SPECIAL_USE_FLAGS.includes(attrib)))],
+                            selectable: !attribs.includes('noselect')
+                        });
+                        if (box.children) {
+                            walk(box.children, `${path}${box.delimiter}`);
+                        }
+                    }
+                };
+                walk(boxes, '');
+
+                resolve(mailboxes);
+            });
+        });
+    }
+
+    // На "N:*" сервер возвращает последнее письмо, даже если его UID меньше N
+    private filterUidRange(uids: number[], uidRange?: string): number[] {
+        const start = uidRange ? Number(uidRange.split(':')[0]) : NaN;
+        return isNaN(start) ? uids : uids.filter(uid => uid >= start);
+    }
+
+    private createSearchCriteria(options: EmailFetchOptions): any[] {
         const searchCriteria: any[] = [];
 
+        if (options.uidRange) {
+            searchCriteria.push(['UID', options.uidRange]);
+            searchCriteria.push(['SUBJECT', 'Shipment']);
+            return searchCriteria;
+        }
+
         if (options.startDate) {
             const imapStartDate = this.emailUtils.convertToIMAPDate(options.startDate);
             searchCriteria.push(['SINCE', imapStartDate]);
@@ -294,68 +413,11 @@ export class EmailFetcherService {
             });
 
             msg.once('end', async () => {
-                try {
-                    const parsed = await simpleParser(buffer);
-                    const attachments = await this.processAttachments(parsed.attachments);
-
-                    const email: FetchedEmail = {
-                        id: parsed.messageId || `msg-${Date.now()}-${Math.random()}`,
-                        from: this.emailUtils.getAddressText(parsed.from),
-                        to: this.emailUtils.getAddressText(parsed.to),
-                        subject: parsed.subject || 'No subject',
-                        date: parsed.date || new Date(),
-                        text: parsed.text || '',
-                        attachments: attachments
-                    };
-
-                    logger.info(`[EMAIL FETCHED] Subject: "${email.subject}" with ${attachments.length} attachments`);
-                    resolve(email);
-                } catch (parseError) {
-                    logger.error('Email parsing error:', parseError);
-                    resolve(null);
-                }
+                resolve(await this.messageParser.parse(buffer));
             });
         });
     }
 
-    private async processAttachments(rawAttachments: any[]): Promise<FetchedEmail['attachments']> {
-        const attachments: FetchedEmail['attachments'] = [];
-
-        if (rawAttachments && Array.isArray(rawAttachments)) {
-            for (const attachment of rawAttachments) {
-                try {
-                    if (attachment.content) {
-                        let contentBuffer: Buffer;
-    
-                        if (Buffer.isBuffer(attachment.content)) {
-                            contentBuffer = attachment.content;
-                        } else if (typeof attachment.content === 'string') {
-                            contentBuffer = Buffer.from(attachment.content, 'base64');
-                        } else if (attachment.content instanceof Uint8Array) {
-                            contentBuffer = Buffer.from(attachment.content);
-                        } else {
-                            contentBuffer = Buffer.from(attachment.content.data || attachment.content);
-                        }
-
-                        attachments.push({
-                            id: `attach_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                            filename: attachment.filename || `attachment_${Date.now()}.bin`,
-                            content: contentBuffer,
-                            contentType: attachment.contentType || 'application/octet-stream',
-                            size: contentBuffer.length,
-                        });
-
-                        logger.info(`Fetched attachment: ${attachment.filename}, size: ${contentBuffer.length}, type: ${attachment.contentType}`);
-                    }
-                } catch (attachmentError) {
-                    logger.error(`Error processing attachment ${attachment.filename}:`, attachmentError);
-                }
-            }
-        }
-
-        return attachments;
-    }
-
     public getEmail(): string {
         return this.credentials.email;
     }
@@ -412,13 +474,15 @@ export class EmailFetcherService {
             throw new Error(`Invalid OAuth configuration: missing imapHost or imapPort`);
         }
 
+        const security = this.oauthConfig.imapSecurity || 'tls';
         const imapConfig: Imap.Config = {
-            user: this.credentials.email,
+            user: this.oauthConfig.imapUser || this.credentials.email,
             host: this.oauthConfig.imapHost,
             port: this.oauthConfig.imapPort,
-            tls: true,
+            tls: security === 'tls',
+            autotls: security === 'starttls' ? 'always' : 'never',
             tlsOptions: {
-                rejectUnauthorized: false,
+                rejectUnauthorized: this.oauthConfig.imapTlsRejectUnauthorized ?? false,
                 servername: this.oauthConfig.imapHost,
             },
             authTimeout: 15000,
@@ -426,17 +490,37 @@ export class EmailFetcherService {
             keepalive: {
                 interval: 10000,
                 idleInterval: 30000,
-                forceNoop: true
+                forceNoop: !this.options.idle
             },
-            xoauth2: this.emailUtils.generateXOAuth2Token(this.credentials.email, this.credentials.accessToken)
+            ...(this.isPasswordLogin()
+                ? { password: this.oauthConfig.imapPassword }
+                : { xoauth2: this.emailUtils.generateXOAuth2Token(this.credentials.email, this.credentials.accessToken) })
         } as any;
 
         logger.debug('IMAP config:', {
             host: imapConfig.host,
             port: imapConfig.port,
-            user: imapConfig.user
+            user: imapConfig.user,
+            security
         });
 
-        return new Imap(imapConfig);
+        const imap = new Imap(imapConfig);
+        if (security === 'starttls') {
+            this.requireStartTls(imap);
+        }
+        return imap;
+    }
+
+    private isPasswordLogin(): boolean {
+        return this.oauthConfig?.imapAuthMethod === 'LOGIN';
+    }
+
+    // Без STARTTLS на сервере node-imap молча отправил бы пароль открытым текстом. LOGINDISABLED до шифрования
+    // заставляет его прервать вход (RFC 3501), а при наличии STARTTLS соединение сначала шифруется
+    private requireStartTls(imap: Imap): void {
+        const connection = imap as any;
+        const serverSupports = connection.serverSupports.bind(connection);
+        connection.serverSupports = (capability: string) =>
+            capability === 'LOGINDISABLED' && !(connection._sock instanceof TLSSocket) ? true : serverSupports(capability);
     }
 }
\ No newline at end of file
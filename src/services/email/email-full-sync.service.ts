@@ -1,4 +1,4 @@
-import { EmailFetcherService } from './email-fetcher.service';
+import { MailSource, EmailFetchOptions } from './mail-source';
 import { EmailBaseService } from './email-base.service';
 import { logger } from '@/utils';
 
@@ -6,8 +6,8 @@ export class EmailFullSyncService {
     constructor(private emailBaseService: EmailBaseService) {}
 
     async syncAllEmails(
-        emailFetcher: EmailFetcherService,
-        options: { startDate?: string; endDate?: string } = {},
+        emailFetcher: MailSource,
+        options: EmailFetchOptions | EmailFetchOptions[] = {},
         userId?: number
     ): Promise<{
         created: number;
@@ -115,34 +115,32 @@ export class EmailFullSyncService {
     }
 
     async syncRecentEmails(
-        emailFetcher: EmailFetcherService,
+        emailFetcher: MailSource,
         userId?: number,
         days: number = 1
     ): Promise<{ created: number; updated: number; newEmails: number; createdGroups: string[]; updatedGroups: string[] }> {
         try {
-            const { startDateStr, endDateStr } = this.getDateRange(days);
+            const options = this.getRecentFetchOptions(days);
 
-            logger.info(`Syncing recent emails (last ${days} days)`, { startDateStr, endDateStr, userId });
+            logger.info(`Syncing recent emails (last ${days} days)`, { ...options, userId });
 
-            return await this.syncAllEmails(
-                emailFetcher,
-                { startDate: startDateStr, endDate: endDateStr },
-                userId
-            );
+            return await this.syncAllEmails(emailFetcher, options, userId);
         } catch (error) {
             logger.error('Error syncing recent emails:', error);
             throw error;
         }
     }
 
-    private getDateRange(days: number): { startDateStr: string; endDateStr: string } {
+    // Окно по датам за последние days дней в формате, который понимает поиск IMAP
+    getRecentFetchOptions(days: number, mailbox?: string): EmailFetchOptions {
         const endDate = new Date();
         const startDate = new Date();
         startDate.setDate(startDate.getDate() - days);
 
         return {
-            startDateStr: this.formatDate(startDate),
-            endDateStr: this.formatDate(endDate)
+            startDate: this.formatDate(startDate),
+            endDate: this.formatDate(endDate),
+            ...(mailbox ? { mailbox } : {})
         };
     }
 
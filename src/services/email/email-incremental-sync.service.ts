@@ -0,0 +1,150 @@
+import { MailSource, EmailFetchOptions } from './mail-source';
+import { EmailFullSyncService } from './email-full-sync.service';
+import { MailboxSyncStateRepository, MonitoredFolderRepository } from '@/repositories';
+import { logger } from '@/utils';
+
+export type IncrementalSyncMode = 'bootstrap' | 'incremental' | 'full_resync' | 'up_to_date';
+
+export type MailboxSyncOutcome = {
+    mailbox: string;
+    mode: IncrementalSyncMode;
+};
+
+export type IncrementalSyncResult = {
+    mailboxes: MailboxSyncOutcome[];
+    created: number;
+    updated: number;
+    newEmails: number;
+    createdGroups: string[];
+    updatedGroups: string[];
+};
+
+type MailboxSyncPlan = MailboxSyncOutcome & {
+    // null - папка актуальна, скачивать нечего
+    source: EmailFetchOptions | null;
+    // null - позицию сохранить нельзя (сервер не сообщил UIDNEXT)
+    state: { uidValidity: number; lastUid: number } | null;
+};
+
+// Скачивает только письма с UID больше сохраненного; при смене UIDVALIDITY папка синхронизируется заново целиком
+export class EmailIncrementalSyncService {
+    constructor(
+        private emailFullSyncService: EmailFullSyncService,
+        private syncStateRepo: MailboxSyncStateRepository,
+        private monitoredFolderRepo: MonitoredFolderRepository
+    ) {}
+
+    // INBOX наблюдается всегда, остальные папки и ярлыки пользователь добавляет сам
+    async getMonitoredMailboxes(userId: number): Promise<string[]> {
+        const folders = await this.monitoredFolderRepo.getEnabledFoldersByUserId(userId);
+        return [...new Set(['INBOX', ...folders.map(folder => folder.mailbox)])];
+    }
+
+    async syncUserMailboxes(
+        emailFetcher: MailSource,
+        userId: number,
+        bootstrapDays: number = 1
+    ): Promise<IncrementalSyncResult> {
+        const mailboxes = await this.getMonitoredMailboxes(userId);
+        return this.syncMailboxes(emailFetcher, userId, mailboxes, bootstrapDays);
+    }
+
+    // Все папки обрабатываются одним проходом, чтобы письмо из нескольких папок попало в группу один раз
+    // bootstrapDays - окно по датам для первой синхронизации, пока позиции в папке еще нет
+    async syncMailboxes(
+        emailFetcher: MailSource,
+        userId: number,
+        mailboxes: string[] = ['INBOX'],
+        bootstrapDays: number = 1
+    ): Promise<IncrementalSyncResult> {
+        const plans: MailboxSyncPlan[] = [];
+        let lastError: unknown = null;
+
+        for (const mailbox of mailboxes) {
+            try {
+                plans.push(await this.planMailbox(emailFetcher, userId, mailbox, bootstrapDays));
+            } catch (error) {
+                // Папку могли удалить или переименовать на сервере - остальные синхронизируются как обычно
+                lastError = error;
+                logger.error(`Failed to read status of ${mailbox} for user ${userId}, skipping it:`, error);
+            }
+        }
+
+        if (plans.length === 0 && lastError) {
+            throw lastError;
+        }
+
+        const sources = plans
+            .map(plan => plan.source)
+            .filter((source): source is EmailFetchOptions => source !== null);
+
+        const result = sources.length > 0
+            ? await this.emailFullSyncService.syncAllEmails(emailFetcher, sources, userId)
+            : { created: 0, updated: 0, newEmails: 0, createdGroups: [], updatedGroups: [] };
+
+        // Позиция сохраняется только после успешной обработки, иначе непрочитанные письма потерялись бы
+        for (const plan of plans) {
+            if (!plan.source || !plan.state) continue;
+
+            await this.syncStateRepo.saveState({
+                userId,
+                mailbox: plan.mailbox,
+                uidValidity: plan.state.uidValidity,
+                lastUid: plan.state.lastUid,
+                ...(plan.mode === 'full_resync' ? { lastFullSyncAt: new Date() } : {})
+            });
+        }
+
+        return {
+            mailboxes: plans.map(({ mailbox, mode }) => ({ mailbox, mode })),
+            ...result
+        };
+    }
+
+    private async planMailbox(
+        emailFetcher: MailSource,
+        userId: number,
+        mailbox: string,
+        bootstrapDays: number
+    ): Promise<MailboxSyncPlan> {
+        const state = await this.syncStateRepo.getState(userId, mailbox);
+        const status = await emailFetcher.getMailboxStatus(mailbox);
+
+        if (status.uidNext === null) {
+            logger.warn(`IMAP server did not report UIDNEXT for ${mailbox}, falling back to date-based sync`);
+            return {
+                mailbox,
+                mode: 'bootstrap',
+                source: this.emailFullSyncService.getRecentFetchOptions(bootstrapDays, mailbox),
+                state: null
+            };
+        }
+
+        // Все, что меньше UIDNEXT на момент начала, будет просмотрено; письма, пришедшие во время синхронизации, возьмет следующий запуск
+        const nextState = { uidValidity: status.uidValidity, lastUid: status.uidNext - 1 };
+
+        if (state && state.uidValidity === status.uidValidity && state.lastUid >= nextState.lastUid) {
+            logger.debug(`Mailbox ${mailbox} for user ${userId} is up to date (last UID ${state.lastUid})`);
+            return { mailbox, mode: 'up_to_date', source: null, state: null };
+        }
+
+        if (!state) {
+            logger.info(`No sync state for ${mailbox} of user ${userId}, syncing last ${bootstrapDays} days`);
+            return {
+                mailbox,
+                mode: 'bootstrap',
+                source: this.emailFullSyncService.getRecentFetchOptions(bootstrapDays, mailbox),
+                state: nextState
+            };
+        }
+
+        if (state.uidValidity !== status.uidValidity) {
+            logger.warn(`UIDVALIDITY of ${mailbox} for user ${userId} changed (${state.uidValidity} -> ${status.uidValidity}), resyncing the whole mailbox`);
+            return { mailbox, mode: 'full_resync', source: { uidRange: '1:*', mailbox }, state: nextState };
+        }
+
+        const uidRange = `${state.lastUid + 1}:*`;
+        logger.info(`Incremental sync of ${mailbox} for user ${userId}: UID ${uidRange}`);
+        return { mailbox, mode: 'incremental', source: { uidRange, mailbox }, state: nextState };
+    }
+}
@@ -1,6 +1,6 @@
 import { IParsedEmail, IEmail } from '@/models/email';
 import { IEmailGroup } from '@/models/email-group';
-import { EmailFetcherService, FetchedEmail } from './email-fetcher.service';
+import { MailSource, EmailFetchOptions, FetchedEmail } from './mail-source';
 import { EmailParserService } from './email-parser.service';
 import { EmailGrouperService } from './email-grouper.service';
 import { EmailGroupRepository } from '@/repositories/email-group.repository';
@@ -18,7 +18,7 @@ export class EmailProcessorService {
     private emailGroupRepo: EmailGroupRepository | null = null;
 
     constructor(
-        private emailFetcher: EmailFetcherService,
+        private emailFetcher: MailSource,
         emailGroupRepo?: EmailGroupRepository
     ) {
         this.emailParser = new EmailParserService();
@@ -26,17 +26,18 @@ export class EmailProcessorService {
         this.emailGroupRepo = emailGroupRepo || null;
     }
 
-    async getGroupedEmailGroups(options: {
-        startDate?: string;
-        endDate?: string;
-        days?: number;
-    } = {}): Promise<ProcessResult> {
+    // Несколько источников (папок) обрабатываются за один проход: копии письма в разных папках сливаются по Message-ID
+    async getGroupedEmailGroups(options: EmailFetchOptions | EmailFetchOptions[] = {}): Promise<ProcessResult> {
         logger.info('Starting email data processing with smart grouping');
+        const sources = Array.isArray(options) ? options : [options];
 
         try {
         await this.emailFetcher.connect();
 
-        const initialRawEmails = await this.emailFetcher.fetchEmailsFilteredByEmailGroupId(options);
+        const initialRawEmails: FetchedEmail[] = [];
+        for (const source of sources) {
+            initialRawEmails.push(...await this.emailFetcher.fetchEmailsFilteredByEmailGroupId(source));
+        }
         logger.info(`Received ${initialRawEmails.length} filtered raw emails with email group IDs`);
 
         const targetEmailGroupIds = await this.extractEmailGroupIdsFromFetched(initialRawEmails);
@@ -61,7 +62,11 @@ export class EmailProcessorService {
             return { emails: [], emailGroups: [], parsedEmails: [] };
         }
         
-        const extendedEmails = await this.fetchExtendedEmails(targetEmailGroupIds);
+        // При инкрементальной синхронизации расширенный поиск тоже ограничен новыми UID
+        const extendedEmails: FetchedEmail[] = [];
+        for (const source of sources) {
+            extendedEmails.push(...await this.fetchExtendedEmails(targetEmailGroupIds, source));
+        }
         
         logger.info(`Extended search found ${extendedEmails.length} additional emails for ${targetEmailGroupIds.size} groups`);
 
@@ -103,12 +108,15 @@ export class EmailProcessorService {
         return emailGroupIds;
     }
 
-    private async fetchExtendedEmails(emailGroupIds: Set<string>): Promise<FetchedEmail[]> {
+    private async fetchExtendedEmails(emailGroupIds: Set<string>, source: EmailFetchOptions): Promise<FetchedEmail[]> {
         const allExtendedEmails: FetchedEmail[] = [];
 
         for (const emailGroupId of emailGroupIds) {
             try {
-                const emailsForEmailGroup = await this.emailFetcher.fetchEmailsByEmailGroupId(emailGroupId);
+                const emailsForEmailGroup = await this.emailFetcher.fetchEmailsByEmailGroupId(emailGroupId, {
+                    uidRange: source.uidRange,
+                    mailbox: source.mailbox
+                });
                 allExtendedEmails.push(...emailsForEmailGroup);
                 logger.info(`Found ${emailsForEmailGroup.length} emails for email group ${emailGroupId}`);
             } catch (error) {
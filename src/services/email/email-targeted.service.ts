@@ -1,4 +1,4 @@
-import { EmailFetcherService } from './email-fetcher.service';
+import { MailSource } from './mail-source';
 import { EmailBaseService } from './email-base.service';
 import { EmailRepository } from '@/repositories';
 import { IEmailGroup } from '@/models/email-group';
@@ -11,7 +11,7 @@ export class EmailTargetedService {
     ) {}
 
     async findAndSyncEmailsByGroupId(
-        emailFetcher: EmailFetcherService,
+        emailFetcher: MailSource,
         emailGroupId: string,
         userId?: number
     ): Promise<{ group: IEmailGroup | null; newEmails: number; created: boolean }> {
@@ -0,0 +1,375 @@
+import axios, { AxiosInstance } from 'axios';
+import { gmailApiConfig } from '@/config/gmail-api.config';
+import { logger } from '@/utils';
+import { EmailUtilsService } from '@/utils/email-utils';
+import { EmailGroupId } from '@/utils/email-group-id';
+import { MailMessageParser } from './mail-message-parser';
+import { MailSource, FetchedEmail, EmailFetchOptions, ServerMailbox, MailboxStatus } from './mail-source';
+
+type GmailProfile = {
+    emailAddress: string;
+    messagesTotal?: number;
+    historyId: string;
+};
+
+type GmailLabel = {
+    id: string;
+    name: string;
+    type?: 'system' | 'user';
+    messagesTotal?: number;
+};
+
+type GmailMessageRef = {
+    id: string;
+    labelIds?: string[];
+};
+
+type GmailHistoryRecord = {
+    messagesAdded?: Array<{ message: GmailMessageRef }>;
+    labelsAdded?: Array<{ message: GmailMessageRef; labelIds?: string[] }>;
+};
+
+// historyId не сбрасывается, как UIDVALIDITY, - константа нужна только для общей схемы позиций в папках
+const GMAIL_HISTORY_VALIDITY = 1;
+
+const VISIBLE_SYSTEM_LABELS = ['INBOX', 'SENT', 'DRAFT', 'IMPORTANT', 'STARRED', 'SPAM', 'TRASH'];
+
+const SPECIAL_USE_BY_LABEL: Record<string, string> = {
+    SENT: 'sent',
+    DRAFT: 'drafts',
+    IMPORTANT: 'important',
+    STARRED: 'flagged',
+    SPAM: 'junk',
+    TRASH: 'trash'
+};
+
+// Папки, под которыми Gmail показывает системные ярлыки по IMAP; null - "Вся почта", без фильтра по ярлыку
+const IMAP_SYSTEM_FOLDERS: Record<string, string | null> = {
+    'all mail': null,
+    'sent mail': 'SENT',
+    drafts: 'DRAFT',
+    important: 'IMPORTANT',
+    starred: 'STARRED',
+    spam: 'SPAM',
+    trash: 'TRASH',
+    bin: 'TRASH'
+};
+
+// Читает Gmail через REST API: history для инкрементальной синхронизации, ярлыки вместо папок, письма целиком в формате raw
+export class GmailApiMailSource implements MailSource {
+    public readonly kind = 'gmail_api';
+    private http: AxiosInstance;
+    private isConnected: boolean = false;
+    private labels: GmailLabel[] | null = null;
+    private readonly pageSize: number;
+    private emailUtils: EmailUtilsService;
+    private emailGroupIdService: EmailGroupId;
+    private messageParser: MailMessageParser;
+
+    constructor(
+        private credentials: { email: string; accessToken: string },
+        config: typeof gmailApiConfig = gmailApiConfig
+    ) {
+        this.http = axios.create({
+            baseURL: `${config.baseUrl.replace(/\/$/, '')}/users/me`,
+            timeout: config.requestTimeout,
+            headers: { Authorization: `Bearer ${credentials.accessToken}` },
+            // Gmail ждет повторяющиеся параметры без скобок: historyTypes=a&historyTypes=b
+            paramsSerializer: { indexes: null }
+        });
+        this.pageSize = config.pageSize;
+        this.emailUtils = new EmailUtilsService();
+        this.emailGroupIdService = new EmailGroupId();
+        this.messageParser = new MailMessageParser();
+    }
+
+    public getEmail(): string {
+        return this.credentials.email;
+    }
+
+    // Постоянного соединения нет - проверяем, что токен принимается
+    async connect(): Promise<void> {
+        if (this.isConnected) {
+            return;
+        }
+
+        const profile = await this.request<GmailProfile>('/profile');
+        this.isConnected = true;
+        logger.info(`Gmail API access confirmed for ${profile.emailAddress} (history ${profile.historyId})`);
+    }
+
+    isActive(): boolean {
+        return this.isConnected;
+    }
+
+    async disconnect(): Promise<void> {
+        this.isConnected = false;
+        this.labels = null;
+    }
+
+    async safeDisconnect(): Promise<void> {
+        await this.disconnect();
+    }
+
+    // uidRange "N:*" здесь означает изменения после historyId N-1; "1:*" - вся папка
+    async fetchEmailsFilteredByEmailGroupId(options: EmailFetchOptions = {}): Promise<FetchedEmail[]> {
+        logger.info('Fetching emails filtered by email group ID via Gmail API with options:', options);
+
+        const mailbox = options.mailbox || 'INBOX';
+        const labelId = await this.resolveLabelId(mailbox);
+
+        let messageIds: string[] | null = null;
+        if (options.uidRange) {
+            const startHistoryId = this.parseHistoryStart(options.uidRange);
+            if (startHistoryId > 0) {
+                const addedIds = await this.getAddedMessageIds(startHistoryId, labelId);
+                messageIds = addedIds && await this.filterBySubject(addedIds, /shipment/i);
+            }
+        }
+        if (messageIds === null) {
+            messageIds = await this.listMessageIds(this.createSearchQuery(options), labelId);
+        }
+
+        logger.info(`Found ${messageIds.length} filtered emails in Gmail ${mailbox}`);
+
+        const emails = await this.fetchRawMessages(messageIds);
+        const finalEmails = emails.filter(email => this.emailGroupIdService.hasEmailGroupId(email.subject));
+
+        logger.info(`Final filtered ${finalEmails.length} emails with email group IDs`);
+        return finalEmails;
+    }
+
+    async fetchEmailsByEmailGroupId(emailGroupId: string, options: Pick<EmailFetchOptions, 'uidRange' | 'mailbox'> = {}): Promise<FetchedEmail[]> {
+        const { uidRange, mailbox = 'INBOX' } = options;
+        logger.info(`Searching ALL emails for email group: ${emailGroupId} in Gmail ${mailbox} (${uidRange ? `history ${uidRange}` : 'no date restrictions'})`);
+
+        const labelId = await this.resolveLabelId(mailbox);
+        let messageIds = await this.listMessageIds(`"${emailGroupId}"`, labelId);
+
+        const startHistoryId = uidRange ? this.parseHistoryStart(uidRange) : 0;
+        if (startHistoryId > 0) {
+            const addedIds = await this.getAddedMessageIds(startHistoryId, labelId);
+            if (addedIds) {
+                const added = new Set(addedIds);
+                messageIds = messageIds.filter(id => added.has(id));
+            }
+        }
+
+        logger.info(`Found ${messageIds.length} emails containing "${emailGroupId}" from all dates`);
+        return this.fetchRawMessages(messageIds);
+    }
+
+    async getMailboxStatus(mailbox: string = 'INBOX'): Promise<MailboxStatus> {
+        const labelId = await this.resolveLabelId(mailbox);
+        const profile = await this.request<GmailProfile>('/profile');
+        const messageCount = labelId
+            ? (await this.request<GmailLabel>(`/labels/${encodeURIComponent(labelId)}`)).messagesTotal
+            : profile.messagesTotal;
+
+        return {
+            mailbox,
+            uidValidity: GMAIL_HISTORY_VALIDITY,
+            uidNext: Number(profile.historyId) + 1,
+            messageCount: messageCount || 0
+        };
+    }
+
+    async listMailboxes(): Promise<ServerMailbox[]> {
+        const labels = await this.getLabels();
+
+        return labels
+            .filter(label => label.type === 'user' || VISIBLE_SYSTEM_LABELS.includes(label.id))
+            .map(label => ({
+                path: label.type === 'user' ? label.name : label.id,
+                name: label.name.split('/').pop() || label.name,
+                specialUse: SPECIAL_USE_BY_LABEL[label.id] ? [SPECIAL_USE_BY_LABEL[label.id]] : [],
+                selectable: true
+            }));
+    }
+
+    // Принимает id ярлыка, его имя или путь системной папки Gmail из IMAP ("[Gmail]/Sent Mail")
+    private async resolveLabelId(mailbox: string): Promise<string | null> {
+        if (mailbox.toUpperCase() === 'INBOX') {
+            return 'INBOX';
+        }
+
+        const labels = await this.getLabels();
+        const label = labels.find(candidate => candidate.id === mailbox)
+            || labels.find(candidate => candidate.name === mailbox)
+            || labels.find(candidate => candidate.name.toLowerCase() === mailbox.toLowerCase());
+        if (label) {
+            return label.id;
+        }
+
+        const imapFolder = mailbox.match(/^\[(?:gmail|google mail)\]\/(.+)$/i)?.[1].toLowerCase();
+        if (imapFolder && imapFolder in IMAP_SYSTEM_FOLDERS) {
+            return IMAP_SYSTEM_FOLDERS[imapFolder];
+        }
+
+        throw new Error(`Gmail label "${mailbox}" not found`);
+    }
+
+    private async getLabels(): Promise<GmailLabel[]> {
+        if (!this.labels) {
+            const response = await this.request<{ labels?: GmailLabel[] }>('/labels');
+            this.labels = response.labels || [];
+        }
+        return this.labels;
+    }
+
+    private parseHistoryStart(uidRange: string): number {
+        const start = Number(uidRange.split(':')[0]);
+        return isNaN(start) ? 0 : start - 1;
+    }
+
+    // null - история с этой позиции уже удалена Gmail (хранится около недели), нужен полный просмотр папки
+    private async getAddedMessageIds(startHistoryId: number, labelId: string | null): Promise<string[] | null> {
+        const messageIds = new Set<string>();
+        let pageToken: string | undefined;
+
+        do {
+            const response = await this.request<{ history?: GmailHistoryRecord[]; nextPageToken?: string }>('/history', {
+                startHistoryId,
+                historyTypes: ['messageAdded', 'labelAdded'],
+                labelId: labelId || undefined,
+                maxResults: this.pageSize,
+                pageToken
+            }, { allowNotFound: true });
+
+            if (!response) {
+                logger.warn(`Gmail history ${startHistoryId} for ${this.credentials.email} has expired, listing the whole label`);
+                return null;
+            }
+
+            for (const record of response.history || []) {
+                record.messagesAdded?.forEach(({ message }) => messageIds.add(message.id));
+                // Ярлык, поставленный уже после доставки, тоже делает письмо новым для папки
+                record.labelsAdded
+                    ?.filter(({ labelIds }) => !labelId || labelIds?.includes(labelId))
+                    .forEach(({ message }) => messageIds.add(message.id));
+            }
+            pageToken = response.nextPageToken;
+        } while (pageToken);
+
+        return [...messageIds];
+    }
+
+    private async listMessageIds(query: string, labelId: string | null): Promise<string[]> {
+        const messageIds: string[] = [];
+        let pageToken: string | undefined;
+
+        do {
+            const response = await this.request<{ messages?: GmailMessageRef[]; nextPageToken?: string }>('/messages', {
+                q: query,
+                labelIds: labelId ? [labelId] : undefined,
+                includeSpamTrash: labelId === 'SPAM' || labelId === 'TRASH' || undefined,
+                maxResults: this.pageSize,
+                pageToken
+            });
+
+            messageIds.push(...(response.messages || []).map(message => message.id));
+            pageToken = response.nextPageToken;
+        } while (pageToken);
+
+        return messageIds;
+    }
+
+    // Перед скачиванием целиком смотрим только тему, чтобы не тянуть вложения писем не по делу
+    private async filterBySubject(messageIds: string[], pattern: RegExp): Promise<string[]> {
+        const matching: string[] = [];
+
+        for (const messageId of messageIds) {
+            const message = await this.request<{ payload?: { headers?: Array<{ name: string; value: string }> } }>(
+                `/messages/${encodeURIComponent(messageId)}`,
+                { format: 'metadata', metadataHeaders: ['Subject'] },
+                { allowNotFound: true }
+            );
+            const subject = message?.payload?.headers?.find(header => header.name.toLowerCase() === 'subject')?.value || '';
+            if (pattern.test(subject)) {
+                matching.push(messageId);
+            }
+        }
+
+        return matching;
+    }
+
+    private createSearchQuery(options: EmailFetchOptions): string {
+        const terms: string[] = ['subject:Shipment'];
+        const toGmailDate = (date: Date) => date.toISOString().split('T')[0].replace(/-/g, '/');
+
+        if (options.uidRange) {
+            return terms.join(' ');
+        }
+
+        if (options.startDate) {
+            terms.push(`after:${this.emailUtils.convertToIMAPDate(options.startDate).replace(/-/g, '/')}`);
+        }
+        if (options.endDate) {
+            const beforeDate = new Date(this.emailUtils.convertToIMAPDate(options.endDate));
+            beforeDate.setDate(beforeDate.getDate() + 1);
+            terms.push(`before:${toGmailDate(beforeDate)}`);
+        } else if (options.days || !options.startDate) {
+            const since = new Date();
+            since.setDate(since.getDate() - (options.days || 1));
+            terms.push(`after:${toGmailDate(since)}`);
+        }
+
+        return terms.join(' ');
+    }
+
+    private async fetchRawMessages(messageIds: string[]): Promise<FetchedEmail[]> {
+        const emails: FetchedEmail[] = [];
+        if (messageIds.length === 0) {
+            return emails;
+        }
+
+        logger.info(`Starting to fetch ${messageIds.length} emails with attachments via Gmail API`);
+
+        for (const [index, messageId] of messageIds.entries()) {
+            try {
+                const message = await this.request<{ raw?: string }>(
+                    `/messages/${encodeURIComponent(messageId)}`,
+                    { format: 'raw' },
+                    { allowNotFound: true }
+                );
+                if (!message?.raw) {
+                    logger.warn(`Gmail message ${messageId} is gone or has no raw content`);
+                    continue;
+                }
+
+                const email = await this.messageParser.parse(Buffer.from(message.raw, 'base64url'));
+                if (email) {
+                    emails.push(email);
+                }
+            } catch (error) {
+                logger.error(`Error processing Gmail message ${messageId}:`, error);
+            } finally {
+                logger.info(`Processed ${index + 1}/${messageIds.length} emails`);
+            }
+        }
+
+        logger.info(`Successfully fetched ${emails.length} emails with attachments`);
+        return emails;
+    }
+
+    private async request<T>(path: string, params?: Record<string, unknown>): Promise<T>;
+    private async request<T>(path: string, params: Record<string, unknown> | undefined, options: { allowNotFound: true }): Promise<T | null>;
+    private async request<T>(path: string, params?: Record<string, unknown>, options: { allowNotFound?: boolean } = {}): Promise<T | null> {
+        try {
+            const response = await this.http.get<T>(path, { params });
+            return response.data;
+        } catch (error: any) {
+            const status: number | undefined = error.response?.status;
+            if (status === 404 && options.allowNotFound) {
+                return null;
+            }
+            if (status === 401) {
+                this.isConnected = false;
+                throw new Error('OAuth2 token invalid for Gmail API access');
+            }
+
+            const details = error.response?.data?.error?.message || error.message;
+            throw new Error(`Gmail API request ${path} failed${status ? ` (${status})` : ''}: ${details}`);
+        }
+    }
+}
@@ -0,0 +1,353 @@
+import axios, { AxiosInstance } from 'axios';
+import { graphApiConfig } from '@/config/graph-api.config';
+import { logger } from '@/utils';
+import { EmailUtilsService } from '@/utils/email-utils';
+import { EmailGroupId } from '@/utils/email-group-id';
+import { MailMessageParser } from './mail-message-parser';
+import { MailSource, FetchedEmail, EmailFetchOptions, ServerMailbox, MailboxStatus } from './mail-source';
+
+type GraphFolder = {
+    id: string;
+    displayName: string;
+    childFolderCount?: number;
+    totalItemCount?: number;
+};
+
+type GraphMessageRef = {
+    id: string;
+    subject?: string;
+    receivedDateTime?: string;
+};
+
+type GraphPage<T> = {
+    value?: T[];
+    '@odata.nextLink'?: string;
+};
+
+// Время получения не сбрасывается, как UIDVALIDITY, - константа нужна только для общей схемы позиций в папках
+const GRAPH_CURSOR_VALIDITY = 1;
+
+// Системные папки Graph адресуются по этим именам вместо id
+const SPECIAL_USE_BY_WELL_KNOWN: Record<string, string> = {
+    sentitems: 'sent',
+    archive: 'archive',
+    junkemail: 'junk',
+    deleteditems: 'trash',
+    drafts: 'drafts'
+};
+
+const WELL_KNOWN_ALIASES: Record<string, string> = {
+    inbox: 'inbox',
+    sent: 'sentitems',
+    'sent items': 'sentitems',
+    archive: 'archive',
+    junk: 'junkemail',
+    'junk email': 'junkemail',
+    'deleted items': 'deleteditems',
+    drafts: 'drafts'
+};
+
+// Читает Microsoft 365 / Outlook.com через Graph: папки по путям, позиция - время получения, письма целиком в MIME
+export class GraphMailSource implements MailSource {
+    public readonly kind = 'graph_api';
+    private http: AxiosInstance;
+    private isConnected: boolean = false;
+    private folders: Array<GraphFolder & { path: string }> | null = null;
+    private wellKnownIds: Map<string, string> | null = null;
+    private readonly pageSize: number;
+    private readonly overlapSeconds: number;
+    private emailUtils: EmailUtilsService;
+    private emailGroupIdService: EmailGroupId;
+    private messageParser: MailMessageParser;
+
+    constructor(
+        private credentials: { email: string; accessToken: string },
+        config: typeof graphApiConfig = graphApiConfig
+    ) {
+        this.http = axios.create({
+            baseURL: config.baseUrl.replace(/\/$/, ''),
+            timeout: config.requestTimeout,
+            headers: { Authorization: `Bearer ${credentials.accessToken}` }
+        });
+        this.pageSize = config.pageSize;
+        this.overlapSeconds = config.overlapSeconds;
+        this.emailUtils = new EmailUtilsService();
+        this.emailGroupIdService = new EmailGroupId();
+        this.messageParser = new MailMessageParser();
+    }
+
+    public getEmail(): string {
+        return this.credentials.email;
+    }
+
+    // Постоянного соединения нет - проверяем, что токен принимается. Профиль (/me) требует User.Read,
+    // которого нет в запрашиваемых правах, поэтому проверка идет по папке входящих (Mail.Read)
+    async connect(): Promise<void> {
+        if (this.isConnected) {
+            return;
+        }
+
+        await this.request<GraphFolder>('/me/mailFolders/inbox', { $select: 'id' });
+        this.isConnected = true;
+        logger.info(`Microsoft Graph access confirmed for ${this.credentials.email}`);
+    }
+
+    isActive(): boolean {
+        return this.isConnected;
+    }
+
+    async disconnect(): Promise<void> {
+        this.isConnected = false;
+        this.folders = null;
+        this.wellKnownIds = null;
+    }
+
+    async safeDisconnect(): Promise<void> {
+        await this.disconnect();
+    }
+
+    // uidRange "N:*" здесь означает письма, полученные не раньше N-1 секунд от эпохи; "1:*" - вся папка
+    async fetchEmailsFilteredByEmailGroupId(options: EmailFetchOptions = {}): Promise<FetchedEmail[]> {
+        logger.info('Fetching emails filtered by email group ID via Microsoft Graph with options:', options);
+
+        const mailbox = options.mailbox || 'INBOX';
+        const folderId = await this.resolveFolderId(mailbox);
+        const filter = this.createReceivedFilter(options);
+
+        const messages = await this.listMessages(folderId, {
+            ...(filter ? { $filter: filter } : {}),
+            $select: 'id,subject'
+        });
+        // Graph не умеет сочетать фильтр по дате с поиском по теме, поэтому тема проверяется здесь
+        const messageIds = messages
+            .filter(message => /shipment/i.test(message.subject || ''))
+            .map(message => message.id);
+
+        logger.info(`Found ${messageIds.length} filtered emails in Graph folder ${mailbox}`);
+
+        const emails = await this.fetchMimeMessages(messageIds);
+        const finalEmails = emails.filter(email => this.emailGroupIdService.hasEmailGroupId(email.subject));
+
+        logger.info(`Final filtered ${finalEmails.length} emails with email group IDs`);
+        return finalEmails;
+    }
+
+    async fetchEmailsByEmailGroupId(emailGroupId: string, options: Pick<EmailFetchOptions, 'uidRange' | 'mailbox'> = {}): Promise<FetchedEmail[]> {
+        const { uidRange, mailbox = 'INBOX' } = options;
+        logger.info(`Searching ALL emails for email group: ${emailGroupId} in Graph folder ${mailbox} (${uidRange ? `received ${uidRange}` : 'no date restrictions'})`);
+
+        const folderId = await this.resolveFolderId(mailbox);
+        let messages = await this.listMessages(folderId, {
+            $search: `"${emailGroupId}"`,
+            $select: 'id,subject,receivedDateTime'
+        });
+
+        const since = uidRange ? this.parseCursorStart(uidRange) : null;
+        if (since) {
+            messages = messages.filter(message => !message.receivedDateTime || new Date(message.receivedDateTime) >= since);
+        }
+
+        logger.info(`Found ${messages.length} emails containing "${emailGroupId}" from all dates`);
+        return this.fetchMimeMessages(messages.map(message => message.id));
+    }
+
+    async getMailboxStatus(mailbox: string = 'INBOX'): Promise<MailboxStatus> {
+        const folderId = await this.resolveFolderId(mailbox);
+        const folder = await this.request<GraphFolder>(`/me/mailFolders/${encodeURIComponent(folderId)}`);
+
+        return {
+            mailbox,
+            uidValidity: GRAPH_CURSOR_VALIDITY,
+            uidNext: Math.floor(Date.now() / 1000) + 1,
+            messageCount: folder.totalItemCount || 0
+        };
+    }
+
+    async listMailboxes(): Promise<ServerMailbox[]> {
+        const [folders, wellKnownIds] = await Promise.all([this.getFolders(), this.getWellKnownIds()]);
+        const specialUseById = new Map(
+            [...wellKnownIds].map(([name, id]) => [id, SPECIAL_USE_BY_WELL_KNOWN[name]] as const)
+        );
+
+        return folders.map(folder => ({
+            // INBOX - общее имя папки входящих для всех источников
+            path: wellKnownIds.get('inbox') === folder.id ? 'INBOX' : folder.path,
+            name: folder.displayName,
+            specialUse: specialUseById.get(folder.id) ? [specialUseById.get(folder.id)!] : [],
+            selectable: true
+        }));
+    }
+
+    // Принимает путь папки ("Входящие/Перевозки"), ее id или привычное имя системной папки
+    private async resolveFolderId(mailbox: string): Promise<string> {
+        const lower = mailbox.toLowerCase();
+        if (lower === 'inbox') {
+            return 'inbox';
+        }
+
+        const folders = await this.getFolders();
+        const folder = folders.find(candidate => candidate.path === mailbox || candidate.id === mailbox)
+            || folders.find(candidate => candidate.path.toLowerCase() === lower);
+        if (folder) {
+            return folder.id;
+        }
+
+        const wellKnown = WELL_KNOWN_ALIASES[lower] || (lower in SPECIAL_USE_BY_WELL_KNOWN ? lower : null);
+        if (wellKnown) {
+            return wellKnown;
+        }
+
+        throw new Error(`Mail folder "${mailbox}" not found in Microsoft Graph`);
+    }
+
+    private async getFolders(): Promise<Array<GraphFolder & { path: string }>> {
+        if (this.folders) {
+            return this.folders;
+        }
+
+        const folders: Array<GraphFolder & { path: string }> = [];
+        const walk = async (url: string, prefix: string) => {
+            for (const folder of await this.listPages<GraphFolder>(url, { $top: this.pageSize })) {
+                const path = `${prefix}${folder.displayName}`;
+                folders.push({ ...folder, path });
+                if (folder.childFolderCount) {
+                    await walk(`/me/mailFolders/${encodeURIComponent(folder.id)}/childFolders`, `${path}/`);
+                }
+            }
+        };
+        await walk('/me/mailFolders', '');
+
+        this.folders = folders;
+        return folders;
+    }
+
+    private async getWellKnownIds(): Promise<Map<string, string>> {
+        if (this.wellKnownIds) {
+            return this.wellKnownIds;
+        }
+
+        const ids = new Map<string, string>();
+        for (const name of ['inbox', ...Object.keys(SPECIAL_USE_BY_WELL_KNOWN)]) {
+            const folder = await this.request<GraphFolder>(`/me/mailFolders/${name}`, undefined, { allowNotFound: true });
+            if (folder) {
+                ids.set(name, folder.id);
+            }
+        }
+
+        this.wellKnownIds = ids;
+        return ids;
+    }
+
+    private parseCursorStart(uidRange: string): Date | null {
+        const start = Number(uidRange.split(':')[0]) - 1;
+        if (isNaN(start) || start <= 0) {
+            return null;
+        }
+        return new Date((start - this.overlapSeconds) * 1000);
+    }
+
+    private createReceivedFilter(options: EmailFetchOptions): string | null {
+        const toDayStart = (date: string) => `${this.emailUtils.convertToIMAPDate(date)}T00:00:00Z`;
+
+        if (options.uidRange) {
+            const since = this.parseCursorStart(options.uidRange);
+            return since ? `receivedDateTime ge ${since.toISOString()}` : null;
+        }
+
+        const conditions: string[] = [];
+        if (options.startDate) {
+            conditions.push(`receivedDateTime ge ${toDayStart(options.startDate)}`);
+        }
+        if (options.endDate) {
+            const beforeDate = new Date(toDayStart(options.endDate));
+            beforeDate.setUTCDate(beforeDate.getUTCDate() + 1);
+            conditions.push(`receivedDateTime lt ${beforeDate.toISOString()}`);
+        } else if (options.days || !options.startDate) {
+            const since = new Date();
+            since.setDate(since.getDate() - (options.days || 1));
+            conditions.push(`receivedDateTime ge ${since.toISOString()}`);
+        }
+
+        return conditions.join(' and ');
+    }
+
+    private async listMessages(folderId: string, params: Record<string, unknown>): Promise<GraphMessageRef[]> {
+        return this.listPages<GraphMessageRef>(`/me/mailFolders/${encodeURIComponent(folderId)}/messages`, {
+            $top: this.pageSize,
+            ...params
+        });
+    }
+
+    // Следующие страницы Graph отдает готовой ссылкой со всеми параметрами
+    private async listPages<T>(path: string, params: Record<string, unknown>): Promise<T[]> {
+        const items: T[] = [];
+        let page = await this.request<GraphPage<T>>(path, params);
+        items.push(...(page.value || []));
+
+        while (page['@odata.nextLink']) {
+            page = await this.request<GraphPage<T>>(page['@odata.nextLink']);
+            items.push(...(page.value || []));
+        }
+
+        return items;
+    }
+
+    private async fetchMimeMessages(messageIds: string[]): Promise<FetchedEmail[]> {
+        const emails: FetchedEmail[] = [];
+        if (messageIds.length === 0) {
+            return emails;
+        }
+
+        logger.info(`Starting to fetch ${messageIds.length} emails with attachments via Microsoft Graph`);
+
+        for (const [index, messageId] of messageIds.entries()) {
+            try {
+                const mime = await this.request<ArrayBuffer>(
+                    `/me/messages/${encodeURIComponent(messageId)}/$value`,
+                    undefined,
+                    { allowNotFound: true, binary: true }
+                );
+                if (!mime) {
+                    logger.warn(`Graph message ${messageId} is gone`);
+                    continue;
+                }
+
+                const email = await this.messageParser.parse(Buffer.from(mime));
+                if (email) {
+                    emails.push(email);
+                }
+            } catch (error) {
+                logger.error(`Error processing Graph message ${messageId}:`, error);
+            } finally {
+                logger.info(`Processed ${index + 1}/${messageIds.length} emails`);
+            }
+        }
+
+        logger.info(`Successfully fetched ${emails.length} emails with attachments`);
+        return emails;
+    }
+
+    private async request<T>(path: string, params?: Record<string, unknown>): Promise<T>;
+    private async request<T>(path: string, params: Record<string, unknown> | undefined, options: { allowNotFound: true; binary?: boolean }): Promise<T | null>;
+    private async request<T>(path: string, params?: Record<string, unknown>, options: { allowNotFound?: boolean; binary?: boolean } = {}): Promise<T | null> {
+        try {
+            const response = await this.http.get<T>(path, {
+                params,
+                ...(options.binary ? { responseType: 'arraybuffer' as const } : {})
+            });
+            return response.data;
+        } catch (error: any) {
+            const status: number | undefined = error.response?.status;
+            if (status === 404 && options.allowNotFound) {
+                return null;
+            }
+            if (status === 401) {
+                this.isConnected = false;
+                throw new Error('OAuth2 token invalid for Microsoft Graph access');
+            }
+
+            const details = error.response?.data?.error?.message || error.message;
+            throw new Error(`Microsoft Graph request ${path.split('?')[0]} failed${status ? ` (${status})` : ''}: ${details}`);
+        }
+    }
+}
@@ -0,0 +1,84 @@
+import { createHash } from 'crypto';
+import { simpleParser } from 'mailparser';
+import { logger } from '@/utils';
+import { EmailUtilsService } from '@/utils/email-utils';
+import { FetchedEmail } from './mail-source';
+
+// Разбирает письмо в формате RFC 822 - общий код для IMAP и Gmail API
+export class MailMessageParser {
+    private emailUtils = new EmailUtilsService();
+
+    async parse(raw: Buffer): Promise<FetchedEmail | null> {
+        try {
+            const parsed = await simpleParser(raw);
+            const attachments = await this.processAttachments(parsed.attachments);
+
+            const email: FetchedEmail = {
+                // Без Message-ID письмо опознается по заголовкам, чтобы копии в разных папках совпали
+                id: parsed.messageId || this.buildSyntheticMessageId(parsed),
+                from: this.emailUtils.getAddressText(parsed.from),
+                to: this.emailUtils.getAddressText(parsed.to),
+                subject: parsed.subject || 'No subject',
+                date: parsed.date || new Date(),
+                text: parsed.text || '',
+                attachments: attachments
+            };
+
+            logger.info(`[EMAIL FETCHED] Subject: "${email.subject}" with ${attachments.length} attachments`);
+            return email;
+        } catch (parseError) {
+            logger.error('Email parsing error:', parseError);
+            return null;
+        }
+    }
+
+    private buildSyntheticMessageId(parsed: { from?: any; date?: Date; subject?: string; text?: string }): string {
+        const hash = createHash('sha1')
+            .update([
+                this.emailUtils.getAddressText(parsed.from),
+                parsed.date ? parsed.date.toISOString() : '',
+                parsed.subject || '',
+                (parsed.text || '').substring(0, 500)
+            ].join('\n'))
+            .digest('hex');
+        return `<synthetic-${hash}@local>`;
+    }
+
+    private async processAttachments(rawAttachments: any[]): Promise<FetchedEmail['attachments']> {
+        const attachments: FetchedEmail['attachments'] = [];
+
+        if (rawAttachments && Array.isArray(rawAttachments)) {
+            for (const attachment of rawAttachments) {
+                try {
+                    if (attachment.content) {
+                        let contentBuffer: Buffer;
+    
+                        if (Buffer.isBuffer(attachment.content)) {
+                            contentBuffer = attachment.content;
+                        } else if (typeof attachment.content === 'string') {
+                            contentBuffer = Buffer.from(attachment.content, 'base64');
+                        } else if (attachment.content instanceof Uint8Array) {
+                            contentBuffer = Buffer.from(attachment.content);
+                        } else {
+                            contentBuffer = Buffer.from(attachment.content.data || attachment.content);
+                        }
+
+                        attachments.push({
+                            id: `attach_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                            filename: attachment.filename || `attachment_${Date.now()}.bin`,
+                            content: contentBuffer,
+                            contentType: attachment.contentType || 'application/octet-stream',
+                            size: contentBuffer.length,
+                        });
+
+                        logger.info(`Fetched attachment: ${attachment.filename}, size: ${contentBuffer.length}, type: ${attachment.contentType}`);
+                    }
+                } catch (attachmentError) {
+                    logger.error(`Error processing attachment ${attachment.filename}:`, attachmentError);
+                }
+            }
+        }
+
+        return attachments;
+    }
+}
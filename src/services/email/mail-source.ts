@@ -0,0 +1,58 @@
+export interface FetchedEmail {
+    id: string;
+    from: string;
+    to: string;
+    subject: string;
+    date: Date;
+    text?: string;
+    attachments: Array<{
+        id: string;
+        filename: string;
+        content: Buffer;
+        contentType: string;
+        size: number;
+    }>;
+}
+
+export interface EmailFetchOptions {
+    startDate?: string;
+    endDate?: string;
+    days?: number;
+    uidRange?: string;
+    // Папка IMAP или ярлык Gmail; по умолчанию INBOX
+    mailbox?: string;
+}
+
+export interface ServerMailbox {
+    path: string;
+    name: string;
+    // Флаги SPECIAL-USE без обратной косой черты: "sent", "all", "junk"...
+    specialUse: string[];
+    selectable: boolean;
+}
+
+export interface MailboxStatus {
+    mailbox: string;
+    uidValidity: number;
+    // null - сервер не сообщил UIDNEXT
+    uidNext: number | null;
+    messageCount: number;
+}
+
+export type MailSourceKind = 'imap' | 'gmail_api' | 'graph_api';
+
+// Источник писем для синхронизации. Позиция в папке для IMAP - UID, для Gmail API - historyId, для Graph - время получения,
+// поэтому инкрементальная синхронизация работает со всеми одинаково
+export interface MailSource {
+    readonly kind: MailSourceKind;
+    getEmail(): string;
+    connect(): Promise<void>;
+    isActive(): boolean;
+    disconnect(): Promise<void>;
+    safeDisconnect(): Promise<void>;
+    // Письма с идентификатором группы в теме: за период или, при uidRange, новые с сохраненной позиции
+    fetchEmailsFilteredByEmailGroupId(options?: EmailFetchOptions): Promise<FetchedEmail[]>;
+    fetchEmailsByEmailGroupId(emailGroupId: string, options?: Pick<EmailFetchOptions, 'uidRange' | 'mailbox'>): Promise<FetchedEmail[]>;
+    getMailboxStatus(mailbox?: string): Promise<MailboxStatus>;
+    listMailboxes(): Promise<ServerMailbox[]>;
+}
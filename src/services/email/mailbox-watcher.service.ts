@@ -0,0 +1,353 @@
+import { CredentialsStorageService } from '../auth/credentials-storage.service';
+import { EmailAutoSyncService } from './email-auto-sync.service';
+import { EmailFetcherService } from './email-fetcher.service';
+import { mailboxWatchConfig } from '@/config/mailbox-watch.config';
+import { logger } from '@/utils';
+
+export type MailboxWatchMode = 'idle' | 'polling';
+
+type MailboxWatcher = {
+    email: string;
+    mode: MailboxWatchMode;
+    // Сервер не поддерживает IDLE - ящик остается на опросе даже при свободных слотах
+    idleUnsupported: boolean;
+    fetcher: EmailFetcherService | null;
+    // Номер соединения; события от уже закрытых соединений отбрасываются
+    generation: number;
+    reconnectAttempts: number;
+    reconnectTimer: NodeJS.Timeout | null;
+    recycleTimer: NodeJS.Timeout | null;
+    pollTimer: NodeJS.Timeout | null;
+    folderSyncTimer: NodeJS.Timeout | null;
+    debounceTimer: NodeJS.Timeout | null;
+    syncing: boolean;
+    syncQueued: boolean;
+    connectedAt: Date | null;
+    lastMailAt: Date | null;
+    lastSyncAt: Date | null;
+    lastError: string | null;
+};
+
+export type MailboxWatcherStatus = {
+    email: string;
+    mode: MailboxWatchMode;
+    connected: boolean;
+    reconnectAttempts: number;
+    connectedAt: Date | null;
+    lastMailAt: Date | null;
+    lastSyncAt: Date | null;
+    lastError: string | null;
+};
+
+// Держит IDLE-соединение на ящик и запускает синхронизацию пользователя через секунды после прихода письма
+export class MailboxWatcherService {
+    private isRunning: boolean = false;
+    private refreshTimer: NodeJS.Timeout | null = null;
+    private watchers: Map<string, MailboxWatcher> = new Map();
+
+    constructor(
+        private credentialsStorage: CredentialsStorageService,
+        private autoSyncService: EmailAutoSyncService
+    ) {}
+
+    public async start(): Promise<void> {
+        if (this.isRunning) {
+            logger.info('Mailbox watchers are already running');
+            return;
+        }
+
+        this.isRunning = true;
+        logger.info(`Starting mailbox watchers (max ${mailboxWatchConfig.maxWatchers} IDLE connections)`);
+
+        await this.refreshWatchers();
+        this.refreshTimer = setInterval(() => {
+            this.refreshWatchers().catch(error => logger.error('Failed to refresh mailbox watchers:', error));
+        }, mailboxWatchConfig.refreshIntervalMs);
+    }
+
+    public stop(): void {
+        this.isRunning = false;
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+
+        for (const watcher of this.watchers.values()) {
+            this.closeWatcher(watcher);
+        }
+        this.watchers.clear();
+        logger.info('Mailbox watchers stopped');
+    }
+
+    public isWatcherRunning(): boolean {
+        return this.isRunning;
+    }
+
+    public getStatus(): MailboxWatcherStatus[] {
+        return [...this.watchers.values()].map(watcher => ({
+            email: watcher.email,
+            mode: watcher.mode,
+            connected: watcher.fetcher?.isActive() || false,
+            reconnectAttempts: watcher.reconnectAttempts,
+            connectedAt: watcher.connectedAt,
+            lastMailAt: watcher.lastMailAt,
+            lastSyncAt: watcher.lastSyncAt,
+            lastError: watcher.lastError
+        }));
+    }
+
+    // Сверяет наблюдаемые ящики с активными учетными данными и занимает освободившиеся IDLE-слоты
+    public async refreshWatchers(): Promise<void> {
+        if (!this.isRunning) return;
+
+        const activeEmails = new Set(
+            (await this.credentialsStorage.getAllActiveCredentials()).map(credentials => credentials.email)
+        );
+
+        for (const [email, watcher] of this.watchers) {
+            if (!activeEmails.has(email)) {
+                logger.info(`Stopping mailbox watcher for ${email}: credentials are no longer active`);
+                this.closeWatcher(watcher);
+                this.watchers.delete(email);
+            }
+        }
+
+        for (const email of activeEmails) {
+            if (!this.watchers.has(email)) {
+                const watcher = this.createWatcher(email);
+                this.watchers.set(email, watcher);
+                this.startWatcher(watcher);
+            }
+        }
+
+        for (const watcher of this.watchers.values()) {
+            if (watcher.mode === 'polling' && !watcher.idleUnsupported && this.hasFreeIdleSlot()) {
+                logger.info(`Promoting ${watcher.email} from polling to IDLE`);
+                this.closeWatcher(watcher);
+                this.startWatcher(watcher);
+            }
+        }
+    }
+
+    private createWatcher(email: string): MailboxWatcher {
+        return {
+            email,
+            mode: 'polling',
+            idleUnsupported: false,
+            fetcher: null,
+            generation: 0,
+            reconnectAttempts: 0,
+            reconnectTimer: null,
+            recycleTimer: null,
+            pollTimer: null,
+            folderSyncTimer: null,
+            debounceTimer: null,
+            syncing: false,
+            syncQueued: false,
+            connectedAt: null,
+            lastMailAt: null,
+            lastSyncAt: null,
+            lastError: null
+        };
+    }
+
+    private startWatcher(watcher: MailboxWatcher): void {
+        if (!watcher.idleUnsupported && this.hasFreeIdleSlot()) {
+            watcher.mode = 'idle';
+            this.connect(watcher);
+        } else {
+            this.startPolling(watcher);
+        }
+    }
+
+    private hasFreeIdleSlot(): boolean {
+        const idleCount = [...this.watchers.values()].filter(watcher => watcher.mode === 'idle').length;
+        return idleCount < mailboxWatchConfig.maxWatchers;
+    }
+
+    private async connect(watcher: MailboxWatcher): Promise<void> {
+        const generation = ++watcher.generation;
+
+        try {
+            // Учетные данные читаются при каждом подключении - access token мог обновиться
+            const credentials = await this.credentialsStorage.getCredentialsByEmail(watcher.email);
+            if (!credentials || !credentials.isActive) {
+                throw new Error(`No active credentials found for ${watcher.email}`);
+            }
+
+            const providerConfig = await this.credentialsStorage.getConnectionConfig(credentials);
+            if (!providerConfig) {
+                throw new Error(`No mail connection configuration found for email: ${watcher.email}`);
+            }
+            if (generation !== watcher.generation) {
+                return;
+            }
+            if (providerConfig.imapAuthMethod !== 'LOGIN' && providerConfig.mailApi === 'graph') {
+                logger.info(`Mailbox ${watcher.email} is read through Microsoft Graph, falling back to polling`);
+                watcher.idleUnsupported = true;
+                this.closeWatcher(watcher);
+                this.startPolling(watcher);
+                return;
+            }
+
+            const fetcher = new EmailFetcherService(
+                { email: credentials.email, accessToken: credentials.accessToken },
+                providerConfig,
+                { idle: true }
+            );
+            watcher.fetcher = fetcher;
+
+            const idleSupported = await fetcher.watchInbox({
+                onMail: count => {
+                    if (generation === watcher.generation) {
+                        this.handleNewMail(watcher, count);
+                    }
+                },
+                onClose: error => {
+                    if (generation === watcher.generation) {
+                        this.handleConnectionLost(watcher, error);
+                    }
+                }
+            });
+            if (generation !== watcher.generation) {
+                await fetcher.safeDisconnect();
+                return;
+            }
+
+            if (!idleSupported) {
+                logger.warn(`IMAP server for ${watcher.email} does not support IDLE, falling back to polling`);
+                watcher.idleUnsupported = true;
+                this.closeWatcher(watcher);
+                this.startPolling(watcher);
+                return;
+            }
+
+            watcher.reconnectAttempts = 0;
+            watcher.connectedAt = new Date();
+            watcher.lastError = null;
+            watcher.recycleTimer = setTimeout(() => this.recycle(watcher), mailboxWatchConfig.maxConnectionAgeMs);
+            watcher.folderSyncTimer = setInterval(() => this.requestSync(watcher), mailboxWatchConfig.folderSyncIntervalMs);
+            logger.info(`Mailbox watcher connected for ${watcher.email} (IDLE)`);
+
+            // Письма, пришедшие пока соединения не было
+            this.requestSync(watcher);
+
+        } catch (error) {
+            if (generation === watcher.generation) {
+                this.handleConnectionLost(watcher, error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    }
+
+    private handleNewMail(watcher: MailboxWatcher, count: number): void {
+        watcher.lastMailAt = new Date();
+        logger.info(`Mailbox watcher for ${watcher.email}: ${count} new message(s)`);
+
+        if (watcher.debounceTimer) {
+            clearTimeout(watcher.debounceTimer);
+        }
+        watcher.debounceTimer = setTimeout(() => {
+            watcher.debounceTimer = null;
+            this.requestSync(watcher);
+        }, mailboxWatchConfig.debounceMs);
+    }
+
+    private handleConnectionLost(watcher: MailboxWatcher, error: Error | null): void {
+        watcher.generation++;
+        this.clearConnection(watcher);
+        if (!this.isRunning || this.watchers.get(watcher.email) !== watcher) {
+            return;
+        }
+
+        watcher.lastError = error ? error.message : 'Connection closed';
+        const delay = this.getReconnectDelay(watcher.reconnectAttempts++);
+        logger.warn(`Mailbox watcher for ${watcher.email} disconnected (${watcher.lastError}), reconnecting in ${Math.round(delay / 1000)}s`);
+
+        watcher.reconnectTimer = setTimeout(() => {
+            watcher.reconnectTimer = null;
+            this.connect(watcher);
+        }, delay);
+    }
+
+    // Экспоненциальная задержка с разбросом, чтобы ящики после сбоя сервера не переподключались одновременно
+    private getReconnectDelay(attempts: number): number {
+        const delay = Math.min(mailboxWatchConfig.backoffBaseMs * Math.pow(2, attempts), mailboxWatchConfig.backoffMaxMs);
+        return Math.round(delay * (0.8 + Math.random() * 0.4));
+    }
+
+    private recycle(watcher: MailboxWatcher): void {
+        logger.info(`Recycling IDLE connection for ${watcher.email}`);
+        watcher.generation++;
+        this.clearConnection(watcher);
+        this.connect(watcher);
+    }
+
+    private startPolling(watcher: MailboxWatcher): void {
+        watcher.mode = 'polling';
+        logger.info(`Polling ${watcher.email} every ${Math.round(mailboxWatchConfig.pollIntervalMs / 1000)}s`);
+        watcher.pollTimer = setInterval(() => this.requestSync(watcher), mailboxWatchConfig.pollIntervalMs);
+    }
+
+    // Синхронизации одного ящика не пересекаются; событие во время синхронизации запускает еще один проход
+    private async requestSync(watcher: MailboxWatcher): Promise<void> {
+        if (watcher.syncing) {
+            watcher.syncQueued = true;
+            return;
+        }
+
+        watcher.syncing = true;
+        try {
+            const result = await this.autoSyncService.syncUser(watcher.email);
+            watcher.lastSyncAt = new Date();
+            if (result.newEmails > 0) {
+                logger.info(`Mailbox watcher sync for ${watcher.email}: ${result.newEmails} new emails`);
+            }
+        } catch (error) {
+            watcher.lastError = error instanceof Error ? error.message : String(error);
+            logger.error(`Mailbox watcher sync failed for ${watcher.email}:`, error);
+        } finally {
+            watcher.syncing = false;
+        }
+
+        if (watcher.syncQueued && this.watchers.get(watcher.email) === watcher) {
+            watcher.syncQueued = false;
+            await this.requestSync(watcher);
+        }
+    }
+
+    private clearConnection(watcher: MailboxWatcher): void {
+        if (watcher.recycleTimer) {
+            clearTimeout(watcher.recycleTimer);
+            watcher.recycleTimer = null;
+        }
+        if (watcher.folderSyncTimer) {
+            clearInterval(watcher.folderSyncTimer);
+            watcher.folderSyncTimer = null;
+        }
+
+        const fetcher = watcher.fetcher;
+        watcher.fetcher = null;
+        watcher.connectedAt = null;
+        if (fetcher) {
+            fetcher.safeDisconnect().catch(error => {
+                logger.warn(`Error disconnecting mailbox watcher for ${watcher.email}:`, error);
+            });
+        }
+    }
+
+    private closeWatcher(watcher: MailboxWatcher): void {
+        watcher.generation++;
+        this.clearConnection(watcher);
+
+        for (const timer of [watcher.reconnectTimer, watcher.debounceTimer]) {
+            if (timer) clearTimeout(timer);
+        }
+        if (watcher.pollTimer) {
+            clearInterval(watcher.pollTimer);
+        }
+        watcher.reconnectTimer = null;
+        watcher.debounceTimer = null;
+        watcher.pollTimer = null;
+        watcher.syncQueued = false;
+    }
+}
@@ -0,0 +1,167 @@
+import { MailSource, ServerMailbox } from './mail-source';
+import { MailboxSyncStateRepository, MonitoredFolderRepository } from '@/repositories';
+import { IMonitoredFolder, MonitoredFolderKind } from '@/models/monitored-folder';
+import { IMailboxSyncState } from '@/models/mailbox-sync-state';
+import { logger } from '@/utils';
+
+// Привычные названия системных папок; на сервере они ищутся по флагу SPECIAL-USE, а не по имени
+const SPECIAL_USE_ALIASES: Record<string, string> = {
+    sent: 'sent',
+    'sent mail': 'sent',
+    'sent items': 'sent',
+    'отправленные': 'sent',
+    'all mail': 'all',
+    'вся почта': 'all',
+    archive: 'archive',
+    'архив': 'archive',
+    important: 'important',
+    'важное': 'important',
+    starred: 'flagged',
+    flagged: 'flagged',
+    'помеченные': 'flagged'
+};
+
+export type MonitoredFolderView = IMonitoredFolder & {
+    syncState: Pick<IMailboxSyncState, 'uidValidity' | 'lastUid' | 'lastFullSyncAt' | 'updatedAt'> | null;
+};
+
+export type AvailableMailbox = ServerMailbox & {
+    monitored: boolean;
+};
+
+export class MonitoredFolderService {
+    constructor(
+        private monitoredFolderRepo: MonitoredFolderRepository,
+        private syncStateRepo: MailboxSyncStateRepository
+    ) {}
+
+    async listFolders(userId: number): Promise<MonitoredFolderView[]> {
+        const [folders, states] = await Promise.all([
+            this.monitoredFolderRepo.getFoldersByUserId(userId),
+            this.syncStateRepo.getStatesByUserId(userId)
+        ]);
+        const statesByMailbox = new Map(states.map(state => [state.mailbox, state]));
+
+        return folders.map(folder => {
+            const state = statesByMailbox.get(folder.mailbox);
+            return {
+                ...folder,
+                syncState: state
+                    ? { uidValidity: state.uidValidity, lastUid: state.lastUid, lastFullSyncAt: state.lastFullSyncAt, updatedAt: state.updatedAt }
+                    : null
+            };
+        });
+    }
+
+    async listAvailableMailboxes(emailFetcher: MailSource, userId: number): Promise<AvailableMailbox[]> {
+        const [mailboxes, folders] = await Promise.all([
+            emailFetcher.listMailboxes(),
+            this.monitoredFolderRepo.getEnabledFoldersByUserId(userId)
+        ]);
+        const monitored = new Set(['INBOX', ...folders.map(folder => folder.mailbox)]);
+
+        return mailboxes
+            .filter(mailbox => mailbox.selectable)
+            .map(mailbox => ({ ...mailbox, monitored: monitored.has(mailbox.path) }));
+    }
+
+    // Имя сверяется со списком папок на сервере, чтобы в базу попал точный путь, который примет SELECT
+    async addFolder(emailFetcher: MailSource, userId: number, name: unknown, label?: unknown): Promise<IMonitoredFolder> {
+        const requested = typeof name === 'string' ? name.trim() : '';
+        if (!requested) {
+            throw new Error('Invalid monitored folder: mailbox name is required');
+        }
+
+        const mailboxes = await emailFetcher.listMailboxes();
+        const mailbox = this.resolveMailbox(mailboxes, requested);
+        if (!mailbox) {
+            throw new Error(`Invalid monitored folder: "${requested}" not found on the mail server`);
+        }
+        if (!mailbox.selectable) {
+            throw new Error(`Invalid monitored folder: "${mailbox.path}" cannot hold messages`);
+        }
+        if (mailbox.path.toUpperCase() === 'INBOX') {
+            throw new Error('Invalid monitored folder: INBOX is always monitored');
+        }
+
+        const existing = await this.monitoredFolderRepo.getFolder(userId, mailbox.path);
+        if (existing) {
+            throw new Error(`Monitored folder "${mailbox.path}" already exists`);
+        }
+
+        const folder = await this.monitoredFolderRepo.createFolder({
+            userId,
+            mailbox: mailbox.path,
+            kind: this.detectKind(emailFetcher, mailboxes),
+            label: typeof label === 'string' && label.trim() ? label.trim() : mailbox.name
+        });
+        logger.info(`User ${userId} started monitoring ${folder.kind} "${folder.mailbox}"`);
+        return folder;
+    }
+
+    async updateFolder(userId: number, folderId: number, updates: { enabled?: unknown; label?: unknown }): Promise<IMonitoredFolder> {
+        await this.getOwnFolder(userId, folderId);
+
+        const changes: Partial<Pick<IMonitoredFolder, 'enabled' | 'label'>> = {};
+        if (updates.enabled !== undefined) {
+            if (typeof updates.enabled !== 'boolean') {
+                throw new Error('Invalid monitored folder: enabled must be a boolean');
+            }
+            changes.enabled = updates.enabled;
+        }
+        if (updates.label !== undefined) {
+            if (updates.label !== null && typeof updates.label !== 'string') {
+                throw new Error('Invalid monitored folder: label must be a string');
+            }
+            changes.label = updates.label ? updates.label.trim() : null;
+        }
+
+        const folder = await this.monitoredFolderRepo.updateFolder(folderId, changes);
+        if (!folder) {
+            throw new Error(`Monitored folder ${folderId} not found`);
+        }
+        return folder;
+    }
+
+    // Позиция синхронизации удаляется вместе с папкой: при повторном добавлении папка начнется с окна по датам
+    async removeFolder(userId: number, folderId: number): Promise<IMonitoredFolder> {
+        const folder = await this.getOwnFolder(userId, folderId);
+
+        await this.monitoredFolderRepo.deleteFolder(folderId);
+        await this.syncStateRepo.deleteState(userId, folder.mailbox);
+        logger.info(`User ${userId} stopped monitoring ${folder.kind} "${folder.mailbox}"`);
+        return folder;
+    }
+
+    // Чужая папка неотличима от несуществующей
+    private async getOwnFolder(userId: number, folderId: number): Promise<IMonitoredFolder> {
+        const folder = await this.monitoredFolderRepo.getFolderById(folderId);
+        if (!folder || folder.userId !== userId) {
+            throw new Error(`Monitored folder ${folderId} not found`);
+        }
+        return folder;
+    }
+
+    private resolveMailbox(mailboxes: ServerMailbox[], requested: string): ServerMailbox | null {
+        const lower = requested.toLowerCase();
+
+        const exact = mailboxes.find(mailbox => mailbox.path === requested);
+        if (exact) return exact;
+
+        const byName = mailboxes.find(mailbox => mailbox.path.toLowerCase() === lower)
+            || mailboxes.find(mailbox => mailbox.name.toLowerCase() === lower);
+        if (byName) return byName;
+
+        const specialUse = SPECIAL_USE_ALIASES[lower];
+        return specialUse
+            ? mailboxes.find(mailbox => mailbox.specialUse.includes(specialUse)) || null
+            : null;
+    }
+
+    // У Gmail папок нет: все, кроме INBOX, - ярлыки, а по IMAP системные лежат под [Gmail]
+    private detectKind(emailFetcher: MailSource, mailboxes: ServerMailbox[]): MonitoredFolderKind {
+        return emailFetcher.kind === 'gmail_api' || mailboxes.some(mailbox => /^\[(gmail|google mail)\]$/i.test(mailbox.path))
+            ? 'gmail_label'
+            : 'folder';
+    }
+}
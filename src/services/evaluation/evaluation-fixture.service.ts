@@ -0,0 +1,116 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { simpleParser } from 'mailparser';
+import { IEmail } from '@/models/email';
+import { ShipmentRequest } from '@/models/summary';
+import { EvaluationCase } from '@/models/evaluation';
+import { EmailUtilsService } from '@/utils';
+
+export const EXPECTED_FILE = 'expected.json';
+export const EMAILS_FILE = 'emails.json';
+export const RECORDED_FILE = 'recorded.json';
+
+/**
+ * Каждый кейс — отдельная папка: expected.json с эталонным ShipmentRequest,
+ * письма в emails.json (IEmail[]) или в *.eml, и необязательный recorded.json с ответами модели.
+ * Вложения берутся из *.eml и проходят то же извлечение текста, что и в приложении.
+ */
+export class EvaluationFixtureService {
+    private emailUtils = new EmailUtilsService();
+
+    async loadCases(fixturesDir: string, caseFilter?: string): Promise<EvaluationCase[]> {
+        if (!existsSync(fixturesDir)) {
+            throw new Error(`Fixtures directory not found: ${fixturesDir}`);
+        }
+
+        const caseNames = readdirSync(fixturesDir)
+            .filter(name => statSync(join(fixturesDir, name)).isDirectory())
+            .filter(name => !caseFilter || name === caseFilter)
+            .sort();
+
+        const cases: EvaluationCase[] = [];
+        for (const name of caseNames) {
+            cases.push(await this.loadCase(join(fixturesDir, name), name));
+        }
+
+        return cases;
+    }
+
+    saveRecordedResponses(evaluationCase: EvaluationCase, responses: string[]): void {
+        writeFileSync(join(evaluationCase.dir, RECORDED_FILE), JSON.stringify(responses, null, 2) + '\n', 'utf-8');
+    }
+
+    private async loadCase(dir: string, name: string): Promise<EvaluationCase> {
+        const expectedPath = join(dir, EXPECTED_FILE);
+        if (!existsSync(expectedPath)) {
+            throw new Error(`Fixture ${name} has no ${EXPECTED_FILE}`);
+        }
+
+        const expected = JSON.parse(readFileSync(expectedPath, 'utf-8')) as ShipmentRequest;
+        const emails = await this.loadEmails(dir, name);
+        if (emails.length === 0) {
+            throw new Error(`Fixture ${name} has no emails (${EMAILS_FILE} or *.eml)`);
+        }
+
+        const recordedPath = join(dir, RECORDED_FILE);
+        const recordedResponses = existsSync(recordedPath)
+            ? this.parseRecordedResponses(readFileSync(recordedPath, 'utf-8'), name)
+            : null;
+
+        return { name, dir, emails, expected, recordedResponses };
+    }
+
+    private async loadEmails(dir: string, caseName: string): Promise<IEmail[]> {
+        const emailsPath = join(dir, EMAILS_FILE);
+        if (existsSync(emailsPath)) {
+            const rawEmails = JSON.parse(readFileSync(emailsPath, 'utf-8')) as Partial<IEmail>[];
+            return rawEmails.map((email, index) => ({
+                id: email.id || `${caseName}-${index + 1}`,
+                from: email.from || '',
+                to: email.to || '',
+                subject: email.subject || '',
+                date: new Date(email.date || 0),
+                emailGroupId: email.emailGroupId || caseName,
+                status: email.status || 'not_processed',
+                text: email.text || ''
+            }));
+        }
+
+        const emlFiles = readdirSync(dir).filter(file => file.toLowerCase().endsWith('.eml')).sort();
+        const emails: IEmail[] = [];
+
+        for (const file of emlFiles) {
+            const parsed = await simpleParser(readFileSync(join(dir, file)));
+            const id = parsed.messageId || `${caseName}-${file}`;
+            emails.push({
+                id,
+                from: this.emailUtils.getAddressText(parsed.from),
+                to: this.emailUtils.getAddressText(parsed.to),
+                subject: parsed.subject || 'No subject',
+                date: parsed.date || new Date(0),
+                emailGroupId: caseName,
+                status: 'not_processed',
+                text: parsed.text || '',
+                attachments: parsed.attachments.map((attachment, index) => ({
+                    id: `${caseName}-${file}-${index + 1}`,
+                    emailId: id,
+                    filename: attachment.filename || `attachment-${index + 1}`,
+                    content: attachment.content,
+                    contentType: attachment.contentType,
+                    size: attachment.size
+                }))
+            });
+        }
+
+        return emails;
+    }
+
+    private parseRecordedResponses(content: string, caseName: string): string[] {
+        const parsed = JSON.parse(content);
+        if (!Array.isArray(parsed)) {
+            throw new Error(`Fixture ${caseName}: ${RECORDED_FILE} must be an array of model responses`);
+        }
+        // Ответ можно хранить как строку (сырой вывод модели) или как уже разобранный JSON
+        return parsed.map(response => typeof response === 'string' ? response : JSON.stringify(response));
+    }
+}
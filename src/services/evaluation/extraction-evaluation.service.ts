@@ -0,0 +1,314 @@
+import { ShipmentRequest } from '@/models/summary';
+import {
+    EvaluationCase,
+    CaseEvaluationResult,
+    EvaluationReport,
+    FieldMismatch,
+    FieldScore,
+    DateNormalizationError,
+    MatchCounts
+} from '@/models/evaluation';
+import { PromptTemplateContent } from '@/models/prompt-template';
+import { ShipmentExtractionService } from '../ai/shipment-extraction.service';
+import { ShipmentValidationService } from '../ai/shipment-validation.service';
+import { ShipmentPipelineService } from '../ai/shipment-pipeline.service';
+import { AttachmentTextService } from '../email-group/attachment-text.service';
+import { VocabularyService } from '../vocabulary/vocabulary.service';
+import { DERIVED_FIELDS } from '../summary/summary-amendment.service';
+
+const DATE_FIELD_PATTERN = /date(_from|_to)?$/;
+
+export class ExtractionEvaluationService {
+    private validationService = new ShipmentValidationService();
+    private attachmentTextService = new AttachmentTextService(null);
+
+    constructor(private vocabularyService: VocabularyService) {}
+
+    // Кейс проходит путь приложения: текст вложений, модель с запасным разбором по правилам и нормализация.
+    // rulesOnly оценивает сам запасной разбор, без модели
+    async evaluateCase(
+        evaluationCase: EvaluationCase,
+        extractionService: ShipmentExtractionService,
+        template: PromptTemplateContent,
+        rulesOnly: boolean = false
+    ): Promise<CaseEvaluationResult> {
+        const expectedMeaningful = extractionService.isMeaningfulAnalysis(evaluationCase.expected);
+        const pipelineService = new ShipmentPipelineService(extractionService, this.vocabularyService);
+        const { emails } = evaluationCase;
+
+        try {
+            const documents = await this.attachmentTextService.getDocumentsForEmails(emails);
+            const result = rulesOnly
+                ? pipelineService.extractWithRules(emails, documents)
+                : await pipelineService.extract(emails, documents, () => extractionService.generateStructuredEmailGroupData(emails, documents, template));
+            const normalized = await pipelineService.normalize(result.shipment_data, evaluationCase.name, emails);
+            const { mismatches, counts, fieldCounts } = this.compare(evaluationCase.expected, normalized.data);
+
+            return {
+                name: evaluationCase.name,
+                error: null,
+                extraction_method: result.extraction_method,
+                documents: documents.length,
+                meaningful: extractionService.isMeaningfulAnalysis(normalized.data),
+                expected_meaningful: expectedMeaningful,
+                validation_errors: result.validation_errors,
+                warnings: [...(result.validation_warnings || []), ...normalized.warnings],
+                mismatches,
+                date_errors: this.findDateErrors(evaluationCase.expected, normalized.data),
+                counts,
+                field_counts: fieldCounts,
+                actual: normalized.data
+            };
+        } catch (error) {
+            // Упавший кейс считается полным промахом: все эталонные поля попадают в fn
+            const { mismatches, counts, fieldCounts } = this.compare(evaluationCase.expected, null);
+
+            return {
+                name: evaluationCase.name,
+                error: error instanceof Error ? error.message : String(error),
+                extraction_method: null,
+                documents: 0,
+                meaningful: false,
+                expected_meaningful: expectedMeaningful,
+                validation_errors: [],
+                warnings: [],
+                mismatches,
+                date_errors: [],
+                counts,
+                field_counts: fieldCounts,
+                actual: null
+            };
+        }
+    }
+
+    buildReport(
+        results: CaseEvaluationResult[],
+        provider: string,
+        model: string,
+        promptVersion: string
+    ): EvaluationReport {
+        const fieldTotals = new Map<string, MatchCounts>();
+        const totals: MatchCounts = { tp: 0, fp: 0, fn: 0 };
+
+        for (const result of results) {
+            for (const [field, counts] of Object.entries(result.field_counts)) {
+                const fieldTotal = fieldTotals.get(field) || { tp: 0, fp: 0, fn: 0 };
+                fieldTotal.tp += counts.tp;
+                fieldTotal.fp += counts.fp;
+                fieldTotal.fn += counts.fn;
+                fieldTotals.set(field, fieldTotal);
+            }
+
+            totals.tp += result.counts.tp;
+            totals.fp += result.counts.fp;
+            totals.fn += result.counts.fn;
+        }
+
+        const fields: FieldScore[] = [...fieldTotals.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([field, counts]) => ({
+                field,
+                ...counts,
+                precision: this.ratio(counts.tp, counts.tp + counts.fp),
+                recall: this.ratio(counts.tp, counts.tp + counts.fn)
+            }));
+
+        const precision = this.ratio(totals.tp, totals.tp + totals.fp);
+        const recall = this.ratio(totals.tp, totals.tp + totals.fn);
+        const f1 = precision !== null && recall !== null && precision + recall > 0
+            ? (2 * precision * recall) / (precision + recall)
+            : null;
+
+        return {
+            provider,
+            model,
+            prompt_version: promptVersion,
+            cases: results,
+            fields,
+            totals: { ...totals, precision, recall, f1 },
+            date_error_count: results.reduce((sum, result) => sum + result.date_errors.length, 0),
+            failed_cases: results.filter(result => result.error !== null).length
+        };
+    }
+
+    formatReport(report: EvaluationReport): string {
+        const lines: string[] = [];
+        const percent = (value: number | null) => value === null ? '   n/a' : `${(value * 100).toFixed(1).padStart(5)}%`;
+
+        lines.push(`Extraction evaluation: ${report.cases.length} cases, provider ${report.provider} (${report.model}), prompt ${report.prompt_version}`);
+        lines.push('');
+
+        for (const result of report.cases) {
+            const status = result.error
+                ? `ERROR: ${result.error}`
+                : result.mismatches.length === 0 ? 'OK' : `${result.mismatches.length} mismatches`;
+            lines.push(`[${result.name}] ${status}`);
+            if (result.extraction_method) {
+                lines.push(`  extraction: ${result.extraction_method}, ${result.documents} attachment documents`);
+            }
+
+            if (result.meaningful !== result.expected_meaningful) {
+                lines.push(`  meaningful: expected ${result.expected_meaningful}, got ${result.meaningful}`);
+            }
+            for (const validationError of result.validation_errors) {
+                lines.push(`  validation: ${validationError.path || '(root)'}: ${validationError.message}`);
+            }
+            for (const warning of result.warnings) {
+                lines.push(`  warning ${warning.code}: ${warning.path}: ${warning.message}`);
+            }
+            if (!result.error) {
+                for (const mismatch of result.mismatches) {
+                    lines.push(`  ${mismatch.path}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`);
+                }
+            }
+            for (const dateError of result.date_errors) {
+                lines.push(`  date ${dateError.reason}: ${dateError.path} expected ${JSON.stringify(dateError.expected)}, got ${JSON.stringify(dateError.actual)}`);
+            }
+        }
+
+        lines.push('');
+        lines.push('Per-field scores:');
+        const fieldWidth = Math.max(5, ...report.fields.map(field => field.field.length));
+        lines.push(`  ${'field'.padEnd(fieldWidth)}  precision  recall    tp   fp   fn`);
+        for (const field of report.fields) {
+            lines.push(
+                `  ${field.field.padEnd(fieldWidth)}  ${percent(field.precision)}     ${percent(field.recall)}  ` +
+                `${String(field.tp).padStart(4)} ${String(field.fp).padStart(4)} ${String(field.fn).padStart(4)}`
+            );
+        }
+
+        lines.push('');
+        lines.push(
+            `Total: precision ${percent(report.totals.precision)}, recall ${percent(report.totals.recall)}, F1 ${percent(report.totals.f1)}; ` +
+            `date errors ${report.date_error_count}; failed cases ${report.failed_cases}`
+        );
+
+        return lines.join('\n');
+    }
+
+    private compare(expected: ShipmentRequest, actual: ShipmentRequest | null): {
+        mismatches: FieldMismatch[];
+        counts: MatchCounts;
+        fieldCounts: Record<string, MatchCounts>;
+    } {
+        const expectedFields = this.flatten(expected);
+        const actualFields = actual ? this.scoredFields(expectedFields, this.flatten(actual)) : new Map<string, unknown>();
+        const paths = [...new Set([...expectedFields.keys(), ...actualFields.keys()])].sort();
+
+        const mismatches: FieldMismatch[] = [];
+        const counts: MatchCounts = { tp: 0, fp: 0, fn: 0 };
+        const fieldCounts: Record<string, MatchCounts> = {};
+
+        for (const path of paths) {
+            const expectedValue = this.normalize(expectedFields.get(path));
+            const actualValue = this.normalize(actualFields.get(path));
+
+            if (expectedValue === '' && actualValue === '') {
+                continue;
+            }
+
+            const field = path.replace(/\[\d+\]/g, '[]');
+            const fieldCount = fieldCounts[field] || { tp: 0, fp: 0, fn: 0 };
+
+            // Неверное значение — одновременно ложное срабатывание и пропуск правильного
+            if (expectedValue === actualValue) {
+                fieldCount.tp++;
+            } else {
+                if (actualValue !== '') fieldCount.fp++;
+                if (expectedValue !== '') fieldCount.fn++;
+                mismatches.push({
+                    path,
+                    expected: expectedFields.get(path) ?? null,
+                    actual: actualFields.get(path) ?? null
+                });
+            }
+
+            fieldCounts[field] = fieldCount;
+        }
+
+        for (const fieldCount of Object.values(fieldCounts)) {
+            counts.tp += fieldCount.tp;
+            counts.fp += fieldCount.fp;
+            counts.fn += fieldCount.fn;
+        }
+
+        return { mismatches, counts, fieldCounts };
+    }
+
+    private findDateErrors(expected: ShipmentRequest, actual: ShipmentRequest): DateNormalizationError[] {
+        const expectedFields = this.flatten(expected);
+        const actualFields = this.scoredFields(expectedFields, this.flatten(actual));
+        const paths = [...new Set([...expectedFields.keys(), ...actualFields.keys()])]
+            .filter(path => DATE_FIELD_PATTERN.test(path))
+            .sort();
+
+        const errors: DateNormalizationError[] = [];
+
+        for (const path of paths) {
+            const expectedValue = this.toNullableString(expectedFields.get(path));
+            const actualValue = this.toNullableString(actualFields.get(path));
+
+            if (expectedValue === actualValue) {
+                continue;
+            }
+
+            if (actualValue === null) {
+                errors.push({ path, expected: expectedValue, actual: null, reason: 'missing' });
+            } else if (this.validationService.normalizeDate(actualValue) !== actualValue) {
+                errors.push({ path, expected: expectedValue, actual: actualValue, reason: 'not_normalized' });
+            } else if (expectedValue === null) {
+                errors.push({ path, expected: null, actual: actualValue, reason: 'unexpected' });
+            } else {
+                errors.push({ path, expected: expectedValue, actual: actualValue, reason: 'wrong_value' });
+            }
+        }
+
+        return errors;
+    }
+
+    // Коды словаря, нормализованные адреса и расписание оцениваются, только если эталон их задает:
+    // иначе каждый кейс без них получал бы ложные срабатывания
+    private scoredFields(expectedFields: Map<string, unknown>, actualFields: Map<string, unknown>): Map<string, unknown> {
+        const derivedRoot = (path: string): string | null => {
+            const segments = path.split('.');
+            const index = segments.findIndex(segment => DERIVED_FIELDS.has(segment.replace(/\[\d+\]$/, '')));
+            return index >= 0 ? segments.slice(0, index + 1).join('.') : null;
+        };
+        const expectedRoots = new Set([...expectedFields.keys()].map(derivedRoot).filter(root => root !== null));
+
+        return new Map([...actualFields].filter(([path]) => {
+            const root = derivedRoot(path);
+            return root === null || expectedRoots.has(root);
+        }));
+    }
+
+    private flatten(value: unknown, path: string = '', fields: Map<string, unknown> = new Map()): Map<string, unknown> {
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => this.flatten(item, `${path}[${index}]`, fields));
+        } else if (value && typeof value === 'object') {
+            for (const [key, item] of Object.entries(value)) {
+                this.flatten(item, path ? `${path}.${key}` : key, fields);
+            }
+        } else if (path) {
+            fields.set(path, value ?? null);
+        }
+
+        return fields;
+    }
+
+    private normalize(value: unknown): string {
+        if (value === null || value === undefined || value === '') {
+            return '';
+        }
+        return String(value).toLowerCase().replace(/\s+/g, ' ').trim();
+    }
+
+    private toNullableString(value: unknown): string | null {
+        const text = value === null || value === undefined ? '' : String(value).trim();
+        return text === '' ? null : text;
+    }
+
+    private ratio(numerator: number, denominator: number): number | null {
+        return denominator === 0 ? null : numerator / denominator;
+    }
+}
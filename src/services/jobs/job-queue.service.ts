@@ -0,0 +1,118 @@
+import { JobRepository } from '@/repositories';
+import {
+    IJob,
+    JobType,
+    JobStatus,
+    JobPayloadMap,
+    JobListFilters,
+    EnqueueJobOptions,
+    BackfillJobPayload
+} from '@/models/job';
+import { jobConfig } from '@/config/job.config';
+import { logger } from '@/utils';
+
+export const JOB_TYPES: JobType[] = ['analyze_group', 'sync_user', 'backfill'];
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+// Обработчики этих типов проверяют отмену по ходу работы; остальные нельзя прервать, и отмена running-задачи
+// только скрыла бы, что она продолжает выполняться
+export const JOB_TYPES_CANCELLABLE_WHILE_RUNNING: JobType[] = ['backfill'];
+
+export class JobQueueService {
+    constructor(private jobRepo: JobRepository) {}
+
+    async enqueue<T extends JobType>(type: T, payload: JobPayloadMap[T], options: EnqueueJobOptions = {}): Promise<IJob> {
+        if (options.dedupeKey) {
+            const activeJob = await this.jobRepo.findActiveJobByDedupeKey(options.dedupeKey);
+            if (activeJob) {
+                return this.mergeIntoActiveJob(activeJob, payload, options.dedupeKey);
+            }
+        }
+
+        return this.jobRepo.createJob({
+            type,
+            payload: { ...payload },
+            maxAttempts: options.maxAttempts || jobConfig.maxAttempts,
+            runAt: options.runAt || new Date(),
+            dedupeKey: options.dedupeKey || null,
+            createdBy: options.createdBy || null
+        });
+    }
+
+    async enqueueAnalyzeGroup(emailGroupId: string, createdBy?: string | null, force: boolean = false): Promise<IJob> {
+        return this.enqueue('analyze_group', { emailGroupId, force }, {
+            dedupeKey: `analyze_group:${emailGroupId}`,
+            createdBy
+        });
+    }
+
+    async enqueueSyncUser(email: string, createdBy?: string | null): Promise<IJob> {
+        return this.enqueue('sync_user', { email }, {
+            dedupeKey: `sync_user:${email.toLowerCase()}`,
+            createdBy
+        });
+    }
+
+    async enqueueBackfill(scope: BackfillJobPayload['scope'] = 'needing', createdBy?: string | null, force: boolean = false): Promise<IJob> {
+        return this.enqueue('backfill', { scope, force }, {
+            dedupeKey: `backfill:${scope}`,
+            createdBy
+        });
+    }
+
+    async getJob(id: number): Promise<IJob> {
+        const job = await this.jobRepo.getJobById(id);
+        if (!job) {
+            throw new Error(`Job ${id} not found`);
+        }
+        return job;
+    }
+
+    async listJobs(filters: JobListFilters = {}): Promise<IJob[]> {
+        if (filters.status && !JOB_STATUSES.includes(filters.status)) {
+            throw new Error(`Invalid job filter: unknown status "${filters.status}"`);
+        }
+        if (filters.type && !JOB_TYPES.includes(filters.type)) {
+            throw new Error(`Invalid job filter: unknown type "${filters.type}"`);
+        }
+
+        const limit = filters.limit && filters.limit > 0 ? Math.min(filters.limit, 500) : 100;
+        return this.jobRepo.getJobs({ ...filters, limit });
+    }
+
+    async cancelJob(id: number): Promise<IJob> {
+        const job = await this.getJob(id);
+        const cancellableStatuses: JobStatus[] = JOB_TYPES_CANCELLABLE_WHILE_RUNNING.includes(job.type) ? ['queued', 'running'] : ['queued'];
+
+        if (!cancellableStatuses.includes(job.status)) {
+            throw new Error(`Job ${id} cannot be cancelled: already ${job.status}`);
+        }
+
+        const cancelledJob = await this.jobRepo.cancelJob(id, cancellableStatuses);
+        if (cancelledJob && cancelledJob.status !== 'cancelled') {
+            throw new Error(`Job ${id} cannot be cancelled: already ${cancelledJob.status}`);
+        }
+        return cancelledJob || job;
+    }
+
+    // Ключ не зависит от force: повторный анализ с force поднимает флаг у ожидающей задачи, а не ставит вторую
+    private async mergeIntoActiveJob(activeJob: IJob, payload: object, dedupeKey: string): Promise<IJob> {
+        const forceRequested = (payload as { force?: boolean }).force === true;
+        if (!forceRequested || activeJob.payload.force === true) {
+            logger.info(`Job ${activeJob.id} (${dedupeKey}) is already ${activeJob.status}, skipping enqueue`);
+            return activeJob;
+        }
+
+        if (activeJob.status === 'queued') {
+            const upgradedJob = await this.jobRepo.updateQueuedJobPayload(activeJob.id, { ...activeJob.payload, force: true });
+            if (upgradedJob) {
+                logger.info(`Job ${activeJob.id} (${dedupeKey}) is already queued, upgraded to force`);
+                return upgradedJob;
+            }
+            // Задачу успели забрать в работу между поиском и обновлением
+        }
+
+        logger.warn(`Job ${activeJob.id} (${dedupeKey}) is already running without force, enqueue again with force after it finishes`);
+        return (await this.jobRepo.getJobById(activeJob.id)) || activeJob;
+    }
+}
@@ -0,0 +1,207 @@
+import { JobRepository } from '@/repositories';
+import { IJob, JobType, AnalyzeGroupJobPayload, SyncUserJobPayload, BackfillJobPayload } from '@/models/job';
+import { JobQueueService, JOB_TYPES } from './job-queue.service';
+import { AiAnalysisService } from '../ai/ai-analysis.service';
+import { EmailAutoSyncService } from '../email/email-auto-sync.service';
+import { jobConfig } from '@/config/job.config';
+import { logger } from '@/utils';
+
+type JobHandler = (job: IJob) => Promise<Record<string, any> | null>;
+
+export class JobWorkerService {
+    private isRunning: boolean = false;
+    private isPolling: boolean = false;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private activeJobs: Map<JobType, number> = new Map();
+    private runningJobIds: Set<number> = new Set();
+    private lastStaleCheckAt: number = 0;
+    private readonly workerId: string;
+    private readonly handlers: Record<JobType, JobHandler>;
+
+    constructor(
+        private jobRepo: JobRepository,
+        private jobQueueService: JobQueueService,
+        private aiAnalysisService: AiAnalysisService,
+        private autoSyncService: EmailAutoSyncService
+    ) {
+        this.workerId = `worker_${process.pid}_${Math.random().toString(36).substring(2, 8)}`;
+        this.handlers = {
+            analyze_group: job => this.handleAnalyzeGroup(job),
+            sync_user: job => this.handleSyncUser(job),
+            backfill: job => this.handleBackfill(job)
+        };
+    }
+
+    public async start(): Promise<void> {
+        if (this.isRunning) {
+            logger.info('Job worker is already running');
+            return;
+        }
+
+        this.isRunning = true;
+
+        await this.recoverStaleJobs();
+
+        logger.info(`Job worker ${this.workerId} started (poll every ${jobConfig.pollInterval}ms)`);
+        this.scheduleNextPoll(0);
+    }
+
+    public stop(): void {
+        this.isRunning = false;
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
+        }
+        logger.info(`Job worker ${this.workerId} stopped`);
+    }
+
+    public isWorkerRunning(): boolean {
+        return this.isRunning;
+    }
+
+    public getActiveJobCounts(): Record<JobType, number> {
+        return {
+            analyze_group: this.getActiveCount('analyze_group'),
+            sync_user: this.getActiveCount('sync_user'),
+            backfill: this.getActiveCount('backfill')
+        };
+    }
+
+    public getRetryDelay(attempts: number): number {
+        const delay = jobConfig.backoffBaseMs * Math.pow(2, Math.max(attempts - 1, 0));
+        return Math.min(delay, jobConfig.backoffMaxMs);
+    }
+
+    private scheduleNextPoll(delay: number = jobConfig.pollInterval): void {
+        if (!this.isRunning) return;
+
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+        }
+
+        this.pollTimer = setTimeout(() => {
+            this.poll().finally(() => this.scheduleNextPoll());
+        }, delay);
+    }
+
+    private async poll(): Promise<void> {
+        if (this.isPolling) return;
+        this.isPolling = true;
+
+        try {
+            if (Date.now() - this.lastStaleCheckAt >= jobConfig.staleCheckIntervalMs) {
+                await this.recoverStaleJobs();
+            }
+
+            for (const type of JOB_TYPES) {
+                while (this.isRunning && this.getActiveCount(type) < jobConfig.concurrency[type]) {
+                    const job = await this.jobRepo.claimNextJob(type, this.workerId);
+                    if (!job) break;
+
+                    this.activeJobs.set(type, this.getActiveCount(type) + 1);
+                    this.runningJobIds.add(job.id);
+                    this.runJob(job).finally(() => {
+                        this.activeJobs.set(type, this.getActiveCount(type) - 1);
+                        this.runningJobIds.delete(job.id);
+                    });
+                }
+            }
+        } catch (error) {
+            logger.error('Error polling job queue:', error);
+        } finally {
+            this.isPolling = false;
+        }
+    }
+
+    // Сначала продлеваем блокировку своих задач, затем возвращаем в очередь задачи упавших процессов.
+    // Проверка повторяется во время работы, а не только при старте: другой процесс мог упасть когда угодно
+    private async recoverStaleJobs(): Promise<void> {
+        this.lastStaleCheckAt = Date.now();
+
+        try {
+            await this.jobRepo.touchJobs([...this.runningJobIds], this.workerId);
+            await this.jobRepo.requeueStaleJobs(new Date(Date.now() - jobConfig.staleAfterMs));
+        } catch (error) {
+            logger.error('Error recovering stale jobs:', error);
+        }
+    }
+
+    private async runJob(job: IJob): Promise<void> {
+        logger.info(`Job ${job.id} (${job.type}) started, attempt ${job.attempts}/${job.maxAttempts}`);
+
+        try {
+            const result = await this.handlers[job.type](job);
+            const completed = await this.jobRepo.completeJob(job.id, result);
+
+            if (completed) {
+                logger.info(`Job ${job.id} (${job.type}) completed`);
+            } else {
+                logger.info(`Job ${job.id} (${job.type}) finished after being cancelled, result discarded`);
+            }
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+
+            try {
+                if (job.attempts < job.maxAttempts) {
+                    const delay = this.getRetryDelay(job.attempts);
+                    await this.jobRepo.retryJob(job.id, errorMessage, new Date(Date.now() + delay));
+                    logger.warn(`Job ${job.id} (${job.type}) failed, retrying in ${Math.round(delay / 1000)}s: ${errorMessage}`);
+                } else {
+                    await this.jobRepo.failJob(job.id, errorMessage);
+                    logger.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts: ${errorMessage}`);
+                }
+            } catch (updateError) {
+                logger.error(`Failed to record failure of job ${job.id}:`, updateError);
+            }
+        }
+    }
+
+    private async handleAnalyzeGroup(job: IJob): Promise<Record<string, any>> {
+        const { emailGroupId, force } = job.payload as AnalyzeGroupJobPayload;
+        if (!emailGroupId) {
+            throw new Error('analyze_group job requires emailGroupId');
+        }
+
+        const result = await this.aiAnalysisService.processSingleEmailGroup(emailGroupId, { force: force === true });
+
+        return {
+            emailGroupId: result.emailGroupId,
+            summaryId: result.summaryId
+        };
+    }
+
+    private async handleSyncUser(job: IJob): Promise<Record<string, any>> {
+        const { email } = job.payload as SyncUserJobPayload;
+        if (!email) {
+            throw new Error('sync_user job requires email');
+        }
+
+        const result = await this.autoSyncService.syncUser(email);
+        return { email, ...result };
+    }
+
+    // Backfill не анализирует группы сам, а раскладывает их на отдельные analyze_group задачи,
+    // чтобы каждая повторялась и отменялась независимо
+    private async handleBackfill(job: IJob): Promise<Record<string, any>> {
+        const { scope, force } = job.payload as BackfillJobPayload;
+        const { emailGroupIds, total } = await this.aiAnalysisService.getEmailGroupIdsForBackfill(scope || 'needing');
+        const jobIds: number[] = [];
+
+        for (const emailGroupId of emailGroupIds) {
+            if (await this.jobRepo.isJobCancelled(job.id)) {
+                logger.info(`Backfill job ${job.id} cancelled after enqueuing ${jobIds.length} groups`);
+                break;
+            }
+
+            const analyzeJob = await this.jobQueueService.enqueueAnalyzeGroup(emailGroupId, job.createdBy, force === true);
+            jobIds.push(analyzeJob.id);
+        }
+
+        return { scope: scope || 'needing', total, enqueued: jobIds.length, jobIds };
+    }
+
+    private getActiveCount(type: JobType): number {
+        return this.activeJobs.get(type) || 0;
+    }
+}
@@ -1,11 +1,13 @@
 import { Response } from 'express';
 import { IEmailGroup } from '@/models/email-group';
-import { ShipmentRequest } from '@/models/summary';
+import { ShipmentRequest, SummaryAmendmentEvent } from '@/models/summary';
 import { logger } from '@/utils';
+import { CargoMeasurementService } from '../ai/cargo-measurement.service';
 
 export class SSEService {
     private static instance: SSEService | null = null;
     private clients: Set<Response> = new Set();
+    private measurementService = new CargoMeasurementService();
 
     private constructor() {}
 
@@ -48,6 +50,8 @@ export class SSEService {
 
             const payload = JSON.stringify({
                 emailGroupId: emailGroup.emailGroupId,
+                order_status: emailGroup.orderStatus || null,
+                cargo_totals: this.measurementService.summarize(shipmentData),
                 shipment_data: shipmentData
             });
 
@@ -72,4 +76,33 @@ export class SSEService {
             logger.error('Error in SSE sendApprovedSummary:', error);
         }
     }
+
+    public sendSummaryAmendment(event: SummaryAmendmentEvent): void {
+        if (this.clients.size === 0) {
+            return;
+        }
+
+        try {
+            const payload = JSON.stringify(event);
+            const deadClients: Response[] = [];
+
+            this.clients.forEach(res => {
+                try {
+                    res.write(`event: ${event.type}\n`);
+                    res.write(`data: ${payload}\n\n`);
+                } catch (error) {
+                    logger.warn('Error sending SSE to client, marking as disconnected:', error);
+                    deadClients.push(res);
+                }
+            });
+
+            deadClients.forEach(res => this.removeClient(res));
+
+            logger.info(
+                `SSE: sent ${event.type} event for ${event.emailGroupId} to ${this.clients.size} clients`
+            );
+        } catch (error) {
+            logger.error('Error in SSE sendSummaryAmendment:', error);
+        }
+    }
 }
\ No newline at end of file
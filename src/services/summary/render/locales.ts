@@ -0,0 +1,206 @@
+import { PackageType, OrderLifecycleStatus, SummaryLocale } from '@/models/summary';
+
+export type SummaryRenderTemplate = {
+    // Локаль Intl для дат и названий стран
+    intlLocale: string;
+    // Язык, на котором названия городов берутся из справочника; null - город выводится как в письме
+    gazetteerCityLocale: SummaryLocale | null;
+    title: string;
+    notSpecified: string;
+    labels: {
+        name: string;
+        route: string;
+        from: string;
+        dest: string;
+        shippingDate: string;
+        arrivalDate: string;
+        cargo: string;
+        cargoTotals: string;
+        modes: string;
+        orderStatus: string;
+        forCarriers: string;
+    };
+    cargo: {
+        grossWeight: (kg: number) => string;
+        volume: (m3: number) => string;
+        loadingMeters: (ldm: number) => string;
+        pallets: (count: number) => string;
+        packageType: (type: string) => string;
+        dimensions: (length: number, width: number, height: number) => string;
+    };
+    packageTypes: Record<PackageType, string>;
+    orderStatuses: Record<OrderLifecycleStatus, string>;
+    // Коды видов перевозки из словаря по умолчанию; для остальных кодов выводится исходное название
+    modes: Record<string, string>;
+};
+
+export const SUMMARY_RENDER_TEMPLATES: Record<SummaryLocale, SummaryRenderTemplate> = {
+    ru: {
+        intlLocale: 'ru-RU',
+        gazetteerCityLocale: null,
+        title: 'СТРУКТУРИРОВАННАЯ ИНФОРМАЦИЯ О ГРУЗЕ',
+        notSpecified: 'Не указано',
+        labels: {
+            name: 'Название',
+            route: 'Маршрут',
+            from: 'Отправление',
+            dest: 'Назначение',
+            shippingDate: 'Дата отправки',
+            arrivalDate: 'Дата прибытия',
+            cargo: 'Груз',
+            cargoTotals: 'Итого по грузу',
+            modes: 'Тип перевозки',
+            orderStatus: 'Статус заказа',
+            forCarriers: 'Информация для перевозчиков'
+        },
+        cargo: {
+            grossWeight: kg => `вес брутто ${kg} кг`,
+            volume: m3 => `объем ${m3} м³`,
+            loadingMeters: ldm => `${ldm} LDM`,
+            pallets: count => `паллет: ${count}`,
+            packageType: type => `упаковка: ${type}`,
+            dimensions: (length, width, height) => `габариты ${length}x${width}x${height} см`
+        },
+        packageTypes: {
+            euro_pallet: 'европаллета',
+            pallet: 'паллета',
+            box: 'коробка',
+            crate: 'ящик',
+            bag: 'мешок',
+            drum: 'бочка',
+            roll: 'рулон',
+            ibc: 'еврокуб',
+            bulk: 'навалом',
+            container: 'контейнер',
+            other: 'другое'
+        },
+        orderStatuses: {
+            requested: 'запрос',
+            confirmed: 'подтвержден',
+            modified: 'изменен',
+            cancelled: 'отменен',
+            in_transit: 'в пути',
+            delivered: 'доставлен'
+        },
+        modes: {
+            road_ftl: 'Автоперевозка (полная загрузка)',
+            road_ltl: 'Автоперевозка (сборный груз)',
+            sea: 'Морская перевозка',
+            air: 'Авиаперевозка',
+            rail: 'Железнодорожная перевозка',
+            multimodal: 'Мультимодальная перевозка'
+        }
+    },
+    en: {
+        intlLocale: 'en-GB',
+        gazetteerCityLocale: 'en',
+        title: 'SHIPMENT DETAILS',
+        notSpecified: 'Not specified',
+        labels: {
+            name: 'Reference',
+            route: 'Route',
+            from: 'Origin',
+            dest: 'Destination',
+            shippingDate: 'Shipping date',
+            arrivalDate: 'Arrival date',
+            cargo: 'Cargo',
+            cargoTotals: 'Cargo totals',
+            modes: 'Transport mode',
+            orderStatus: 'Order status',
+            forCarriers: 'Notes for carriers'
+        },
+        cargo: {
+            grossWeight: kg => `gross weight ${kg} kg`,
+            volume: m3 => `volume ${m3} m³`,
+            loadingMeters: ldm => `${ldm} LDM`,
+            pallets: count => `pallets: ${count}`,
+            packageType: type => `packaging: ${type}`,
+            dimensions: (length, width, height) => `dimensions ${length}x${width}x${height} cm`
+        },
+        packageTypes: {
+            euro_pallet: 'euro pallet',
+            pallet: 'pallet',
+            box: 'box',
+            crate: 'crate',
+            bag: 'bag',
+            drum: 'drum',
+            roll: 'roll',
+            ibc: 'IBC',
+            bulk: 'bulk',
+            container: 'container',
+            other: 'other'
+        },
+        orderStatuses: {
+            requested: 'requested',
+            confirmed: 'confirmed',
+            modified: 'modified',
+            cancelled: 'cancelled',
+            in_transit: 'in transit',
+            delivered: 'delivered'
+        },
+        modes: {
+            road_ftl: 'Road freight (FTL)',
+            road_ltl: 'Road freight (LTL, groupage)',
+            sea: 'Sea freight',
+            air: 'Air freight',
+            rail: 'Rail freight',
+            multimodal: 'Multimodal transport'
+        }
+    },
+    pl: {
+        intlLocale: 'pl-PL',
+        gazetteerCityLocale: 'pl',
+        title: 'INFORMACJE O ŁADUNKU',
+        notSpecified: 'Nie podano',
+        labels: {
+            name: 'Nazwa',
+            route: 'Trasa',
+            from: 'Załadunek',
+            dest: 'Rozładunek',
+            shippingDate: 'Data wysyłki',
+            arrivalDate: 'Data dostawy',
+            cargo: 'Ładunek',
+            cargoTotals: 'Łącznie',
+            modes: 'Rodzaj transportu',
+            orderStatus: 'Status zlecenia',
+            forCarriers: 'Informacje dla przewoźników'
+        },
+        cargo: {
+            grossWeight: kg => `waga brutto ${kg} kg`,
+            volume: m3 => `objętość ${m3} m³`,
+            loadingMeters: ldm => `${ldm} LDM`,
+            pallets: count => `palety: ${count}`,
+            packageType: type => `opakowanie: ${type}`,
+            dimensions: (length, width, height) => `wymiary ${length}x${width}x${height} cm`
+        },
+        packageTypes: {
+            euro_pallet: 'europaleta',
+            pallet: 'paleta',
+            box: 'karton',
+            crate: 'skrzynia',
+            bag: 'worek',
+            drum: 'beczka',
+            roll: 'rolka',
+            ibc: 'IBC',
+            bulk: 'luzem',
+            container: 'kontener',
+            other: 'inne'
+        },
+        orderStatuses: {
+            requested: 'zapytanie',
+            confirmed: 'potwierdzone',
+            modified: 'zmienione',
+            cancelled: 'anulowane',
+            in_transit: 'w drodze',
+            delivered: 'dostarczone'
+        },
+        modes: {
+            road_ftl: 'Transport drogowy (całopojazdowy)',
+            road_ltl: 'Transport drogowy (drobnica)',
+            sea: 'Transport morski',
+            air: 'Transport lotniczy',
+            rail: 'Transport kolejowy',
+            multimodal: 'Transport multimodalny'
+        }
+    }
+};
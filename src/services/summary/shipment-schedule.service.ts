@@ -0,0 +1,212 @@
+import {
+    ShipmentRequest,
+    ShipmentDateTime,
+    ShipmentSchedule,
+    ShipmentWarning
+} from '@/models/summary';
+import { ShipmentValidationService } from '../ai/shipment-validation.service';
+import { GazetteerService } from '../address/gazetteer.service';
+import { aiConfig } from '@/config/ai.config';
+
+type ShipmentDetail = ShipmentRequest['shipment_details'][number];
+
+// Момент времени в UTC известен только при наличии и времени, и пояса
+type SchedulePoint = ShipmentDateTime & { instant: number | null };
+
+type SchedulePoints = Record<Exclude<keyof ShipmentSchedule, 'origin_timezone' | 'destination_timezone'>, SchedulePoint | null>;
+
+export type ShipmentScheduleResult = {
+    data: ShipmentRequest;
+    warnings: ShipmentWarning[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ShipmentScheduleService {
+    private validationService = new ShipmentValidationService();
+    private gazetteerService = new GazetteerService();
+
+    // referenceDate - дата последнего письма; относительно нее проверяется горизонт дат
+    normalize(data: ShipmentRequest, referenceDate: Date = new Date()): ShipmentScheduleResult {
+        const warnings: ShipmentWarning[] = [];
+
+        const shipmentDetails = (data.shipment_details || []).map((detail, index) => {
+            const path = `shipment_details[${index}]`;
+            const originTimezone = (detail.address_from?.normalized ?? this.gazetteerService.normalizeAddress(detail.address_from)).timezone;
+            const destinationTimezone = (detail.address_dest?.normalized ?? this.gazetteerService.normalizeAddress(detail.address_dest)).timezone;
+
+            const points: SchedulePoints = {
+                shipping_from: this.toPoint(detail.shipping_date_from, detail.shipping_time_from, originTimezone),
+                shipping_to: this.toPoint(detail.shipping_date_to, detail.shipping_time_to, originTimezone),
+                arrival_from: this.toPoint(detail.arrival_date_from, detail.arrival_time_from, destinationTimezone),
+                arrival_to: this.toPoint(detail.arrival_date_to, detail.arrival_time_to, destinationTimezone),
+                loading_from: this.toPoint(detail.address_from?.date_from, detail.address_from?.time_from, originTimezone),
+                loading_to: this.toPoint(detail.address_from?.date_to, detail.address_from?.time_to, originTimezone),
+                unloading_from: this.toPoint(detail.address_dest?.date_from, detail.address_dest?.time_from, destinationTimezone),
+                unloading_to: this.toPoint(detail.address_dest?.date_to, detail.address_dest?.time_to, destinationTimezone)
+            };
+
+            warnings.push(...this.checkConsistency(points, path, referenceDate));
+
+            const schedule: ShipmentSchedule = {
+                origin_timezone: originTimezone,
+                destination_timezone: destinationTimezone,
+                ...Object.fromEntries(
+                    Object.entries(points).map(([key, point]) => [key, point ? this.stripInstant(point) : null])
+                ) as Omit<ShipmentSchedule, 'origin_timezone' | 'destination_timezone'>
+            };
+
+            return { ...detail, schedule } as ShipmentDetail;
+        });
+
+        return { data: { ...data, shipment_details: shipmentDetails }, warnings };
+    }
+
+    private checkConsistency(points: SchedulePoints, path: string, referenceDate: Date): ShipmentWarning[] {
+        const warnings: ShipmentWarning[] = [];
+
+        const ranges: Array<[keyof SchedulePoints, keyof SchedulePoints, string]> = [
+            ['shipping_from', 'shipping_to', 'shipping_date_to'],
+            ['arrival_from', 'arrival_to', 'arrival_date_to'],
+            ['loading_from', 'loading_to', 'address_from.date_to'],
+            ['unloading_from', 'unloading_to', 'address_dest.date_to']
+        ];
+
+        for (const [fromKey, toKey, field] of ranges) {
+            const from = points[fromKey];
+            const to = points[toKey];
+            if (from && to && this.compare(to, from) < 0) {
+                warnings.push({
+                    code: 'range_inverted',
+                    path: `${path}.${field}`,
+                    message: `End of window (${to.iso}) is before its start (${from.iso})`,
+                    value: { from: from.iso, to: to.iso }
+                });
+            }
+        }
+
+        const departure = points.shipping_from ?? points.loading_from ?? points.shipping_to ?? points.loading_to;
+        // Сравниваются начала окон: конец окна прибытия позже отправки почти всегда и ошибку не покажет
+        const arrival = points.arrival_from ?? points.unloading_from ?? points.arrival_to ?? points.unloading_to;
+        if (departure && arrival && this.compare(arrival, departure) < 0) {
+            warnings.push({
+                code: 'arrival_before_shipping',
+                path: `${path}.arrival_date_from`,
+                message: `Arrival (${arrival.iso}) is before shipping (${departure.iso})`,
+                value: { shipping: departure.iso, arrival: arrival.iso }
+            });
+        }
+
+        const referenceDay = Date.UTC(referenceDate.getUTCFullYear(), referenceDate.getUTCMonth(), referenceDate.getUTCDate());
+        const { maxPastDays, maxFutureDays } = aiConfig.dateChecks;
+
+        for (const [key, point] of Object.entries(points)) {
+            if (!point) {
+                continue;
+            }
+
+            const daysFromReference = Math.round((Date.parse(`${point.date}T00:00:00Z`) - referenceDay) / DAY_MS);
+            if (daysFromReference < -maxPastDays) {
+                warnings.push({
+                    code: 'date_in_past',
+                    path: `${path}.schedule.${key}`,
+                    message: `Date ${point.date} is ${-daysFromReference} days before the latest email`,
+                    value: point.date
+                });
+            } else if (daysFromReference > maxFutureDays) {
+                warnings.push({
+                    code: 'date_too_far',
+                    path: `${path}.schedule.${key}`,
+                    message: `Date ${point.date} is more than ${maxFutureDays} days after the latest email`,
+                    value: point.date
+                });
+            }
+        }
+
+        return warnings;
+    }
+
+    private toPoint(dateValue: string | null | undefined, timeValue: string | null | undefined, timezone: string | null): SchedulePoint | null {
+        const normalizedDate = dateValue ? this.validationService.normalizeDate(dateValue) : null;
+        if (!normalizedDate) {
+            return null;
+        }
+
+        const [day, month, year] = normalizedDate.split('-');
+        const date = `${year}-${month}-${day}`;
+        const time = timeValue ? this.validationService.normalizeTime(timeValue) : null;
+
+        if (!time) {
+            return { date, time: null, timezone, iso: date, instant: null };
+        }
+
+        const offset = timezone ? this.getLocalOffset(date, time, timezone) : null;
+        if (offset === null) {
+            return { date, time, timezone, iso: `${date}T${time}:00`, instant: null };
+        }
+
+        return {
+            date,
+            time,
+            timezone,
+            iso: `${date}T${time}:00${this.formatOffset(offset)}`,
+            instant: Date.parse(`${date}T${time}:00Z`) - offset * 60000
+        };
+    }
+
+    // Смещение пояса в минутах для местного времени; учитывает переход на летнее время
+    private getLocalOffset(date: string, time: string, timezone: string): number | null {
+        const localAsUtc = Date.parse(`${date}T${time}:00Z`);
+
+        try {
+            const firstGuess = this.getOffsetAt(timezone, localAsUtc);
+            const secondGuess = this.getOffsetAt(timezone, localAsUtc - firstGuess * 60000);
+            return secondGuess;
+        } catch {
+            return null;
+        }
+    }
+
+    private getOffsetAt(timezone: string, instant: number): number {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit'
+        }).formatToParts(new Date(instant));
+
+        const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+        const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+        return Math.round((wallClock - instant) / 60000);
+    }
+
+    private formatOffset(offset: number): string {
+        const sign = offset < 0 ? '-' : '+';
+        const absolute = Math.abs(offset);
+        return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+    }
+
+    // Без пояса у одной из точек сравниваются только даты, время - лишь в одном поясе
+    private compare(a: SchedulePoint, b: SchedulePoint): number {
+        if (a.instant !== null && b.instant !== null) {
+            return a.instant - b.instant;
+        }
+
+        const byDate = a.date.localeCompare(b.date);
+        if (byDate !== 0) {
+            return byDate;
+        }
+
+        return a.time && b.time && a.timezone === b.timezone ? a.time.localeCompare(b.time) : 0;
+    }
+
+    private stripInstant(point: SchedulePoint): ShipmentDateTime {
+        const { instant: _instant, ...dateTime } = point;
+        return dateTime;
+    }
+}
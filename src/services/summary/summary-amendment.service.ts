@@ -0,0 +1,157 @@
+import { IEmail } from '@/models/email';
+import { ISummary, ISummaryEdit, ShipmentRequest, ShipmentFieldChange, SummaryAmendment, ShipmentWarning } from '@/models/summary';
+import { CANCELLATION_PATTERN, OrderLifecycleService } from '../email-group/order-lifecycle.service';
+import { logger } from '@/utils';
+
+export const DERIVED_FIELDS = new Set(['schedule', 'normalized', 'code', 'category']);
+
+export class SummaryAmendmentService {
+    buildAmendment(approvedSummary: ISummary, currentData: ShipmentRequest, newEmails: IEmail[], threadSubject: string = ''): SummaryAmendment | null {
+        const changes = this.diff(approvedSummary.shipment_data, currentData);
+        const cancelled = this.isCancellation(newEmails, threadSubject);
+
+        if (changes.length === 0 && !cancelled) {
+            logger.info(`No changes detected against approved summary ${approvedSummary.summaryId}`);
+            return null;
+        }
+
+        logger.info(`Amendment detected for ${approvedSummary.summaryId}: ${cancelled ? 'cancelled' : 'amended'}, ${changes.length} changed fields`);
+
+        return {
+            type: cancelled ? 'cancelled' : 'amended',
+            changes,
+            source_email_ids: newEmails.map(email => email.id)
+        };
+    }
+
+    // exact - для ручных правок, где значима и смена регистра; письма сравниваются без учета регистра и пробелов
+    diff(previous: ShipmentRequest, current: ShipmentRequest, exact: boolean = false): ShipmentFieldChange[] {
+        const previousFields = this.flatten(previous);
+        const currentFields = this.flatten(current);
+        const paths = new Set([...previousFields.keys(), ...currentFields.keys()]);
+        const changes: ShipmentFieldChange[] = [];
+
+        for (const path of paths) {
+            const previousValue = previousFields.has(path) ? previousFields.get(path) : null;
+            const currentValue = currentFields.has(path) ? currentFields.get(path) : null;
+
+            const changed = exact
+                ? JSON.stringify(previousValue) !== JSON.stringify(currentValue)
+                : this.normalize(previousValue) !== this.normalize(currentValue);
+            if (changed) {
+                changes.push({ path, previous: previousValue, current: currentValue });
+            }
+        }
+
+        return changes;
+    }
+
+    // Правки оператора поверх повторного извлечения той же сводки. Если новые письма изменили исправленное поле
+    // иначе, правка остается, а расхождение попадает в предупреждения
+    reapplyEdits(data: ShipmentRequest, edits: ISummaryEdit[]): { data: ShipmentRequest; conflicts: ShipmentWarning[] } {
+        const extractedFields = this.flatten(data);
+        const originalValues = new Map<string, unknown>();
+        const latestEdits = new Map<string, ISummaryEdit>();
+
+        const chronological = [...edits].sort((a, b) =>
+            new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime() || a.id - b.id
+        );
+        for (const edit of chronological) {
+            if (!originalValues.has(edit.path)) {
+                originalValues.set(edit.path, edit.oldValue);
+            }
+            latestEdits.set(edit.path, edit);
+        }
+
+        const result = JSON.parse(JSON.stringify(data)) as ShipmentRequest;
+        const conflicts: ShipmentWarning[] = [];
+
+        for (const [path, edit] of latestEdits) {
+            const extracted = extractedFields.get(path) ?? null;
+            const extractedText = this.normalize(extracted);
+            if (extractedText !== this.normalize(originalValues.get(path)) && extractedText !== this.normalize(edit.newValue)) {
+                conflicts.push({
+                    code: 'edit_conflict',
+                    path,
+                    message: `Field was corrected by ${edit.userEmail || 'a reviewer'}, but new emails suggest another value`,
+                    value: extracted
+                });
+            }
+            this.setPath(result, path, edit.newValue);
+        }
+
+        return { data: this.removeClearedItems(result, '', new Set(latestEdits.keys())) as ShipmentRequest, conflicts };
+    }
+
+    // Ответ на письмо об отмене чужого заказа цитирует слово "отмена", а "Re: Отмена ..." лишь повторяет тему
+    // переписки - учитываются только новый текст и измененная тема
+    isCancellation(emails: IEmail[], threadSubject: string = ''): boolean {
+        return emails.some(email => CANCELLATION_PATTERN.test(
+            `${OrderLifecycleService.ownSubject(email, threadSubject)}\n${OrderLifecycleService.stripQuotedText(email.text || '')}`
+        ));
+    }
+
+    private flatten(value: unknown, path: string = '', fields: Map<string, unknown> = new Map()): Map<string, unknown> {
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => this.flatten(item, `${path}[${index}]`, fields));
+        } else if (value && typeof value === 'object') {
+            for (const [key, item] of Object.entries(value)) {
+                // schedule, normalized и коды словаря производны от исходных полей и дублировали бы их изменения
+                if (DERIVED_FIELDS.has(key)) {
+                    continue;
+                }
+                this.flatten(item, path ? `${path}.${key}` : key, fields);
+            }
+        } else if (path) {
+            fields.set(path, value ?? null);
+        }
+
+        return fields;
+    }
+
+    private setPath(target: unknown, path: string, value: unknown): void {
+        const segments = [...path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)].map(match => match[2] !== undefined ? Number(match[2]) : match[1]);
+        let container = target as Record<string | number, unknown>;
+
+        for (let index = 0; index < segments.length - 1; index++) {
+            const segment = segments[index];
+            if (!container[segment] || typeof container[segment] !== 'object') {
+                // Очищать поле в элементе, которого уже нет, не нужно
+                if (value === null) {
+                    return;
+                }
+                container[segment] = typeof segments[index + 1] === 'number' ? [] : {};
+            }
+            container = container[segment] as Record<string | number, unknown>;
+        }
+
+        container[segments[segments.length - 1]] = value;
+    }
+
+    // Удаленный при правке элемент массива записан как набор полей со значением null
+    private removeClearedItems(value: unknown, path: string, editedPaths: Set<string>): unknown {
+        if (Array.isArray(value)) {
+            return value
+                .map((item, index) => this.removeClearedItems(item, `${path}[${index}]`, editedPaths))
+                .filter((item, index) => {
+                    const itemPath = `${path}[${index}]`;
+                    const fields = [...this.flatten(item, itemPath).entries()];
+                    const cleared = fields.every(([, field]) => field === null) && fields.some(([fieldPath]) => editedPaths.has(fieldPath));
+                    return !cleared;
+                });
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, this.removeClearedItems(item, path ? `${path}.${key}` : key, editedPaths)])
+            );
+        }
+        return value;
+    }
+
+    private normalize(value: unknown): string {
+        if (value === null || value === undefined || value === '') {
+            return '';
+        }
+        return String(value).toLowerCase().replace(/\s+/g, ' ').trim();
+    }
+}
@@ -0,0 +1,140 @@
+import { SummaryEditRepository, EmailGroupRepository } from '@/repositories';
+import { ISummary, ISummaryEdit, ShipmentRequest, ShipmentProvenance } from '@/models/summary';
+import { SummaryService } from './summary.service';
+import { SummaryAmendmentService, DERIVED_FIELDS } from './summary-amendment.service';
+import { AiAnalysisService } from '../ai/ai-analysis.service';
+import { ShipmentExtractionService } from '../ai/shipment-extraction.service';
+import { ShipmentValidationService } from '../ai/shipment-validation.service';
+import { logger } from '@/utils';
+
+export type SummaryEditResult = {
+    summary: ISummary;
+    edits: ISummaryEdit[];
+};
+
+export class SummaryEditService {
+    private validationService: ShipmentValidationService;
+    private amendmentService: SummaryAmendmentService;
+
+    constructor(
+        private summaryService: SummaryService,
+        private summaryEditRepo: SummaryEditRepository,
+        private emailGroupRepo: EmailGroupRepository,
+        private aiAnalysisService: AiAnalysisService,
+        private extractionService: ShipmentExtractionService
+    ) {
+        this.validationService = new ShipmentValidationService();
+        this.amendmentService = new SummaryAmendmentService();
+    }
+
+    // Частичное обновление shipment_data ожидающей сводки: объекты сливаются по ключам, массивы - по индексу
+    async editPendingSummary(emailGroupId: string, patch: unknown, userEmail: string | null): Promise<SummaryEditResult> {
+        if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+            throw new Error('Invalid summary edit: body must be a partial shipment_data object');
+        }
+
+        const pendingSummary = await this.summaryService.getPendingSummaryByEmailGroupId(emailGroupId);
+        if (!pendingSummary) {
+            throw new Error(`Pending summary for email group ${emailGroupId} not found`);
+        }
+
+        const merged = this.applyPatch(pendingSummary.shipment_data, patch, '');
+        // Оператор вводит значение сам, поэтому неразборчивая величина отклоняется, а не отбрасывается молча
+        const validation = this.validationService.validate(merged);
+        const problems = [...validation.errors, ...validation.warnings];
+        if (problems.length > 0) {
+            const details = problems.map(problem => `${problem.path || 'shipment_data'}: ${problem.message}`).join('; ');
+            throw new Error(`Invalid summary edit: ${details}`);
+        }
+
+        const emailGroup = await this.emailGroupRepo.getEmailGroupByEmailGroupId(emailGroupId);
+        const normalized = await this.aiAnalysisService.normalizeShipmentData(validation.data, emailGroupId, emailGroup?.emails || []);
+
+        const changes = this.amendmentService.diff(pendingSummary.shipment_data, normalized.data, true);
+        if (changes.length === 0) {
+            logger.info(`Summary ${pendingSummary.summaryId} edit has no changes`);
+            return { summary: pendingSummary, edits: [] };
+        }
+
+        // Исправленные поля больше не подтверждаются исходным фрагментом письма
+        const provenance: ShipmentProvenance | null = pendingSummary.provenance
+            ? Object.fromEntries(
+                Object.entries(pendingSummary.provenance).filter(([path]) => !changes.some(change => change.path === path))
+            )
+            : null;
+
+        const amendment = await this.refreshAmendment(pendingSummary, normalized.data);
+
+        const edits = await this.summaryEditRepo.saveEditedSummary(
+            pendingSummary.summaryId,
+            {
+                shipmentData: normalized.data,
+                summaryText: this.extractionService.formatStructuredDataToText(normalized.data),
+                details: {
+                    provenance,
+                    amendment,
+                    warnings: normalized.warnings.length > 0 ? normalized.warnings : null
+                }
+            },
+            changes.map(change => ({
+                summaryId: pendingSummary.summaryId,
+                emailGroupId,
+                path: change.path,
+                oldValue: change.previous,
+                newValue: change.current,
+                userEmail
+            }))
+        );
+
+        logger.info(`Summary ${pendingSummary.summaryId} edited by ${userEmail || 'unknown user'}: ${edits.length} changed fields`);
+
+        const updatedSummary = await this.summaryService.getSummaryById(pendingSummary.summaryId);
+        return { summary: updatedSummary!, edits };
+    }
+
+    async getEditHistory(emailGroupId: string): Promise<ISummaryEdit[]> {
+        return this.summaryEditRepo.getEditsByEmailGroupId(emailGroupId);
+    }
+
+    // Изменения относительно утвержденной сводки пересчитываются, чтобы amendment отражал правку
+    private async refreshAmendment(pendingSummary: ISummary, data: ShipmentRequest): Promise<ISummary['amendment']> {
+        if (!pendingSummary.amendment || !pendingSummary.amends_summary_id) {
+            return pendingSummary.amendment ?? null;
+        }
+
+        const approvedSummary = await this.summaryService.getSummaryById(pendingSummary.amends_summary_id);
+        if (!approvedSummary) {
+            return pendingSummary.amendment;
+        }
+
+        return { ...pendingSummary.amendment, changes: this.amendmentService.diff(approvedSummary.shipment_data, data) };
+    }
+
+    // null в массиве удаляет элемент; {} оставляет элемент без изменений
+    private applyPatch(target: unknown, patch: unknown, path: string): unknown {
+        if (Array.isArray(patch)) {
+            const items: unknown[] = Array.isArray(target) ? [...target] : [];
+            patch.forEach((item, index) => {
+                items[index] = item === null ? undefined : this.applyPatch(items[index], item, `${path}[${index}]`);
+            });
+            return items.filter(item => item !== undefined);
+        }
+
+        if (patch && typeof patch === 'object') {
+            const result: Record<string, unknown> = target && typeof target === 'object' && !Array.isArray(target)
+                ? { ...(target as Record<string, unknown>) }
+                : {};
+
+            for (const [key, value] of Object.entries(patch)) {
+                const fieldPath = path ? `${path}.${key}` : key;
+                if (DERIVED_FIELDS.has(key)) {
+                    throw new Error(`Invalid summary edit: ${fieldPath} is calculated automatically and cannot be edited`);
+                }
+                result[key] = this.applyPatch(result[key], value, fieldPath);
+            }
+            return result;
+        }
+
+        return patch;
+    }
+}
@@ -0,0 +1,277 @@
+import {
+    ShipmentRequest,
+    ShipmentAddress,
+    ShipmentContent,
+    SummaryLocale,
+    SummaryRenderFormat,
+    SUMMARY_LOCALES,
+    SUMMARY_RENDER_FORMATS
+} from '@/models/summary';
+import { SUMMARY_RENDER_TEMPLATES, SummaryRenderTemplate } from './render/locales';
+import { GazetteerService } from '../address/gazetteer.service';
+import { CargoMeasurementService } from '../ai/cargo-measurement.service';
+import { ShipmentValidationService } from '../ai/shipment-validation.service';
+
+type ShipmentDetail = ShipmentRequest['shipment_details'][number];
+
+type RenderField = { label: string; value: string };
+
+// Блок сводки; в тексте блоки разделяются пустой строкой
+type RenderBlock = { heading: string | null; fields: RenderField[] };
+
+export type SummaryRenderOptions = {
+    locale: SummaryLocale;
+    format: SummaryRenderFormat;
+};
+
+// Заглушки, которые модель иногда возвращает вместо пустого поля
+const CARRIER_PLACEHOLDERS = ['информация для перевозчиков', 'information for carriers'];
+
+const MARKDOWN_SPECIAL = /[\\`*_[\]<>|#]/g;
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// Представление сводки для диспетчеров и перевозчиков; в базе хранится только русский текстовый вариант
+export class SummaryRenderService {
+    private gazetteerService = new GazetteerService();
+    private measurementService = new CargoMeasurementService();
+    private validationService = new ShipmentValidationService();
+    private countryNames = new Map<string, Intl.DisplayNames>();
+
+    resolveOptions(locale: unknown, format: unknown): SummaryRenderOptions {
+        const resolvedLocale = locale === undefined ? 'ru' : String(locale).toLowerCase();
+        const resolvedFormat = format === undefined ? 'text' : String(format).toLowerCase();
+
+        if (!(SUMMARY_LOCALES as readonly string[]).includes(resolvedLocale)) {
+            throw new Error(`Invalid render option: locale must be one of ${SUMMARY_LOCALES.join(', ')}`);
+        }
+        if (!(SUMMARY_RENDER_FORMATS as readonly string[]).includes(resolvedFormat)) {
+            throw new Error(`Invalid render option: format must be one of ${SUMMARY_RENDER_FORMATS.join(', ')}`);
+        }
+
+        return { locale: resolvedLocale as SummaryLocale, format: resolvedFormat as SummaryRenderFormat };
+    }
+
+    render(data: ShipmentRequest, locale: SummaryLocale = 'ru', format: SummaryRenderFormat = 'text'): string {
+        const template = SUMMARY_RENDER_TEMPLATES[locale];
+        const blocks = this.buildBlocks(data, template);
+
+        switch (format) {
+            case 'markdown':
+                return this.toMarkdown(template.title, blocks);
+            case 'html':
+                return this.toHtml(template.title, blocks, template.intlLocale);
+            default:
+                return this.toText(template.title, blocks);
+        }
+    }
+
+    private buildBlocks(data: ShipmentRequest, template: SummaryRenderTemplate): RenderBlock[] {
+        const { labels } = template;
+        const details = data.shipment_details || [];
+        const blocks: RenderBlock[] = [];
+
+        if (data.name || details.length === 0) {
+            blocks.push({ heading: null, fields: [{ label: labels.name, value: data.name || template.notSpecified }] });
+        }
+
+        // Один маршрут выводится без заголовка, как в исходной текстовой сводке
+        details.forEach((detail, index) => {
+            blocks.push({
+                heading: details.length > 1 ? `${labels.route} ${index + 1}` : null,
+                fields: this.buildDetailFields(detail, template)
+            });
+        });
+
+        const summaryFields: RenderField[] = [];
+        const contentCount = details.reduce((count, detail) => count + (detail.contents?.length || 0), 0);
+        if (contentCount > 1) {
+            const totals = this.formatCargoMeasurements(this.measurementService.summarize(data), template);
+            if (totals) {
+                summaryFields.push({ label: labels.cargoTotals, value: totals });
+            }
+        }
+
+        const modes = (data.modes || [])
+            .filter(mode => mode.name && mode.name !== 'Unknown')
+            .map(mode => (mode.code && template.modes[mode.code]) || mode.name);
+        if (modes.length > 0) {
+            summaryFields.push({ label: labels.modes, value: modes.join(', ') });
+        }
+
+        if (data.order_status) {
+            summaryFields.push({ label: labels.orderStatus, value: template.orderStatuses[data.order_status] });
+        }
+
+        if (summaryFields.length > 0) {
+            if (details.length === 1) {
+                blocks[blocks.length - 1].fields.push(...summaryFields);
+            } else {
+                blocks.push({ heading: null, fields: summaryFields });
+            }
+        }
+
+        const forCarriers = data.for_carriers?.trim();
+        if (forCarriers && !CARRIER_PLACEHOLDERS.includes(forCarriers)) {
+            blocks.push({ heading: null, fields: [{ label: labels.forCarriers, value: forCarriers }] });
+        }
+
+        return blocks.filter(block => block.fields.length > 0);
+    }
+
+    private buildDetailFields(detail: ShipmentDetail, template: SummaryRenderTemplate): RenderField[] {
+        const { labels } = template;
+        const fields: RenderField[] = [];
+
+        const from = this.formatAddress(detail.address_from, template);
+        if (from) {
+            fields.push({ label: labels.from, value: from });
+        }
+
+        const dest = this.formatAddress(detail.address_dest, template);
+        if (dest) {
+            fields.push({ label: labels.dest, value: dest });
+        }
+
+        const shipping = this.formatDateRange(detail.shipping_date_from, detail.shipping_time_from, detail.shipping_date_to, detail.shipping_time_to, template);
+        if (shipping) {
+            fields.push({ label: labels.shippingDate, value: shipping });
+        }
+
+        const arrival = this.formatDateRange(detail.arrival_date_from, detail.arrival_time_from, detail.arrival_date_to, detail.arrival_time_to, template);
+        if (arrival) {
+            fields.push({ label: labels.arrivalDate, value: arrival });
+        }
+
+        const contents = (detail.contents || [])
+            .filter(content => content.name && content.name !== 'Unknown')
+            .map(content => this.formatContent(content, template));
+        if (contents.length > 0) {
+            fields.push({ label: labels.cargo, value: contents.join(', ') });
+        }
+
+        return fields;
+    }
+
+    private formatAddress(address: ShipmentAddress | null | undefined, template: SummaryRenderTemplate): string {
+        if (!address) {
+            return '';
+        }
+
+        const normalized = address.normalized ?? this.gazetteerService.normalizeAddress(address);
+        const city = template.gazetteerCityLocale && normalized.city
+            ? this.gazetteerService.getCityName(normalized.city, template.gazetteerCityLocale)
+            : address.city;
+        const country = normalized.country_code
+            ? this.getCountryName(normalized.country_code, template.intlLocale) ?? address.country
+            : address.country;
+
+        return [address.address, city, address.zipcode, country].filter(Boolean).join(', ');
+    }
+
+    // "15.03.2024 08:00 - 16.03.2024"; совпадающая дата окончания не повторяется
+    private formatDateRange(
+        dateFrom: string | null,
+        timeFrom: string | null,
+        dateTo: string | null,
+        timeTo: string | null,
+        template: SummaryRenderTemplate
+    ): string {
+        const start = this.formatDateTime(dateFrom, timeFrom, template);
+        if (!start) {
+            return this.formatDateTime(dateTo, timeTo, template);
+        }
+        if (dateTo && dateTo !== dateFrom) {
+            return `${start} - ${this.formatDateTime(dateTo, timeTo, template)}`;
+        }
+        return start;
+    }
+
+    private formatDateTime(date: string | null, time: string | null, template: SummaryRenderTemplate): string {
+        if (!date) {
+            return '';
+        }
+
+        const normalizedDate = this.validationService.normalizeDate(date);
+        let text = date;
+        if (normalizedDate) {
+            const [day, month, year] = normalizedDate.split('-').map(Number);
+            text = new Intl.DateTimeFormat(template.intlLocale, { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' })
+                .format(new Date(Date.UTC(year, month - 1, day)));
+        }
+
+        return time ? `${text} ${this.validationService.normalizeTime(time) ?? time}` : text;
+    }
+
+    private formatContent(content: ShipmentContent, template: SummaryRenderTemplate): string {
+        let text = content.name;
+        if (content.quantity && content.quantity > 0) {
+            text += ` x${content.quantity}`;
+        }
+        const measurements = this.formatCargoMeasurements(content, template);
+        return measurements ? `${text} (${measurements})` : text;
+    }
+
+    private formatCargoMeasurements(cargo: Partial<ShipmentContent>, template: SummaryRenderTemplate): string {
+        const { cargo: units } = template;
+        const parts: string[] = [];
+
+        if (cargo.gross_weight_kg) parts.push(units.grossWeight(cargo.gross_weight_kg));
+        if (cargo.volume_m3) parts.push(units.volume(cargo.volume_m3));
+        if (cargo.loading_meters) parts.push(units.loadingMeters(cargo.loading_meters));
+        if (cargo.pallet_count) parts.push(units.pallets(cargo.pallet_count));
+        if (cargo.package_type) parts.push(units.packageType(template.packageTypes[cargo.package_type] ?? cargo.package_type));
+        if (cargo.dimensions_cm) {
+            parts.push(units.dimensions(cargo.dimensions_cm.length_cm, cargo.dimensions_cm.width_cm, cargo.dimensions_cm.height_cm));
+        }
+
+        return parts.join(', ');
+    }
+
+    private getCountryName(code: string, intlLocale: string): string | null {
+        let displayNames = this.countryNames.get(intlLocale);
+        if (!displayNames) {
+            displayNames = new Intl.DisplayNames([intlLocale], { type: 'region' });
+            this.countryNames.set(intlLocale, displayNames);
+        }
+
+        try {
+            return displayNames.of(code) ?? null;
+        } catch {
+            return null;
+        }
+    }
+
+    private toText(title: string, blocks: RenderBlock[]): string {
+        const body = blocks.map(block => [
+            ...(block.heading ? [block.heading] : []),
+            ...block.fields.map(field => `${field.label}: ${field.value}`)
+        ].join('\n'));
+
+        return [title, ...body].join('\n\n');
+    }
+
+    private toMarkdown(title: string, blocks: RenderBlock[]): string {
+        const escape = (text: string) => text.replace(MARKDOWN_SPECIAL, '\\$&');
+        const body = blocks.map(block => [
+            ...(block.heading ? [`## ${escape(block.heading)}`, ''] : []),
+            // Два пробела в конце строки - перенос внутри значения
+            ...block.fields.map(field => `- **${escape(field.label)}:** ${escape(field.value).replace(/\r?\n/g, '  \n  ')}`)
+        ].join('\n'));
+
+        return [`# ${escape(title)}`, ...body].join('\n\n');
+    }
+
+    private toHtml(title: string, blocks: RenderBlock[], intlLocale: string): string {
+        const escape = (text: string) => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+        const body = blocks.map(block => [
+            '<section>',
+            ...(block.heading ? [`<h2>${escape(block.heading)}</h2>`] : []),
+            '<dl>',
+            ...block.fields.map(field => `<dt>${escape(field.label)}</dt><dd>${escape(field.value).replace(/\r?\n/g, '<br>')}</dd>`),
+            '</dl>',
+            '</section>'
+        ].join('\n'));
+
+        return [`<article lang="${intlLocale.split('-')[0]}">`, `<h1>${escape(title)}</h1>`, ...body, '</article>'].join('\n');
+    }
+}
@@ -1,5 +1,5 @@
 import { SummaryRepository } from '@/repositories';
-import { ISummary } from '@/models/summary';
+import { ISummary, SummaryAnalysisDetails } from '@/models/summary';
 import { logger } from '@/utils';
 
 export class SummaryService {
@@ -98,10 +98,11 @@ export class SummaryService {
         summaryId: string,
         shipmentData: any,
         summaryText: string,
-        status: 'pending' | 'approved' | 'rejected' | 'failed' = 'pending'
+        status: 'pending' | 'approved' | 'rejected' | 'failed' = 'pending',
+        details: SummaryAnalysisDetails = {}
     ): Promise<boolean> {
         try {
-            const result = await this.summaryRepository.updateSummaryAnalysis(summaryId, shipmentData, summaryText, status);
+            const result = await this.summaryRepository.updateSummaryAnalysis(summaryId, shipmentData, summaryText, status, details);
             logger.info(`Summary analysis updated: ${summaryId} with status: ${status}`);
             return result;
         } catch (error) {
@@ -169,4 +170,15 @@ export class SummaryService {
             throw error;
         }
     }
+
+    async deleteSummary(summaryId: string): Promise<boolean> {
+        try {
+            const result = await this.summaryRepository.deleteSummary(summaryId);
+            logger.info(`Summary deleted: ${summaryId}`);
+            return result;
+        } catch (error) {
+            logger.error('Error in deleteSummary:', error);
+            throw error;
+        }
+    }
 }
\ No newline at end of file
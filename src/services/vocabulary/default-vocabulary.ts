@@ -0,0 +1,162 @@
+import { CreateVocabularyTermInput } from '@/models/vocabulary';
+
+// Начальный словарь, создается при первом обращении; дальше пополняется через админку
+export const DEFAULT_VOCABULARY: CreateVocabularyTermInput[] = [
+    {
+        kind: 'transport_mode',
+        code: 'road_ftl',
+        label: 'Автоперевозка (полная загрузка)',
+        synonyms: [
+            'автоперевозка', 'автотранспорт', 'автомобильная перевозка', 'фура', 'мишина', 'машина', 'грузовик',
+            'тент', 'тентованный', 'рефрижератор', 'реф', 'изотерм', 'полная загрузка', 'отдельная машина',
+            'ftl', 'full truck load', 'truck', 'road', 'road freight', 'lorry',
+            'ciężarówka', 'transport drogowy', 'plandeka', 'chłodnia'
+        ]
+    },
+    {
+        kind: 'transport_mode',
+        code: 'road_ltl',
+        label: 'Автоперевозка (сборный груз)',
+        synonyms: [
+            'сборный груз', 'сборная перевозка', 'догруз', 'частичная загрузка', 'консолидация',
+            'ltl', 'less than truckload', 'groupage', 'part load',
+            'drobnica', 'ładunek częściowy'
+        ]
+    },
+    {
+        kind: 'transport_mode',
+        code: 'sea',
+        label: 'Морская перевозка',
+        synonyms: [
+            'морская перевозка', 'морем', 'корабль', 'судно', 'контейнеровоз', 'фрахт',
+            'sea', 'sea freight', 'ocean', 'ocean freight', 'vessel', 'ship',
+            'transport morski', 'statek'
+        ]
+    },
+    {
+        kind: 'transport_mode',
+        code: 'air',
+        label: 'Авиаперевозка',
+        synonyms: [
+            'авиаперевозка', 'авиа', 'авиатранспорт', 'самолет', 'авиадоставка',
+            'air', 'air freight', 'by air', 'airfreight', 'plane',
+            'transport lotniczy', 'samolot'
+        ]
+    },
+    {
+        kind: 'transport_mode',
+        code: 'rail',
+        label: 'Железнодорожная перевозка',
+        synonyms: [
+            'железнодорожная перевозка', 'жд', 'ж/д', 'поезд', 'вагон', 'железная дорога',
+            'rail', 'rail freight', 'train', 'railway',
+            'transport kolejowy', 'kolej', 'pociąg'
+        ]
+    },
+    {
+        kind: 'transport_mode',
+        code: 'multimodal',
+        label: 'Мультимодальная перевозка',
+        synonyms: [
+            'мультимодальная', 'мультимодальная перевозка', 'интермодальная', 'смешанная перевозка',
+            'multimodal', 'intermodal', 'combined transport',
+            'transport multimodalny', 'transport intermodalny'
+        ]
+    },
+    {
+        kind: 'cargo_category',
+        code: 'general_cargo',
+        label: 'Генеральный груз',
+        synonyms: ['генеральный груз', 'груз', 'товар', 'коробки', 'general cargo', 'goods', 'boxes', 'towar', 'kartony']
+    },
+    {
+        kind: 'cargo_category',
+        code: 'palletized',
+        label: 'Паллетированный груз',
+        synonyms: ['паллеты', 'палеты', 'поддоны', 'европаллеты', 'pallets', 'euro pallets', 'palety', 'europalety']
+    },
+    {
+        kind: 'cargo_category',
+        code: 'electronics',
+        label: 'Электроника и бытовая техника',
+        synonyms: [
+            'электроника', 'электронные компоненты', 'бытовая техника', 'компьютеры', 'телевизоры',
+            'electronics', 'electronic components', 'appliances', 'elektronika', 'agd'
+        ]
+    },
+    {
+        kind: 'cargo_category',
+        code: 'textiles',
+        label: 'Текстиль и одежда',
+        synonyms: [
+            'текстиль', 'текстильная продукция', 'одежда', 'пальто', 'платья', 'блузки', 'брюки', 'ткани', 'обувь',
+            'textiles', 'clothing', 'apparel', 'garments', 'shoes', 'odzież', 'tekstylia'
+        ]
+    },
+    {
+        kind: 'cargo_category',
+        code: 'food',
+        label: 'Продукты питания',
+        synonyms: [
+            'продукты', 'продукты питания', 'продовольствие', 'напитки', 'мясо', 'молочная продукция', 'овощи', 'фрукты',
+            'food', 'foodstuff', 'beverages', 'groceries', 'żywność', 'napoje'
+        ]
+    },
+    {
+        kind: 'cargo_category',
+        code: 'machinery',
+        label: 'Оборудование и станки',
+        synonyms: [
+            'оборудование', 'промышленное оборудование', 'станки', 'станок', 'машины и оборудование',
+            'machinery', 'equipment', 'industrial equipment', 'maszyny', 'urządzenia'
+        ]
+    },
+    {
+        kind: 'cargo_category',
+        code: 'auto_parts',
+        label: 'Автозапчасти',
+        synonyms: ['запчасти', 'автозапчасти', 'автокомпоненты', 'spare parts', 'auto parts', 'car parts', 'części zamienne']
+    },
+    {
+        kind: 'cargo_category',
+        code: 'building_materials',
+        label: 'Стройматериалы',
+        synonyms: [
+            'стройматериалы', 'строительные материалы', 'кирпич', 'цемент', 'плитка', 'утеплитель', 'пиломатериалы',
+            'building materials', 'construction materials', 'bricks', 'cement', 'lumber', 'materiały budowlane'
+        ]
+    },
+    {
+        kind: 'cargo_category',
+        code: 'metal_products',
+        label: 'Металлопродукция',
+        synonyms: [
+            'металлоконструкции', 'металлопрокат', 'металл', 'арматура', 'трубы', 'листовой металл',
+            'steel', 'metal products', 'steel structures', 'pipes', 'stal', 'konstrukcje stalowe'
+        ]
+    },
+    {
+        kind: 'cargo_category',
+        code: 'furniture',
+        label: 'Мебель',
+        synonyms: ['мебель', 'столы', 'стулья', 'шкафы', 'диваны', 'furniture', 'meble']
+    },
+    {
+        kind: 'cargo_category',
+        code: 'chemicals',
+        label: 'Химия',
+        synonyms: ['химия', 'химическая продукция', 'бытовая химия', 'краски', 'удобрения', 'chemicals', 'paints', 'fertilizers', 'chemia']
+    },
+    {
+        kind: 'cargo_category',
+        code: 'dangerous_goods',
+        label: 'Опасный груз (ADR)',
+        synonyms: ['опасный груз', 'дог', 'adr', 'dangerous goods', 'hazardous', 'hazmat', 'towary niebezpieczne']
+    },
+    {
+        kind: 'cargo_category',
+        code: 'vehicles',
+        label: 'Транспортные средства',
+        synonyms: ['автомобили', 'легковые автомобили', 'спецтехника', 'тракторы', 'vehicles', 'cars', 'samochody']
+    }
+];
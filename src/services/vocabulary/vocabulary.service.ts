@@ -0,0 +1,247 @@
+import { VocabularyRepository } from '@/repositories';
+import {
+    IVocabularyTerm,
+    IUnmappedValue,
+    VocabularyKind,
+    UnmappedValueStatus,
+    CreateVocabularyTermInput,
+    VOCABULARY_KINDS
+} from '@/models/vocabulary';
+import { ShipmentRequest } from '@/models/summary';
+import { logger } from '@/utils';
+import { DEFAULT_VOCABULARY } from './default-vocabulary';
+
+const CODE_PATTERN = /^[a-z][a-z0-9_]{1,47}$/;
+const MIN_STEM_LENGTH = 4;
+const MAX_ENDING_LENGTH = 2;
+// Контроллер и анализ работают с разными экземплярами сервиса, поэтому кэш живет недолго
+const TERMS_CACHE_TTL_MS = 60 * 1000;
+
+export class VocabularyService {
+    private termsCache: IVocabularyTerm[] | null = null;
+    private termsCachedAt = 0;
+
+    constructor(private vocabularyRepo: VocabularyRepository) {}
+
+    async ensureDefaultVocabulary(): Promise<void> {
+        if (await this.vocabularyRepo.countTerms() > 0) {
+            return;
+        }
+
+        await this.vocabularyRepo.createTerms(DEFAULT_VOCABULARY);
+        this.termsCache = null;
+        logger.info('Default vocabulary created');
+    }
+
+    async getTerms(kind?: string): Promise<IVocabularyTerm[]> {
+        if (kind !== undefined) {
+            this.assertKind(kind);
+        }
+
+        await this.ensureDefaultVocabulary();
+        return this.vocabularyRepo.getTerms(kind as VocabularyKind | undefined);
+    }
+
+    async createTerm(input: CreateVocabularyTermInput): Promise<IVocabularyTerm> {
+        this.assertKind(input.kind);
+
+        const code = typeof input.code === 'string' ? input.code.trim() : '';
+        if (!CODE_PATTERN.test(code)) {
+            throw new Error('Invalid vocabulary term: code must contain only lowercase letters, digits and underscores');
+        }
+        const label = typeof input.label === 'string' ? input.label.trim() : '';
+        if (!label) {
+            throw new Error('Invalid vocabulary term: label is required');
+        }
+
+        await this.ensureDefaultVocabulary();
+        if (await this.vocabularyRepo.getTermByCode(input.kind, code)) {
+            throw new Error(`Vocabulary term ${input.kind}/${code} already exists`);
+        }
+
+        const [term] = await this.vocabularyRepo.createTerms([{
+            kind: input.kind,
+            code,
+            label,
+            synonyms: this.cleanSynonyms(input.synonyms)
+        }]);
+        this.termsCache = null;
+        return term;
+    }
+
+    async addSynonyms(termId: number, synonyms: unknown): Promise<IVocabularyTerm> {
+        const newSynonyms = this.cleanSynonyms(synonyms);
+        if (newSynonyms.length === 0) {
+            throw new Error('Invalid vocabulary synonyms: at least one non-empty synonym is required');
+        }
+
+        const term = await this.vocabularyRepo.getTermById(termId);
+        if (!term) {
+            throw new Error(`Vocabulary term ${termId} not found`);
+        }
+
+        const existing = new Set(term.synonyms.map(synonym => this.normalizeText(synonym)));
+        const merged = [...term.synonyms, ...newSynonyms.filter(synonym => !existing.has(this.normalizeText(synonym)))];
+
+        const updatedTerm = await this.vocabularyRepo.updateSynonyms(termId, merged);
+        this.termsCache = null;
+        return updatedTerm!;
+    }
+
+    async listUnmapped(kind?: string, status?: string): Promise<IUnmappedValue[]> {
+        if (kind !== undefined) {
+            this.assertKind(kind);
+        }
+        if (status !== undefined && !['open', 'resolved', 'ignored'].includes(status)) {
+            throw new Error(`Invalid vocabulary filter: unknown status ${status}`);
+        }
+
+        return this.vocabularyRepo.getUnmappedValues({
+            kind: kind as VocabularyKind | undefined,
+            status: status as UnmappedValueStatus | undefined
+        });
+    }
+
+    // Разбор значения: оно становится синонимом выбранного термина и дальше сопоставляется автоматически
+    async resolveUnmapped(id: number, code: string): Promise<IUnmappedValue> {
+        const value = await this.getUnmappedValue(id);
+
+        const term = await this.vocabularyRepo.getTermByCode(value.kind, typeof code === 'string' ? code.trim() : '');
+        if (!term) {
+            throw new Error(`Vocabulary term ${value.kind}/${code} not found`);
+        }
+
+        await this.addSynonyms(term.id, [value.rawValue]);
+        return (await this.vocabularyRepo.updateUnmappedStatus(id, 'resolved', term.code))!;
+    }
+
+    async ignoreUnmapped(id: number): Promise<IUnmappedValue> {
+        await this.getUnmappedValue(id);
+        return (await this.vocabularyRepo.updateUnmappedStatus(id, 'ignored'))!;
+    }
+
+    // Проставляет коды видов перевозки и категорий груза; исходные названия не меняются
+    async normalizeShipment(data: ShipmentRequest, emailGroupId: string | null = null): Promise<ShipmentRequest> {
+        const terms = await this.loadTerms();
+        const unmapped: Array<{ kind: VocabularyKind; rawValue: string }> = [];
+
+        const resolve = (kind: VocabularyKind, rawValue: string | null | undefined): string | null => {
+            if (!rawValue || !rawValue.trim()) {
+                return null;
+            }
+            const term = this.matchTerm(terms.filter(t => t.kind === kind), rawValue);
+            if (!term) {
+                unmapped.push({ kind, rawValue: rawValue.trim() });
+            }
+            return term ? term.code : null;
+        };
+
+        const normalized: ShipmentRequest = {
+            ...data,
+            modes: (data.modes || []).map(mode => ({ ...mode, code: resolve('transport_mode', mode.name) })),
+            shipment_details: (data.shipment_details || []).map(detail => ({
+                ...detail,
+                contents: (detail.contents || []).map(content => ({
+                    ...content,
+                    category: resolve('cargo_category', content.name)
+                }))
+            }))
+        };
+
+        for (const item of unmapped) {
+            await this.vocabularyRepo.recordUnmappedValue(item.kind, this.normalizeText(item.rawValue), item.rawValue, emailGroupId);
+        }
+
+        return normalized;
+    }
+
+    matchTerm(terms: IVocabularyTerm[], rawValue: string): IVocabularyTerm | null {
+        const value = this.normalizeText(rawValue);
+        if (!value) {
+            return null;
+        }
+
+        const candidates = terms.flatMap(term =>
+            [term.code.replace(/_/g, ' '), term.label, ...term.synonyms]
+                .map(synonym => ({ term, synonym: this.normalizeText(synonym) }))
+                .filter(candidate => candidate.synonym.length > 0)
+        );
+
+        const exact = candidates.find(candidate => candidate.synonym === value);
+        if (exact) {
+            return exact.term;
+        }
+
+        // Синоним целым словом внутри значения; при нескольких совпадениях берется самый длинный
+        const contained = candidates
+            .filter(candidate => this.containsPhrase(value, candidate.synonym))
+            .sort((a, b) => b.synonym.length - a.synonym.length)[0];
+        if (contained) {
+            return contained.term;
+        }
+
+        // Падежные формы: однословный синоним и слово значения расходятся только окончанием
+        const words = value.split(' ');
+        const inflected = candidates.find(candidate =>
+            !candidate.synonym.includes(' ') && words.some(word => this.sharesStem(word, candidate.synonym))
+        );
+
+        return inflected ? inflected.term : null;
+    }
+
+    private async loadTerms(): Promise<IVocabularyTerm[]> {
+        if (!this.termsCache || Date.now() - this.termsCachedAt > TERMS_CACHE_TTL_MS) {
+            await this.ensureDefaultVocabulary();
+            this.termsCache = await this.vocabularyRepo.getTerms();
+            this.termsCachedAt = Date.now();
+        }
+        return this.termsCache;
+    }
+
+    private async getUnmappedValue(id: number): Promise<IUnmappedValue> {
+        const value = await this.vocabularyRepo.getUnmappedValueById(id);
+        if (!value) {
+            throw new Error(`Unmapped vocabulary value ${id} not found`);
+        }
+        return value;
+    }
+
+    private assertKind(kind: unknown): asserts kind is VocabularyKind {
+        if (!VOCABULARY_KINDS.includes(kind as VocabularyKind)) {
+            throw new Error(`Invalid vocabulary kind: expected one of ${VOCABULARY_KINDS.join(', ')}`);
+        }
+    }
+
+    private cleanSynonyms(synonyms: unknown): string[] {
+        if (!Array.isArray(synonyms)) {
+            return [];
+        }
+        return synonyms
+            .filter((synonym): synonym is string => typeof synonym === 'string')
+            .map(synonym => synonym.trim())
+            .filter(synonym => synonym.length > 0);
+    }
+
+    private containsPhrase(value: string, phrase: string): boolean {
+        return ` ${value} `.includes(` ${phrase} `);
+    }
+
+    private sharesStem(word: string, synonym: string): boolean {
+        let prefixLength = 0;
+        while (prefixLength < word.length && word[prefixLength] === synonym[prefixLength]) {
+            prefixLength++;
+        }
+        return prefixLength > MIN_STEM_LENGTH
+            && prefixLength >= Math.min(word.length, synonym.length) - MAX_ENDING_LENGTH;
+    }
+
+    // Регистр, ё и пунктуация не влияют на сопоставление; "/" сохраняется ради "ж/д"
+    private normalizeText(text: string): string {
+        return text
+            .toLowerCase()
+            .replace(/ё/g, 'е')
+            .replace(/[^\p{L}\p{N}/]+/gu, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+}
@@ -1,12 +1,14 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { logger } from '@/utils';
 import { IEmailGroup } from '@/models/email-group';
-import { ShipmentRequest } from '@/models/summary';
+import { ShipmentRequest, SummaryAmendmentEvent } from '@/models/summary';
+import { CargoMeasurementService } from '../ai/cargo-measurement.service';
 
 export class WebSocketService {
     private static instance: WebSocketService | null = null;
     private wss: WebSocketServer | null = null;
     private clients: Set<WebSocket> = new Set();
+    private measurementService = new CargoMeasurementService();
 
     private constructor() {}
 
@@ -63,6 +65,8 @@ export class WebSocketService {
             const message = JSON.stringify({
                 type: 'approved_summary',
                 data: {
+                    order_status: emailGroup.orderStatus || null,
+                    cargo_totals: this.measurementService.summarize(shipmentData),
                     shipment_data: shipmentData
                 }
             });
@@ -90,6 +94,40 @@ export class WebSocketService {
         }
     }
 
+    public sendSummaryAmendment(event: SummaryAmendmentEvent): void {
+        if (!this.wss || this.clients.size === 0) {
+            return;
+        }
+
+        try {
+            const message = JSON.stringify({
+                type: event.type,
+                data: event
+            });
+
+            const deadClients: WebSocket[] = [];
+
+            this.clients.forEach((client) => {
+                if (client.readyState === WebSocket.OPEN) {
+                    try {
+                        client.send(message);
+                    } catch (error) {
+                        logger.error('Error sending WebSocket message:', error);
+                        deadClients.push(client);
+                    }
+                } else {
+                    deadClients.push(client);
+                }
+            });
+
+            deadClients.forEach(client => this.clients.delete(client));
+
+            logger.info(`Sent ${event.type} event for ${event.emailGroupId} to ${this.clients.size} clients`);
+        } catch (error) {
+            logger.error('Error in sendSummaryAmendment:', error);
+        }
+    }
+
     public getConnectedClientsCount(): number {
         return this.clients.size;
     }
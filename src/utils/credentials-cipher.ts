@@ -0,0 +1,47 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+// Шифрует пароли почтовых ящиков перед записью в базу; ключ задается в CREDENTIALS_ENCRYPTION_KEY
+export class CredentialsCipher {
+    private static readonly SECRET = process.env.CREDENTIALS_ENCRYPTION_KEY;
+
+    static isConfigured(): boolean {
+        return !!this.SECRET;
+    }
+
+    // Формат: v1:iv:authTag:ciphertext, части в base64
+    static encrypt(plainText: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv(ALGORITHM, this.getKey(), iv);
+        const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+
+        return [FORMAT_VERSION, iv, cipher.getAuthTag(), encrypted]
+            .map(part => typeof part === 'string' ? part : part.toString('base64'))
+            .join(':');
+    }
+
+    static decrypt(payload: string): string {
+        const [version, iv, authTag, encrypted] = payload.split(':');
+        if (version !== FORMAT_VERSION || !iv || !authTag || encrypted === undefined) {
+            throw new Error('Invalid encrypted credentials format');
+        }
+
+        try {
+            const decipher = createDecipheriv(ALGORITHM, this.getKey(), Buffer.from(iv, 'base64'));
+            decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+            return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+        } catch {
+            // Обычно это значит, что ключ сменили после сохранения пароля
+            throw new Error('Invalid encrypted credentials: cannot decrypt with the configured key');
+        }
+    }
+
+    private static getKey(): Buffer {
+        if (!this.SECRET) {
+            throw new Error('CREDENTIALS_ENCRYPTION_KEY not configured');
+        }
+        return createHash('sha256').update(this.SECRET).digest();
+    }
+}
@@ -4,4 +4,5 @@ export * from './email-group-id.ts';
 export * from './logger';
 export * from './email-utils';
 export * from './oauth-token-handler';
-export * from './user-info';
\ No newline at end of file
+export * from './user-info';
+export * from './credentials-cipher';
\ No newline at end of file
@@ -21,7 +21,7 @@ export class OAuthTokenHandler {
     }
 
     private createTokenParams(code: string, providerConfig: any): URLSearchParams {
-        if (providerConfig.tokenUrl.includes('mail.ru')) {
+        if (providerConfig.id === 'mailru') {
             return this.createMailRuTokenParams(code, providerConfig);
         } else {
             return this.createStandardTokenParams(code, providerConfig);
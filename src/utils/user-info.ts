@@ -1,7 +1,11 @@
 import { logger } from './logger';
 
 export class UserInfo {
-    async getUserInfo(accessToken: string, providerConfig: any): Promise<{ email: string }> {
+    async getUserInfo(accessToken: string, providerConfig: any, idToken?: string): Promise<{ email: string }> {
+        if (providerConfig.userInfoSource === 'id_token') {
+            return { email: this.extractEmailFromIdToken(idToken) };
+        }
+
         if (!providerConfig.userInfoUrl) {
             throw new Error('User info URL not configured for this provider');
         }
@@ -17,8 +21,8 @@ export class UserInfo {
 
         const userInfo = await response.json();
         logger.debug('User info response:', userInfo);
-        
-        const email = this.extractEmail(userInfo, providerConfig);
+
+        const email = userInfo.email;
         logger.debug('Extracted email:', email);
 
         if (!email) {
@@ -35,22 +39,37 @@ export class UserInfo {
             'Content-Type': 'application/json'
         };
 
-        if (providerConfig.userInfoUrl.includes('mail.ru')) {
+        if (providerConfig.id === 'mailru') {
             userInfoUrl += `?access_token=${accessToken}`;
-        } else if (
-            providerConfig.userInfoUrl.includes('google')
-        ) {
+        } else {
             headers['Authorization'] = `Bearer ${accessToken}`;
         }
 
         return { url: userInfoUrl, headers };
     }
 
-    private extractEmail(userInfo: any, providerConfig: any): string | undefined {
-        if (providerConfig.userInfoUrl.includes('google')) {
-            return userInfo.email;
-        } else if (providerConfig.userInfoUrl.includes('mail.ru')) {
-            return userInfo.email;
+    // id_token получен напрямую от token endpoint по TLS, поэтому подпись не проверяется
+    private extractEmailFromIdToken(idToken?: string): string {
+        if (!idToken) {
+            throw new Error('Could not retrieve email: OAuth provider returned no id_token');
+        }
+
+        let claims: Record<string, unknown>;
+        try {
+            claims = JSON.parse(Buffer.from(idToken.split('.')[1] || '', 'base64url').toString('utf-8'));
+        } catch (error) {
+            logger.error('Failed to decode id_token:', error);
+            throw new Error('Could not retrieve email from id_token');
         }
+
+        // У рабочих учетных записей Microsoft claim email бывает пустым - тогда адрес в preferred_username
+        const email = [claims.email, claims.preferred_username, claims.upn]
+            .find((value): value is string => typeof value === 'string' && value.includes('@'));
+        if (!email) {
+            logger.error('No email found in id_token claims:', Object.keys(claims));
+            throw new Error('Could not retrieve email from id_token');
+        }
+
+        return email.toLowerCase();
     }
-}
\ No newline at end of file
+}